@@ -0,0 +1,83 @@
+import { useMemo, useState } from "react";
+import { diffArticleUnits, extractArticleDiffUnits, summarizeArticleDiff, type ArticleDiffEntry } from "~/lib/article-diff";
+import { cn } from "~/lib/utils";
+import type { ArticleVersionSummary } from "./types";
+
+interface ArticleVersionDiffProps {
+  base: ArticleVersionSummary;
+  target: ArticleVersionSummary;
+}
+
+function DiffCell({ entry, side }: { entry: ArticleDiffEntry | null; side: "base" | "target" }) {
+  if (!entry) return <div className="rounded-lg border border-dashed border-slate-200 bg-slate-50/60" />;
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border px-3 py-2 text-sm",
+        entry.change === "unchanged" && "border-slate-200 bg-white text-slate-600",
+        entry.change === "removed" && side === "base" && "border-rose-300 bg-rose-50 text-rose-900",
+        entry.change === "added" && side === "target" && "border-emerald-300 bg-emerald-50 text-emerald-900"
+      )}
+    >
+      <p className="text-[10px] font-semibold uppercase tracking-wide opacity-70">{entry.kind}</p>
+      <p className={cn("whitespace-pre-line", entry.kind === "heading" && "font-semibold")}>{entry.text}</p>
+    </div>
+  );
+}
+
+export function ArticleVersionDiff({ base, target }: ArticleVersionDiffProps) {
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  const entries = useMemo(
+    () =>
+      diffArticleUnits(
+        extractArticleDiffUnits(base.modular_document),
+        extractArticleDiffUnits(target.modular_document)
+      ),
+    [base, target]
+  );
+  const summary = summarizeArticleDiff(entries);
+  const visibleEntries = changesOnly ? entries.filter((entry) => entry.change !== "unchanged") : entries;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-600">
+          <span className="font-semibold text-slate-900">v{base.version_number}</span> →{" "}
+          <span className="font-semibold text-slate-900">v{target.version_number}</span>:{" "}
+          <span className="font-semibold text-emerald-700">{summary.added} added</span>,{" "}
+          <span className="font-semibold text-rose-700">{summary.removed} removed</span>, {summary.unchanged} unchanged
+        </p>
+        <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+          <input
+            type="checkbox"
+            checked={changesOnly}
+            onChange={(event) => setChangesOnly(event.target.checked)}
+            className="h-4 w-4 accent-[#2f6f71]"
+          />
+          Changes only
+        </label>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+          {entries.length === 0 ? "Neither version has any content blocks." : "No block-level differences."}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            <span>v{base.version_number}</span>
+            <span>v{target.version_number}</span>
+          </div>
+          {visibleEntries.map((entry, index) => (
+            <div key={`${entry.change}-${index}`} className="grid grid-cols-2 gap-2">
+              <DiffCell entry={entry.change === "added" ? null : entry} side="base" />
+              <DiffCell entry={entry.change === "removed" ? null : entry} side="target" />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { Form, Link } from "react-router";
+import { GitCompare } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Select } from "~/components/ui/select";
+import { formatDateTime, formatStatusLabel } from "~/lib/dashboard";
+import { cn } from "~/lib/utils";
+import type { ArticleVersionSelection, ArticleVersionSummary } from "./types";
+
+interface ArticleVersionHistoryProps {
+  /** The versions on the current history page. */
+  versions: ArticleVersionSummary[];
+  currentVersion: number;
+  selection: ArticleVersionSelection;
+  hrefFor: (selection: ArticleVersionSelection) => string;
+  page: number;
+  pageCount: number;
+  pageHref: (page: number) => string;
+}
+
+export function ArticleVersionHistory({
+  versions,
+  currentVersion,
+  selection,
+  hrefFor,
+  page,
+  pageCount,
+  pageHref,
+}: ArticleVersionHistoryProps) {
+  const newestFirst = [...versions].sort((a, b) => b.version_number - a.version_number);
+  // Every version number up to the current one exists, so the diff pickers span all pages, not just this one.
+  const allVersionNumbers = Array.from({ length: currentVersion }, (_, index) => currentVersion - index);
+  const viewedVersion = selection.version ?? currentVersion;
+  const defaultCompare = selection.compare ?? (viewedVersion > 1 ? viewedVersion - 1 : undefined);
+
+  return (
+    <div className="space-y-4">
+      {currentVersion > 1 ? (
+        <Form method="get" className="flex flex-wrap items-end gap-2 rounded-xl border border-slate-200 bg-slate-50 p-3">
+          <input type="hidden" name="view" value="versions" />
+          {page > 1 ? <input type="hidden" name="history_page" value={page} /> : null}
+          <label className="space-y-1 text-xs font-semibold text-slate-600">
+            <span>Compare</span>
+            <Select name="compare" defaultValue={defaultCompare ? String(defaultCompare) : undefined} className="w-28">
+              {allVersionNumbers.map((versionNumber) => (
+                <option key={versionNumber} value={versionNumber}>
+                  v{versionNumber}
+                </option>
+              ))}
+            </Select>
+          </label>
+          <label className="space-y-1 text-xs font-semibold text-slate-600">
+            <span>against</span>
+            <Select name="version" defaultValue={String(viewedVersion)} className="w-28">
+              {allVersionNumbers.map((versionNumber) => (
+                <option key={versionNumber} value={versionNumber}>
+                  v{versionNumber}
+                </option>
+              ))}
+            </Select>
+          </label>
+          <Button type="submit" size="sm" variant="outline">
+            <GitCompare className="mr-2 h-3.5 w-3.5" />
+            Show diff
+          </Button>
+          {selection.compare !== null ? (
+            <Link to={hrefFor({ version: selection.version, compare: null })} className="text-xs font-semibold text-slate-500 underline">
+              Hide diff
+            </Link>
+          ) : null}
+        </Form>
+      ) : null}
+
+      <ol className="space-y-2">
+        {newestFirst.map((version) => {
+          const isViewed = version.version_number === viewedVersion;
+          const isCurrent = version.version_number === currentVersion;
+
+          return (
+            <li
+              key={version.id}
+              className={cn(
+                "rounded-xl border px-3 py-2 text-sm",
+                isViewed ? "border-[#2f6f71] bg-teal-50" : "border-slate-200 bg-white"
+              )}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex min-w-0 flex-wrap items-center gap-2">
+                  <span className="font-semibold text-slate-900">v{version.version_number}</span>
+                  {isCurrent ? <Badge variant="success">Current</Badge> : null}
+                  {version.created_by_regeneration ? <Badge variant="info">Regenerated</Badge> : null}
+                  <span className="text-xs text-slate-500">{formatStatusLabel(version.status)}</span>
+                  <span className="text-xs text-slate-500">{formatDateTime(version.created_at)}</span>
+                </div>
+                {isViewed ? (
+                  <span className="text-xs font-semibold text-[#1e5052]">Viewing</span>
+                ) : (
+                  <Link
+                    to={hrefFor({ version: isCurrent ? null : version.version_number, compare: null })}
+                    className="text-xs font-semibold text-[#2f6f71] underline"
+                  >
+                    View
+                  </Link>
+                )}
+              </div>
+              <p className="mt-1 truncate text-slate-700">{version.title}</p>
+              {version.change_reason ? (
+                <p className="mt-1 text-xs text-slate-600">Reason: {version.change_reason}</p>
+              ) : null}
+              {version.generation_model ? (
+                <p className="mt-1 text-xs text-slate-400">
+                  {version.generation_model}
+                  {version.generation_temperature !== null ? ` · temperature ${version.generation_temperature}` : ""}
+                </p>
+              ) : null}
+            </li>
+          );
+        })}
+      </ol>
+
+      {pageCount > 1 ? (
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-600">
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <div className="flex items-center gap-2">
+            {page > 1 ? (
+              <Link to={pageHref(page - 1)} className="font-semibold text-[#2f6f71] underline">
+                Newer versions
+              </Link>
+            ) : null}
+            {page < pageCount ? (
+              <Link to={pageHref(page + 1)} className="font-semibold text-[#2f6f71] underline">
+                Older versions
+              </Link>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { ArticleVersionDiff } from "./article-version-diff";
+export { ArticleVersionHistory } from "./article-version-history";
+
+export type { ArticleVersionSelection, ArticleVersionSummary } from "./types";
@@ -0,0 +1,11 @@
+import type { components } from "~/types/api.generated";
+
+type ContentArticleVersionResponse = components["schemas"]["ContentArticleVersionResponse"];
+
+// rendered_html is dropped in the loader; the dashboard only renders modular_document.
+export type ArticleVersionSummary = Omit<ContentArticleVersionResponse, "rendered_html">;
+
+export type ArticleVersionSelection = {
+  version: number | null;
+  compare: number | null;
+};
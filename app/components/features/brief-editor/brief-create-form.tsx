@@ -0,0 +1,193 @@
+import { useId, useState, type FormEvent } from "react";
+import { Plus, RefreshCw } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  hasBriefFormErrors,
+  validateBriefCreateForm,
+  type BriefCreateValues,
+  type BriefFormErrors,
+} from "~/lib/brief-form";
+import { StringListEditor } from "./string-list-editor";
+
+interface BriefCreateFormProps {
+  initialValues: BriefCreateValues;
+  /** Offered as suggestions for the primary keyword, usually the topic's member keywords. */
+  keywordSuggestions?: string[];
+  /** Offered as one-click additions to the supporting keywords. */
+  supportingKeywordSuggestions?: string[];
+  /** Non-blocking notes about the chosen publication date, such as a week that is already full. */
+  findDateWarnings?: (dateKey: string) => string[];
+  onSubmit: (values: BriefCreateValues) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+  serverError?: string;
+  serverFieldErrors?: BriefFormErrors;
+}
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-xs font-semibold text-rose-700">{message}</p> : null;
+}
+
+export function BriefCreateForm({
+  initialValues,
+  keywordSuggestions = [],
+  supportingKeywordSuggestions = [],
+  findDateWarnings,
+  onSubmit,
+  onCancel,
+  isSaving = false,
+  serverError,
+  serverFieldErrors,
+}: BriefCreateFormProps) {
+  const [values, setValues] = useState<BriefCreateValues>(initialValues);
+  const [showErrors, setShowErrors] = useState(false);
+  const suggestionListId = useId();
+
+  const clientErrors = validateBriefCreateForm(values);
+  // Same as the edit form: the word-count range is checked live, other errors wait for the first submit.
+  const errors: BriefFormErrors = {
+    ...serverFieldErrors,
+    ...(showErrors ? clientErrors : { wordCountMax: clientErrors.wordCountMax }),
+  };
+
+  const update = <K extends keyof BriefCreateValues>(key: K, value: BriefCreateValues[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const chosenKeywords = new Set(
+    [values.primaryKeyword, ...values.supportingKeywords].map((keyword) => keyword.trim().toLowerCase())
+  );
+  const openSuggestions = supportingKeywordSuggestions.filter(
+    (keyword) => !chosenKeywords.has(keyword.trim().toLowerCase())
+  );
+  const dateWarnings =
+    findDateWarnings && values.proposedPublicationDate && !errors.proposedPublicationDate
+      ? findDateWarnings(values.proposedPublicationDate)
+      : [];
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setShowErrors(true);
+    if (hasBriefFormErrors(clientErrors)) return;
+    onSubmit(values);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      {serverError ? (
+        <div className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+          {serverError}
+        </div>
+      ) : null}
+
+      <label className="grid gap-1 text-sm font-semibold text-slate-700">
+        Primary keyword
+        <input
+          type="text"
+          list={suggestionListId}
+          value={values.primaryKeyword}
+          onChange={(event) => update("primaryKeyword", event.target.value)}
+          className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+        />
+        <datalist id={suggestionListId}>
+          {keywordSuggestions.map((keyword) => (
+            <option key={keyword} value={keyword} />
+          ))}
+        </datalist>
+        <FieldError message={errors.primaryKeyword} />
+      </label>
+
+      <StringListEditor
+        label="Working titles"
+        values={values.workingTitles}
+        onChange={(workingTitles) => update("workingTitles", workingTitles)}
+        addLabel="Add title"
+        error={errors.workingTitles}
+      />
+
+      <div className="space-y-2">
+        <StringListEditor
+          label="Supporting keywords"
+          values={values.supportingKeywords}
+          onChange={(supportingKeywords) => update("supportingKeywords", supportingKeywords)}
+          addLabel="Add keyword"
+        />
+        {openSuggestions.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs font-semibold text-slate-500">Suggested from the topic:</span>
+            {openSuggestions.map((keyword) => (
+              <button
+                key={keyword}
+                type="button"
+                onClick={() => update("supportingKeywords", [...values.supportingKeywords, keyword])}
+                className="inline-flex items-center gap-1 rounded-full border border-slate-300 bg-white px-2 py-0.5 text-xs font-semibold text-slate-700 hover:border-[#2f6f71] hover:text-[#2f6f71]"
+              >
+                <Plus className="h-3 w-3" />
+                {keyword}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      <label className="grid gap-1 text-sm font-semibold text-slate-700">
+        Publication date
+        <input
+          type="date"
+          value={values.proposedPublicationDate}
+          onChange={(event) => update("proposedPublicationDate", event.target.value)}
+          className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal md:w-56"
+        />
+        <FieldError message={errors.proposedPublicationDate} />
+        {dateWarnings.map((warning) => (
+          <p key={warning} className="text-xs font-semibold text-amber-700">
+            {warning}
+          </p>
+        ))}
+      </label>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="grid gap-1 text-sm font-semibold text-slate-700">
+          Min word count
+          <input
+            type="number"
+            min={1}
+            inputMode="numeric"
+            value={values.wordCountMin}
+            onChange={(event) => update("wordCountMin", event.target.value)}
+            className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+          />
+          <FieldError message={errors.wordCountMin} />
+        </label>
+        <label className="grid gap-1 text-sm font-semibold text-slate-700">
+          Max word count
+          <input
+            type="number"
+            min={1}
+            inputMode="numeric"
+            value={values.wordCountMax}
+            onChange={(event) => update("wordCountMax", event.target.value)}
+            className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+          />
+          <FieldError message={errors.wordCountMax} />
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2 border-t border-slate-200 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="mr-2 h-3.5 w-3.5 animate-spin" />
+              Creating...
+            </>
+          ) : (
+            "Create brief"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, type FormEvent } from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Select } from "~/components/ui/select";
+import { formatStatusLabel } from "~/lib/dashboard";
+import {
+  BRIEF_STATUSES,
+  hasBriefFormErrors,
+  isBriefStatus,
+  validateBriefForm,
+  type BriefFormErrors,
+  type BriefFormValues,
+} from "~/lib/brief-form";
+import { BriefOutlineEditor } from "./brief-outline-editor";
+import { StringListEditor } from "./string-list-editor";
+
+interface BriefEditFormProps {
+  initialValues: BriefFormValues;
+  onSubmit: (values: BriefFormValues) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+  serverError?: string;
+  serverFieldErrors?: BriefFormErrors;
+}
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-xs font-semibold text-rose-700">{message}</p> : null;
+}
+
+export function BriefEditForm({
+  initialValues,
+  onSubmit,
+  onCancel,
+  isSaving = false,
+  serverError,
+  serverFieldErrors,
+}: BriefEditFormProps) {
+  const [values, setValues] = useState<BriefFormValues>(initialValues);
+  const [showErrors, setShowErrors] = useState(false);
+
+  const clientErrors = validateBriefForm(values, initialValues.status);
+  // The word-count range is checked live; other errors wait for the first save attempt.
+  const errors: BriefFormErrors = {
+    ...serverFieldErrors,
+    ...(showErrors ? clientErrors : { wordCountMax: clientErrors.wordCountMax }),
+  };
+
+  const update = <K extends keyof BriefFormValues>(key: K, value: BriefFormValues[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setShowErrors(true);
+    if (hasBriefFormErrors(clientErrors)) return;
+    onSubmit(values);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      {serverError ? (
+        <div className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+          {serverError}
+        </div>
+      ) : null}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="grid gap-1 text-sm font-semibold text-slate-700">
+          Primary keyword
+          <input
+            type="text"
+            value={values.primaryKeyword}
+            onChange={(event) => update("primaryKeyword", event.target.value)}
+            className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+          />
+          <FieldError message={errors.primaryKeyword} />
+        </label>
+        <label className="grid gap-1 text-sm font-semibold text-slate-700">
+          Status
+          <Select value={values.status} onChange={(event) => update("status", event.target.value)}>
+            {/* A stored status outside the offered list stays selectable, so the brief can be saved unchanged. */}
+            {initialValues.status && !isBriefStatus(initialValues.status) ? (
+              <option value={initialValues.status}>
+                {formatStatusLabel(initialValues.status)}
+              </option>
+            ) : null}
+            {BRIEF_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {formatStatusLabel(status)}
+              </option>
+            ))}
+          </Select>
+          <FieldError message={errors.status} />
+        </label>
+        <label className="grid gap-1 text-sm font-semibold text-slate-700">
+          Min word count
+          <input
+            type="number"
+            min={1}
+            inputMode="numeric"
+            value={values.wordCountMin}
+            onChange={(event) => update("wordCountMin", event.target.value)}
+            className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+          />
+          <FieldError message={errors.wordCountMin} />
+        </label>
+        <label className="grid gap-1 text-sm font-semibold text-slate-700">
+          Max word count
+          <input
+            type="number"
+            min={1}
+            inputMode="numeric"
+            value={values.wordCountMax}
+            onChange={(event) => update("wordCountMax", event.target.value)}
+            className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+          />
+          <FieldError message={errors.wordCountMax} />
+        </label>
+        <label className="grid gap-1 text-sm font-semibold text-slate-700">
+          Proposed publication date
+          <input
+            type="date"
+            value={values.proposedPublicationDate}
+            onChange={(event) => update("proposedPublicationDate", event.target.value)}
+            className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+          />
+          <FieldError message={errors.proposedPublicationDate} />
+        </label>
+      </div>
+
+      <StringListEditor
+        label="Working titles"
+        values={values.workingTitles}
+        onChange={(workingTitles) => update("workingTitles", workingTitles)}
+        addLabel="Add title"
+        error={errors.workingTitles}
+      />
+
+      <BriefOutlineEditor
+        sections={values.outline}
+        onChange={(outline) => update("outline", outline)}
+        error={errors.outline}
+      />
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <StringListEditor
+          label="FAQ questions"
+          values={values.faqQuestions}
+          onChange={(faqQuestions) => update("faqQuestions", faqQuestions)}
+          addLabel="Add question"
+          error={errors.faqQuestions}
+        />
+        <StringListEditor
+          label="Supporting keywords"
+          values={values.supportingKeywords}
+          onChange={(supportingKeywords) => update("supportingKeywords", supportingKeywords)}
+          addLabel="Add keyword"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2 border-t border-slate-200 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="mr-2 h-3.5 w-3.5 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save brief"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,126 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Select } from "~/components/ui/select";
+import { OUTLINE_HEADING_LEVELS, createEmptyOutlineSection, type BriefOutlineSectionDraft } from "~/lib/brief-form";
+import { cn } from "~/lib/utils";
+import { StringListEditor } from "./string-list-editor";
+
+interface BriefOutlineEditorProps {
+  sections: BriefOutlineSectionDraft[];
+  onChange: (sections: BriefOutlineSectionDraft[]) => void;
+  error?: string;
+}
+
+export function BriefOutlineEditor({ sections, onChange, error }: BriefOutlineEditorProps) {
+  const updateSection = (index: number, patch: Partial<BriefOutlineSectionDraft>) => {
+    onChange(sections.map((section, currentIndex) => (currentIndex === index ? { ...section, ...patch } : section)));
+  };
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+    const next = [...sections];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="text-sm font-semibold text-slate-700">Outline</legend>
+      {sections.length === 0 ? (
+        <p className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-500">
+          No outline sections yet.
+        </p>
+      ) : null}
+      {sections.map((section, index) => (
+        <div
+          key={index}
+          className={cn(
+            "space-y-3 rounded-xl border border-slate-200 bg-white p-3",
+            section.level === 3 && "ml-4",
+            section.level === 4 && "ml-8"
+          )}
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={section.level}
+              aria-label={`Section ${index + 1} level`}
+              onChange={(event) => updateSection(index, { level: Number(event.target.value) })}
+              className="h-9 w-20"
+            >
+              {OUTLINE_HEADING_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  H{level}
+                </option>
+              ))}
+            </Select>
+            <input
+              type="text"
+              value={section.heading}
+              placeholder="Section heading"
+              aria-label={`Section ${index + 1} heading`}
+              onChange={(event) => updateSection(index, { heading: event.target.value })}
+              className="h-9 min-w-0 flex-1 rounded-xl border border-slate-300 px-3 text-sm font-semibold"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Move section up"
+              disabled={index === 0}
+              onClick={() => moveSection(index, -1)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Move section down"
+              disabled={index === sections.length - 1}
+              onClick={() => moveSection(index, 1)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove section"
+              onClick={() => onChange(sections.filter((_, currentIndex) => currentIndex !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <input
+            type="text"
+            value={section.purpose}
+            placeholder="Purpose of this section (optional)"
+            aria-label={`Section ${index + 1} purpose`}
+            onChange={(event) => updateSection(index, { purpose: event.target.value })}
+            className="h-9 w-full rounded-xl border border-slate-300 px-3 text-sm"
+          />
+          <div className="grid gap-3 md:grid-cols-2">
+            <StringListEditor
+              label="Key points"
+              values={section.keyPoints}
+              onChange={(keyPoints) => updateSection(index, { keyPoints })}
+              addLabel="Add key point"
+            />
+            <StringListEditor
+              label="Supporting keywords"
+              values={section.supportingKeywords}
+              onChange={(supportingKeywords) => updateSection(index, { supportingKeywords })}
+              addLabel="Add keyword"
+            />
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...sections, createEmptyOutlineSection()])}>
+        <Plus className="mr-1 h-3.5 w-3.5" />
+        Add section
+      </Button>
+      {error ? <p className="text-xs font-semibold text-rose-700">{error}</p> : null}
+    </fieldset>
+  );
+}
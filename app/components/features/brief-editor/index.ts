@@ -0,0 +1,4 @@
+export { BriefCreateForm } from "./brief-create-form";
+export { BriefEditForm } from "./brief-edit-form";
+export { BriefOutlineEditor } from "./brief-outline-editor";
+export { StringListEditor } from "./string-list-editor";
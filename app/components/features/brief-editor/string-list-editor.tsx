@@ -0,0 +1,49 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+
+interface StringListEditorProps {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder?: string;
+  addLabel?: string;
+  error?: string;
+}
+
+export function StringListEditor({ label, values, onChange, placeholder, addLabel = "Add", error }: StringListEditorProps) {
+  const updateAt = (index: number, value: string) => {
+    onChange(values.map((current, currentIndex) => (currentIndex === index ? value : current)));
+  };
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-semibold text-slate-700">{label}</legend>
+      {values.map((value, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={value}
+            placeholder={placeholder}
+            aria-label={`${label} ${index + 1}`}
+            onChange={(event) => updateAt(index, event.target.value)}
+            className="h-9 min-w-0 flex-1 rounded-xl border border-slate-300 px-3 text-sm"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label={`Remove ${label.toLowerCase()} ${index + 1}`}
+            onClick={() => onChange(values.filter((_, currentIndex) => currentIndex !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="ghost" size="sm" onClick={() => onChange([...values, ""])}>
+        <Plus className="mr-1 h-3.5 w-3.5" />
+        {addLabel}
+      </Button>
+      {error ? <p className="text-xs font-semibold text-rose-700">{error}</p> : null}
+    </fieldset>
+  );
+}
@@ -0,0 +1,2 @@
+export { NewContentRunDialog } from "./new-content-run-dialog";
+export { SchedulePreviewCalendar } from "./schedule-preview-calendar";
@@ -0,0 +1,328 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { useFetcher } from "react-router";
+import { StepRangePanel } from "~/components/features/pipeline-step-range";
+import { Button } from "~/components/ui/button";
+import { Dialog } from "~/components/ui/dialog";
+import {
+  CONTENT_WEEKDAY_OPTIONS,
+  MAX_CONTENT_BRIEFS,
+  MAX_POSTS_PER_WEEK,
+  buildContentRunDefaults,
+  hasContentRunFormErrors,
+  previewPublicationDates,
+  validateContentRunForm,
+  type ContentRunFormValues,
+} from "~/lib/content-schedule";
+import { FULL_STEP_RANGE, summarizeStepRange, type PipelineStepOption, type StepRangeValues } from "~/lib/pipeline-steps";
+import { cn } from "~/lib/utils";
+import type { components } from "~/types/api.generated";
+import { SchedulePreviewCalendar } from "./schedule-preview-calendar";
+
+type TopicResponse = components["schemas"]["TopicResponse"];
+
+interface NewContentRunDialogProps {
+  projectId: string;
+  rankedTopics: TopicResponse[];
+  defaultPostsPerWeek: number;
+  steps: PipelineStepOption[];
+  open: boolean;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = "h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal";
+const numberFormatter = new Intl.NumberFormat();
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-xs font-semibold text-rose-700">{message}</p> : null;
+}
+
+export function NewContentRunDialog({
+  projectId,
+  rankedTopics,
+  defaultPostsPerWeek,
+  steps,
+  open,
+  onClose,
+}: NewContentRunDialogProps) {
+  const fetcher = useFetcher<{ error?: string }>();
+  const [values, setValues] = useState<ContentRunFormValues>(() => buildContentRunDefaults(defaultPostsPerWeek));
+  const [topicQuery, setTopicQuery] = useState("");
+  const [stepRange, setStepRange] = useState<StepRangeValues>(FULL_STEP_RANGE);
+  const [showErrors, setShowErrors] = useState(false);
+  const isStarting = fetcher.state !== "idle";
+  const serverError = fetcher.state === "idle" ? fetcher.data?.error : undefined;
+
+  // A successful start redirects back to the hub without data; close so the new run's progress is visible.
+  const [wasStarting, setWasStarting] = useState(false);
+  useEffect(() => {
+    if (isStarting) {
+      setWasStarting(true);
+      return;
+    }
+    if (!wasStarting) return;
+    setWasStarting(false);
+    if (!fetcher.data?.error) onClose();
+  }, [fetcher.data, isStarting, onClose, wasStarting]);
+
+  const liveErrors = validateContentRunForm(values);
+  const errors = showErrors ? liveErrors : {};
+
+  const previewDates = useMemo(() => {
+    if (liveErrors.maxBriefs || liveErrors.postsPerWeek || liveErrors.minLeadDays || liveErrors.publicationStartDate) {
+      return [];
+    }
+    return previewPublicationDates({
+      count: Number(values.maxBriefs),
+      postsPerWeek: Number(values.postsPerWeek),
+      preferredWeekdays: values.preferredWeekdays,
+      minLeadDays: Number(values.minLeadDays),
+      publicationStartDate: values.publicationStartDate || null,
+    });
+  }, [
+    liveErrors.maxBriefs,
+    liveErrors.minLeadDays,
+    liveErrors.postsPerWeek,
+    liveErrors.publicationStartDate,
+    values.maxBriefs,
+    values.minLeadDays,
+    values.postsPerWeek,
+    values.preferredWeekdays,
+    values.publicationStartDate,
+  ]);
+
+  const visibleTopics = useMemo(() => {
+    const query = topicQuery.trim().toLowerCase();
+    if (!query) return rankedTopics;
+    return rankedTopics.filter((topic) => topic.name.toLowerCase().includes(query));
+  }, [rankedTopics, topicQuery]);
+
+  const selectedTopicNames = new Set(values.topicNames);
+
+  const update = <K extends keyof ContentRunFormValues>(key: K, value: ContentRunFormValues[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const toggleTopic = (name: string) => {
+    setValues((current) => ({
+      ...current,
+      topicNames: current.topicNames.includes(name)
+        ? current.topicNames.filter((entry) => entry !== name)
+        : [...current.topicNames, name],
+    }));
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setValues((current) => ({
+      ...current,
+      preferredWeekdays: current.preferredWeekdays.includes(weekday)
+        ? current.preferredWeekdays.filter((entry) => entry !== weekday)
+        : [...current.preferredWeekdays, weekday].sort((a, b) => a - b),
+    }));
+  };
+
+  const selectTopRanked = () => {
+    const limit = Number(values.maxBriefs);
+    const count = Number.isInteger(limit) && limit > 0 ? limit : rankedTopics.length;
+    update("topicNames", rankedTopics.slice(0, count).map((topic) => topic.name));
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setShowErrors(true);
+    if (hasContentRunFormErrors(validateContentRunForm(values))) return;
+    if (summarizeStepRange(stepRange, steps).errors.length > 0) return;
+    fetcher.submit(
+      { intent: "startContentRun", config_json: JSON.stringify(values), step_range_json: JSON.stringify(stepRange) },
+      { method: "post", action: `/projects/${projectId}/creation` }
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      title="New content run"
+      description="Choose topics from the ranked backlog and set the publishing cadence. Dates below are a preview of the schedule."
+      className="max-w-3xl"
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-6">
+        {serverError ? (
+          <div className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+            {serverError}
+          </div>
+        ) : null}
+
+        <section className="space-y-3">
+          <div className="flex flex-wrap items-end justify-between gap-2">
+            <div>
+              <h4 className="font-display text-base font-bold text-slate-900">Source topics</h4>
+              <p className="text-xs text-slate-500">
+                {values.topicNames.length === 0
+                  ? "No topics selected: the pipeline picks from the top of the backlog."
+                  : `${values.topicNames.length} selected`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={selectTopRanked} disabled={rankedTopics.length === 0}>
+                Select top {Number(values.maxBriefs) > 0 ? Math.min(Number(values.maxBriefs), rankedTopics.length) : rankedTopics.length}
+              </Button>
+              {values.topicNames.length > 0 ? (
+                <Button type="button" variant="ghost" size="sm" onClick={() => update("topicNames", [])}>
+                  Clear
+                </Button>
+              ) : null}
+            </div>
+          </div>
+          {rankedTopics.length === 0 ? (
+            <p className="rounded-xl border border-dashed border-slate-300 px-3 py-4 text-sm text-slate-500">
+              No ranked topics yet. Finish a discovery run to build the backlog.
+            </p>
+          ) : (
+            <>
+              <input
+                type="search"
+                value={topicQuery}
+                placeholder="Filter topics"
+                onChange={(event) => setTopicQuery(event.target.value)}
+                className={cn(INPUT_CLASS, "w-full")}
+              />
+              <ul className="max-h-56 divide-y divide-slate-100 overflow-y-auto rounded-xl border border-slate-200">
+                {visibleTopics.map((topic) => (
+                  <li key={topic.id}>
+                    <label className="flex cursor-pointer items-center gap-3 px-3 py-2 text-sm hover:bg-slate-50">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-[#2f6f71]"
+                        checked={selectedTopicNames.has(topic.name)}
+                        onChange={() => toggleTopic(topic.name)}
+                      />
+                      <span className="w-8 text-xs font-semibold text-slate-400">
+                        {topic.priority_rank !== null ? `#${topic.priority_rank}` : "-"}
+                      </span>
+                      <span className="flex-1 font-semibold text-slate-800">{topic.name}</span>
+                      <span className="text-xs text-slate-500">
+                        {topic.total_volume !== null ? `${numberFormatter.format(topic.total_volume)} vol` : "No volume"}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+                {visibleTopics.length === 0 ? (
+                  <li className="px-3 py-4 text-sm text-slate-500">No topics match this filter.</li>
+                ) : null}
+              </ul>
+            </>
+          )}
+          <FieldError message={errors.topicNames} />
+        </section>
+
+        <section className="space-y-3">
+          <h4 className="font-display text-base font-bold text-slate-900">Cadence</h4>
+          <div className="grid gap-4 md:grid-cols-4">
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Briefs
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONTENT_BRIEFS}
+                value={values.maxBriefs}
+                onChange={(event) => update("maxBriefs", event.target.value)}
+                className={INPUT_CLASS}
+              />
+              <FieldError message={errors.maxBriefs} />
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Posts per week
+              <input
+                type="number"
+                min={1}
+                max={MAX_POSTS_PER_WEEK}
+                value={values.postsPerWeek}
+                onChange={(event) => update("postsPerWeek", event.target.value)}
+                className={INPUT_CLASS}
+              />
+              <FieldError message={errors.postsPerWeek} />
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Min lead days
+              <input
+                type="number"
+                min={0}
+                value={values.minLeadDays}
+                onChange={(event) => update("minLeadDays", event.target.value)}
+                className={INPUT_CLASS}
+              />
+              <FieldError message={errors.minLeadDays} />
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Start date
+              <input
+                type="date"
+                value={values.publicationStartDate}
+                onChange={(event) => update("publicationStartDate", event.target.value)}
+                className={INPUT_CLASS}
+              />
+              <FieldError message={errors.publicationStartDate} />
+            </label>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold text-slate-700">Preferred weekdays</legend>
+            <div className="flex flex-wrap gap-2">
+              {CONTENT_WEEKDAY_OPTIONS.map((option) => {
+                const active = values.preferredWeekdays.includes(option.value);
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    aria-pressed={active}
+                    onClick={() => toggleWeekday(option.value)}
+                    className={cn(
+                      "h-9 min-w-12 rounded-xl border px-3 text-sm font-semibold transition-colors",
+                      active
+                        ? "border-[#2f6f71] bg-[#2f6f71] text-white"
+                        : "border-slate-300 bg-white text-slate-600 hover:bg-slate-50"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-slate-500">Leave all unselected to spread posts evenly across the work week.</p>
+          </fieldset>
+
+          <label className="inline-flex items-center gap-2 text-sm font-semibold text-slate-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-[#2f6f71]"
+              checked={values.useLlmTimingHints}
+              onChange={(event) => update("useLlmTimingHints", event.target.checked)}
+            />
+            Let seasonal timing hints shift dates
+          </label>
+        </section>
+
+        <section className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-3">
+          <h4 className="font-display text-base font-bold text-slate-900">Publication preview</h4>
+          <SchedulePreviewCalendar dates={previewDates} />
+          {values.useLlmTimingHints ? (
+            <p className="text-xs text-slate-500">
+              Timing hints can move individual posts closer to seasonal peaks, so final dates may differ.
+            </p>
+          ) : null}
+        </section>
+
+        <StepRangePanel steps={steps} value={stepRange} onChange={setStepRange} />
+
+        <div className="flex items-center justify-end gap-2 border-t border-slate-200 pt-4">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isStarting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isStarting}>
+            {isStarting ? "Starting..." : "Start content run"}
+          </Button>
+        </div>
+      </form>
+    </Dialog>
+  );
+}
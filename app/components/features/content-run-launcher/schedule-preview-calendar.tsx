@@ -0,0 +1,82 @@
+import { buildMonthCells, createUtcDate, parseDateKey } from "~/lib/calendar-period";
+import { cn } from "~/lib/utils";
+
+interface SchedulePreviewCalendarProps {
+  /** Estimated publication dates as YYYY-MM-DD keys, in order. */
+  dates: string[];
+  className?: string;
+}
+
+const WEEKDAY_HEADERS = ["S", "M", "T", "W", "T", "F", "S"];
+// A quarter plus its spill-over month fits the dialog; longer plans are summarised below the grid.
+const MAX_PREVIEW_MONTHS = 4;
+
+const monthFormatter = new Intl.DateTimeFormat(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+
+export function SchedulePreviewCalendar({ dates, className }: SchedulePreviewCalendarProps) {
+  if (dates.length === 0) {
+    return <p className={cn("text-sm text-slate-500", className)}>Adjust the cadence to see estimated publication dates.</p>;
+  }
+
+  const countsByDate = new Map<string, number>();
+  for (const dateKey of dates) countsByDate.set(dateKey, (countsByDate.get(dateKey) ?? 0) + 1);
+
+  const first = parseDateKey(dates[0])!;
+  const last = parseDateKey(dates[dates.length - 1])!;
+  const monthSpan =
+    (last.getUTCFullYear() - first.getUTCFullYear()) * 12 + (last.getUTCMonth() - first.getUTCMonth()) + 1;
+  const months = Array.from({ length: Math.min(monthSpan, MAX_PREVIEW_MONTHS) }, (_, index) =>
+    createUtcDate(first.getUTCFullYear(), first.getUTCMonth() + index, 1)
+  );
+  const lastShownMonth = months[months.length - 1];
+  const hiddenCount = dates.filter((dateKey) => {
+    const date = parseDateKey(dateKey)!;
+    return date.getUTCFullYear() * 12 + date.getUTCMonth() > lastShownMonth.getUTCFullYear() * 12 + lastShownMonth.getUTCMonth();
+  }).length;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {months.map((monthStart) => (
+          <div key={monthStart.toISOString()} className="rounded-xl border border-slate-200 bg-white p-2">
+            <p className="mb-1 text-xs font-semibold text-slate-700">{monthFormatter.format(monthStart)}</p>
+            <div className="grid grid-cols-7 gap-0.5 text-center text-[10px]">
+              {WEEKDAY_HEADERS.map((label, index) => (
+                <span key={index} className="font-semibold text-slate-400">
+                  {label}
+                </span>
+              ))}
+              {buildMonthCells(monthStart).map((cell) => {
+                const count = cell.isCurrentMonth ? countsByDate.get(cell.dateKey) ?? 0 : 0;
+                return (
+                  <span
+                    key={cell.dateKey}
+                    title={count > 0 ? `${cell.dateKey}: ${count} ${count === 1 ? "post" : "posts"}` : undefined}
+                    className={cn(
+                      "relative flex h-6 items-center justify-center rounded-md",
+                      !cell.isCurrentMonth && "text-transparent",
+                      cell.isCurrentMonth && count === 0 && "text-slate-500",
+                      count > 0 && "bg-[#2f6f71] font-bold text-white",
+                      cell.isToday && cell.isCurrentMonth && "ring-1 ring-slate-400"
+                    )}
+                  >
+                    {cell.dayOfMonth}
+                    {count > 1 ? (
+                      <span className="absolute -right-0.5 -top-0.5 rounded-full bg-amber-400 px-1 text-[8px] leading-3 text-slate-900">
+                        {count}
+                      </span>
+                    ) : null}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">
+        {dates.length} {dates.length === 1 ? "post" : "posts"} from {dates[0]} to {dates[dates.length - 1]}
+        {hiddenCount > 0 ? `, including ${hiddenCount} after the months shown` : ""}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { Download } from "lucide-react";
+import { buttonVariants } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+
+type ExportLinksProps = {
+  /** Resource route that streams the export, e.g. `/projects/:id/exports/keywords`. */
+  path: string;
+  /** Filters forwarded to the export so it matches what the page shows. */
+  searchParams?: URLSearchParams;
+  className?: string;
+};
+
+const EXPORT_FORMATS = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "XLSX" },
+] as const;
+
+export function ExportLinks({ path, searchParams, className }: ExportLinksProps) {
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      {EXPORT_FORMATS.map((format) => {
+        const params = new URLSearchParams(searchParams);
+        params.set("format", format.value);
+        return (
+          <a
+            key={format.value}
+            href={`${path}?${params.toString()}`}
+            download
+            className={cn(buttonVariants({ variant: "outline", size: "sm" }), "gap-1.5")}
+          >
+            <Download className="h-4 w-4" />
+            {format.label}
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ExportLinks } from "./export-links";
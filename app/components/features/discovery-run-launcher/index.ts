@@ -0,0 +1 @@
+export { NewDiscoveryRunDialog } from "./new-discovery-run-dialog";
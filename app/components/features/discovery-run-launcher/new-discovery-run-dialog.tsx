@@ -0,0 +1,391 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useFetcher } from "react-router";
+import { Save, Trash2 } from "lucide-react";
+import { StringListEditor } from "~/components/features/brief-editor";
+import { StepRangePanel } from "~/components/features/pipeline-step-range";
+import { Button } from "~/components/ui/button";
+import { Dialog } from "~/components/ui/dialog";
+import { Select } from "~/components/ui/select";
+import {
+  BRANDED_KEYWORD_MODE_OPTIONS,
+  FIT_THRESHOLD_PROFILE_OPTIONS,
+  MAX_DISCOVERY_ITERATIONS,
+  SCOPE_MODE_OPTIONS,
+  SETUP_PRESET_OPTIONS,
+  buildDiscoveryRunDefaults,
+  hasDiscoveryRunFormErrors,
+  loadDiscoveryPresets,
+  saveDiscoveryPresets,
+  validateDiscoveryRunForm,
+  type DiscoveryRunFormValues,
+  type DiscoveryRunPreset,
+} from "~/lib/discovery-run-config";
+import { FULL_STEP_RANGE, summarizeStepRange, type PipelineStepOption, type StepRangeValues } from "~/lib/pipeline-steps";
+import type { SetupPreset } from "~/types/dashboard";
+
+interface NewDiscoveryRunDialogProps {
+  projectId: string;
+  steps: PipelineStepOption[];
+  open: boolean;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = "h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal";
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-xs font-semibold text-rose-700">{message}</p> : null;
+}
+
+export function NewDiscoveryRunDialog({ projectId, steps, open, onClose }: NewDiscoveryRunDialogProps) {
+  const fetcher = useFetcher<{ error?: string }>();
+  const [values, setValues] = useState<DiscoveryRunFormValues>(() => buildDiscoveryRunDefaults());
+  const [presets, setPresets] = useState<DiscoveryRunPreset[]>([]);
+  const [selectedPresetName, setSelectedPresetName] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [stepRange, setStepRange] = useState<StepRangeValues>(FULL_STEP_RANGE);
+  const [showErrors, setShowErrors] = useState(false);
+  const isStarting = fetcher.state !== "idle";
+  const serverError = fetcher.state === "idle" ? fetcher.data?.error : undefined;
+
+  useEffect(() => {
+    if (!open) return;
+    setPresets(loadDiscoveryPresets(projectId));
+  }, [open, projectId]);
+
+  // A successful start redirects back to the hub without data; close so the new run's progress is visible.
+  const [wasStarting, setWasStarting] = useState(false);
+  useEffect(() => {
+    if (isStarting) {
+      setWasStarting(true);
+      return;
+    }
+    if (!wasStarting) return;
+    setWasStarting(false);
+    if (!fetcher.data?.error) onClose();
+  }, [fetcher.data, isStarting, onClose, wasStarting]);
+
+  const errors = showErrors ? validateDiscoveryRunForm(values) : {};
+
+  const update = <K extends keyof DiscoveryRunFormValues>(key: K, value: DiscoveryRunFormValues[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const applyBasePreset = (preset: SetupPreset) => {
+    // Switching the base preset resets tuning but keeps the topic and ICP lists the user typed.
+    setValues((current) => ({
+      ...buildDiscoveryRunDefaults(preset),
+      includeTopics: current.includeTopics,
+      excludeTopics: current.excludeTopics,
+      icpRoles: current.icpRoles,
+      icpIndustries: current.icpIndustries,
+    }));
+    setSelectedPresetName("");
+  };
+
+  const applySavedPreset = (name: string) => {
+    setSelectedPresetName(name);
+    const preset = presets.find((entry) => entry.name === name);
+    if (!preset) return;
+    setValues(preset.values);
+    setPresetName(preset.name);
+    setShowErrors(false);
+  };
+
+  const persistPresets = (next: DiscoveryRunPreset[]) => {
+    setPresets(next);
+    saveDiscoveryPresets(projectId, next);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setShowErrors(true);
+    if (hasDiscoveryRunFormErrors(validateDiscoveryRunForm(values))) return;
+    const preset: DiscoveryRunPreset = { name, values, savedAt: new Date().toISOString() };
+    persistPresets([...presets.filter((entry) => entry.name !== name), preset].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedPresetName(name);
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPresetName) return;
+    persistPresets(presets.filter((entry) => entry.name !== selectedPresetName));
+    setSelectedPresetName("");
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setShowErrors(true);
+    if (hasDiscoveryRunFormErrors(validateDiscoveryRunForm(values))) return;
+    if (summarizeStepRange(stepRange, steps).errors.length > 0) return;
+    fetcher.submit(
+      { intent: "startDiscoveryRun", config_json: JSON.stringify(values), step_range_json: JSON.stringify(stepRange) },
+      { method: "post", action: `/projects/${projectId}/discovery` }
+    );
+  };
+
+  const updateMix = <K extends "intentMix" | "funnelMix">(
+    key: K,
+    field: keyof DiscoveryRunFormValues[K],
+    value: string
+  ) => {
+    setValues((current) => ({ ...current, [key]: { ...current[key], [field]: value } }));
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      title="New discovery run"
+      description="Tune the discovery loop and run strategy. Defaults come from the selected goal preset."
+      className="max-w-2xl"
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-6">
+        {serverError ? (
+          <div className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+            {serverError}
+          </div>
+        ) : null}
+
+        <section className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-3">
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Goal preset
+              <Select value={values.basePreset} onChange={(event) => applyBasePreset(event.target.value as SetupPreset)}>
+                {SETUP_PRESET_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Saved strategy
+              <Select value={selectedPresetName} onChange={(event) => applySavedPreset(event.target.value)}>
+                <option value="">{presets.length === 0 ? "No saved strategies" : "Choose a saved strategy"}</option>
+                {presets.map((preset) => (
+                  <option key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </option>
+                ))}
+              </Select>
+            </label>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="grid min-w-48 flex-1 gap-1 text-xs font-semibold text-slate-600">
+              Save current settings as
+              <input
+                type="text"
+                value={presetName}
+                placeholder="e.g. Tight scope, low difficulty"
+                onChange={(event) => setPresetName(event.target.value)}
+                className="h-9 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+              />
+            </label>
+            <Button type="button" variant="outline" size="sm" onClick={handleSavePreset} disabled={!presetName.trim()}>
+              <Save className="mr-1.5 h-4 w-4" />
+              Save strategy
+            </Button>
+            {selectedPresetName ? (
+              <Button type="button" variant="ghost" size="sm" onClick={handleDeletePreset}>
+                <Trash2 className="mr-1.5 h-4 w-4" />
+                Delete
+              </Button>
+            ) : null}
+          </div>
+          <p className="text-xs text-slate-500">Saved strategies are stored in this browser for this project.</p>
+        </section>
+
+        <section className="space-y-3">
+          <h4 className="font-display text-base font-bold text-slate-900">Discovery loop</h4>
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Max iterations
+              <input
+                type="number"
+                min={1}
+                max={MAX_DISCOVERY_ITERATIONS}
+                value={values.maxIterations}
+                onChange={(event) => update("maxIterations", event.target.value)}
+                className={INPUT_CLASS}
+              />
+              <FieldError message={errors.maxIterations} />
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Min eligible topics
+              <input
+                type="number"
+                min={1}
+                value={values.minEligibleTopics}
+                placeholder="API default"
+                onChange={(event) => update("minEligibleTopics", event.target.value)}
+                className={INPUT_CLASS}
+              />
+              <FieldError message={errors.minEligibleTopics} />
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Max keyword difficulty
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={values.maxKeywordDifficulty}
+                onChange={(event) => update("maxKeywordDifficulty", event.target.value)}
+                className={INPUT_CLASS}
+              />
+              <FieldError message={errors.maxKeywordDifficulty} />
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Min domain diversity
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={values.minDomainDiversity}
+                onChange={(event) => update("minDomainDiversity", event.target.value)}
+                className={INPUT_CLASS}
+              />
+              <FieldError message={errors.minDomainDiversity} />
+            </label>
+          </div>
+          <label className="inline-flex items-center gap-2 text-sm font-semibold text-slate-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-[#2f6f71]"
+              checked={values.requireSerpGate}
+              onChange={(event) => update("requireSerpGate", event.target.checked)}
+            />
+            Require topics to pass the SERP gate
+          </label>
+        </section>
+
+        <section className="space-y-3">
+          <h4 className="font-display text-base font-bold text-slate-900">Strategy</h4>
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Scope
+              <Select value={values.scopeMode} onChange={(event) => update("scopeMode", event.target.value as DiscoveryRunFormValues["scopeMode"])}>
+                {SCOPE_MODE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Branded keywords
+              <Select
+                value={values.brandedKeywordMode}
+                onChange={(event) => update("brandedKeywordMode", event.target.value as DiscoveryRunFormValues["brandedKeywordMode"])}
+              >
+                {BRANDED_KEYWORD_MODE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </label>
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              Fit threshold
+              <Select
+                value={values.fitThresholdProfile}
+                onChange={(event) => update("fitThresholdProfile", event.target.value as DiscoveryRunFormValues["fitThresholdProfile"])}
+              >
+                {FIT_THRESHOLD_PROFILE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </label>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold text-slate-700">Intent mix</legend>
+            <div className="grid gap-3 sm:grid-cols-4">
+              {(["informational", "commercial", "transactional", "influence"] as const).map((field) => (
+                <label key={field} className="grid gap-1 text-xs font-semibold capitalize text-slate-600">
+                  {field}
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={values.intentMix[field]}
+                    onChange={(event) => updateMix("intentMix", field, event.target.value)}
+                    className="h-9 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+                  />
+                </label>
+              ))}
+            </div>
+            <FieldError message={errors.intentMix} />
+          </fieldset>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold text-slate-700">Funnel mix</legend>
+            <div className="grid gap-3 sm:grid-cols-4">
+              {(["tofu", "mofu", "bofu", "influence"] as const).map((field) => (
+                <label key={field} className="grid gap-1 text-xs font-semibold text-slate-600">
+                  {field === "influence" ? "Influence" : field.toUpperCase()}
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={values.funnelMix[field]}
+                    onChange={(event) => updateMix("funnelMix", field, event.target.value)}
+                    className="h-9 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+                  />
+                </label>
+              ))}
+            </div>
+            <FieldError message={errors.funnelMix} />
+          </fieldset>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <StringListEditor
+              label="Include topics"
+              values={values.includeTopics}
+              onChange={(next) => update("includeTopics", next)}
+              placeholder="customer support automation"
+              addLabel="Add topic"
+              error={errors.includeTopics}
+            />
+            <StringListEditor
+              label="Exclude topics"
+              values={values.excludeTopics}
+              onChange={(next) => update("excludeTopics", next)}
+              placeholder="medical advice"
+              addLabel="Add topic"
+            />
+            <StringListEditor
+              label="ICP roles"
+              values={values.icpRoles}
+              onChange={(next) => update("icpRoles", next)}
+              placeholder="Head of support"
+              addLabel="Add role"
+            />
+            <StringListEditor
+              label="ICP industries"
+              values={values.icpIndustries}
+              onChange={(next) => update("icpIndustries", next)}
+              placeholder="B2B SaaS"
+              addLabel="Add industry"
+            />
+          </div>
+        </section>
+
+        <StepRangePanel steps={steps} value={stepRange} onChange={setStepRange} />
+
+        <div className="flex items-center justify-end gap-2 border-t border-slate-200 pt-4">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isStarting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isStarting}>
+            {isStarting ? "Starting..." : "Start discovery run"}
+          </Button>
+        </div>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1 @@
+export { KeywordGraphPanel } from "./keyword-graph-panel";
@@ -0,0 +1,56 @@
+import { memo } from "react";
+import { Handle, Position, type NodeProps } from "@xyflow/react";
+import type { KeywordBubbleNode, TopicHubNode } from "~/lib/keyword-graph";
+import { cn } from "~/lib/utils";
+
+// Edges need handles to attach to; centring invisible ones makes straight edges meet at the middle of each circle.
+const HANDLE_CLASS = "!left-1/2 !top-1/2 !h-px !w-px !min-h-0 !min-w-0 !border-0 !opacity-0";
+
+function CentreHandles() {
+  return (
+    <>
+      <Handle type="target" position={Position.Top} isConnectable={false} className={HANDLE_CLASS} />
+      <Handle type="source" position={Position.Top} isConnectable={false} className={HANDLE_CLASS} />
+    </>
+  );
+}
+
+export const KeywordBubble = memo(function KeywordBubble({ data, width, height }: NodeProps<KeywordBubbleNode>) {
+  return (
+    <div
+      title={data.title}
+      className={cn(
+        "flex items-center justify-center overflow-hidden rounded-full text-center text-[10px] font-medium leading-tight text-slate-950",
+        data.isSeed ? "border-2 border-[#2f6f71]" : "border border-white/80"
+      )}
+      style={{ width, height, background: data.color }}
+    >
+      <CentreHandles />
+      {data.showLabel ? <span className="line-clamp-2 px-1">{data.label}</span> : null}
+    </div>
+  );
+});
+
+export const TopicHub = memo(function TopicHub({ data, width, height }: NodeProps<TopicHubNode>) {
+  return (
+    <div
+      title={`${data.label} (${data.keywordCount} keywords)`}
+      className={cn(
+        "flex cursor-pointer flex-col items-center justify-center overflow-hidden rounded-full border-2 bg-[#1f2937] px-2 text-center text-slate-50",
+        data.isFocus ? "border-[#5fb3b5]" : data.collapsed ? "border-dashed border-slate-400" : "border-slate-600"
+      )}
+      style={{ width, height }}
+    >
+      <CentreHandles />
+      <span className="line-clamp-2 text-[11px] font-semibold leading-tight">{data.label}</span>
+      <span className="text-[10px] text-slate-300">
+        {data.collapsed ? `+${data.keywordCount}` : data.keywordCount}
+      </span>
+    </div>
+  );
+});
+
+export const KEYWORD_GRAPH_NODE_TYPES = {
+  keywordBubble: KeywordBubble,
+  topicHub: TopicHub,
+};
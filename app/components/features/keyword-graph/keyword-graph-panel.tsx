@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Background, Controls, MiniMap, ReactFlow, type NodeMouseHandler } from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import { useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Select } from "~/components/ui/select";
+import { Skeleton } from "~/components/ui/skeleton";
+import { useKeywordGraphLayout } from "~/hooks/use-keyword-graph-layout";
+import {
+  KEYWORD_LINK_LIMIT,
+  UNASSIGNED_TOPIC_ID,
+  buildKeywordGraphModel,
+  listKeywordGraphLegend,
+  toKeywordGraphElements,
+  type KeywordGraphColorMode,
+  type KeywordGraphData,
+  type KeywordGraphNode,
+} from "~/lib/keyword-graph";
+import { KEYWORD_GRAPH_NODE_TYPES } from "./keyword-graph-nodes";
+
+interface KeywordGraphPanelProps {
+  projectId: string;
+  /** Keyword list filters (search, status); the graph loads every matching keyword, not just the table page. */
+  searchParams: URLSearchParams;
+  keywordCount: number;
+  topicCount: number;
+  minKeywords?: number;
+  minTopics?: number;
+  onKeywordSelect: (keywordId: string) => void;
+}
+
+export function KeywordGraphPanel({
+  projectId,
+  searchParams,
+  keywordCount,
+  topicCount,
+  minKeywords = 20,
+  minTopics = 3,
+  onKeywordSelect,
+}: KeywordGraphPanelProps) {
+  const graphFetcher = useFetcher<KeywordGraphData>();
+  const [colorMode, setColorMode] = useState<KeywordGraphColorMode>("intent");
+  const [focusTopicId, setFocusTopicId] = useState<string | null>(null);
+  const [collapsedTopicIds, setCollapsedTopicIds] = useState<ReadonlySet<string>>(() => new Set());
+
+  const isUnlocked = keywordCount >= minKeywords && topicCount >= minTopics;
+  const search = searchParams.toString();
+
+  useEffect(() => {
+    if (!isUnlocked) return;
+    graphFetcher.load(`/projects/${projectId}/keyword-graph${search ? `?${search}` : ""}`);
+  }, [isUnlocked, projectId, search]);
+
+  const graphData = graphFetcher.data ?? null;
+  const model = useMemo(
+    () => (graphData ? buildKeywordGraphModel(graphData, { collapsedTopicIds, focusTopicId }) : null),
+    [graphData, collapsedTopicIds, focusTopicId]
+  );
+  const { layout, isLayingOut } = useKeywordGraphLayout(model);
+  const elements = useMemo(
+    () => (layout ? toKeywordGraphElements(layout.model, layout.positions, colorMode) : null),
+    [layout, colorMode]
+  );
+
+  const topicOptions = useMemo(() => {
+    if (!graphData) return [];
+    const withKeywords = new Set(graphData.keywords.map((keyword) => keyword.topicId));
+    return graphData.topics
+      .filter((topic) => withKeywords.has(topic.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [graphData]);
+
+  const toggleTopic = (topicId: string) => {
+    setCollapsedTopicIds((current) => {
+      const next = new Set(current);
+      if (next.has(topicId)) {
+        next.delete(topicId);
+      } else {
+        next.add(topicId);
+      }
+      return next;
+    });
+  };
+
+  const collapseAll = () => {
+    if (!graphData) return;
+    setCollapsedTopicIds(new Set([...graphData.topics.map((topic) => topic.id), UNASSIGNED_TOPIC_ID]));
+  };
+
+  const onNodeClick: NodeMouseHandler<KeywordGraphNode> = (_event, node) => {
+    if (node.type === "keywordBubble") {
+      onKeywordSelect(node.data.keywordId);
+      return;
+    }
+    if (node.type !== "topicHub" || node.data.topicId === UNASSIGNED_TOPIC_ID) return;
+    // In focus mode the surrounding hubs are always collapsed, so clicking one moves the focus instead.
+    if (focusTopicId) {
+      if (node.data.topicId !== focusTopicId) setFocusTopicId(node.data.topicId);
+      return;
+    }
+    toggleTopic(node.data.topicId);
+  };
+
+  if (!isUnlocked) {
+    return (
+      <Card>
+        <CardContent className="pt-5">
+          <p className="text-sm text-slate-600">
+            Graph locked for now. Add more pipeline output to unlock the relationship map ({minKeywords}+ keywords and{" "}
+            {minTopics}+ topics required).
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const legend = listKeywordGraphLegend(colorMode);
+  const isLoading = graphFetcher.state === "loading" || (graphData !== null && !elements);
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Keyword cluster graph</CardTitle>
+          <CardDescription>
+            Dark hubs are topics; click one to collapse or expand it. Bubble size follows search volume and seed
+            keywords have a teal ring. Click a keyword for detail.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 md:grid-cols-[1fr_2fr_auto]">
+            <label className="grid gap-1 text-xs font-semibold text-slate-600">
+              Color by
+              <Select
+                value={colorMode}
+                onChange={(event) => setColorMode(event.target.value === "difficulty" ? "difficulty" : "intent")}
+              >
+                <option value="intent">Intent</option>
+                <option value="difficulty">Difficulty</option>
+              </Select>
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-slate-600">
+              Focus on topic
+              <Select
+                value={focusTopicId ?? ""}
+                onChange={(event) => setFocusTopicId(event.target.value || null)}
+                disabled={!graphData}
+              >
+                <option value="">All topics</option>
+                {topicOptions.map((topic) => (
+                  <option key={topic.id} value={topic.id}>
+                    {topic.name}
+                  </option>
+                ))}
+              </Select>
+            </label>
+            <div className="flex items-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={collapseAll}
+                disabled={!graphData || focusTopicId !== null}
+              >
+                Collapse all
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setCollapsedTopicIds(new Set())}
+                disabled={collapsedTopicIds.size === 0 || focusTopicId !== null}
+              >
+                Expand all
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-600">
+            <div className="flex flex-wrap items-center gap-3">
+              {legend.map((item) => (
+                <span key={item.label} className="inline-flex items-center gap-1.5">
+                  <span className="h-3 w-3 rounded-full" style={{ background: item.color }} />
+                  {item.label}
+                </span>
+              ))}
+            </div>
+            {layout ? (
+              <p>
+                {isLayingOut ? "Updating layout… " : ""}
+                {layout.model.keywordCount} keywords across {layout.model.topicCount} topics
+              </p>
+            ) : null}
+          </div>
+
+          {elements && !elements.showKeywordLinks ? (
+            <p className="text-xs text-slate-500">
+              Keyword links are hidden above {KEYWORD_LINK_LIMIT} visible keywords. Collapse topics or focus on one to
+              see them.
+            </p>
+          ) : null}
+
+          <div className="h-[600px] overflow-hidden rounded-2xl border border-slate-200 bg-slate-100">
+            {elements && elements.nodes.length > 0 ? (
+              <ReactFlow
+                key={`${search}:${focusTopicId ?? ""}`}
+                nodes={elements.nodes}
+                edges={elements.edges}
+                nodeTypes={KEYWORD_GRAPH_NODE_TYPES}
+                fitView
+                minZoom={0.05}
+                maxZoom={2}
+                onNodeClick={onNodeClick}
+                onlyRenderVisibleElements
+                nodesDraggable={false}
+                nodesConnectable={false}
+                elementsSelectable={false}
+                proOptions={{ hideAttribution: true }}
+              >
+                <MiniMap
+                  pannable
+                  zoomable
+                  nodeColor={(node) => (node.type === "keywordBubble" ? String(node.data.color) : "#1f2937")}
+                />
+                <Controls showInteractive={false} />
+                <Background gap={24} color="#dbe4ef" />
+              </ReactFlow>
+            ) : isLoading ? (
+              <div className="space-y-3 p-6">
+                <Skeleton className="h-5 w-1/3" />
+                <Skeleton className="h-[480px] w-full" />
+              </div>
+            ) : graphFetcher.state === "idle" && graphData ? (
+              <p className="p-6 text-sm text-slate-600">No keywords match the current filters.</p>
+            ) : null}
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1 @@
+export { PipelineSettingsEditor } from "./pipeline-settings-editor";
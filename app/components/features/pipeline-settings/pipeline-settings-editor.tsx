@@ -0,0 +1,328 @@
+import { useEffect, useMemo, useState } from "react";
+import { Form } from "react-router";
+import { Braces, ListChecks, Plus, Trash2 } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Select } from "~/components/ui/select";
+import { Switch } from "~/components/ui/switch";
+import {
+  STEP_CONFIG_FIELD_KINDS,
+  defaultValueForKind,
+  diffPipelineSettings,
+  inferPropertySchema,
+  parseStepConfigsJson,
+  validateConfigKey,
+  type PipelineSettingsDraft,
+  type StepConfigFieldKind,
+  type StepConfigPropertySchema,
+  type StepConfigs,
+} from "~/lib/pipeline-settings";
+import type { PipelineStepOption } from "~/lib/pipeline-steps";
+import { StepConfigField } from "./step-config-field";
+
+interface PipelineSettingsEditorProps {
+  saved: PipelineSettingsDraft;
+  steps: PipelineStepOption[];
+  isSaving: boolean;
+}
+
+type NewFieldState = { key: string; kind: StepConfigFieldKind; error: string | null };
+
+const CHANGE_BADGE_VARIANTS = { added: "success", removed: "danger", changed: "info" } as const;
+const EMPTY_NEW_FIELD: NewFieldState = { key: "", kind: "string", error: null };
+
+function schemaForKind(kind: StepConfigFieldKind): StepConfigPropertySchema {
+  if (kind === "string_list") return { type: "array", items: { type: "string" } };
+  if (kind === "json") return {};
+  return { type: kind };
+}
+
+export function PipelineSettingsEditor({ saved, steps, isSaving }: PipelineSettingsEditorProps) {
+  const [draft, setDraft] = useState<PipelineSettingsDraft>(saved);
+  // Field types chosen in this session; stored values fall back to an inferred schema.
+  const [fieldSchemas, setFieldSchemas] = useState<Record<string, Record<string, StepConfigPropertySchema>>>({});
+  const [mode, setMode] = useState<"form" | "json">("form");
+  const [jsonText, setJsonText] = useState("");
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [newStepKey, setNewStepKey] = useState("");
+  const [newFields, setNewFields] = useState<Record<string, NewFieldState>>({});
+  const [reviewing, setReviewing] = useState(false);
+
+  const resetDraft = () => {
+    setDraft(saved);
+    setFieldSchemas({});
+    setMode("form");
+    setJsonError(null);
+    setReviewing(false);
+  };
+
+  // `saved` is rebuilt on every render of the route; the fingerprint only changes after a save lands.
+  const savedFingerprint = JSON.stringify(saved);
+  useEffect(resetDraft, [savedFingerprint]);
+
+  const changes = useMemo(() => diffPipelineSettings(saved, draft), [saved, draft]);
+  const stepLabels = useMemo(() => new Map(steps.map((step) => [String(step.number), step.label])), [steps]);
+  const configuredSteps = Object.keys(draft.stepConfigs).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const unconfiguredSteps = steps.filter((step) => !(String(step.number) in draft.stepConfigs));
+
+  const setStepConfigs = (stepConfigs: StepConfigs) => setDraft((current) => ({ ...current, stepConfigs }));
+
+  const updateStepValue = (step: string, key: string, value: unknown) => {
+    setStepConfigs({ ...draft.stepConfigs, [step]: { ...draft.stepConfigs[step], [key]: value } });
+  };
+
+  const removeStepValue = (step: string, key: string) => {
+    const { [key]: _removed, ...rest } = draft.stepConfigs[step];
+    setStepConfigs({ ...draft.stepConfigs, [step]: rest });
+  };
+
+  const addStep = () => {
+    const key = newStepKey.trim();
+    if (!key || key in draft.stepConfigs) return;
+    setStepConfigs({ ...draft.stepConfigs, [key]: {} });
+    setNewStepKey("");
+  };
+
+  const removeStep = (step: string) => {
+    const { [step]: _removed, ...rest } = draft.stepConfigs;
+    setStepConfigs(rest);
+  };
+
+  const addField = (step: string) => {
+    const field = newFields[step] ?? EMPTY_NEW_FIELD;
+    const key = field.key.trim();
+    const error = validateConfigKey(key, draft.stepConfigs[step]);
+    if (error) {
+      setNewFields((current) => ({ ...current, [step]: { ...field, error } }));
+      return;
+    }
+    setFieldSchemas((current) => ({ ...current, [step]: { ...current[step], [key]: schemaForKind(field.kind) } }));
+    updateStepValue(step, key, defaultValueForKind(field.kind));
+    setNewFields((current) => ({ ...current, [step]: EMPTY_NEW_FIELD }));
+  };
+
+  const openJsonMode = () => {
+    setJsonText(JSON.stringify(draft.stepConfigs, null, 2));
+    setJsonError(null);
+    setMode("json");
+  };
+
+  const updateJsonText = (text: string) => {
+    setJsonText(text);
+    const parsed = parseStepConfigsJson(text);
+    setJsonError(parsed.error);
+    if (parsed.value) {
+      setStepConfigs(parsed.value);
+      setFieldSchemas({});
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pipeline settings</CardTitle>
+        <CardDescription>
+          Per-step overrides and error handling applied to every pipeline run for this project.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-start justify-between gap-4 rounded-xl border border-slate-200 bg-slate-50 p-4">
+          <div>
+            <p className="text-sm font-semibold text-slate-900">Continue after step errors</p>
+            <p className="mt-1 text-xs text-slate-500">
+              When on, a failed step is recorded and the run moves on instead of pausing for review.
+            </p>
+          </div>
+          <Switch
+            checked={draft.autoContinueOnError}
+            onChange={(event) => setDraft((current) => ({ ...current, autoContinueOnError: event.target.checked }))}
+            aria-label="Continue after step errors"
+          />
+        </div>
+
+        <section className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="font-display text-base font-bold text-slate-900">Step configs</h3>
+            <div className="flex items-center gap-2">
+              <Button type="button" variant={mode === "form" ? "default" : "outline"} size="sm" onClick={() => setMode("form")} disabled={Boolean(jsonError)}>
+                <ListChecks className="mr-1.5 h-4 w-4" />
+                Form
+              </Button>
+              <Button type="button" variant={mode === "json" ? "default" : "outline"} size="sm" onClick={openJsonMode}>
+                <Braces className="mr-1.5 h-4 w-4" />
+                Raw JSON
+              </Button>
+            </div>
+          </div>
+
+          {mode === "json" ? (
+            <div className="space-y-2">
+              <textarea
+                value={jsonText}
+                rows={16}
+                spellCheck={false}
+                onChange={(event) => updateJsonText(event.target.value)}
+                className="w-full rounded-xl border border-slate-300 px-3 py-2 font-mono text-xs"
+              />
+              {jsonError ? (
+                <p className="text-xs font-semibold text-rose-700">{jsonError}</p>
+              ) : (
+                <p className="text-xs text-slate-500">Valid JSON. Changes apply to the form and the diff as you type.</p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {configuredSteps.length === 0 ? (
+                <p className="rounded-xl border border-dashed border-slate-300 px-3 py-4 text-sm text-slate-500">
+                  No step overrides. Every step uses the pipeline defaults.
+                </p>
+              ) : null}
+
+              {configuredSteps.map((step) => {
+                const config = draft.stepConfigs[step];
+                const newField = newFields[step] ?? EMPTY_NEW_FIELD;
+                return (
+                  <div key={step} className="space-y-3 rounded-xl border border-slate-200 p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-semibold text-slate-900">
+                        {stepLabels.has(step) ? `${step}. ${stepLabels.get(step)}` : `Step ${step}`}
+                      </p>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => removeStep(step)}>
+                        <Trash2 className="mr-1.5 h-4 w-4" />
+                        Remove step
+                      </Button>
+                    </div>
+                    <div className="grid gap-3 md:grid-cols-2">
+                      {Object.keys(config).map((key) => (
+                        <StepConfigField
+                          key={key}
+                          name={key}
+                          schema={fieldSchemas[step]?.[key] ?? inferPropertySchema(config[key])}
+                          value={config[key]}
+                          onChange={(value) => updateStepValue(step, key, value)}
+                          onRemove={() => removeStepValue(step, key)}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap items-end gap-2 border-t border-slate-100 pt-3">
+                      <label className="grid min-w-40 flex-1 gap-1 text-xs font-semibold text-slate-600">
+                        New key
+                        <input
+                          type="text"
+                          value={newField.key}
+                          placeholder="e.g. max_keywords"
+                          onChange={(event) =>
+                            setNewFields((current) => ({ ...current, [step]: { ...newField, key: event.target.value, error: null } }))
+                          }
+                          className="h-9 rounded-xl border border-slate-300 px-3 font-mono text-sm font-normal"
+                        />
+                      </label>
+                      <label className="grid gap-1 text-xs font-semibold text-slate-600">
+                        Type
+                        <Select
+                          value={newField.kind}
+                          className="h-9"
+                          onChange={(event) =>
+                            setNewFields((current) => ({
+                              ...current,
+                              [step]: { ...newField, kind: event.target.value as StepConfigFieldKind },
+                            }))
+                          }
+                        >
+                          {STEP_CONFIG_FIELD_KINDS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </Select>
+                      </label>
+                      <Button type="button" variant="outline" size="sm" onClick={() => addField(step)}>
+                        <Plus className="mr-1.5 h-4 w-4" />
+                        Add key
+                      </Button>
+                      {newField.error ? <p className="w-full text-xs font-semibold text-rose-700">{newField.error}</p> : null}
+                    </div>
+                  </div>
+                );
+              })}
+
+              <div className="flex flex-wrap items-end gap-2">
+                <label className="grid min-w-48 flex-1 gap-1 text-xs font-semibold text-slate-600">
+                  Add overrides for
+                  {unconfiguredSteps.length > 0 ? (
+                    <Select value={newStepKey} onChange={(event) => setNewStepKey(event.target.value)}>
+                      <option value="">Choose a step</option>
+                      {unconfiguredSteps.map((step) => (
+                        <option key={step.number} value={String(step.number)}>
+                          {step.number}. {step.label}
+                        </option>
+                      ))}
+                    </Select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={newStepKey}
+                      placeholder="Step number"
+                      onChange={(event) => setNewStepKey(event.target.value)}
+                      className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+                    />
+                  )}
+                </label>
+                <Button type="button" variant="outline" onClick={addStep} disabled={!newStepKey.trim()}>
+                  <Plus className="mr-1.5 h-4 w-4" />
+                  Add step
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        {reviewing ? (
+          <section className="space-y-3 rounded-xl border border-slate-300 p-4">
+            <h3 className="font-display text-base font-bold text-slate-900">Review changes</h3>
+            {changes.length === 0 ? (
+              <p className="text-sm text-slate-500">Nothing has changed since the last save.</p>
+            ) : (
+              <ul className="space-y-2">
+                {changes.map((change) => (
+                  <li key={change.path} className="rounded-lg bg-slate-50 px-3 py-2 text-xs">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={CHANGE_BADGE_VARIANTS[change.kind]}>{change.kind}</Badge>
+                      <span className="font-mono font-semibold text-slate-800">{change.path}</span>
+                    </div>
+                    {change.before !== null ? (
+                      <p className="mt-1 break-all font-mono text-rose-700">- {change.before}</p>
+                    ) : null}
+                    {change.after !== null ? (
+                      <p className="mt-1 break-all font-mono text-emerald-700">+ {change.after}</p>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Form method="post" className="flex items-center justify-end gap-2">
+              <input type="hidden" name="intent" value="save_pipeline_settings" />
+              <input type="hidden" name="settings_json" value={JSON.stringify(draft)} />
+              <Button type="button" variant="outline" onClick={() => setReviewing(false)} disabled={isSaving}>
+                Keep editing
+              </Button>
+              <Button type="submit" disabled={isSaving || changes.length === 0}>
+                {isSaving ? "Saving..." : "Save pipeline settings"}
+              </Button>
+            </Form>
+          </section>
+        ) : (
+          <div className="flex items-center justify-end gap-2 border-t border-slate-200 pt-4">
+            <Button type="button" variant="outline" onClick={resetDraft} disabled={changes.length === 0}>
+              Discard changes
+            </Button>
+            <Button type="button" onClick={() => setReviewing(true)} disabled={changes.length === 0 || Boolean(jsonError)}>
+              Review {changes.length} {changes.length === 1 ? "change" : "changes"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
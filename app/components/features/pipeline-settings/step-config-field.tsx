@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { StringListEditor } from "~/components/features/brief-editor";
+import { Button } from "~/components/ui/button";
+import { getFieldKind, type StepConfigPropertySchema } from "~/lib/pipeline-settings";
+
+interface StepConfigFieldProps {
+  name: string;
+  schema: StepConfigPropertySchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  onRemove: () => void;
+}
+
+const INPUT_CLASS = "h-9 w-full rounded-xl border border-slate-300 px-3 text-sm font-normal";
+
+function toEditableText(kind: string, value: unknown) {
+  if (kind === "json") return JSON.stringify(value ?? null, null, 2);
+  return value === undefined || value === null ? "" : String(value);
+}
+
+export function StepConfigField({ name, schema, value, onChange, onRemove }: StepConfigFieldProps) {
+  const kind = getFieldKind(schema);
+  // Number and JSON inputs keep their own text so half-typed values are not coerced; only valid input is committed.
+  const [text, setText] = useState(() => toEditableText(kind, value));
+  const [error, setError] = useState<string | null>(null);
+  const lastCommittedRef = useRef<string | undefined>(JSON.stringify(value));
+
+  // Resync only for outside changes (reset, raw JSON edits), otherwise "1." would snap back to "1" mid-typing.
+  useEffect(() => {
+    const serialized = JSON.stringify(value);
+    if (serialized === lastCommittedRef.current) return;
+    lastCommittedRef.current = serialized;
+    setText(toEditableText(kind, value));
+    setError(null);
+  }, [kind, value]);
+
+  const commit = (next: unknown) => {
+    lastCommittedRef.current = JSON.stringify(next);
+    onChange(next);
+  };
+
+  const commitText = (next: string) => {
+    setText(next);
+    if (kind === "number" || kind === "integer") {
+      const parsed = Number(next);
+      if (!next.trim() || !Number.isFinite(parsed)) {
+        setError("Enter a number.");
+        return;
+      }
+      if (kind === "integer" && !Number.isInteger(parsed)) {
+        setError("Enter a whole number.");
+        return;
+      }
+      setError(null);
+      commit(parsed);
+      return;
+    }
+    if (kind === "json") {
+      try {
+        const parsed: unknown = JSON.parse(next);
+        setError(null);
+        commit(parsed);
+      } catch {
+        setError("Invalid JSON.");
+      }
+      return;
+    }
+    commit(next);
+  };
+
+  return (
+    <div className="grid gap-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-xs font-semibold text-slate-700">{name}</span>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove} aria-label={`Remove ${name}`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {kind === "boolean" ? (
+        <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-[#2f6f71]"
+            checked={value === true}
+            onChange={(event) => onChange(event.target.checked)}
+          />
+          {value === true ? "On" : "Off"}
+        </label>
+      ) : kind === "string_list" ? (
+        <StringListEditor
+          label=""
+          values={Array.isArray(value) ? (value as string[]) : []}
+          onChange={(next) => onChange(next)}
+          addLabel="Add value"
+        />
+      ) : kind === "json" ? (
+        <textarea
+          value={text}
+          rows={Math.min(8, Math.max(2, text.split("\n").length))}
+          spellCheck={false}
+          onChange={(event) => commitText(event.target.value)}
+          className="w-full rounded-xl border border-slate-300 px-3 py-2 font-mono text-xs"
+        />
+      ) : (
+        <input
+          type={kind === "string" ? "text" : "number"}
+          step={kind === "integer" ? 1 : "any"}
+          value={text}
+          onChange={(event) => commitText(event.target.value)}
+          className={INPUT_CLASS}
+        />
+      )}
+      {error ? <p className="text-xs font-semibold text-rose-700">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { StepRangePanel } from "./step-range-panel";
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Select } from "~/components/ui/select";
+import {
+  FULL_STEP_RANGE,
+  formatStepRangeLabel,
+  summarizeStepRange,
+  type PipelineStepOption,
+  type StepRangeValues,
+} from "~/lib/pipeline-steps";
+import { cn } from "~/lib/utils";
+
+interface StepRangePanelProps {
+  steps: PipelineStepOption[];
+  value: StepRangeValues;
+  onChange: (value: StepRangeValues) => void;
+  className?: string;
+}
+
+export function StepRangePanel({ steps, value, onChange, className }: StepRangePanelProps) {
+  const summary = summarizeStepRange(value, steps);
+  const [expanded, setExpanded] = useState(summary.isPartial);
+  // Invalid ranges block submit, so keep the summary visible while there is something to fix.
+  const isOpen = expanded || summary.errors.length > 0;
+
+  const toggleSkip = (stepNumber: number) => {
+    onChange({
+      ...value,
+      skipSteps: value.skipSteps.includes(stepNumber)
+        ? value.skipSteps.filter((entry) => entry !== stepNumber)
+        : [...value.skipSteps, stepNumber].sort((a, b) => a - b),
+    });
+  };
+
+  const parseBound = (raw: string) => (raw ? Number.parseInt(raw, 10) : null);
+
+  return (
+    <section className={cn("rounded-xl border border-slate-200", className)}>
+      <button
+        type="button"
+        onClick={() => setExpanded((current) => !current)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm font-semibold text-slate-700"
+      >
+        <span className="inline-flex items-center gap-1.5">
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          Advanced: steps to run
+        </span>
+        <span className="text-xs font-normal text-slate-500">
+          {summary.isPartial ? `${summary.included.length} of ${steps.length} steps` : "Full run"}
+        </span>
+      </button>
+
+      {isOpen ? (
+        <div className="space-y-3 border-t border-slate-200 p-3">
+          {steps.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Steps are listed once this pipeline has run at least once. Until then runs always cover every step.
+            </p>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className="grid gap-1 text-sm font-semibold text-slate-700">
+                  Start at
+                  <Select
+                    value={value.startStep ?? ""}
+                    onChange={(event) => onChange({ ...value, startStep: parseBound(event.target.value) })}
+                  >
+                    <option value="">First step</option>
+                    {steps.map((step) => (
+                      <option key={step.number} value={step.number}>
+                        {step.number}. {step.label}
+                      </option>
+                    ))}
+                  </Select>
+                </label>
+                <label className="grid gap-1 text-sm font-semibold text-slate-700">
+                  End after
+                  <Select
+                    value={value.endStep ?? ""}
+                    onChange={(event) => onChange({ ...value, endStep: parseBound(event.target.value) })}
+                  >
+                    <option value="">Last step</option>
+                    {steps.map((step) => (
+                      <option key={step.number} value={step.number}>
+                        {step.number}. {step.label}
+                      </option>
+                    ))}
+                  </Select>
+                </label>
+              </div>
+
+              <ul className="divide-y divide-slate-100 rounded-xl border border-slate-200">
+                {steps.map((step) => {
+                  const outOfRange =
+                    (value.startStep !== null && step.number < value.startStep) ||
+                    (value.endStep !== null && step.number > value.endStep);
+                  return (
+                    <li key={step.number} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                      <span className="w-6 text-xs font-semibold text-slate-400">{step.number}</span>
+                      <span className={cn("flex-1 font-semibold", outOfRange ? "text-slate-400" : "text-slate-800")}>
+                        {step.label}
+                      </span>
+                      <label className="inline-flex items-center gap-1.5 text-xs text-slate-600">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-[#2f6f71]"
+                          checked={value.skipSteps.includes(step.number)}
+                          disabled={outOfRange}
+                          onChange={() => toggleSkip(step.number)}
+                        />
+                        Skip
+                      </label>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onChange({ startStep: step.number, endStep: step.number, skipSteps: [] })}
+                      >
+                        Only this
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <div
+                className={cn(
+                  "space-y-1 rounded-xl border px-3 py-2 text-xs",
+                  summary.errors.length > 0 ? "border-rose-300 bg-rose-50 text-rose-700" : "border-slate-200 bg-slate-50 text-slate-600"
+                )}
+              >
+                {summary.errors.length > 0 ? (
+                  summary.errors.map((error) => (
+                    <p key={error} className="font-semibold">
+                      {error}
+                    </p>
+                  ))
+                ) : (
+                  <>
+                    <p>
+                      <span className="font-semibold">Runs:</span> {formatStepRangeLabel(summary.included)}
+                    </p>
+                    {summary.skipped.length > 0 ? (
+                      <p>
+                        <span className="font-semibold">Skips:</span> {formatStepRangeLabel(summary.skipped)}
+                      </p>
+                    ) : null}
+                  </>
+                )}
+              </div>
+
+              {summary.isPartial ? (
+                <Button type="button" variant="outline" size="sm" onClick={() => onChange(FULL_STEP_RANGE)}>
+                  Reset to full run
+                </Button>
+              ) : null}
+            </>
+          )}
+        </div>
+      ) : null}
+    </section>
+  );
+}
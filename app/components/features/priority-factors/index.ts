@@ -0,0 +1 @@
+export { PriorityFactorChart } from "./priority-factor-chart";
@@ -0,0 +1,39 @@
+import type { PriorityFactorRow } from "~/lib/keyword-detail";
+import { cn } from "~/lib/utils";
+
+interface PriorityFactorChartProps {
+  factors: PriorityFactorRow[];
+}
+
+function formatFactorNumber(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+export function PriorityFactorChart({ factors }: PriorityFactorChartProps) {
+  const maxContribution = Math.max(...factors.map((factor) => Math.abs(factor.contribution)), 0);
+
+  return (
+    <ul className="space-y-3">
+      {factors.map((factor) => {
+        const width = maxContribution > 0 ? (Math.abs(factor.contribution) / maxContribution) * 100 : 0;
+        return (
+          <li key={factor.key} className="space-y-1">
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className="font-medium text-slate-800">{factor.label}</span>
+              <span className="text-xs text-slate-500">
+                {formatFactorNumber(factor.value)}
+                {factor.weight !== null ? ` × ${formatFactorNumber(factor.weight)} = ${formatFactorNumber(factor.contribution)}` : ""}
+              </span>
+            </div>
+            <div className="h-2.5 overflow-hidden rounded-full bg-slate-100">
+              <div
+                className={cn("h-full rounded-full", factor.contribution < 0 ? "bg-rose-400" : "bg-[#2f6f71]")}
+                style={{ width: `${width}%` }}
+              />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
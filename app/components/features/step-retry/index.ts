@@ -0,0 +1,3 @@
+export { RetryOriginNotice } from "./retry-origin-notice";
+export { RetryStepForm } from "./retry-step-form";
+export { RunLineageCard } from "./run-lineage-card";
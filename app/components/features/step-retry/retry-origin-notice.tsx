@@ -0,0 +1,20 @@
+import { Link } from "react-router";
+import type { RetryOrigin } from "~/lib/pipeline-steps";
+
+interface RetryOriginNoticeProps {
+  origin: RetryOrigin;
+  /** Path of the run page in the same module, without the run id. */
+  runsPath: string;
+}
+
+export function RetryOriginNotice({ origin, runsPath }: RetryOriginNoticeProps) {
+  return (
+    <div className="rounded-xl border border-sky-200 bg-sky-50 px-4 py-3 text-sm text-sky-900">
+      Retried from step {origin.stepNumber} of{" "}
+      <Link to={`${runsPath}/${origin.runId}`} className="font-semibold underline underline-offset-2">
+        run {origin.runId.slice(0, 8)}
+      </Link>
+      . This run uses the default run settings, not the settings the original run started with.
+    </div>
+  );
+}
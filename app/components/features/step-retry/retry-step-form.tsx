@@ -0,0 +1,30 @@
+import { Form, useNavigation } from "react-router";
+import { RotateCcw } from "lucide-react";
+import { Button } from "~/components/ui/button";
+
+interface RetryStepFormProps {
+  runId: string;
+  stepNumber: number;
+  disabled?: boolean;
+}
+
+export function RetryStepForm({ runId, stepNumber, disabled = false }: RetryStepFormProps) {
+  const navigation = useNavigation();
+  const isSubmitting =
+    navigation.state !== "idle" &&
+    navigation.formData?.get("intent") === "retryFromStep" &&
+    navigation.formData?.get("step_number") === String(stepNumber);
+
+  return (
+    <Form method="post" className="space-y-1">
+      <input type="hidden" name="intent" value="retryFromStep" />
+      <input type="hidden" name="run_id" value={runId} />
+      <input type="hidden" name="step_number" value={stepNumber} />
+      <Button type="submit" size="sm" variant="outline" disabled={disabled || isSubmitting}>
+        <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+        {isSubmitting ? "Starting retry..." : "Retry from this step"}
+      </Button>
+      <p className="text-[11px] text-slate-500">Starts a new run from this step with the default run settings.</p>
+    </Form>
+  );
+}
@@ -0,0 +1,115 @@
+import { Link } from "react-router";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { formatDateTime, formatStatusLabel, getStatusBadgeClass } from "~/lib/dashboard";
+import {
+  formatPipelineModuleLabel,
+  isRunInModule,
+  normalizePipelineModule,
+  type RunLineage,
+} from "~/lib/pipeline-module";
+import { cn } from "~/lib/utils";
+import type { components } from "~/types/api.generated";
+
+type PipelineRunResponse = components["schemas"]["PipelineRunResponse"];
+
+interface RunLineageCardProps {
+  projectId: string;
+  run: PipelineRunResponse;
+  lineage: RunLineage;
+}
+
+function runHref(projectId: string, run: PipelineRunResponse) {
+  const module = isRunInModule(run, "content") ? "creation" : "discovery";
+  return `/projects/${projectId}/${module}/runs/${run.id}`;
+}
+
+function LineageRow({
+  projectId,
+  run,
+  relation,
+  isCurrent = false,
+}: {
+  projectId: string;
+  run: PipelineRunResponse;
+  relation: string;
+  isCurrent?: boolean;
+}) {
+  const content = (
+    <div className="flex flex-wrap items-center justify-between gap-2">
+      <div className="min-w-0">
+        <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">{relation}</p>
+        <p className="truncate font-semibold text-slate-900">
+          {formatPipelineModuleLabel(run.pipeline_module)} run {run.id.slice(0, 8)}
+          {run.start_step !== null ? <span className="font-normal text-slate-500"> · from step {run.start_step}</span> : null}
+        </p>
+        <p className="text-[11px] text-slate-500">{formatDateTime(run.started_at ?? run.created_at)}</p>
+      </div>
+      <span className={`inline-flex rounded-full border px-2.5 py-1 text-[11px] font-semibold ${getStatusBadgeClass(run.status)}`}>
+        {formatStatusLabel(run.status)}
+      </span>
+    </div>
+  );
+
+  const className = cn(
+    "block rounded-xl border px-3 py-2 text-sm",
+    isCurrent ? "border-[#2f6f71] bg-teal-50/60" : "border-slate-200 bg-white hover:border-slate-300"
+  );
+
+  return (
+    <li>
+      {isCurrent ? (
+        <div className={className}>{content}</div>
+      ) : (
+        <Link to={runHref(projectId, run)} className={className}>
+          {content}
+        </Link>
+      )}
+    </li>
+  );
+}
+
+/** Shows the chain of runs a retry descends from and the retries started from this run. */
+export function RunLineageCard({ projectId, run, lineage }: RunLineageCardProps) {
+  const { ancestors, unresolvedAncestorId, retries } = lineage;
+  if (ancestors.length === 0 && !unresolvedAncestorId && retries.length === 0) return null;
+
+  // A content run's parent can be the discovery run that fed it; only same-module parents are retries.
+  const module = normalizePipelineModule(run.pipeline_module);
+  const originalIndex = unresolvedAncestorId
+    ? -1
+    : ancestors.findIndex((ancestor) => normalizePipelineModule(ancestor.pipeline_module) === module);
+  const describeAncestor = (ancestor: PipelineRunResponse, index: number) => {
+    if (normalizePipelineModule(ancestor.pipeline_module) !== module) return "Source run";
+    return index === originalIndex ? "Original run" : "Earlier retry";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Run lineage</CardTitle>
+        <CardDescription>Runs this one was retried from, and retries started from its failed steps.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-2 border-l-2 border-slate-200 pl-3">
+          {unresolvedAncestorId ? (
+            <li className="rounded-xl border border-dashed border-slate-300 px-3 py-2 text-xs text-slate-500">
+              Earlier run {unresolvedAncestorId.slice(0, 8)} is older than the recent run history.
+            </li>
+          ) : null}
+          {ancestors.map((ancestor, index) => (
+            <LineageRow
+              key={ancestor.id}
+              projectId={projectId}
+              run={ancestor}
+              relation={describeAncestor(ancestor, index)}
+            />
+          ))}
+          <LineageRow projectId={projectId} run={run} relation="This run" isCurrent />
+          {retries.map((retry) => (
+            <LineageRow key={retry.id} projectId={projectId} run={retry} relation="Retry of this run" />
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
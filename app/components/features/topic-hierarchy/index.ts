@@ -0,0 +1,3 @@
+export { TopicHierarchyTree } from "./topic-hierarchy-tree";
+
+export type { TopicHierarchyResponse } from "./types";
@@ -0,0 +1,139 @@
+import { useState, type DragEvent } from "react";
+import { ChevronDown, ChevronRight, GripVertical } from "lucide-react";
+import { canMoveTopic, rollupKeywordCount } from "~/lib/topic-hierarchy";
+import { cn } from "~/lib/utils";
+import type { TopicHierarchyResponse } from "./types";
+
+const ROOT_DROP_TARGET = "__root__";
+
+interface TopicHierarchyTreeProps {
+  nodes: TopicHierarchyResponse[];
+  onMove: (topicId: string, newParentId: string | null) => void;
+  disabled?: boolean;
+  pendingTopicId?: string | null;
+}
+
+export function TopicHierarchyTree({ nodes, onMove, disabled = false, pendingTopicId = null }: TopicHierarchyTreeProps) {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => new Set());
+  const [draggedTopicId, setDraggedTopicId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const toggleCollapsed = (topicId: string) => {
+    setCollapsedIds((current) => {
+      const next = new Set(current);
+      if (next.has(topicId)) {
+        next.delete(topicId);
+      } else {
+        next.add(topicId);
+      }
+      return next;
+    });
+  };
+
+  const isValidDrop = (newParentId: string | null) =>
+    draggedTopicId !== null && canMoveTopic(nodes, draggedTopicId, newParentId);
+
+  const handleDragOver = (event: DragEvent, targetId: string) => {
+    const newParentId = targetId === ROOT_DROP_TARGET ? null : targetId;
+    if (!isValidDrop(newParentId)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = "move";
+    setDropTargetId(targetId);
+  };
+
+  const handleDrop = (event: DragEvent, targetId: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const newParentId = targetId === ROOT_DROP_TARGET ? null : targetId;
+    if (draggedTopicId && isValidDrop(newParentId)) {
+      onMove(draggedTopicId, newParentId);
+    }
+    setDraggedTopicId(null);
+    setDropTargetId(null);
+  };
+
+  const resetDrag = () => {
+    setDraggedTopicId(null);
+    setDropTargetId(null);
+  };
+
+  const renderNodes = (levelNodes: TopicHierarchyResponse[], depth: number) => (
+    <ul className={cn("space-y-2", depth > 0 && "mt-2 border-l border-dashed border-slate-300 pl-4")}>
+      {levelNodes.map((node) => {
+        const hasChildren = node.children.length > 0;
+        const isCollapsed = collapsedIds.has(node.id);
+        const rolledUpCount = rollupKeywordCount(node);
+
+        return (
+          <li key={node.id}>
+            <div
+              draggable={!disabled}
+              onDragStart={(event) => {
+                event.stopPropagation();
+                event.dataTransfer.effectAllowed = "move";
+                event.dataTransfer.setData("text/plain", node.id);
+                setDraggedTopicId(node.id);
+              }}
+              onDragEnd={resetDrag}
+              onDragOver={(event) => handleDragOver(event, node.id)}
+              onDragLeave={() => setDropTargetId((current) => (current === node.id ? null : current))}
+              onDrop={(event) => handleDrop(event, node.id)}
+              className={cn(
+                "flex items-center gap-2 rounded-xl border bg-white px-3 py-2 text-sm transition-colors",
+                dropTargetId === node.id ? "border-[#2f6f71] bg-teal-50 ring-2 ring-[#2f6f71]/30" : "border-slate-200",
+                draggedTopicId === node.id && "opacity-50",
+                pendingTopicId === node.id && "animate-pulse"
+              )}
+            >
+              <GripVertical className={cn("h-4 w-4 shrink-0 text-slate-400", !disabled && "cursor-grab")} />
+              {hasChildren ? (
+                <button
+                  type="button"
+                  onClick={() => toggleCollapsed(node.id)}
+                  aria-label={isCollapsed ? `Expand ${node.name}` : `Collapse ${node.name}`}
+                  className="rounded p-0.5 text-slate-500 hover:bg-slate-100"
+                >
+                  {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </button>
+              ) : (
+                <span className="w-5" />
+              )}
+              <span className="min-w-0 flex-1 truncate font-semibold text-slate-900">{node.name}</span>
+              {node.priority_rank !== null ? (
+                <span className="rounded-full bg-indigo-100 px-2 py-0.5 text-[11px] font-semibold text-indigo-900">
+                  #{node.priority_rank}
+                </span>
+              ) : null}
+              <span className="whitespace-nowrap text-xs text-slate-500">
+                {hasChildren ? `${rolledUpCount} keywords (${node.keyword_count} direct)` : `${node.keyword_count} keywords`}
+              </span>
+            </div>
+            {hasChildren && !isCollapsed ? renderNodes(node.children, depth + 1) : null}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-3">
+      {renderNodes(nodes, 0)}
+      {draggedTopicId ? (
+        <div
+          onDragOver={(event) => handleDragOver(event, ROOT_DROP_TARGET)}
+          onDragLeave={() => setDropTargetId((current) => (current === ROOT_DROP_TARGET ? null : current))}
+          onDrop={(event) => handleDrop(event, ROOT_DROP_TARGET)}
+          className={cn(
+            "rounded-xl border-2 border-dashed px-3 py-3 text-center text-xs font-semibold",
+            dropTargetId === ROOT_DROP_TARGET
+              ? "border-[#2f6f71] bg-teal-50 text-[#1e5052]"
+              : "border-slate-300 text-slate-500"
+          )}
+        >
+          Drop here to make it a top-level topic
+        </div>
+      ) : null}
+    </div>
+  );
+}
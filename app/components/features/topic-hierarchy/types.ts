@@ -0,0 +1,3 @@
+import type { components } from "~/types/api.generated";
+
+export type TopicHierarchyResponse = components["schemas"]["TopicHierarchyResponse"];
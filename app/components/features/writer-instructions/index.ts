@@ -0,0 +1,3 @@
+export { WriterInstructionsPanel } from "./writer-instructions-panel";
+
+export type { WriterInstructionsResponse } from "./types";
@@ -0,0 +1,131 @@
+import type { ReactNode } from "react";
+import { formatStatusLabel } from "~/lib/dashboard";
+import type { WriterInstructionsResponse } from "./types";
+
+interface WriterInstructionsPanelProps {
+  instructions: WriterInstructionsResponse;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEmptyValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (isRecord(value)) return Object.keys(value).length === 0;
+  return false;
+}
+
+function renderValue(value: unknown): ReactNode {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" || typeof value === "number") return String(value);
+  if (Array.isArray(value)) {
+    return (
+      <ul className="list-disc space-y-0.5 pl-5">
+        {value.map((entry, index) => (
+          <li key={index}>{renderValue(entry)}</li>
+        ))}
+      </ul>
+    );
+  }
+  if (isRecord(value)) return <InstructionRecord record={value} />;
+  return "—";
+}
+
+function InstructionRecord({ record }: { record: Record<string, unknown> }) {
+  const entries = Object.entries(record).filter(([, value]) => !isEmptyValue(value));
+  if (entries.length === 0) return <span className="text-slate-500">—</span>;
+
+  return (
+    <dl className="grid gap-x-4 gap-y-1.5 sm:grid-cols-[minmax(0,180px)_1fr]">
+      {entries.map(([key, value]) => (
+        <div key={key} className="contents">
+          <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">{formatStatusLabel(key)}</dt>
+          <dd className="text-slate-800">{renderValue(value)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function InstructionSection({ title, isEmpty, children }: { title: string; isEmpty: boolean; children: ReactNode }) {
+  return (
+    <section className="space-y-2 rounded-xl border border-slate-200 bg-white p-4 text-sm">
+      <h3 className="font-semibold text-slate-900">{title}</h3>
+      {isEmpty ? <p className="text-slate-500">Not specified.</p> : children}
+    </section>
+  );
+}
+
+function StringListSection({ title, values, tone }: { title: string; values: string[] | null; tone: "rose" | "amber" }) {
+  const items = values ?? [];
+  return (
+    <InstructionSection title={`${title} (${items.length})`} isEmpty={items.length === 0}>
+      <ul className="space-y-1.5">
+        {items.map((item, index) => (
+          <li
+            key={`${item}-${index}`}
+            className={
+              tone === "rose"
+                ? "rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-rose-900"
+                : "rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-amber-900"
+            }
+          >
+            {item}
+          </li>
+        ))}
+      </ul>
+    </InstructionSection>
+  );
+}
+
+export function WriterInstructionsPanel({ instructions }: WriterInstructionsPanelProps) {
+  const qaChecklist = instructions.qa_checklist ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-2">
+        <StringListSection title="Forbidden claims" values={instructions.forbidden_claims} tone="rose" />
+        <StringListSection title="Compliance notes" values={instructions.compliance_notes} tone="amber" />
+      </div>
+      <p className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
+        Forbidden claims and compliance notes are read-only here: the API does not expose an endpoint for updating
+        writer instructions yet.
+      </p>
+
+      <InstructionSection title="Voice and tone" isEmpty={isEmptyValue(instructions.voice_tone_constraints)}>
+        <InstructionRecord record={instructions.voice_tone_constraints ?? {}} />
+      </InstructionSection>
+      <div className="grid gap-4 lg:grid-cols-2">
+        <InstructionSection title="Formatting requirements" isEmpty={isEmptyValue(instructions.formatting_requirements)}>
+          <InstructionRecord record={instructions.formatting_requirements ?? {}} />
+        </InstructionSection>
+        <InstructionSection title="H1 / H2 usage" isEmpty={isEmptyValue(instructions.h1_h2_usage)}>
+          <InstructionRecord record={instructions.h1_h2_usage ?? {}} />
+        </InstructionSection>
+        <InstructionSection title="Internal linking minimums" isEmpty={isEmptyValue(instructions.internal_linking_minimums)}>
+          <InstructionRecord record={instructions.internal_linking_minimums ?? {}} />
+        </InstructionSection>
+        <InstructionSection title="Pass / fail thresholds" isEmpty={isEmptyValue(instructions.pass_fail_thresholds)}>
+          <InstructionRecord record={instructions.pass_fail_thresholds ?? {}} />
+        </InstructionSection>
+      </div>
+      <InstructionSection title="Schema guidance" isEmpty={!instructions.schema_guidance}>
+        <p className="whitespace-pre-line text-slate-800">{instructions.schema_guidance}</p>
+      </InstructionSection>
+      <InstructionSection title={`QA checklist (${qaChecklist.length})`} isEmpty={qaChecklist.length === 0}>
+        <ol className="space-y-2">
+          {qaChecklist.map((item, index) => (
+            <li key={index} className="flex gap-3 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+              <span className="font-semibold text-slate-500">{index + 1}.</span>
+              <div className="min-w-0 flex-1">
+                <InstructionRecord record={item} />
+              </div>
+            </li>
+          ))}
+        </ol>
+      </InstructionSection>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from "react";
+import type { KeywordGraphModel } from "~/lib/keyword-graph";
+import {
+  layoutKeywordGraph,
+  type KeywordGraphLayoutRequest,
+  type KeywordGraphLayoutResponse,
+  type KeywordGraphPositions,
+} from "~/lib/keyword-graph-layout";
+
+export type SettledKeywordGraphLayout = {
+  model: KeywordGraphModel;
+  positions: KeywordGraphPositions;
+};
+
+/**
+ * Lays out a keyword graph model in a Web Worker so large graphs do not block the page. Returns the last finished
+ * layout together with the model it was computed for, so callers can keep showing it while a newer one is running.
+ * Falls back to the main thread when workers are unavailable or the worker fails to load.
+ */
+export function useKeywordGraphLayout(model: KeywordGraphModel | null) {
+  const workerRef = useRef<Worker | null>(null);
+  const requestCountRef = useRef(0);
+  const pendingRef = useRef<{ requestId: number; model: KeywordGraphModel } | null>(null);
+  const [workerFailed, setWorkerFailed] = useState(false);
+  const [layout, setLayout] = useState<SettledKeywordGraphLayout | null>(null);
+  const [isLayingOut, setIsLayingOut] = useState(false);
+
+  useEffect(() => {
+    if (typeof Worker === "undefined") {
+      setWorkerFailed(true);
+      return;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL("../lib/keyword-graph.worker.ts", import.meta.url), { type: "module" });
+    } catch {
+      setWorkerFailed(true);
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<KeywordGraphLayoutResponse>) => {
+      const pending = pendingRef.current;
+      // Ignore layouts for models that were replaced while the worker was busy.
+      if (!pending || pending.requestId !== event.data.requestId) return;
+      pendingRef.current = null;
+      setLayout({ model: pending.model, positions: event.data.positions });
+      setIsLayingOut(false);
+    };
+    worker.onerror = () => setWorkerFailed(true);
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!model) return;
+    requestCountRef.current += 1;
+    const requestId = requestCountRef.current;
+    pendingRef.current = { requestId, model };
+    setIsLayingOut(true);
+
+    if (workerFailed) {
+      // Deferred so the pending state paints before the main thread is busy.
+      const timeout = window.setTimeout(() => {
+        pendingRef.current = null;
+        setLayout({ model, positions: layoutKeywordGraph(model.clusters) });
+        setIsLayingOut(false);
+      }, 0);
+      return () => window.clearTimeout(timeout);
+    }
+
+    workerRef.current?.postMessage({ requestId, clusters: model.clusters } satisfies KeywordGraphLayoutRequest);
+  }, [model, workerFailed]);
+
+  return { layout, isLayingOut };
+}
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import { isRunTerminal } from "~/lib/dashboard";
+import type { components } from "~/types/api.generated";
+
+type PipelineProgressResponse = components["schemas"]["PipelineProgressResponse"];
+
+export type RunProgressTransport = "idle" | "stream" | "polling";
+
+interface UseRunProgressOptions {
+  projectId: string;
+  runId: string | null | undefined;
+  /** Progress from the route loader; replaced by live updates until the loader revalidates. */
+  initialProgress?: PipelineProgressResponse | null;
+  /** Whether the run is worth following at all, usually whether the loader saw it as active. */
+  enabled: boolean;
+  pollIntervalMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Follows a pipeline run's progress over the shared server-sent event stream, falling back to polling the progress
+ * route when EventSource is unavailable or the stream asks the client to re-authenticate. Stops once the run reaches
+ * a terminal status.
+ */
+export function useRunProgress({
+  projectId,
+  runId,
+  initialProgress = null,
+  enabled,
+  pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+}: UseRunProgressOptions) {
+  const [liveProgress, setLiveProgress] = useState<PipelineProgressResponse | null>(null);
+  const [transport, setTransport] = useState<RunProgressTransport>("idle");
+  const [usePolling, setUsePolling] = useState(false);
+  const progressFetcher = useFetcher<PipelineProgressResponse>();
+  const isProgressRequestInFlightRef = useRef(false);
+
+  // New loader data or a different run means earlier live updates no longer apply.
+  useEffect(() => {
+    setLiveProgress(null);
+  }, [runId, initialProgress]);
+
+  useEffect(() => {
+    isProgressRequestInFlightRef.current = progressFetcher.state !== "idle";
+  }, [progressFetcher.state]);
+
+  useEffect(() => {
+    if (progressFetcher.data) setLiveProgress(progressFetcher.data);
+  }, [progressFetcher.data]);
+
+  const progress = liveProgress ?? initialProgress;
+  const isFinished = progress ? isRunTerminal(progress.status) : false;
+  const shouldFollow = Boolean(runId) && enabled && !isFinished;
+
+  useEffect(() => {
+    if (!shouldFollow || !runId) {
+      setTransport("idle");
+      return;
+    }
+
+    if (usePolling || typeof window.EventSource === "undefined") {
+      setTransport("polling");
+      const poll = () => {
+        if (isProgressRequestInFlightRef.current) return;
+        isProgressRequestInFlightRef.current = true;
+        progressFetcher.load(`/projects/${projectId}/progress/${runId}?ts=${Date.now()}`);
+      };
+
+      poll();
+      const interval = window.setInterval(poll, pollIntervalMs);
+      return () => {
+        window.clearInterval(interval);
+        isProgressRequestInFlightRef.current = false;
+      };
+    }
+
+    setTransport("stream");
+    const source = new EventSource(`/projects/${projectId}/progress/${runId}/stream`);
+    const readProgress = (event: MessageEvent<string>) => {
+      try {
+        setLiveProgress(JSON.parse(event.data) as PipelineProgressResponse);
+      } catch {
+        // ignore malformed frames; the next update replaces them
+      }
+    };
+    const fallBackToPolling = () => {
+      source.close();
+      setUsePolling(true);
+    };
+
+    source.addEventListener("progress", readProgress);
+    source.addEventListener("end", () => source.close());
+    source.addEventListener("fallback", fallBackToPolling);
+    // EventSource retries network blips on its own; a closed source means the server refused the stream.
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) fallBackToPolling();
+    };
+
+    return () => source.close();
+  }, [projectId, runId, shouldFollow, usePolling, pollIntervalMs]);
+
+  return { progress, transport };
+}
@@ -0,0 +1,148 @@
+export type ArticleDiffUnitKind = "heading" | "paragraph" | "list item" | "faq" | "table cell";
+
+export type ArticleDiffUnit = {
+  kind: ArticleDiffUnitKind;
+  text: string;
+};
+
+export type ArticleDiffEntry = ArticleDiffUnit & {
+  change: "unchanged" | "added" | "removed";
+};
+
+export type ArticleDiffSummary = {
+  added: number;
+  removed: number;
+  unchanged: number;
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function readText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readStringList(value: unknown) {
+  return Array.isArray(value) ? value.map(readText).filter(Boolean) : [];
+}
+
+function splitParagraphs(body: string) {
+  return body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Flattens a modular_document into comparable units. Each block contributes its heading, body
+ * paragraphs, list items, FAQ question/answer pairs and table cells, in document order.
+ */
+export function extractArticleDiffUnits(document: Record<string, unknown> | null | undefined): ArticleDiffUnit[] {
+  const units: ArticleDiffUnit[] = [];
+  const blocks = Array.isArray(document?.blocks) ? document.blocks : [];
+
+  for (const rawBlock of blocks) {
+    const block = asRecord(rawBlock);
+    if (!block) continue;
+
+    const heading = readText(block.heading);
+    if (heading) units.push({ kind: "heading", text: heading });
+
+    for (const paragraph of splitParagraphs(readText(block.body))) {
+      units.push({ kind: "paragraph", text: paragraph });
+    }
+
+    for (const item of readStringList(block.items)) {
+      units.push({ kind: "list item", text: item });
+    }
+
+    if (Array.isArray(block.faq_items)) {
+      for (const rawFaq of block.faq_items) {
+        const faq = asRecord(rawFaq);
+        if (!faq) continue;
+        const question = readText(faq.question);
+        const answer = readText(faq.answer);
+        if (!question && !answer) continue;
+        units.push({ kind: "faq", text: `Q: ${question}\nA: ${answer}` });
+      }
+    }
+
+    const columns = readStringList(block.table_columns);
+    if (Array.isArray(block.table_rows)) {
+      for (const row of block.table_rows) {
+        if (!Array.isArray(row)) continue;
+        const rowLabel = readText(row[0]);
+        row.forEach((cell, cellIndex) => {
+          const value = readText(cell);
+          if (!value) return;
+          const column = columns[cellIndex] ?? `Column ${cellIndex + 1}`;
+          const prefix = cellIndex > 0 && rowLabel ? `${rowLabel} · ${column}` : column;
+          units.push({ kind: "table cell", text: `${prefix}: ${value}` });
+        });
+      }
+    }
+  }
+
+  return units;
+}
+
+function unitKey(unit: ArticleDiffUnit) {
+  return `${unit.kind}\u0000${unit.text}`;
+}
+
+/** Longest-common-subsequence diff between two unit lists, preserving document order. */
+export function diffArticleUnits(base: ArticleDiffUnit[], target: ArticleDiffUnit[]): ArticleDiffEntry[] {
+  const baseKeys = base.map(unitKey);
+  const targetKeys = target.map(unitKey);
+  const rows = baseKeys.length + 1;
+  const cols = targetKeys.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+
+  for (let i = baseKeys.length - 1; i >= 0; i -= 1) {
+    for (let j = targetKeys.length - 1; j >= 0; j -= 1) {
+      lengths[i * cols + j] =
+        baseKeys[i] === targetKeys[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const entries: ArticleDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < target.length) {
+    if (baseKeys[i] === targetKeys[j]) {
+      entries.push({ ...target[j], change: "unchanged" });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      entries.push({ ...base[i], change: "removed" });
+      i += 1;
+    } else {
+      entries.push({ ...target[j], change: "added" });
+      j += 1;
+    }
+  }
+  while (i < base.length) {
+    entries.push({ ...base[i], change: "removed" });
+    i += 1;
+  }
+  while (j < target.length) {
+    entries.push({ ...target[j], change: "added" });
+    j += 1;
+  }
+
+  return entries;
+}
+
+export function summarizeArticleDiff(entries: ArticleDiffEntry[]): ArticleDiffSummary {
+  return entries.reduce(
+    (acc, entry) => {
+      acc[entry.change] += 1;
+      return acc;
+    },
+    { added: 0, removed: 0, unchanged: 0 }
+  );
+}
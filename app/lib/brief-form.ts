@@ -0,0 +1,263 @@
+import type { components } from "~/types/api.generated";
+
+type ContentBriefCreate = components["schemas"]["ContentBriefCreate"];
+type ContentBriefDetailResponse = components["schemas"]["ContentBriefDetailResponse"];
+type ContentBriefUpdate = components["schemas"]["ContentBriefUpdate"];
+type OutlineSection = components["schemas"]["OutlineSection"];
+
+export type BriefOutlineSectionDraft = {
+  heading: string;
+  level: number;
+  purpose: string;
+  keyPoints: string[];
+  supportingKeywords: string[];
+};
+
+export type BriefFormValues = {
+  primaryKeyword: string;
+  workingTitles: string[];
+  outline: BriefOutlineSectionDraft[];
+  supportingKeywords: string[];
+  faqQuestions: string[];
+  wordCountMin: string;
+  wordCountMax: string;
+  proposedPublicationDate: string;
+  status: string;
+};
+
+/**
+ * The fields a brief is created with. Supporting keywords are not part of `ContentBriefCreate` and are saved with a
+ * follow-up update; everything else is filled in when the pipeline writes the brief.
+ */
+export type BriefCreateValues = {
+  topicId: string;
+  primaryKeyword: string;
+  workingTitles: string[];
+  supportingKeywords: string[];
+  wordCountMin: string;
+  wordCountMax: string;
+  proposedPublicationDate: string;
+};
+
+export type BriefFormField =
+  | "primaryKeyword"
+  | "workingTitles"
+  | "outline"
+  | "faqQuestions"
+  | "wordCountMin"
+  | "wordCountMax"
+  | "proposedPublicationDate"
+  | "status";
+
+export type BriefFormErrors = Partial<Record<BriefFormField, string>>;
+
+export const OUTLINE_HEADING_LEVELS = [2, 3, 4] as const;
+
+/**
+ * Statuses the dashboard offers when editing or filtering briefs. The API types status as a plain string with no
+ * enum, so this is not the full set: a brief can already hold a status outside it, which is kept as is.
+ */
+export const BRIEF_STATUSES = ["draft", "ready", "approved", "in_progress", "published", "archived"] as const;
+
+export function isBriefStatus(value: string): value is (typeof BRIEF_STATUSES)[number] {
+  return (BRIEF_STATUSES as readonly string[]).includes(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+function readStringList(value: unknown) {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+}
+
+function cleanList(values: string[]) {
+  return values.map((value) => value.trim()).filter(Boolean);
+}
+
+function readOutlineLevel(value: unknown) {
+  const level = typeof value === "number" ? value : Number.parseInt(readString(value), 10);
+  return (OUTLINE_HEADING_LEVELS as readonly number[]).includes(level) ? level : 2;
+}
+
+function readOutlineSection(value: unknown): BriefOutlineSectionDraft | null {
+  const record = asRecord(value);
+  if (!record) return null;
+  return {
+    heading: readString(record.heading),
+    level: readOutlineLevel(record.level),
+    purpose: readString(record.purpose),
+    keyPoints: readStringList(record.key_points ?? record.keyPoints),
+    supportingKeywords: readStringList(record.supporting_keywords ?? record.supportingKeywords),
+  };
+}
+
+export function createEmptyOutlineSection(): BriefOutlineSectionDraft {
+  return { heading: "", level: 2, purpose: "", keyPoints: [], supportingKeywords: [] };
+}
+
+export function briefToFormValues(brief: ContentBriefDetailResponse): BriefFormValues {
+  return {
+    primaryKeyword: brief.primary_keyword,
+    workingTitles: brief.working_titles ?? [],
+    outline: (brief.outline ?? [])
+      .map(readOutlineSection)
+      .filter((section): section is BriefOutlineSectionDraft => section !== null),
+    supportingKeywords: brief.supporting_keywords ?? [],
+    faqQuestions: brief.faq_questions ?? [],
+    wordCountMin: brief.target_word_count_min === null ? "" : String(brief.target_word_count_min),
+    wordCountMax: brief.target_word_count_max === null ? "" : String(brief.target_word_count_max),
+    proposedPublicationDate: brief.proposed_publication_date ?? "",
+    status: brief.status,
+  };
+}
+
+/** Reads the JSON payload posted by the brief editor back into form values. */
+export function parseBriefFormValues(value: unknown): BriefFormValues | null {
+  const record = asRecord(value);
+  if (!record) return null;
+  return {
+    primaryKeyword: readString(record.primaryKeyword),
+    workingTitles: readStringList(record.workingTitles),
+    outline: (Array.isArray(record.outline) ? record.outline : [])
+      .map(readOutlineSection)
+      .filter((section): section is BriefOutlineSectionDraft => section !== null),
+    supportingKeywords: readStringList(record.supportingKeywords),
+    faqQuestions: readStringList(record.faqQuestions),
+    wordCountMin: readString(record.wordCountMin),
+    wordCountMax: readString(record.wordCountMax),
+    proposedPublicationDate: readString(record.proposedPublicationDate),
+    status: readString(record.status),
+  };
+}
+
+function parseWordCount(value: string): number | null | "invalid" {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (!/^\d+$/.test(trimmed)) return "invalid";
+  const parsed = Number.parseInt(trimmed, 10);
+  return parsed > 0 ? parsed : "invalid";
+}
+
+function validatePublicationDate(values: Pick<BriefFormValues, "proposedPublicationDate">, errors: BriefFormErrors) {
+  if (values.proposedPublicationDate && !/^\d{4}-\d{2}-\d{2}$/.test(values.proposedPublicationDate)) {
+    errors.proposedPublicationDate = "Use a YYYY-MM-DD date.";
+  }
+}
+
+function validateWordCountRange(values: Pick<BriefFormValues, "wordCountMin" | "wordCountMax">, errors: BriefFormErrors) {
+  const min = parseWordCount(values.wordCountMin);
+  const max = parseWordCount(values.wordCountMax);
+  if (min === "invalid") errors.wordCountMin = "Enter a positive whole number.";
+  if (max === "invalid") errors.wordCountMax = "Enter a positive whole number.";
+  if (typeof min === "number" && typeof max === "number" && min > max) {
+    errors.wordCountMax = "Maximum must be at least the minimum word count.";
+  }
+}
+
+/** `currentStatus` is the brief's stored status; keeping it is always allowed, even when it is not in the list. */
+export function validateBriefForm(values: BriefFormValues, currentStatus: string): BriefFormErrors {
+  const errors: BriefFormErrors = {};
+
+  if (!values.primaryKeyword.trim()) {
+    errors.primaryKeyword = "Primary keyword is required.";
+  }
+  if (cleanList(values.workingTitles).length === 0) {
+    errors.workingTitles = "Add at least one working title.";
+  }
+  if (values.outline.some((section) => !section.heading.trim())) {
+    errors.outline = "Every outline section needs a heading.";
+  }
+  if (!values.status.trim()) {
+    errors.status = "Status is required.";
+  } else if (values.status.trim() !== currentStatus && !isBriefStatus(values.status.trim())) {
+    errors.status = "Choose one of the listed statuses.";
+  }
+
+  validatePublicationDate(values, errors);
+  validateWordCountRange(values, errors);
+  return errors;
+}
+
+export function hasBriefFormErrors(errors: BriefFormErrors) {
+  return Object.keys(errors).length > 0;
+}
+
+/** Status is only sent when it changed, so saving other fields never rewrites it. */
+export function toContentBriefUpdate(values: BriefFormValues, currentStatus: string): ContentBriefUpdate {
+  const min = parseWordCount(values.wordCountMin);
+  const max = parseWordCount(values.wordCountMax);
+  const outline: OutlineSection[] = values.outline.map((section) => ({
+    heading: section.heading.trim(),
+    level: section.level,
+    purpose: section.purpose.trim() || null,
+    key_points: cleanList(section.keyPoints),
+    supporting_keywords: cleanList(section.supportingKeywords),
+  }));
+
+  return {
+    primary_keyword: values.primaryKeyword.trim(),
+    working_titles: cleanList(values.workingTitles),
+    outline,
+    supporting_keywords: cleanList(values.supportingKeywords),
+    faq_questions: cleanList(values.faqQuestions),
+    target_word_count_min: typeof min === "number" ? min : null,
+    target_word_count_max: typeof max === "number" ? max : null,
+    proposed_publication_date: values.proposedPublicationDate || null,
+    ...(values.status.trim() !== currentStatus ? { status: values.status.trim() } : {}),
+  };
+}
+
+export function parseBriefCreateValues(value: unknown): BriefCreateValues | null {
+  const record = asRecord(value);
+  if (!record) return null;
+  return {
+    topicId: readString(record.topicId),
+    primaryKeyword: readString(record.primaryKeyword),
+    workingTitles: readStringList(record.workingTitles),
+    supportingKeywords: readStringList(record.supportingKeywords),
+    wordCountMin: readString(record.wordCountMin),
+    wordCountMax: readString(record.wordCountMax),
+    proposedPublicationDate: readString(record.proposedPublicationDate),
+  };
+}
+
+export function validateBriefCreateForm(values: BriefCreateValues): BriefFormErrors {
+  const errors: BriefFormErrors = {};
+
+  if (!values.primaryKeyword.trim()) {
+    errors.primaryKeyword = "Primary keyword is required.";
+  }
+  if (cleanList(values.workingTitles).length === 0) {
+    errors.workingTitles = "Add at least one working title.";
+  }
+
+  validatePublicationDate(values, errors);
+  validateWordCountRange(values, errors);
+  return errors;
+}
+
+export function toContentBriefCreate(values: BriefCreateValues): ContentBriefCreate {
+  const min = parseWordCount(values.wordCountMin);
+  const max = parseWordCount(values.wordCountMax);
+
+  return {
+    topic_id: values.topicId,
+    primary_keyword: values.primaryKeyword.trim(),
+    working_titles: cleanList(values.workingTitles),
+    target_word_count_min: typeof min === "number" ? min : null,
+    target_word_count_max: typeof max === "number" ? max : null,
+    proposed_publication_date: values.proposedPublicationDate || null,
+  };
+}
+
+/** The update that saves a new brief's supporting keywords, or null when there are none to save. */
+export function toSupportingKeywordsUpdate(values: BriefCreateValues): ContentBriefUpdate | null {
+  const supportingKeywords = cleanList(values.supportingKeywords);
+  return supportingKeywords.length > 0 ? { supporting_keywords: supportingKeywords } : null;
+}
@@ -0,0 +1,138 @@
+import crypto from "crypto";
+
+/**
+ * Calendar feed tokens let calendar clients subscribe to `/projects/:projectId/calendar.ics` without a
+ * session cookie. The token is an HS256 JWT scoped to one project that carries the subscriber's refresh
+ * token, AES-256-GCM encrypted so it never appears in the URL in plain text.
+ *
+ * Tokens are revoked by listing their id in CALENDAR_FEED_REVOKED_TOKEN_IDS, or all at once by rotating
+ * CALENDAR_FEED_SIGNING_SECRET. They also stop working when the embedded refresh token is revoked.
+ */
+
+export type CalendarFeedTokenPayload = {
+  tokenId: string;
+  projectId: string;
+  refreshToken: string;
+  expiresAt: number;
+};
+
+const DEFAULT_EXPIRY_SECONDS = 180 * 24 * 60 * 60;
+
+function readSigningSecret() {
+  return process.env.CALENDAR_FEED_SIGNING_SECRET?.trim() ?? "";
+}
+
+function readRevokedTokenIds() {
+  return new Set(
+    (process.env.CALENDAR_FEED_REVOKED_TOKEN_IDS ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+  );
+}
+
+export function isCalendarFeedEnabled() {
+  return readSigningSecret().length > 0;
+}
+
+function base64UrlEncode(value: string): string {
+  return Buffer.from(value, "utf8").toString("base64url");
+}
+
+function isObjectRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function decodeJwtSection(section: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(section, "base64url").toString("utf8"));
+    return isObjectRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function createSignature(unsignedToken: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(unsignedToken).digest("base64url");
+}
+
+function signaturesMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected, "utf8");
+  const actualBuffer = Buffer.from(actual, "utf8");
+  if (expectedBuffer.length !== actualBuffer.length) return false;
+  return crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+function deriveEncryptionKey(secret: string) {
+  return crypto.createHash("sha256").update(`calendar-feed:${secret}`).digest();
+}
+
+function encryptCredential(value: string, secret: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", deriveEncryptionKey(secret), iv);
+  const encrypted = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64url");
+}
+
+function decryptCredential(value: string, secret: string): string | null {
+  try {
+    const raw = Buffer.from(value, "base64url");
+    const decipher = crypto.createDecipheriv("aes-256-gcm", deriveEncryptionKey(secret), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+export function signCalendarFeedToken(
+  { projectId, refreshToken }: { projectId: string; refreshToken: string },
+  expiresInSeconds = DEFAULT_EXPIRY_SECONDS
+): { token: string; tokenId: string; expiresAt: number } | null {
+  const secret = readSigningSecret();
+  if (!secret) return null;
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const tokenId = crypto.randomBytes(9).toString("base64url");
+  const expiresAt = nowSeconds + expiresInSeconds;
+  const payload = {
+    jti: tokenId,
+    pid: projectId,
+    cred: encryptCredential(refreshToken, secret),
+    iat: nowSeconds,
+    exp: expiresAt,
+  };
+
+  const encodedHeader = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const unsignedToken = `${encodedHeader}.${encodedPayload}`;
+  return { token: `${unsignedToken}.${createSignature(unsignedToken, secret)}`, tokenId, expiresAt };
+}
+
+export function verifyCalendarFeedToken(token: string, projectId: string): CalendarFeedTokenPayload | null {
+  const secret = readSigningSecret();
+  if (!secret) return null;
+
+  const [encodedHeader, encodedPayload, signature] = token.split(".");
+  if (!encodedHeader || !encodedPayload || !signature) return null;
+
+  const header = decodeJwtSection(encodedHeader);
+  if (!header || header.alg !== "HS256") return null;
+
+  const unsignedToken = `${encodedHeader}.${encodedPayload}`;
+  if (!signaturesMatch(createSignature(unsignedToken, secret), signature)) return null;
+
+  const payload = decodeJwtSection(encodedPayload);
+  if (!payload) return null;
+  if (typeof payload.jti !== "string" || typeof payload.cred !== "string" || typeof payload.exp !== "number") {
+    return null;
+  }
+  if (payload.pid !== projectId) return null;
+  if (Math.floor(Date.now() / 1000) >= payload.exp) return null;
+  if (readRevokedTokenIds().has(payload.jti)) return null;
+
+  const refreshToken = decryptCredential(payload.cred, secret);
+  if (!refreshToken) return null;
+
+  return { tokenId: payload.jti, projectId, refreshToken, expiresAt: payload.exp };
+}
@@ -0,0 +1,252 @@
+export type CalendarView = "month" | "week" | "agenda";
+
+export type CalendarCell = {
+  date: Date;
+  dateKey: string;
+  dayOfMonth: number;
+  isCurrentMonth: boolean;
+  isToday: boolean;
+};
+
+export type CalendarPeriod = {
+  view: CalendarView;
+  /** Month key for the month view, otherwise the first day of the period. */
+  anchor: string;
+  /** First and last day the period displays; the month view covers its full week grid. */
+  rangeStart: string;
+  rangeEnd: string;
+  /** First and last day that belong to the period itself, used for summary stats. */
+  periodStart: string;
+  periodEnd: string;
+  agendaDays: number;
+  prevAnchor: string;
+  nextAnchor: string;
+  todayAnchor: string;
+};
+
+export const CALENDAR_VIEWS: Array<{ value: CalendarView; label: string }> = [
+  { value: "month", label: "Month" },
+  { value: "week", label: "Week" },
+  { value: "agenda", label: "Agenda" },
+];
+
+export const AGENDA_DAY_OPTIONS = [14, 30, 90] as const;
+
+const DEFAULT_AGENDA_DAYS = 30;
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function createUtcDate(year: number, monthIndex: number, day: number) {
+  return new Date(Date.UTC(year, monthIndex, day));
+}
+
+export function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+export function toDateKey(date: Date) {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+export function toMonthKey(date: Date) {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+}
+
+export function parseMonthKey(input: string | null) {
+  if (!input) return null;
+  const match = input.match(MONTH_PATTERN);
+  if (!match) return null;
+
+  return {
+    year: Number.parseInt(match[1], 10),
+    month: Number.parseInt(match[2], 10),
+  };
+}
+
+export function currentMonthKey() {
+  return toMonthKey(new Date());
+}
+
+export function todayDateKey() {
+  return toDateKey(new Date());
+}
+
+export function monthKeyToStartDate(monthKey: string) {
+  const parsed = parseMonthKey(monthKey);
+  if (!parsed) {
+    const fallback = parseMonthKey(currentMonthKey())!;
+    return createUtcDate(fallback.year, fallback.month - 1, 1);
+  }
+  return createUtcDate(parsed.year, parsed.month - 1, 1);
+}
+
+export function shiftMonthKey(monthKey: string, delta: number) {
+  const start = monthKeyToStartDate(monthKey);
+  return toMonthKey(createUtcDate(start.getUTCFullYear(), start.getUTCMonth() + delta, 1));
+}
+
+export function parseDateKey(dateKey: string | null) {
+  const match = dateKey?.match(DATE_PATTERN);
+  if (!match) return null;
+  return createUtcDate(
+    Number.parseInt(match[1], 10),
+    Number.parseInt(match[2], 10) - 1,
+    Number.parseInt(match[3], 10),
+  );
+}
+
+export function addDays(date: Date, days: number) {
+  return createUtcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+}
+
+/** Weeks start on Sunday, matching the month grid. */
+export function startOfWeek(date: Date) {
+  return addDays(date, -date.getUTCDay());
+}
+
+export function buildMonthCells(monthStart: Date): CalendarCell[] {
+  const monthEnd = createUtcDate(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 0);
+  const startWeekday = monthStart.getUTCDay();
+  const endWeekday = monthEnd.getUTCDay();
+  const gridStart = addDays(monthStart, -startWeekday);
+  const gridEnd = addDays(monthEnd, 6 - endWeekday);
+  const todayKey = todayDateKey();
+
+  const cells: CalendarCell[] = [];
+  for (
+    let cursor = gridStart;
+    cursor.getTime() <= gridEnd.getTime();
+    cursor = addDays(cursor, 1)
+  ) {
+    cells.push({
+      date: cursor,
+      dateKey: toDateKey(cursor),
+      dayOfMonth: cursor.getUTCDate(),
+      isCurrentMonth: cursor.getUTCMonth() === monthStart.getUTCMonth(),
+      isToday: toDateKey(cursor) === todayKey,
+    });
+  }
+  return cells;
+}
+
+export function buildWeekCells(weekStart: Date): CalendarCell[] {
+  const todayKey = todayDateKey();
+  return Array.from({ length: 7 }, (_, index) => {
+    const date = addDays(weekStart, index);
+    return {
+      date,
+      dateKey: toDateKey(date),
+      dayOfMonth: date.getUTCDate(),
+      isCurrentMonth: true,
+      isToday: toDateKey(date) === todayKey,
+    };
+  });
+}
+
+function parseCalendarView(value: string | null): CalendarView {
+  return value === "week" || value === "agenda" ? value : "month";
+}
+
+function parseAgendaDays(value: string | null) {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return (AGENDA_DAY_OPTIONS as readonly number[]).includes(parsed) ? parsed : DEFAULT_AGENDA_DAYS;
+}
+
+/** Resolves `?view=`, `?month=`, `?week=`, `?from=` and `?days=` into the period the calendar should show. */
+export function resolveCalendarPeriod(searchParams: URLSearchParams): CalendarPeriod {
+  const view = parseCalendarView(searchParams.get("view"));
+  const agendaDays = parseAgendaDays(searchParams.get("days"));
+
+  if (view === "week") {
+    const weekStart = startOfWeek(parseDateKey(searchParams.get("week")) ?? parseDateKey(todayDateKey())!);
+    const weekEnd = addDays(weekStart, 6);
+    return {
+      view,
+      anchor: toDateKey(weekStart),
+      rangeStart: toDateKey(weekStart),
+      rangeEnd: toDateKey(weekEnd),
+      periodStart: toDateKey(weekStart),
+      periodEnd: toDateKey(weekEnd),
+      agendaDays,
+      prevAnchor: toDateKey(addDays(weekStart, -7)),
+      nextAnchor: toDateKey(addDays(weekStart, 7)),
+      todayAnchor: toDateKey(startOfWeek(parseDateKey(todayDateKey())!)),
+    };
+  }
+
+  if (view === "agenda") {
+    const from = parseDateKey(searchParams.get("from")) ?? parseDateKey(todayDateKey())!;
+    const to = addDays(from, agendaDays - 1);
+    return {
+      view,
+      anchor: toDateKey(from),
+      rangeStart: toDateKey(from),
+      rangeEnd: toDateKey(to),
+      periodStart: toDateKey(from),
+      periodEnd: toDateKey(to),
+      agendaDays,
+      prevAnchor: toDateKey(addDays(from, -agendaDays)),
+      nextAnchor: toDateKey(addDays(from, agendaDays)),
+      todayAnchor: todayDateKey(),
+    };
+  }
+
+  const parsedMonth = parseMonthKey(searchParams.get("month"));
+  const monthKey = parsedMonth ? `${parsedMonth.year}-${pad(parsedMonth.month)}` : currentMonthKey();
+  const monthStart = monthKeyToStartDate(monthKey);
+  const monthEnd = createUtcDate(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 0);
+  // Load the whole visible grid so leading/trailing days and cross-month weeks show their items.
+  const cells = buildMonthCells(monthStart);
+  return {
+    view,
+    anchor: monthKey,
+    rangeStart: cells[0].dateKey,
+    rangeEnd: cells[cells.length - 1].dateKey,
+    periodStart: toDateKey(monthStart),
+    periodEnd: toDateKey(monthEnd),
+    agendaDays,
+    prevAnchor: shiftMonthKey(monthKey, -1),
+    nextAnchor: shiftMonthKey(monthKey, 1),
+    todayAnchor: currentMonthKey(),
+  };
+}
+
+/** The anchor another view should open on so switching views keeps roughly the same dates in focus. */
+export function anchorForView(period: CalendarPeriod, view: CalendarView) {
+  const focus = parseDateKey(period.periodStart)!;
+  if (view === "month") return toMonthKey(focus);
+  if (view === "week") return toDateKey(startOfWeek(focus));
+  return toDateKey(focus);
+}
+
+export function buildCalendarSearch(
+  view: CalendarView,
+  anchor: string,
+  options: { agendaDays?: number; states?: string[] } = {},
+) {
+  const params = new URLSearchParams();
+  if (view !== "month") params.set("view", view);
+  if (view === "month") params.set("month", anchor);
+  if (view === "week") params.set("week", anchor);
+  if (view === "agenda") {
+    params.set("from", anchor);
+    if (options.agendaDays && options.agendaDays !== DEFAULT_AGENDA_DAYS) params.set("days", String(options.agendaDays));
+  }
+  if (options.states && options.states.length > 0) params.set("states", options.states.join(","));
+  return `?${params.toString()}`;
+}
+
+export function formatPeriodLabel(period: CalendarPeriod) {
+  const start = parseDateKey(period.periodStart)!;
+  const end = parseDateKey(period.periodEnd)!;
+  if (period.view === "month") {
+    return new Intl.DateTimeFormat(undefined, { month: "long", year: "numeric", timeZone: "UTC" }).format(start);
+  }
+  const formatter = new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  return `${formatter.format(start)} – ${formatter.format(end)}`;
+}
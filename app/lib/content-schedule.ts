@@ -0,0 +1,295 @@
+import { addDays, parseDateKey, startOfWeek, toDateKey, todayDateKey } from "~/lib/calendar-period";
+import type { components } from "~/types/api.generated";
+
+type PipelineStartRequest = components["schemas"]["PipelineStartRequest"];
+type ContentPipelineConfig = components["schemas"]["ContentPipelineConfig"];
+type PipelineRunStrategy = components["schemas"]["PipelineRunStrategy"];
+
+/** Numeric inputs stay strings while editing, matching the other launcher forms. */
+export type ContentRunFormValues = {
+  topicNames: string[];
+  maxBriefs: string;
+  postsPerWeek: string;
+  /** API weekday numbers: Monday=0 ... Sunday=6. */
+  preferredWeekdays: number[];
+  minLeadDays: string;
+  publicationStartDate: string;
+  useLlmTimingHints: boolean;
+};
+
+export type ContentRunFormErrors = Partial<
+  Record<"topicNames" | "maxBriefs" | "postsPerWeek" | "minLeadDays" | "publicationStartDate", string>
+>;
+
+export const CONTENT_WEEKDAY_OPTIONS = [
+  { value: 0, label: "Mon" },
+  { value: 1, label: "Tue" },
+  { value: 2, label: "Wed" },
+  { value: 3, label: "Thu" },
+  { value: 4, label: "Fri" },
+  { value: 5, label: "Sat" },
+  { value: 6, label: "Sun" },
+] as const;
+
+export const MAX_CONTENT_BRIEFS = 100;
+export const MAX_POSTS_PER_WEEK = 14;
+// min_lead_days is a per-run ContentPipelineConfig setting that the project does not expose; use its default.
+export const DEFAULT_MIN_LEAD_DAYS = 1;
+const MAX_MIN_LEAD_DAYS = 365;
+const DEFAULT_MAX_BRIEFS = 20;
+const WEEKDAYS_MONDAY_FIRST = [0, 1, 2, 3, 4];
+// Stop the preview after ten years of weeks even if the inputs would never fill every slot.
+const MAX_PREVIEW_WEEKS = 520;
+// Run settings the launcher doesn't expose, pinned to the API schema defaults.
+const CONTENT_PIPELINE_API_DEFAULTS = {
+  llm_timing_flex_days: 14,
+  include_zero_data_topics: true,
+  zero_data_topic_share: 0.2,
+  zero_data_fit_score_min: 0.65,
+} satisfies Partial<ContentPipelineConfig>;
+const STRATEGY_API_DEFAULTS = {
+  scope_mode: "balanced_adjacent",
+  branded_keyword_mode: "comparisons_only",
+  fit_threshold_profile: "aggressive",
+  market_mode_override: "auto",
+} satisfies PipelineRunStrategy;
+
+export function buildContentRunDefaults(postsPerWeek: number): ContentRunFormValues {
+  return {
+    topicNames: [],
+    maxBriefs: String(DEFAULT_MAX_BRIEFS),
+    postsPerWeek: String(Math.max(1, postsPerWeek)),
+    preferredWeekdays: [],
+    minLeadDays: String(DEFAULT_MIN_LEAD_DAYS),
+    publicationStartDate: "",
+    useLlmTimingHints: true,
+  };
+}
+
+function parseWholeNumber(value: string) {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  return Number.parseInt(trimmed, 10);
+}
+
+export function validateContentRunForm(values: ContentRunFormValues, today = todayDateKey()): ContentRunFormErrors {
+  const errors: ContentRunFormErrors = {};
+
+  const maxBriefs = parseWholeNumber(values.maxBriefs);
+  if (maxBriefs === null || maxBriefs < 1 || maxBriefs > MAX_CONTENT_BRIEFS) {
+    errors.maxBriefs = `Enter a whole number from 1 to ${MAX_CONTENT_BRIEFS}.`;
+  } else if (values.topicNames.length > maxBriefs) {
+    errors.topicNames = `You selected ${values.topicNames.length} topics but only ${maxBriefs} briefs will be generated.`;
+  }
+
+  const postsPerWeek = parseWholeNumber(values.postsPerWeek);
+  if (postsPerWeek === null || postsPerWeek < 1 || postsPerWeek > MAX_POSTS_PER_WEEK) {
+    errors.postsPerWeek = `Enter a whole number from 1 to ${MAX_POSTS_PER_WEEK}.`;
+  }
+
+  const minLeadDays = parseWholeNumber(values.minLeadDays);
+  if (minLeadDays === null || minLeadDays > MAX_MIN_LEAD_DAYS) {
+    errors.minLeadDays = `Enter a whole number of days from 0 to ${MAX_MIN_LEAD_DAYS}.`;
+  }
+
+  if (values.publicationStartDate) {
+    if (!parseDateKey(values.publicationStartDate)) {
+      errors.publicationStartDate = "Use YYYY-MM-DD.";
+    } else if (values.publicationStartDate < today) {
+      errors.publicationStartDate = "Pick today or a later date.";
+    }
+  }
+
+  return errors;
+}
+
+export function hasContentRunFormErrors(errors: ContentRunFormErrors) {
+  return Object.values(errors).some(Boolean);
+}
+
+/** Spreads posts across weekdays when none are preferred: 1 → Mon, 2 → Mon/Wed, 3 → Mon/Wed/Fri and so on. */
+function resolveWeeklySlots(postsPerWeek: number, preferredWeekdays: number[]) {
+  const days = preferredWeekdays.length > 0
+    ? Array.from(new Set(preferredWeekdays)).sort((a, b) => a - b)
+    : postsPerWeek <= WEEKDAYS_MONDAY_FIRST.length
+      ? Array.from({ length: postsPerWeek }, (_, index) =>
+          WEEKDAYS_MONDAY_FIRST[Math.floor((index * WEEKDAYS_MONDAY_FIRST.length) / postsPerWeek)]
+        )
+      : CONTENT_WEEKDAY_OPTIONS.map((option) => option.value);
+
+  // More posts than days doubles up on the earliest days of the week.
+  return Array.from({ length: postsPerWeek }, (_, index) => days[index % days.length]).sort((a, b) => a - b);
+}
+
+/**
+ * Estimates the publication dates the content pipeline assigns, using the same cadence rules: first date no
+ * earlier than today + min lead days (or the start date override), then `postsPerWeek` slots per week on the
+ * preferred weekdays. The pipeline may still nudge dates when LLM timing hints are enabled.
+ */
+export function previewPublicationDates({
+  count,
+  postsPerWeek,
+  preferredWeekdays,
+  minLeadDays,
+  publicationStartDate,
+  today = todayDateKey(),
+}: {
+  count: number;
+  postsPerWeek: number;
+  preferredWeekdays: number[];
+  minLeadDays: number;
+  publicationStartDate?: string | null;
+  today?: string;
+}) {
+  const todayDate = parseDateKey(today);
+  if (!todayDate || count < 1 || postsPerWeek < 1) return [];
+
+  const leadDate = toDateKey(addDays(todayDate, minLeadDays));
+  const earliest = publicationStartDate && publicationStartDate > leadDate ? publicationStartDate : leadDate;
+  const earliestDate = parseDateKey(earliest)!;
+  // JS weeks start on Sunday; shift so the walk starts on the Monday of the earliest week.
+  const weekStart = addDays(earliestDate, -((earliestDate.getUTCDay() + 6) % 7));
+  const slots = resolveWeeklySlots(postsPerWeek, preferredWeekdays);
+
+  const dates: string[] = [];
+  for (let week = 0; week < MAX_PREVIEW_WEEKS && dates.length < count; week += 1) {
+    for (const weekday of slots) {
+      const dateKey = toDateKey(addDays(weekStart, week * 7 + weekday));
+      if (dateKey < earliest) continue;
+      dates.push(dateKey);
+      if (dates.length === count) break;
+    }
+  }
+  return dates;
+}
+
+export function toContentStartRequest(values: ContentRunFormValues): PipelineStartRequest {
+  const content: ContentPipelineConfig = {
+    ...CONTENT_PIPELINE_API_DEFAULTS,
+    max_briefs: Number(values.maxBriefs),
+    posts_per_week: Number(values.postsPerWeek),
+    preferred_weekdays: Array.from(new Set(values.preferredWeekdays)).sort((a, b) => a - b),
+    min_lead_days: Number(values.minLeadDays),
+    publication_start_date: values.publicationStartDate || null,
+    use_llm_timing_hints: values.useLlmTimingHints,
+  };
+
+  const topicNames = Array.from(new Set(values.topicNames.map((name) => name.trim()).filter(Boolean)));
+  return {
+    mode: "content",
+    content,
+    // Content runs take no topic ids, so the chosen backlog topics steer brief selection through the strategy.
+    strategy: topicNames.length > 0 ? { ...STRATEGY_API_DEFAULTS, include_topics: topicNames } : null,
+  };
+}
+
+/** Reads form values posted as JSON; returns null when the payload is not a launcher form. */
+export function parseContentRunFormValues(raw: unknown): ContentRunFormValues | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const input = raw as Record<string, unknown>;
+  const readString = (value: unknown) => (typeof value === "string" ? value : "");
+
+  return {
+    topicNames: Array.isArray(input.topicNames)
+      ? input.topicNames.filter((entry): entry is string => typeof entry === "string")
+      : [],
+    maxBriefs: readString(input.maxBriefs),
+    postsPerWeek: readString(input.postsPerWeek),
+    preferredWeekdays: Array.isArray(input.preferredWeekdays)
+      ? input.preferredWeekdays.filter(
+          (entry): entry is number => typeof entry === "number" && Number.isInteger(entry) && entry >= 0 && entry <= 6
+        )
+      : [],
+    minLeadDays: readString(input.minLeadDays),
+    publicationStartDate: readString(input.publicationStartDate),
+    useLlmTimingHints: input.useLlmTimingHints !== false,
+  };
+}
+
+function countWeekLoad(scheduledDates: string[], weekStart: Date) {
+  const weekEnd = addDays(weekStart, 6);
+  return scheduledDates.filter((dateKey) => {
+    const date = parseDateKey(dateKey);
+    return date !== null && date >= weekStart && date <= weekEnd;
+  }).length;
+}
+
+/**
+ * Checks a publication date against the minimum lead time and the project's weekly cadence. `scheduledDates` are
+ * the other briefs' dates; leave out the brief being moved.
+ */
+export function findPublicationDateWarnings(
+  scheduledDates: string[],
+  targetDateKey: string,
+  postsPerWeek: number,
+  today = todayDateKey()
+): string[] {
+  const target = parseDateKey(targetDateKey);
+  const todayDate = parseDateKey(today);
+  if (!target || !todayDate) return [];
+
+  const warnings: string[] = [];
+  const earliestAllowed = addDays(todayDate, DEFAULT_MIN_LEAD_DAYS);
+  if (target.getTime() < earliestAllowed.getTime()) {
+    warnings.push(
+      `Publishing on ${targetDateKey} is inside the ${DEFAULT_MIN_LEAD_DAYS}-day minimum lead time (earliest ${toDateKey(earliestAllowed)}).`
+    );
+  }
+
+  const weekStart = startOfWeek(target);
+  const weekCount = countWeekLoad(scheduledDates, weekStart) + 1;
+  if (weekCount > postsPerWeek) {
+    warnings.push(
+      `The week of ${toDateKey(weekStart)} would have ${weekCount} posts, above the project cadence of ${postsPerWeek} per week.`
+    );
+  }
+
+  return warnings;
+}
+
+function isWeekend(date: Date) {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Picks the first date after the minimum lead time whose week still has room under the project cadence. Within that
+ * week the least busy weekday wins; a weekend day is only used when no later week has a free weekday. `scheduledDates`
+ * must cover every week up to `loadedUntil`; weeks past it are not considered, and null means none of them had room.
+ */
+export function suggestPublicationDate(
+  scheduledDates: string[],
+  postsPerWeek: number,
+  loadedUntil: string,
+  today = todayDateKey()
+) {
+  const todayDate = parseDateKey(today);
+  const lastDate = parseDateKey(loadedUntil);
+  if (!todayDate || !lastDate) return null;
+
+  const earliest = addDays(todayDate, DEFAULT_MIN_LEAD_DAYS);
+  const dayLoad = new Map<string, number>();
+  for (const dateKey of scheduledDates) dayLoad.set(dateKey, (dayLoad.get(dateKey) ?? 0) + 1);
+
+  let weekendFallback: string | null = null;
+  // A week that runs past the loaded range could hold posts that were not loaded, so it is skipped.
+  for (let weekStart = startOfWeek(earliest); addDays(weekStart, 6) <= lastDate; weekStart = addDays(weekStart, 7)) {
+    if (countWeekLoad(scheduledDates, weekStart) >= Math.max(1, postsPerWeek)) continue;
+
+    let best: { dateKey: string; load: number; isWeekend: boolean } | null = null;
+    for (let offset = 0; offset < 7; offset += 1) {
+      const date = addDays(weekStart, offset);
+      if (date < earliest) continue;
+      const dateKey = toDateKey(date);
+      const load = dayLoad.get(dateKey) ?? 0;
+      const weekend = isWeekend(date);
+      if (!best || (best.isWeekend && !weekend) || (best.isWeekend === weekend && load < best.load)) {
+        best = { dateKey, load, isWeekend: weekend };
+      }
+    }
+    if (best && !best.isWeekend) return best.dateKey;
+    weekendFallback ??= best?.dateKey ?? null;
+  }
+
+  return weekendFallback;
+}
@@ -8,6 +8,7 @@ type ProjectConstraints = components["schemas"]["ProjectConstraints"];
 const SUCCESS_STATUSES = new Set(["completed", "success", "succeeded", "done"]);
 const FAILED_STATUSES = new Set(["failed", "error"]);
 const ACTIVE_STATUSES = new Set(["queued", "running", "in_progress"]);
+const TERMINAL_STATUSES = new Set([...SUCCESS_STATUSES, ...FAILED_STATUSES, "paused", "cancelled"]);
 
 export function formatStatusLabel(status: string | null | undefined) {
   if (!status) return "Unknown";
@@ -23,6 +24,11 @@ export function isRunActive(status: string | null | undefined) {
   return ACTIVE_STATUSES.has(String(status ?? "").toLowerCase());
 }
 
+/** Paused counts as terminal: progress stops changing until someone resumes the run. */
+export function isRunTerminal(status: string | null | undefined) {
+  return TERMINAL_STATUSES.has(String(status ?? "").toLowerCase());
+}
+
 export function isRunPaused(status: string | null | undefined) {
   return String(status ?? "").toLowerCase() === "paused";
 }
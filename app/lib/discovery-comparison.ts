@@ -0,0 +1,198 @@
+import { formatDiscoveryRejectionReason, isAcceptedDecision, isRejectedDecision } from "~/lib/dashboard";
+import type { components } from "~/types/api.generated";
+
+type DiscoveryTopicSnapshotResponse = components["schemas"]["DiscoveryTopicSnapshotResponse"];
+
+/** One side of a comparison: a whole run, or a single loop iteration of it when `iterationIndex` is set. */
+export type ComparisonTarget = {
+  runId: string;
+  iterationIndex: number | null;
+};
+
+export type RejectionReasonCount = {
+  reason: string;
+  count: number;
+};
+
+export type SnapshotSummary = {
+  total: number;
+  eligible: number;
+  rejected: number;
+  undecided: number;
+  acceptanceRate: number;
+  rejectionReasons: RejectionReasonCount[];
+};
+
+export type RejectionReasonComparison = {
+  reason: string;
+  baseline: number;
+  comparison: number;
+};
+
+export type TopicChange = {
+  topicName: string;
+  fitScore: number | null;
+  /** Formatted reasons from the side where the topic was not eligible; empty when it was missing there entirely. */
+  reasons: string[];
+};
+
+export type TopicChanges = {
+  added: TopicChange[];
+  dropped: TopicChange[];
+};
+
+const ITERATION_SEPARATOR = ":";
+
+function normalizeTopicKey(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Reads `?runs=a,b`. Each entry is a run id, optionally followed by `:N` to pick the N-th iteration (1-based, as
+ * labelled in the run view). Malformed entries are dropped rather than failing the whole comparison.
+ */
+export function parseComparisonTargets(value: string | null | undefined): ComparisonTarget[] {
+  if (!value) return [];
+
+  const targets: ComparisonTarget[] = [];
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separatorIndex = trimmed.lastIndexOf(ITERATION_SEPARATOR);
+    if (separatorIndex === -1) {
+      targets.push({ runId: trimmed, iterationIndex: null });
+      continue;
+    }
+
+    const runId = trimmed.slice(0, separatorIndex);
+    const iterationNumber = Number.parseInt(trimmed.slice(separatorIndex + 1), 10);
+    if (!runId || !Number.isFinite(iterationNumber) || iterationNumber < 1) continue;
+    targets.push({ runId, iterationIndex: iterationNumber - 1 });
+  }
+
+  return targets;
+}
+
+export function formatComparisonTarget(target: ComparisonTarget) {
+  return target.iterationIndex === null
+    ? target.runId
+    : `${target.runId}${ITERATION_SEPARATOR}${target.iterationIndex + 1}`;
+}
+
+export function formatComparisonTargets(targets: ComparisonTarget[]) {
+  return targets.map(formatComparisonTarget).join(",");
+}
+
+export function isSameComparisonTarget(a: ComparisonTarget, b: ComparisonTarget) {
+  return a.runId === b.runId && a.iterationIndex === b.iterationIndex;
+}
+
+/**
+ * Narrows a run's snapshots to one topic each. A topic can be re-evaluated in later iterations, so for a whole run
+ * the latest iteration's decision wins; for a single iteration only that iteration's snapshots are considered.
+ */
+export function selectTargetSnapshots(
+  snapshots: DiscoveryTopicSnapshotResponse[],
+  iterationIndex: number | null
+): DiscoveryTopicSnapshotResponse[] {
+  const byTopic = new Map<string, DiscoveryTopicSnapshotResponse>();
+  for (const snapshot of snapshots) {
+    if (iterationIndex !== null && snapshot.iteration_index !== iterationIndex) continue;
+    const key = normalizeTopicKey(snapshot.topic_name);
+    const existing = byTopic.get(key);
+    if (!existing || snapshot.iteration_index >= existing.iteration_index) {
+      byTopic.set(key, snapshot);
+    }
+  }
+  return Array.from(byTopic.values());
+}
+
+export function listSnapshotIterations(snapshots: DiscoveryTopicSnapshotResponse[]) {
+  return Array.from(new Set(snapshots.map((snapshot) => snapshot.iteration_index))).sort((a, b) => a - b);
+}
+
+function formatReasons(snapshot: DiscoveryTopicSnapshotResponse) {
+  return Array.from(new Set((snapshot.rejection_reasons ?? []).map(formatDiscoveryRejectionReason)));
+}
+
+export function summarizeSnapshots(snapshots: DiscoveryTopicSnapshotResponse[]): SnapshotSummary {
+  const reasonCounts = new Map<string, number>();
+  let eligible = 0;
+  let rejected = 0;
+
+  for (const snapshot of snapshots) {
+    if (isAcceptedDecision(snapshot.decision)) {
+      eligible += 1;
+      continue;
+    }
+    if (!isRejectedDecision(snapshot.decision)) continue;
+
+    rejected += 1;
+    const reasons = formatReasons(snapshot);
+    for (const reason of reasons.length > 0 ? reasons : ["Unknown reason"]) {
+      reasonCounts.set(reason, (reasonCounts.get(reason) ?? 0) + 1);
+    }
+  }
+
+  return {
+    total: snapshots.length,
+    eligible,
+    rejected,
+    undecided: snapshots.length - eligible - rejected,
+    acceptanceRate: snapshots.length > 0 ? Math.round((eligible / snapshots.length) * 100) : 0,
+    rejectionReasons: Array.from(reasonCounts, ([reason, count]) => ({ reason, count })).sort(
+      (a, b) => b.count - a.count || a.reason.localeCompare(b.reason)
+    ),
+  };
+}
+
+export function compareRejectionReasons(baseline: SnapshotSummary, comparison: SnapshotSummary): RejectionReasonComparison[] {
+  const rows = new Map<string, RejectionReasonComparison>();
+  for (const { reason, count } of baseline.rejectionReasons) {
+    rows.set(reason, { reason, baseline: count, comparison: 0 });
+  }
+  for (const { reason, count } of comparison.rejectionReasons) {
+    const row = rows.get(reason) ?? { reason, baseline: 0, comparison: 0 };
+    row.comparison = count;
+    rows.set(reason, row);
+  }
+  return Array.from(rows.values()).sort(
+    (a, b) => Math.max(b.baseline, b.comparison) - Math.max(a.baseline, a.comparison) || a.reason.localeCompare(b.reason)
+  );
+}
+
+/**
+ * Topics are matched by name because re-runs may create new topic records for the same cluster. "Added" means
+ * eligible in the comparison but not the baseline; "dropped" is the reverse.
+ */
+export function diffEligibleTopics(
+  baseline: DiscoveryTopicSnapshotResponse[],
+  comparison: DiscoveryTopicSnapshotResponse[]
+): TopicChanges {
+  const baselineByTopic = new Map(baseline.map((snapshot) => [normalizeTopicKey(snapshot.topic_name), snapshot]));
+  const comparisonByTopic = new Map(comparison.map((snapshot) => [normalizeTopicKey(snapshot.topic_name), snapshot]));
+
+  const collect = (
+    from: Map<string, DiscoveryTopicSnapshotResponse>,
+    against: Map<string, DiscoveryTopicSnapshotResponse>
+  ): TopicChange[] => {
+    const changes: TopicChange[] = [];
+    for (const [key, snapshot] of from) {
+      if (!isAcceptedDecision(snapshot.decision)) continue;
+      const counterpart = against.get(key);
+      if (counterpart && isAcceptedDecision(counterpart.decision)) continue;
+      changes.push({
+        topicName: snapshot.topic_name,
+        fitScore: snapshot.fit_score,
+        reasons: counterpart ? formatReasons(counterpart) : [],
+      });
+    }
+    return changes.sort((a, b) => (b.fitScore ?? -1) - (a.fitScore ?? -1) || a.topicName.localeCompare(b.topicName));
+  };
+
+  return {
+    added: collect(comparisonByTopic, baselineByTopic),
+    dropped: collect(baselineByTopic, comparisonByTopic),
+  };
+}
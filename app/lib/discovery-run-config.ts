@@ -0,0 +1,298 @@
+import { buildPresetConstraints } from "~/lib/dashboard";
+import type { components } from "~/types/api.generated";
+import type { SetupPreset } from "~/types/dashboard";
+
+type PipelineStartRequest = components["schemas"]["PipelineStartRequest"];
+type PipelineRunStrategy = components["schemas"]["PipelineRunStrategy"];
+type DiscoveryLoopConfig = components["schemas"]["DiscoveryLoopConfig"];
+
+export type ScopeMode = PipelineRunStrategy["scope_mode"];
+export type BrandedKeywordMode = PipelineRunStrategy["branded_keyword_mode"];
+export type FitThresholdProfile = PipelineRunStrategy["fit_threshold_profile"];
+
+/** Numeric inputs stay strings while editing so partially typed values don't snap back. */
+export type DiscoveryRunFormValues = {
+  basePreset: SetupPreset;
+  maxIterations: string;
+  minEligibleTopics: string;
+  requireSerpGate: boolean;
+  maxKeywordDifficulty: string;
+  minDomainDiversity: string;
+  scopeMode: ScopeMode;
+  brandedKeywordMode: BrandedKeywordMode;
+  fitThresholdProfile: FitThresholdProfile;
+  intentMix: { informational: string; commercial: string; transactional: string; influence: string };
+  funnelMix: { tofu: string; mofu: string; bofu: string; influence: string };
+  includeTopics: string[];
+  excludeTopics: string[];
+  icpRoles: string[];
+  icpIndustries: string[];
+};
+
+export type DiscoveryRunFormErrors = Partial<
+  Record<
+    | "maxIterations"
+    | "minEligibleTopics"
+    | "maxKeywordDifficulty"
+    | "minDomainDiversity"
+    | "intentMix"
+    | "funnelMix"
+    | "includeTopics",
+    string
+  >
+>;
+
+export type DiscoveryRunPreset = {
+  name: string;
+  values: DiscoveryRunFormValues;
+  savedAt: string;
+};
+
+export const SETUP_PRESET_OPTIONS: Array<{ value: SetupPreset; label: string }> = [
+  { value: "traffic_growth", label: "Traffic growth" },
+  { value: "lead_generation", label: "Lead generation" },
+  { value: "revenue_content", label: "Revenue content" },
+];
+
+export const SCOPE_MODE_OPTIONS: Array<{ value: ScopeMode; label: string }> = [
+  { value: "strict", label: "Strict — core product topics only" },
+  { value: "balanced_adjacent", label: "Balanced — core plus adjacent topics" },
+  { value: "broad_education", label: "Broad — include educational topics" },
+];
+
+export const BRANDED_KEYWORD_MODE_OPTIONS: Array<{ value: BrandedKeywordMode; label: string }> = [
+  { value: "comparisons_only", label: "Comparisons only" },
+  { value: "exclude_all", label: "Exclude all branded keywords" },
+  { value: "allow_all", label: "Allow all branded keywords" },
+];
+
+export const FIT_THRESHOLD_PROFILE_OPTIONS: Array<{ value: FitThresholdProfile; label: string }> = [
+  { value: "aggressive", label: "Aggressive" },
+  { value: "moderate", label: "Moderate" },
+  { value: "lenient", label: "Lenient" },
+];
+
+export const MAX_DISCOVERY_ITERATIONS = 10;
+const MAX_STRATEGY_LIST_ITEMS = 50;
+// Mix weights are entered with two decimals, so allow rounding slack when checking they add up to 1.
+const MIX_SUM_TOLERANCE = 0.011;
+const PRESET_STORAGE_KEY_PREFIX = "donkeyseo_discovery_presets";
+
+// Loop settings the form doesn't expose, pinned to the API schema defaults.
+const DISCOVERY_LOOP_API_DEFAULTS = {
+  require_intent_match: true,
+  max_serp_servedness: 0.75,
+  max_serp_competitor_density: 0.7,
+  min_serp_intent_confidence: 0.35,
+  auto_dispatch_content_tasks: true,
+  auto_resume_on_exhaustion: false,
+  exhaustion_cooldown_minutes: 60,
+} satisfies Partial<DiscoveryLoopConfig>;
+
+export function buildDiscoveryRunDefaults(preset: SetupPreset = "traffic_growth"): DiscoveryRunFormValues {
+  const constraints = buildPresetConstraints(preset);
+
+  return {
+    basePreset: preset,
+    maxIterations: "3",
+    minEligibleTopics: "",
+    requireSerpGate: true,
+    maxKeywordDifficulty: String(constraints.max_difficulty_score ?? 65),
+    minDomainDiversity: "0.5",
+    scopeMode: "balanced_adjacent",
+    brandedKeywordMode: constraints.exclude_branded_keywords ? "exclude_all" : "comparisons_only",
+    fitThresholdProfile: "aggressive",
+    intentMix: { informational: "0.4", commercial: "0.35", transactional: "0.25", influence: "0.35" },
+    funnelMix: { tofu: "0.4", mofu: "0.35", bofu: "0.25", influence: "0.3" },
+    includeTopics: [],
+    excludeTopics: [],
+    icpRoles: [],
+    icpIndustries: [],
+  };
+}
+
+function parseNumber(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+}
+
+function validateMix(weights: string[], influence: string) {
+  const parsed = weights.map(parseNumber);
+  if (parsed.some((value) => value === null || Number.isNaN(value) || value < 0 || value > 1)) {
+    return "Each weight must be between 0 and 1.";
+  }
+  const sum = parsed.reduce<number>((total, value) => total + (value ?? 0), 0);
+  if (Math.abs(sum - 1) > MIX_SUM_TOLERANCE) {
+    return `Weights must add up to 1 (currently ${sum.toFixed(2)}).`;
+  }
+  const parsedInfluence = parseNumber(influence);
+  if (parsedInfluence === null || Number.isNaN(parsedInfluence) || parsedInfluence < 0 || parsedInfluence > 1) {
+    return "Influence must be between 0 and 1.";
+  }
+  return undefined;
+}
+
+export function validateDiscoveryRunForm(values: DiscoveryRunFormValues): DiscoveryRunFormErrors {
+  const errors: DiscoveryRunFormErrors = {};
+
+  const maxIterations = parseNumber(values.maxIterations);
+  if (maxIterations === null || !Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > MAX_DISCOVERY_ITERATIONS) {
+    errors.maxIterations = `Enter a whole number from 1 to ${MAX_DISCOVERY_ITERATIONS}.`;
+  }
+
+  const minEligibleTopics = parseNumber(values.minEligibleTopics);
+  if (minEligibleTopics !== null && (!Number.isInteger(minEligibleTopics) || minEligibleTopics < 1)) {
+    errors.minEligibleTopics = "Leave blank or enter a whole number of at least 1.";
+  }
+
+  const maxKeywordDifficulty = parseNumber(values.maxKeywordDifficulty);
+  if (maxKeywordDifficulty === null || Number.isNaN(maxKeywordDifficulty) || maxKeywordDifficulty < 0 || maxKeywordDifficulty > 100) {
+    errors.maxKeywordDifficulty = "Enter a difficulty from 0 to 100.";
+  }
+
+  const minDomainDiversity = parseNumber(values.minDomainDiversity);
+  if (minDomainDiversity === null || Number.isNaN(minDomainDiversity) || minDomainDiversity < 0 || minDomainDiversity > 1) {
+    errors.minDomainDiversity = "Enter a ratio from 0 to 1.";
+  }
+
+  const { influence: intentInfluence, ...intentWeights } = values.intentMix;
+  errors.intentMix = validateMix(Object.values(intentWeights), intentInfluence);
+  const { influence: funnelInfluence, ...funnelWeights } = values.funnelMix;
+  errors.funnelMix = validateMix(Object.values(funnelWeights), funnelInfluence);
+
+  const overlap = values.includeTopics.find((topic) =>
+    values.excludeTopics.some((excluded) => excluded.toLowerCase() === topic.toLowerCase())
+  );
+  if (overlap) {
+    errors.includeTopics = `“${overlap}” is both included and excluded.`;
+  } else if (values.includeTopics.length > MAX_STRATEGY_LIST_ITEMS || values.excludeTopics.length > MAX_STRATEGY_LIST_ITEMS) {
+    errors.includeTopics = `Keep topic lists to ${MAX_STRATEGY_LIST_ITEMS} entries or fewer.`;
+  }
+
+  return errors;
+}
+
+export function hasDiscoveryRunFormErrors(errors: DiscoveryRunFormErrors) {
+  return Object.values(errors).some(Boolean);
+}
+
+function cleanList(values: string[]) {
+  return Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
+}
+
+export function toDiscoveryStartRequest(values: DiscoveryRunFormValues): PipelineStartRequest {
+  const minEligibleTopics = parseNumber(values.minEligibleTopics);
+  const discovery: DiscoveryLoopConfig = {
+    ...DISCOVERY_LOOP_API_DEFAULTS,
+    max_iterations: Number(values.maxIterations),
+    min_eligible_topics: minEligibleTopics,
+    require_serp_gate: values.requireSerpGate,
+    max_keyword_difficulty: Number(values.maxKeywordDifficulty),
+    min_domain_diversity: Number(values.minDomainDiversity),
+  };
+
+  const strategy: PipelineRunStrategy = {
+    scope_mode: values.scopeMode,
+    branded_keyword_mode: values.brandedKeywordMode,
+    fit_threshold_profile: values.fitThresholdProfile,
+    intent_mix: {
+      mode: "adaptive_auto",
+      informational: Number(values.intentMix.informational),
+      commercial: Number(values.intentMix.commercial),
+      transactional: Number(values.intentMix.transactional),
+      influence: Number(values.intentMix.influence),
+    },
+    funnel_mix: {
+      mode: "derived_soft_adjust",
+      tofu: Number(values.funnelMix.tofu),
+      mofu: Number(values.funnelMix.mofu),
+      bofu: Number(values.funnelMix.bofu),
+      influence: Number(values.funnelMix.influence),
+    },
+    include_topics: cleanList(values.includeTopics),
+    exclude_topics: cleanList(values.excludeTopics),
+    icp_roles: cleanList(values.icpRoles),
+    icp_industries: cleanList(values.icpIndustries),
+    market_mode_override: "auto",
+  };
+
+  return { mode: "discovery", discovery, strategy };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+/** Reads form values posted as JSON, falling back to defaults for anything missing or malformed. */
+export function parseDiscoveryRunFormValues(raw: unknown): DiscoveryRunFormValues | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const input = raw as Partial<Record<keyof DiscoveryRunFormValues, unknown>>;
+  const defaults = buildDiscoveryRunDefaults(
+    SETUP_PRESET_OPTIONS.some((option) => option.value === input.basePreset)
+      ? (input.basePreset as SetupPreset)
+      : "traffic_growth"
+  );
+
+  const readString = (value: unknown, fallback: string) => (typeof value === "string" ? value : fallback);
+  const readOption = <T extends string>(value: unknown, options: Array<{ value: T }>, fallback: T) =>
+    options.some((option) => option.value === value) ? (value as T) : fallback;
+  const readMix = <T extends Record<string, string>>(value: unknown, fallback: T): T => {
+    if (!value || typeof value !== "object") return fallback;
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(fallback).map(([key, fallbackValue]) => [key, readString(record[key], fallbackValue)])
+    ) as T;
+  };
+
+  return {
+    basePreset: defaults.basePreset,
+    maxIterations: readString(input.maxIterations, defaults.maxIterations),
+    minEligibleTopics: readString(input.minEligibleTopics, defaults.minEligibleTopics),
+    requireSerpGate: typeof input.requireSerpGate === "boolean" ? input.requireSerpGate : defaults.requireSerpGate,
+    maxKeywordDifficulty: readString(input.maxKeywordDifficulty, defaults.maxKeywordDifficulty),
+    minDomainDiversity: readString(input.minDomainDiversity, defaults.minDomainDiversity),
+    scopeMode: readOption(input.scopeMode, SCOPE_MODE_OPTIONS, defaults.scopeMode),
+    brandedKeywordMode: readOption(input.brandedKeywordMode, BRANDED_KEYWORD_MODE_OPTIONS, defaults.brandedKeywordMode),
+    fitThresholdProfile: readOption(input.fitThresholdProfile, FIT_THRESHOLD_PROFILE_OPTIONS, defaults.fitThresholdProfile),
+    intentMix: readMix(input.intentMix, defaults.intentMix),
+    funnelMix: readMix(input.funnelMix, defaults.funnelMix),
+    includeTopics: isStringArray(input.includeTopics) ? input.includeTopics : defaults.includeTopics,
+    excludeTopics: isStringArray(input.excludeTopics) ? input.excludeTopics : defaults.excludeTopics,
+    icpRoles: isStringArray(input.icpRoles) ? input.icpRoles : defaults.icpRoles,
+    icpIndustries: isStringArray(input.icpIndustries) ? input.icpIndustries : defaults.icpIndustries,
+  };
+}
+
+function presetStorageKey(projectId: string) {
+  return `${PRESET_STORAGE_KEY_PREFIX}:${projectId}`;
+}
+
+// Presets live in the browser because the project API has no field for run strategy presets.
+export function loadDiscoveryPresets(projectId: string): DiscoveryRunPreset[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(presetStorageKey(projectId));
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry) => {
+      if (!entry || typeof entry !== "object" || typeof entry.name !== "string") return [];
+      const values = parseDiscoveryRunFormValues(entry.values);
+      return values ? [{ name: entry.name, values, savedAt: String(entry.savedAt ?? "") }] : [];
+    });
+  } catch {
+    // corrupted storage, start over
+    return [];
+  }
+}
+
+export function saveDiscoveryPresets(projectId: string, presets: DiscoveryRunPreset[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(presetStorageKey(projectId), JSON.stringify(presets));
+  } catch {
+    // storage full or unavailable
+  }
+}
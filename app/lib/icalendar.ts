@@ -0,0 +1,95 @@
+export type ICalendarEvent = {
+  uid: string;
+  /** All-day event date as YYYY-MM-DD. */
+  date: string;
+  summary: string;
+  description: string;
+  url?: string | null;
+  categories?: string[];
+};
+
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF followed by a single space.
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDateValue(dateKey: string) {
+  return dateKey.replace(/-/g, "");
+}
+
+function nextDateKey(dateKey: string) {
+  const [year, month, day] = dateKey.split("-").map((part) => Number.parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+function formatTimestamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function buildICalendar({
+  calendarName,
+  events,
+  generatedAt = new Date(),
+}: {
+  calendarName: string;
+  events: ICalendarEvent[];
+  generatedAt?: Date;
+}) {
+  const stamp = formatTimestamp(generatedAt);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DonkeySEO//Publishing Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDateValue(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(nextDateKey(event.date))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+    );
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+    }
+    lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,164 @@
+import { formatStepName } from "~/lib/dashboard";
+import type { components } from "~/types/api.generated";
+
+type KeywordDetailResponse = components["schemas"]["KeywordDetailResponse"];
+
+export type SerpResultRow = {
+  position: number;
+  domain: string | null;
+  title: string | null;
+  url: string | null;
+};
+
+export type PriorityFactorRow = {
+  key: string;
+  label: string;
+  value: number;
+  weight: number | null;
+  /** Value times weight when a weight is reported, otherwise the raw value. Bars are scaled against this. */
+  contribution: number;
+};
+
+export type KeywordSignalRow = {
+  key: string;
+  label: string;
+  value: string;
+};
+
+export type IntentComparisonStatus = "match" | "mismatch" | "unvalidated" | "unknown";
+
+export type IntentComparisonRow = {
+  label: string;
+  predicted: string | null;
+  validated: string | null;
+  status: IntentComparisonStatus;
+  note: string | null;
+};
+
+function readString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function readNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function readDomain(url: string | null) {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.replace(/^www\./i, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SERP rows are stored as loose objects written by whichever provider ran the lookup, so the common field names are
+ * tried in turn. Rows without a position keep their stored order.
+ */
+export function normalizeSerpResults(results: KeywordDetailResponse["serp_top_results"]): SerpResultRow[] {
+  return (results ?? [])
+    .map((result, index) => {
+      const url = readString(result.url) ?? readString(result.link);
+      return {
+        position:
+          readNumber(result.position) ?? readNumber(result.rank) ?? readNumber(result.rank_absolute) ?? index + 1,
+        domain: readString(result.domain)?.replace(/^www\./i, "") ?? readDomain(url),
+        title: readString(result.title),
+        url,
+      };
+    })
+    .sort((a, b) => a.position - b.position);
+}
+
+/** Turns stored snake_case values (factors, features, intents) into display labels. */
+export function formatKeywordLabel(value: string) {
+  return formatStepName(value);
+}
+
+/**
+ * Accepts both flat `{ factor: 0.4 }` maps and `{ factor: { value, weight } }` entries. Anything non-numeric is left
+ * out of the chart; `listKeywordSignals` shows it instead.
+ */
+export function normalizePriorityFactors(factors: KeywordDetailResponse["priority_factors"]): PriorityFactorRow[] {
+  const rows: PriorityFactorRow[] = [];
+  for (const [key, raw] of Object.entries(factors ?? {})) {
+    let value = readNumber(raw);
+    let weight: number | null = null;
+    if (value === null && raw && typeof raw === "object" && !Array.isArray(raw)) {
+      const entry = raw as Record<string, unknown>;
+      value = readNumber(entry.value) ?? readNumber(entry.score);
+      weight = readNumber(entry.weight);
+    }
+    if (value === null) continue;
+    rows.push({
+      key,
+      label: formatKeywordLabel(key),
+      value,
+      weight,
+      contribution: weight === null ? value : value * weight,
+    });
+  }
+  return rows.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+}
+
+function formatSignalValue(value: unknown): string {
+  if (value === null || value === undefined) return "-";
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.every((entry) => typeof entry !== "object" || entry === null)) {
+    return value.length > 0 ? value.map(formatSignalValue).join(", ") : "-";
+  }
+  return JSON.stringify(value);
+}
+
+export function listKeywordSignals(signals: Record<string, unknown> | null | undefined): KeywordSignalRow[] {
+  return Object.entries(signals ?? {})
+    .map(([key, value]) => ({ key, label: formatKeywordLabel(key), value: formatSignalValue(value) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+function normalizeLabel(value: string | null | undefined) {
+  return String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ");
+}
+
+function compareValues(predicted: string | null, validated: string | null): IntentComparisonStatus {
+  if (!validated) return predicted ? "unvalidated" : "unknown";
+  if (!predicted) return "unknown";
+  return normalizeLabel(predicted) === normalizeLabel(validated) ? "match" : "mismatch";
+}
+
+function formatConfidence(value: number | null) {
+  if (value === null) return null;
+  const percent = value <= 1 ? Math.round(value * 100) : Math.round(value);
+  return `${percent}% confidence`;
+}
+
+/** Predicted values come from keyword classification; validated ones from checking the live SERP. */
+export function compareKeywordIntent(keyword: KeywordDetailResponse): IntentComparisonRow[] {
+  return [
+    {
+      label: "Search intent",
+      predicted: keyword.intent,
+      validated: keyword.validated_intent,
+      status: compareValues(keyword.intent, keyword.validated_intent),
+      note: formatConfidence(keyword.intent_confidence),
+    },
+    {
+      label: "Page type",
+      predicted: keyword.recommended_page_type,
+      validated: keyword.validated_page_type,
+      status: compareValues(keyword.recommended_page_type, keyword.validated_page_type),
+      note: keyword.page_type_rationale,
+    },
+  ];
+}
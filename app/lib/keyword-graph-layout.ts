@@ -0,0 +1,163 @@
+// Kept free of React and React Flow imports so the layout worker can bundle it on its own.
+
+export type LayoutMember = {
+  id: string;
+  radius: number;
+};
+
+/** A topic hub and the keyword nodes packed around it. Members are expected largest first. */
+export type LayoutCluster = {
+  id: string;
+  hubRadius: number;
+  /** Hub id of the parent topic's cluster, pulled closer during the simulation. */
+  parentId: string | null;
+  members: LayoutMember[];
+};
+
+export type LayoutPoint = {
+  x: number;
+  y: number;
+};
+
+/** Node centres keyed by node id. */
+export type KeywordGraphPositions = Record<string, LayoutPoint>;
+
+export type KeywordGraphLayoutRequest = {
+  requestId: number;
+  clusters: LayoutCluster[];
+};
+
+export type KeywordGraphLayoutResponse = {
+  requestId: number;
+  positions: KeywordGraphPositions;
+};
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+const MEMBER_GAP = 6;
+const CLUSTER_GAP = 70;
+const GRAVITY = 0.02;
+const PARENT_PULL = 0.08;
+/** Bounds the pairwise collision work so a few thousand topics still settle in well under a second. */
+const MAX_PAIR_CHECKS = 40_000_000;
+
+type ArrangedCluster = {
+  offsets: LayoutPoint[];
+  extent: number;
+};
+
+/**
+ * Packs members on a sunflower spiral around the hub. Spiral spacing grows with the square root of the index, so
+ * the cluster stays roughly round and its area grows linearly with the member count.
+ */
+function arrangeMembers(cluster: LayoutCluster): ArrangedCluster {
+  if (cluster.members.length === 0) {
+    return { offsets: [], extent: cluster.hubRadius };
+  }
+
+  const meanRadius = cluster.members.reduce((sum, member) => sum + member.radius, 0) / cluster.members.length;
+  const spacing = 0.62 * (meanRadius * 2 + MEMBER_GAP);
+  let extent = cluster.hubRadius;
+
+  const offsets = cluster.members.map((member, index) => {
+    const distance = cluster.hubRadius + MEMBER_GAP + member.radius + spacing * Math.sqrt(index);
+    const angle = index * GOLDEN_ANGLE;
+    extent = Math.max(extent, distance + member.radius);
+    return { x: Math.cos(angle) * distance, y: Math.sin(angle) * distance };
+  });
+
+  return { offsets, extent };
+}
+
+/**
+ * Places cluster centres with a small force simulation: gravity toward the origin, a pull toward the parent topic,
+ * and collision on each cluster's outer radius. Larger clusters move less when two collide. Starting points are a
+ * deterministic spiral, so the same input always produces the same picture.
+ */
+function placeClusters(clusters: LayoutCluster[], extents: number[]): LayoutPoint[] {
+  const count = clusters.length;
+  const meanExtent = extents.reduce((sum, extent) => sum + extent, 0) / Math.max(1, count);
+  const points = clusters.map((_, index) => {
+    const distance = (meanExtent + CLUSTER_GAP) * Math.sqrt(index);
+    const angle = index * GOLDEN_ANGLE;
+    return { x: Math.cos(angle) * distance, y: Math.sin(angle) * distance };
+  });
+  if (count < 2) return points;
+
+  const indexById = new Map(clusters.map((cluster, index) => [cluster.id, index]));
+  const parentIndexes = clusters.map((cluster) =>
+    cluster.parentId ? indexById.get(cluster.parentId) ?? -1 : -1
+  );
+  const masses = extents.map((extent) => extent * extent);
+  const pairCount = (count * (count - 1)) / 2;
+  const iterations = Math.max(30, Math.min(300, Math.floor(MAX_PAIR_CHECKS / pairCount)));
+
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const alpha = 1 - iteration / iterations;
+
+    for (let index = 0; index < count; index += 1) {
+      const point = points[index];
+      point.x -= point.x * GRAVITY * alpha;
+      point.y -= point.y * GRAVITY * alpha;
+
+      const parentIndex = parentIndexes[index];
+      if (parentIndex < 0) continue;
+      const parent = points[parentIndex];
+      const dx = parent.x - point.x;
+      const dy = parent.y - point.y;
+      const distance = Math.hypot(dx, dy);
+      const restLength = extents[index] + extents[parentIndex] + CLUSTER_GAP;
+      if (distance <= restLength) continue;
+      const pull = ((distance - restLength) / distance) * PARENT_PULL * alpha;
+      point.x += dx * pull;
+      point.y += dy * pull;
+    }
+
+    for (let a = 0; a < count; a += 1) {
+      for (let b = a + 1; b < count; b += 1) {
+        const minDistance = extents[a] + extents[b] + CLUSTER_GAP;
+        let dx = points[b].x - points[a].x;
+        let dy = points[b].y - points[a].y;
+        if (Math.abs(dx) >= minDistance || Math.abs(dy) >= minDistance) continue;
+
+        let distance = Math.hypot(dx, dy);
+        if (distance >= minDistance) continue;
+        if (distance === 0) {
+          // Coincident centres have no direction to push along; pick one from the pair so the result stays stable.
+          const angle = (a + b) * GOLDEN_ANGLE;
+          dx = Math.cos(angle);
+          dy = Math.sin(angle);
+          distance = 1;
+        }
+
+        const overlap = (minDistance - distance) / distance;
+        const share = masses[b] / (masses[a] + masses[b]);
+        points[a].x -= dx * overlap * share;
+        points[a].y -= dy * overlap * share;
+        points[b].x += dx * overlap * (1 - share);
+        points[b].y += dy * overlap * (1 - share);
+      }
+    }
+  }
+
+  return points;
+}
+
+export function layoutKeywordGraph(clusters: LayoutCluster[]): KeywordGraphPositions {
+  const arranged = clusters.map(arrangeMembers);
+  const centres = placeClusters(
+    clusters,
+    arranged.map((cluster) => cluster.extent)
+  );
+
+  const positions: KeywordGraphPositions = {};
+  clusters.forEach((cluster, clusterIndex) => {
+    const centre = centres[clusterIndex];
+    positions[cluster.id] = { x: centre.x, y: centre.y };
+    cluster.members.forEach((member, memberIndex) => {
+      const offset = arranged[clusterIndex].offsets[memberIndex];
+      positions[member.id] = { x: centre.x + offset.x, y: centre.y + offset.y };
+    });
+  });
+
+  return positions;
+}
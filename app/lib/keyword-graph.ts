@@ -1,131 +1,408 @@
 import type { Edge, Node } from "@xyflow/react";
+import type { KeywordGraphPositions, LayoutCluster } from "~/lib/keyword-graph-layout";
 import type { components } from "~/types/api.generated";
 
 type KeywordResponse = components["schemas"]["KeywordResponse"];
 type TopicResponse = components["schemas"]["TopicResponse"];
 
-export function buildKeywordGraph(keywords: KeywordResponse[], topics: TopicResponse[]) {
-  const nodes: Node[] = [];
-  const edges: Edge[] = [];
+/** The slice of a keyword the graph needs; the data route trims responses to this to keep large graphs light. */
+export type GraphKeyword = {
+  id: string;
+  keyword: string;
+  topicId: string | null;
+  searchVolume: number | null;
+  difficulty: number | null;
+  intent: string | null;
+  isSeed: boolean;
+};
 
-  const topicsForGraph = topics.slice(0, 24);
-  const topicIdSet = new Set(topicsForGraph.map((topic) => topic.id));
-  const scopedKeywords = keywords
-    .filter((keyword) => (keyword.topic_id ? topicIdSet.has(keyword.topic_id) : true))
-    .slice(0, 200);
+export type GraphTopic = {
+  id: string;
+  name: string;
+  parentTopicId: string | null;
+};
 
-  const topicPositions = new Map<string, { x: number; y: number }>();
+export type KeywordGraphData = {
+  keywords: GraphKeyword[];
+  topics: GraphTopic[];
+};
 
-  topicsForGraph.forEach((topic, index) => {
-    const columns = 3;
-    const x = 230 + (index % columns) * 380;
-    const y = 170 + Math.floor(index / columns) * 280;
+export type KeywordGraphColorMode = "intent" | "difficulty";
 
-    topicPositions.set(topic.id, { x, y });
+export type KeywordGraphView = {
+  collapsedTopicIds: ReadonlySet<string>;
+  /** Shows only this topic's keywords, with its parent and child topics as collapsed hubs around it. */
+  focusTopicId: string | null;
+};
 
-    nodes.push({
-      id: `topic-${topic.id}`,
-      position: { x, y },
-      data: {
-        label: topic.name,
-        keywordCount: topic.keyword_count,
-        isTopic: true,
-      },
-      style: {
-        background: "#1f2937",
-        color: "#f8fafc",
-        border: "1px solid #475569",
-        borderRadius: 14,
-        minWidth: 170,
-        padding: 10,
-      },
-      draggable: false,
+export type KeywordGraphTopicNodeModel = {
+  kind: "topic";
+  id: string;
+  topicId: string;
+  label: string;
+  radius: number;
+  keywordCount: number;
+  collapsed: boolean;
+  isFocus: boolean;
+};
+
+export type KeywordGraphKeywordNodeModel = {
+  kind: "keyword";
+  id: string;
+  keyword: GraphKeyword;
+  radius: number;
+};
+
+export type KeywordGraphNodeModel = KeywordGraphTopicNodeModel | KeywordGraphKeywordNodeModel;
+
+export type KeywordGraphLinkKind = "topic" | "seed" | "parent";
+
+export type KeywordGraphLinkModel = {
+  id: string;
+  source: string;
+  target: string;
+  kind: KeywordGraphLinkKind;
+};
+
+export type KeywordGraphModel = {
+  nodes: KeywordGraphNodeModel[];
+  links: KeywordGraphLinkModel[];
+  clusters: LayoutCluster[];
+  topicCount: number;
+  keywordCount: number;
+};
+
+export type KeywordBubbleData = {
+  keywordId: string;
+  label: string;
+  title: string;
+  color: string;
+  isSeed: boolean;
+  showLabel: boolean;
+};
+
+export type TopicHubData = {
+  topicId: string;
+  label: string;
+  keywordCount: number;
+  collapsed: boolean;
+  isFocus: boolean;
+};
+
+export type KeywordBubbleNode = Node<KeywordBubbleData, "keywordBubble">;
+export type TopicHubNode = Node<TopicHubData, "topicHub">;
+export type KeywordGraphNode = KeywordBubbleNode | TopicHubNode;
+
+export type KeywordGraphLegendItem = {
+  label: string;
+  color: string;
+};
+
+/** Keywords without a topic are gathered under this pseudo-topic so they still get a cluster. */
+export const UNASSIGNED_TOPIC_ID = "__unassigned__";
+
+/** Above this many visible keywords only topic-to-topic links are drawn; membership still shows through placement. */
+export const KEYWORD_LINK_LIMIT = 600;
+
+const MIN_KEYWORD_RADIUS = 7;
+const MAX_KEYWORD_RADIUS = 30;
+const HUB_RADIUS = 34;
+const MIN_COLLAPSED_HUB_RADIUS = 38;
+const MAX_COLLAPSED_HUB_RADIUS = 76;
+const LABEL_RADIUS = 16;
+
+const INTENT_COLORS: Record<string, string> = {
+  informational: "#3b82f6",
+  commercial: "#f59e0b",
+  transactional: "#10b981",
+  navigational: "#8b5cf6",
+};
+const UNKNOWN_COLOR = "#94a3b8";
+
+const DIFFICULTY_BANDS = [
+  { max: 30, label: "Easy (0-29)", color: "#22c55e" },
+  { max: 60, label: "Medium (30-59)", color: "#f59e0b" },
+  { max: Number.POSITIVE_INFINITY, label: "Hard (60+)", color: "#ef4444" },
+];
+
+function isSeedSource(source: string | null | undefined) {
+  const normalized = String(source ?? "").toLowerCase();
+  return normalized.includes("manual") || normalized.includes("seed");
+}
+
+export function toGraphKeyword(keyword: KeywordResponse): GraphKeyword {
+  return {
+    id: keyword.id,
+    keyword: keyword.keyword,
+    topicId: keyword.topic_id,
+    searchVolume: keyword.search_volume,
+    difficulty: keyword.difficulty,
+    intent: keyword.intent,
+    isSeed: isSeedSource(keyword.source),
+  };
+}
+
+export function toGraphTopic(topic: TopicResponse): GraphTopic {
+  return {
+    id: topic.id,
+    name: topic.name,
+    parentTopicId: topic.parent_topic_id,
+  };
+}
+
+export function topicNodeId(topicId: string) {
+  return `topic-${topicId}`;
+}
+
+export function keywordNodeId(keywordId: string) {
+  return `keyword-${keywordId}`;
+}
+
+/** Log scale, so a handful of head terms do not shrink the long tail to dots. */
+function scaleRadius(value: number, maxValue: number, minRadius: number, maxRadius: number) {
+  if (value <= 0 || maxValue <= 0) return minRadius;
+  const ratio = Math.log10(1 + value) / Math.log10(1 + maxValue);
+  return minRadius + (maxRadius - minRadius) * ratio;
+}
+
+function tokenize(value: string) {
+  return new Set(value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+function countSharedTokens(a: Set<string>, b: Set<string>) {
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared += 1;
+  }
+  return shared;
+}
+
+/**
+ * Links each non-seed keyword to the seed in its topic it shares the most words with. Keywords sharing no words
+ * with any seed stay linked to the topic only.
+ */
+function linkSeeds(members: GraphKeyword[]): KeywordGraphLinkModel[] {
+  const seeds = members.filter((keyword) => keyword.isSeed).map((keyword) => ({ keyword, tokens: tokenize(keyword.keyword) }));
+  if (seeds.length === 0) return [];
+
+  const links: KeywordGraphLinkModel[] = [];
+  for (const keyword of members) {
+    if (keyword.isSeed) continue;
+    const tokens = tokenize(keyword.keyword);
+    let bestSeed: GraphKeyword | null = null;
+    let bestShared = 0;
+    for (const seed of seeds) {
+      const shared = countSharedTokens(tokens, seed.tokens);
+      if (shared > bestShared) {
+        bestShared = shared;
+        bestSeed = seed.keyword;
+      }
+    }
+    if (!bestSeed) continue;
+    links.push({
+      id: `seed-${bestSeed.id}-${keyword.id}`,
+      source: keywordNodeId(bestSeed.id),
+      target: keywordNodeId(keyword.id),
+      kind: "seed",
     });
-  });
+  }
+  return links;
+}
+
+/** Topics shown in focus mode: the focused topic, its parent, and its direct children. */
+function listFocusTopicIds(topics: GraphTopic[], focusTopicId: string) {
+  const focusTopic = topics.find((topic) => topic.id === focusTopicId);
+  const ids = new Set([focusTopicId]);
+  if (focusTopic?.parentTopicId) ids.add(focusTopic.parentTopicId);
+  for (const topic of topics) {
+    if (topic.parentTopicId === focusTopicId) ids.add(topic.id);
+  }
+  return ids;
+}
 
-  const groupedByTopic = new Map<string, KeywordResponse[]>();
+/**
+ * Turns keyword and topic data into graph nodes, links and layout clusters for the current view. Only topics with
+ * keywords in the data are shown, except in focus mode, where the neighbouring topics always appear.
+ */
+export function buildKeywordGraphModel(data: KeywordGraphData, view: KeywordGraphView): KeywordGraphModel {
+  const topicById = new Map(data.topics.map((topic) => [topic.id, topic]));
+  const keywordsByTopic = new Map<string, GraphKeyword[]>();
+  for (const keyword of data.keywords) {
+    const topicId = keyword.topicId && topicById.has(keyword.topicId) ? keyword.topicId : UNASSIGNED_TOPIC_ID;
+    const group = keywordsByTopic.get(topicId) ?? [];
+    group.push(keyword);
+    keywordsByTopic.set(topicId, group);
+  }
 
-  for (const keyword of scopedKeywords) {
-    if (!keyword.topic_id || !topicIdSet.has(keyword.topic_id)) continue;
-    const current = groupedByTopic.get(keyword.topic_id) ?? [];
-    current.push(keyword);
-    groupedByTopic.set(keyword.topic_id, current);
+  const topics: GraphTopic[] = [...data.topics];
+  if (keywordsByTopic.has(UNASSIGNED_TOPIC_ID)) {
+    topics.push({ id: UNASSIGNED_TOPIC_ID, name: "No topic", parentTopicId: null });
   }
 
-  for (const [topicId, group] of groupedByTopic.entries()) {
-    const center = topicPositions.get(topicId);
-    if (!center) continue;
+  const focusTopicId = view.focusTopicId && topicById.has(view.focusTopicId) ? view.focusTopicId : null;
+  const focusIds = focusTopicId ? listFocusTopicIds(data.topics, focusTopicId) : null;
+  const visibleTopics = topics.filter((topic) =>
+    focusIds ? focusIds.has(topic.id) : keywordsByTopic.has(topic.id)
+  );
+  const visibleTopicIds = new Set(visibleTopics.map((topic) => topic.id));
 
-    const seeds: KeywordResponse[] = [];
-    const related: KeywordResponse[] = [];
+  // Reduce rather than spread: keyword lists can outgrow the engine's argument limit.
+  const maxVolume = data.keywords.reduce((max, keyword) => Math.max(max, keyword.searchVolume ?? 0), 0);
+  const topicVolume = (topicId: string) =>
+    (keywordsByTopic.get(topicId) ?? []).reduce((sum, keyword) => sum + (keyword.searchVolume ?? 0), 0);
+  const maxTopicVolume = visibleTopics.reduce((max, topic) => Math.max(max, topicVolume(topic.id)), 0);
 
-    group.forEach((keyword) => {
-      const source = String(keyword.source ?? "").toLowerCase();
-      const isSeed = source.includes("manual") || source.includes("seed");
-      if (isSeed) {
-        seeds.push(keyword);
-      } else {
-        related.push(keyword);
-      }
+  const nodes: KeywordGraphNodeModel[] = [];
+  const links: KeywordGraphLinkModel[] = [];
+  const clusters: LayoutCluster[] = [];
+  let keywordCount = 0;
+
+  for (const topic of visibleTopics) {
+    const members = [...(keywordsByTopic.get(topic.id) ?? [])].sort(
+      (a, b) => (b.searchVolume ?? 0) - (a.searchVolume ?? 0) || a.keyword.localeCompare(b.keyword)
+    );
+    const collapsed = focusTopicId ? topic.id !== focusTopicId : view.collapsedTopicIds.has(topic.id);
+    const hubId = topicNodeId(topic.id);
+    const hubRadius = collapsed
+      ? scaleRadius(topicVolume(topic.id), maxTopicVolume, MIN_COLLAPSED_HUB_RADIUS, MAX_COLLAPSED_HUB_RADIUS)
+      : HUB_RADIUS;
+
+    nodes.push({
+      kind: "topic",
+      id: hubId,
+      topicId: topic.id,
+      label: topic.name,
+      radius: hubRadius,
+      keywordCount: members.length,
+      collapsed,
+      isFocus: topic.id === focusTopicId,
     });
 
-    const orderedKeywords = [...seeds, ...related];
+    const parentId = topic.parentTopicId && visibleTopicIds.has(topic.parentTopicId) ? topic.parentTopicId : null;
+    if (parentId) {
+      links.push({ id: `parent-${parentId}-${topic.id}`, source: topicNodeId(parentId), target: hubId, kind: "parent" });
+    }
+
+    const cluster: LayoutCluster = {
+      id: hubId,
+      hubRadius,
+      parentId: parentId ? topicNodeId(parentId) : null,
+      members: [],
+    };
+    clusters.push(cluster);
+    if (collapsed) continue;
+
+    for (const keyword of members) {
+      const id = keywordNodeId(keyword.id);
+      const radius = scaleRadius(keyword.searchVolume ?? 0, maxVolume, MIN_KEYWORD_RADIUS, MAX_KEYWORD_RADIUS);
+      nodes.push({ kind: "keyword", id, keyword, radius });
+      cluster.members.push({ id, radius });
+      links.push({ id: `member-${keyword.id}`, source: hubId, target: id, kind: "topic" });
+    }
+    links.push(...linkSeeds(members));
+    keywordCount += members.length;
+  }
+
+  return { nodes, links, clusters, topicCount: visibleTopics.length, keywordCount };
+}
 
-    orderedKeywords.forEach((keyword, index) => {
-      const source = String(keyword.source ?? "").toLowerCase();
-      const isSeed = source.includes("manual") || source.includes("seed");
-      const angle = (index / Math.max(1, orderedKeywords.length)) * Math.PI * 2;
-      const ring = Math.floor(index / 8);
-      const radius = 130 + ring * 42;
-      const x = center.x + Math.cos(angle) * radius;
-      const y = center.y + Math.sin(angle) * radius;
+function findDifficultyBand(difficulty: number) {
+  return DIFFICULTY_BANDS.find((band) => difficulty < band.max) ?? DIFFICULTY_BANDS[DIFFICULTY_BANDS.length - 1];
+}
 
+export function readKeywordGraphColor(keyword: GraphKeyword, mode: KeywordGraphColorMode) {
+  if (mode === "difficulty") {
+    return keyword.difficulty === null ? UNKNOWN_COLOR : findDifficultyBand(keyword.difficulty).color;
+  }
+  return INTENT_COLORS[String(keyword.intent ?? "").toLowerCase()] ?? UNKNOWN_COLOR;
+}
+
+export function listKeywordGraphLegend(mode: KeywordGraphColorMode): KeywordGraphLegendItem[] {
+  const items =
+    mode === "difficulty"
+      ? DIFFICULTY_BANDS.map(({ label, color }) => ({ label, color }))
+      : Object.entries(INTENT_COLORS).map(([intent, color]) => ({
+          label: intent.charAt(0).toUpperCase() + intent.slice(1),
+          color,
+        }));
+  return [...items, { label: "Unknown", color: UNKNOWN_COLOR }];
+}
+
+function describeKeyword(keyword: GraphKeyword) {
+  const details = [
+    keyword.searchVolume !== null ? `Volume ${keyword.searchVolume.toLocaleString()}` : null,
+    keyword.difficulty !== null ? `Difficulty ${keyword.difficulty}` : null,
+    keyword.intent ? `Intent ${keyword.intent}` : null,
+    keyword.isSeed ? "Seed keyword" : null,
+  ].filter(Boolean);
+  return details.length > 0 ? `${keyword.keyword} (${details.join(", ")})` : keyword.keyword;
+}
+
+const LINK_STYLES: Record<KeywordGraphLinkKind, Edge["style"]> = {
+  topic: { stroke: "#cbd5e1" },
+  seed: { stroke: "#5f79a8", strokeDasharray: "4 3" },
+  parent: { stroke: "#1f2937", strokeWidth: 2 },
+};
+
+/** Builds React Flow elements for a laid-out model. Nodes missing from `positions` are skipped. */
+export function toKeywordGraphElements(
+  model: KeywordGraphModel,
+  positions: KeywordGraphPositions,
+  colorMode: KeywordGraphColorMode
+) {
+  const nodes: KeywordGraphNode[] = [];
+  for (const node of model.nodes) {
+    const centre = positions[node.id];
+    if (!centre) continue;
+    const size = node.radius * 2;
+    const base = {
+      id: node.id,
+      position: { x: centre.x - node.radius, y: centre.y - node.radius },
+      width: size,
+      height: size,
+      draggable: false,
+    };
+
+    if (node.kind === "topic") {
       nodes.push({
-        id: `keyword-${keyword.id}`,
-        position: { x, y },
+        ...base,
+        type: "topicHub",
         data: {
-          label: keyword.keyword,
-          keywordId: keyword.id,
-          isSeed,
-          volume: keyword.search_volume,
-          difficulty: keyword.difficulty,
-          intent: keyword.intent,
-          priority: keyword.priority_score,
-        },
-        style: {
-          borderRadius: 999,
-          border: isSeed ? "2px solid #2f6f71" : "1px solid #94a3b8",
-          background: isSeed ? "#e2f2f2" : "#ffffff",
-          color: "#0f172a",
-          minWidth: 110,
-          maxWidth: 190,
-          padding: "6px 10px",
+          topicId: node.topicId,
+          label: node.label,
+          keywordCount: node.keywordCount,
+          collapsed: node.collapsed,
+          isFocus: node.isFocus,
         },
-        draggable: false,
       });
+      continue;
+    }
 
-      edges.push({
-        id: `edge-topic-${keyword.id}`,
-        source: `keyword-${keyword.id}`,
-        target: `topic-${topicId}`,
-        animated: false,
-        style: { stroke: "#cbd5e1" },
-      });
+    nodes.push({
+      ...base,
+      type: "keywordBubble",
+      data: {
+        keywordId: node.keyword.id,
+        label: node.keyword.keyword,
+        title: describeKeyword(node.keyword),
+        color: readKeywordGraphColor(node.keyword, colorMode),
+        isSeed: node.keyword.isSeed,
+        showLabel: node.radius >= LABEL_RADIUS,
+      },
     });
-
-    if (seeds.length > 0 && related.length > 0) {
-      const primarySeed = seeds[0];
-      for (const keyword of related) {
-        if (keyword.id === primarySeed.id) continue;
-        edges.push({
-          id: `edge-seed-${primarySeed.id}-${keyword.id}`,
-          source: `keyword-${primarySeed.id}`,
-          target: `keyword-${keyword.id}`,
-          style: { stroke: "#5f79a8", strokeDasharray: "4 3" },
-        });
-      }
-    }
   }
 
-  return { nodes, edges };
+  const showKeywordLinks = model.keywordCount <= KEYWORD_LINK_LIMIT;
+  const edges: Edge[] = model.links
+    .filter((link) => showKeywordLinks || link.kind === "parent")
+    .filter((link) => positions[link.source] && positions[link.target])
+    .map((link) => ({
+      id: link.id,
+      source: link.source,
+      target: link.target,
+      type: "straight",
+      style: LINK_STYLES[link.kind],
+    }));
+
+  return { nodes, edges, showKeywordLinks };
 }
@@ -0,0 +1,16 @@
+// Relative import on purpose: worker bundles do not go through the app's path-alias plugin.
+import {
+  layoutKeywordGraph,
+  type KeywordGraphLayoutRequest,
+  type KeywordGraphLayoutResponse,
+} from "./keyword-graph-layout";
+
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<KeywordGraphLayoutRequest>) => void) | null;
+  postMessage: (message: KeywordGraphLayoutResponse) => void;
+};
+
+worker.onmessage = (event) => {
+  const { requestId, clusters } = event.data;
+  worker.postMessage({ requestId, positions: layoutKeywordGraph(clusters) });
+};
@@ -0,0 +1,199 @@
+export type KeywordImportSource = "ahrefs" | "semrush" | "search_console" | "generic";
+
+export type KeywordImportMapping = {
+  keyword: number | null;
+  volume: number | null;
+  difficulty: number | null;
+};
+
+export type KeywordImportRowStatus = "new" | "duplicate" | "existing" | "invalid";
+
+export type KeywordImportRow = {
+  /** 1-based line number in the uploaded file, counting the header row. */
+  line: number;
+  keyword: string;
+  normalized: string;
+  volume: number | null;
+  difficulty: number | null;
+  status: KeywordImportRowStatus;
+  error: string | null;
+};
+
+export type ParsedDelimitedFile = {
+  headers: string[];
+  rows: string[][];
+};
+
+export const KEYWORD_IMPORT_SOURCE_LABELS: Record<KeywordImportSource, string> = {
+  ahrefs: "Ahrefs",
+  semrush: "Semrush",
+  search_console: "Google Search Console",
+  generic: "CSV",
+};
+
+export const MAX_IMPORT_KEYWORD_LENGTH = 200;
+
+const DELIMITERS = [",", ";", "\t"] as const;
+
+// Header aliases per mapped field, compared after lowercasing and trimming.
+const KEYWORD_HEADERS = ["keyword", "keywords", "top queries", "query", "queries", "search term", "term"];
+const VOLUME_HEADERS = ["volume", "search volume", "avg. monthly searches", "impressions", "global volume"];
+const DIFFICULTY_HEADERS = ["kd", "kd %", "keyword difficulty", "difficulty"];
+
+/** Decodes an uploaded file, handling the UTF-16 exports Ahrefs produces as well as UTF-8 with or without a BOM. */
+export function decodeImportFile(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes);
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+function detectDelimiter(firstLine: string) {
+  let best: string = ",";
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of firstLine) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) count += 1;
+    }
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** RFC 4180 parser with delimiter detection for comma, semicolon and tab separated exports. */
+export function parseDelimitedText(input: string): ParsedDelimitedFile {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] ?? "");
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((entry) => entry.some((value) => value.trim().length > 0));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+function findHeader(headers: string[], aliases: string[]) {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  for (const alias of aliases) {
+    const index = normalized.indexOf(alias);
+    if (index >= 0) return index;
+  }
+  return null;
+}
+
+export function detectImportSource(headers: string[]): KeywordImportSource {
+  const normalized = new Set(headers.map((header) => header.trim().toLowerCase()));
+  if (normalized.has("top queries") || (normalized.has("impressions") && normalized.has("position"))) {
+    return "search_console";
+  }
+  if (normalized.has("kd") && (normalized.has("parent keyword") || normalized.has("traffic potential"))) {
+    return "ahrefs";
+  }
+  if (normalized.has("keyword difficulty") || normalized.has("kd %") || normalized.has("search volume")) {
+    return "semrush";
+  }
+  return "generic";
+}
+
+export function guessImportMapping(headers: string[]): KeywordImportMapping {
+  return {
+    keyword: findHeader(headers, KEYWORD_HEADERS) ?? (headers.length > 0 ? 0 : null),
+    volume: findHeader(headers, VOLUME_HEADERS),
+    difficulty: findHeader(headers, DIFFICULTY_HEADERS),
+  };
+}
+
+/** Mirrors the API's `keyword_normalized`: trimmed, lowercased, single-spaced. */
+export function normalizeKeyword(value: string) {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function parseMetric(raw: string | undefined): { value: number | null; valid: boolean } {
+  const trimmed = (raw ?? "").trim().replace(/%$/, "");
+  if (!trimmed || trimmed === "-" || trimmed.toLowerCase() === "n/a") return { value: null, valid: true };
+  const numeric = Number(trimmed.replace(/[\s,]/g, ""));
+  return Number.isFinite(numeric) && numeric >= 0 ? { value: numeric, valid: true } : { value: null, valid: false };
+}
+
+export function buildKeywordImportPreview(
+  rows: string[][],
+  mapping: KeywordImportMapping,
+  existingNormalized: Set<string>
+): KeywordImportRow[] {
+  const seen = new Set<string>();
+
+  return rows.map((row, index) => {
+    const keyword = mapping.keyword === null ? "" : (row[mapping.keyword] ?? "").trim();
+    const normalized = normalizeKeyword(keyword);
+    const volume = mapping.volume === null ? { value: null, valid: true } : parseMetric(row[mapping.volume]);
+    const difficulty = mapping.difficulty === null ? { value: null, valid: true } : parseMetric(row[mapping.difficulty]);
+    const base = { line: index + 2, keyword, normalized, volume: volume.value, difficulty: difficulty.value };
+
+    let error: string | null = null;
+    if (!normalized) error = "Keyword is empty.";
+    else if (keyword.length > MAX_IMPORT_KEYWORD_LENGTH) error = `Keyword is longer than ${MAX_IMPORT_KEYWORD_LENGTH} characters.`;
+    else if (!volume.valid) error = "Search volume is not a number.";
+    else if (!difficulty.valid) error = "Difficulty is not a number.";
+    if (error) return { ...base, status: "invalid", error };
+
+    if (existingNormalized.has(normalized)) return { ...base, status: "existing", error: null };
+    if (seen.has(normalized)) return { ...base, status: "duplicate", error: null };
+    seen.add(normalized);
+    return { ...base, status: "new", error: null };
+  });
+}
+
+export function summarizeKeywordImport(rows: KeywordImportRow[]) {
+  const counts: Record<KeywordImportRowStatus, number> = { new: 0, duplicate: 0, existing: 0, invalid: 0 };
+  for (const row of rows) counts[row.status] += 1;
+  return counts;
+}
+
+/** New keywords ordered by volume so capped imports keep the highest-demand terms. */
+export function selectImportableKeywords(rows: KeywordImportRow[]) {
+  return rows
+    .filter((row) => row.status === "new")
+    .sort((a, b) => (b.volume ?? -1) - (a.volume ?? -1));
+}
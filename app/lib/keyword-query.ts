@@ -0,0 +1,110 @@
+export type KeywordSortColumn = "volume" | "difficulty" | "priority_score" | "cpc";
+export type KeywordSortOrder = "asc" | "desc";
+
+export type KeywordListQuery = {
+  search: string;
+  status: string;
+  sort: KeywordSortColumn;
+  order: KeywordSortOrder;
+  page: number;
+  pageSize: number;
+};
+
+export const KEYWORD_SORT_COLUMNS: Array<{ value: KeywordSortColumn; label: string }> = [
+  { value: "volume", label: "Volume" },
+  { value: "difficulty", label: "Difficulty" },
+  { value: "priority_score", label: "Priority" },
+  { value: "cpc", label: "CPC" },
+];
+
+export const KEYWORD_PAGE_SIZES = [50, 100, 200] as const;
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Sort columns map onto KeywordResponse fields; "volume" is the dashboard alias for search_volume.
+const SORT_FIELD_BY_COLUMN: Record<KeywordSortColumn, "search_volume" | "difficulty" | "priority_score" | "cpc"> = {
+  volume: "search_volume",
+  difficulty: "difficulty",
+  priority_score: "priority_score",
+  cpc: "cpc",
+};
+
+function isSortColumn(value: string | null): value is KeywordSortColumn {
+  return KEYWORD_SORT_COLUMNS.some((column) => column.value === value);
+}
+
+function parsePositiveInt(value: string | null, fallback: number) {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function parseKeywordListQuery(searchParams: URLSearchParams): KeywordListQuery {
+  const sortParam = searchParams.get("sort");
+  const pageSize = parsePositiveInt(searchParams.get("page_size"), DEFAULT_PAGE_SIZE);
+
+  return {
+    search: (searchParams.get("q") ?? "").trim(),
+    status: (searchParams.get("status") ?? "").trim() || "all",
+    sort: isSortColumn(sortParam) ? sortParam : "volume",
+    order: searchParams.get("order") === "asc" ? "asc" : "desc",
+    page: parsePositiveInt(searchParams.get("page"), 1),
+    pageSize: (KEYWORD_PAGE_SIZES as readonly number[]).includes(pageSize) ? pageSize : DEFAULT_PAGE_SIZE,
+  };
+}
+
+/**
+ * The keyword list endpoint pages in its own order and takes no sort parameters, so `sort` and `order` are left out
+ * here and applied with `sortKeywords` to whatever was loaded.
+ */
+export function buildKeywordListApiPath(projectId: string, query: KeywordListQuery) {
+  const params = new URLSearchParams({
+    page: String(query.page),
+    page_size: String(query.pageSize),
+  });
+  if (query.search) params.set("search", query.search);
+  if (query.status !== "all") params.set("status", query.status);
+
+  return `/keywords/${projectId}?${params.toString()}`;
+}
+
+export function toKeywordListSearchParams(query: KeywordListQuery) {
+  const params = new URLSearchParams();
+  if (query.search) params.set("q", query.search);
+  if (query.status !== "all") params.set("status", query.status);
+  if (query.sort !== "volume") params.set("sort", query.sort);
+  if (query.order !== "desc") params.set("order", query.order);
+  if (query.page > 1) params.set("page", String(query.page));
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) params.set("page_size", String(query.pageSize));
+  return params;
+}
+
+type SortableKeyword = {
+  search_volume: number | null;
+  difficulty: number | null;
+  priority_score: number | null;
+  cpc: number | null;
+};
+
+export function readKeywordSortValue(
+  keyword: SortableKeyword,
+  column: KeywordSortColumn
+) {
+  return keyword[SORT_FIELD_BY_COLUMN[column]];
+}
+
+/** Sorts by the query's column and order, keeping keywords without a value last in both directions. */
+export function sortKeywords<T extends SortableKeyword>(keywords: T[], query: Pick<KeywordListQuery, "sort" | "order">) {
+  const direction = query.order === "asc" ? 1 : -1;
+  return keywords.slice().sort((a, b) => {
+    const aValue = readKeywordSortValue(a, query.sort);
+    const bValue = readKeywordSortValue(b, query.sort);
+    if (aValue === null && bValue === null) return 0;
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+    return (aValue - bValue) * direction;
+  });
+}
+
+export function countKeywordPages(total: number, pageSize: number) {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
@@ -65,3 +65,38 @@ export function groupContentRunsByParent(runs: PipelineRunResponse[]) {
 
   return { byParentRunId: grouped, standalone };
 }
+
+export type RunLineage = {
+  /** Oldest first, ending with the current run's direct parent. */
+  ancestors: PipelineRunResponse[];
+  /** Set when the chain continues past the loaded runs, so the oldest ancestor is only known by id. */
+  unresolvedAncestorId: string | null;
+  /** Runs started from this one in the same module, newest first. */
+  retries: PipelineRunResponse[];
+};
+
+export function buildRunLineage(runs: PipelineRunResponse[], run: PipelineRunResponse): RunLineage {
+  const byId = new Map(runs.map((entry) => [entry.id, entry]));
+  const ancestors: PipelineRunResponse[] = [];
+  const seen = new Set([run.id]);
+  let parentId = run.parent_run_id;
+  let unresolvedAncestorId: string | null = null;
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) {
+      unresolvedAncestorId = parentId;
+      break;
+    }
+    seen.add(parentId);
+    ancestors.unshift(parent);
+    parentId = parent.parent_run_id;
+  }
+
+  const module = normalizePipelineModule(run.pipeline_module);
+  const retries = sortPipelineRunsNewest(runs).filter(
+    (entry) => entry.parent_run_id === run.id && normalizePipelineModule(entry.pipeline_module) === module
+  );
+
+  return { ancestors, unresolvedAncestorId, retries };
+}
@@ -1,10 +1,14 @@
+import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
+import { isRunActive } from "~/lib/dashboard";
+import { isRunInModule } from "~/lib/pipeline-module";
 import {
   classifyRunPhaseFromSteps,
   mergePhaseWithDiscoverySignals,
   sortClassifiedRunsNewest,
   type ClassifiedPipelineRun,
 } from "~/lib/pipeline-phase";
+import { findRetryableStep, toRetryStartRequest } from "~/lib/pipeline-steps";
 import type { components } from "~/types/api.generated";
 
 type PipelineRunResponse = components["schemas"]["PipelineRunResponse"];
@@ -71,3 +75,99 @@ export async function classifyPipelineRuns(
   return { unauthorized: false, runs: sortClassifiedRunsNewest(enriched) };
 }
 
+
+// Hard stop for paged exports so a misbehaving total can't loop forever.
+const MAX_PAGED_REQUESTS = 500;
+// Enough parallel requests to keep per-item loads quick without flooding the API.
+const REQUEST_BATCH_SIZE = 8;
+
+/** Walks a `{ items, total }` list endpoint page by page and returns every item. */
+export async function fetchAllPages<T>(
+  api: ApiClient,
+  buildPath: (page: number) => string
+): Promise<JsonResult<T[]>> {
+  const items: T[] = [];
+
+  for (let page = 1; page <= MAX_PAGED_REQUESTS; page += 1) {
+    const result = await fetchJson<{ items: T[]; total: number }>(api, buildPath(page));
+    if (!result.ok || !result.data) {
+      return { unauthorized: result.unauthorized, ok: false, status: result.status, data: null };
+    }
+
+    const pageItems = result.data.items ?? [];
+    items.push(...pageItems);
+    if (pageItems.length === 0 || items.length >= result.data.total) break;
+  }
+
+  return { unauthorized: false, ok: true, status: 200, data: items };
+}
+
+/** Runs `run` over `items` a few at a time so a long list doesn't open a request per item at once. */
+export async function mapInBatches<T, R>(items: T[], run: (item: T) => Promise<R>) {
+  const results: R[] = [];
+  for (let index = 0; index < items.length; index += REQUEST_BATCH_SIZE) {
+    results.push(...(await Promise.all(items.slice(index, index + REQUEST_BATCH_SIZE).map(run))));
+  }
+  return results;
+}
+
+export type RetryRunResult = JsonResult<PipelineRunResponse> & {
+  error: string | null;
+};
+
+/**
+ * Starts a new run of `module` from a failed step of `runId`. Re-reads the parent so a stale page cannot retry a step
+ * that has since recovered or a run that is still going.
+ */
+export async function startRetryFromStep(
+  api: ApiClient,
+  projectId: string,
+  runId: string,
+  stepNumber: number,
+  module: "discovery" | "content"
+): Promise<RetryRunResult> {
+  const fail = (status: number, error: string): RetryRunResult => ({
+    unauthorized: false,
+    ok: false,
+    status,
+    data: null,
+    error,
+  });
+
+  const runResult = await fetchJson<PipelineRunResponse>(api, `/pipeline/${projectId}/runs/${runId}`);
+  if (runResult.unauthorized) return { ...runResult, error: null };
+  if (!runResult.ok || !runResult.data) return fail(runResult.status, "Unable to load the run to retry.");
+
+  const run = runResult.data;
+  if (!isRunInModule(run, module)) return fail(409, "This run belongs to another pipeline module.");
+  if (isRunActive(run.status)) return fail(409, "Pause the run or wait for it to stop before retrying a step.");
+  if (!findRetryableStep(run, stepNumber)) return fail(400, `Step ${stepNumber} did not fail in this run.`);
+
+  const response = await api.fetch(`/pipeline/${projectId}/start`, {
+    method: "POST",
+    json: toRetryStartRequest(run, module, stepNumber),
+  });
+
+  if (response.status === 401) {
+    return { unauthorized: true, ok: false, status: 401, data: null, error: null };
+  }
+
+  if (!response.ok) {
+    const apiMessage = await readApiErrorMessage(response);
+    return fail(
+      response.status,
+      apiMessage ??
+        (response.status === 409
+          ? `A ${module} run is already in progress for this project.`
+          : "Unable to retry this step.")
+    );
+  }
+
+  return {
+    unauthorized: false,
+    ok: true,
+    status: response.status,
+    data: (await response.json()) as PipelineRunResponse,
+    error: null,
+  };
+}
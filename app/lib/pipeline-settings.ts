@@ -0,0 +1,175 @@
+import type { components } from "~/types/api.generated";
+
+type ProjectSettings = components["schemas"]["ProjectSettings"];
+
+export type StepConfigs = Record<string, Record<string, unknown>>;
+
+export type PipelineSettingsDraft = {
+  autoContinueOnError: boolean;
+  stepConfigs: StepConfigs;
+};
+
+/**
+ * The subset of JSON Schema the step config form understands. The API does not publish schemas for step configs,
+ * so one is inferred from the stored values; anything without a `type` is edited as raw JSON.
+ */
+export type StepConfigPropertySchema =
+  | { type: "string" | "number" | "integer" | "boolean" }
+  | { type: "array"; items: { type: "string" } }
+  | { type?: undefined };
+
+export type StepConfigSchema = {
+  type: "object";
+  properties: Record<string, StepConfigPropertySchema>;
+};
+
+export type StepConfigFieldKind = "string" | "number" | "integer" | "boolean" | "string_list" | "json";
+
+export type PipelineSettingsChange = {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before: string | null;
+  after: string | null;
+};
+
+export const STEP_CONFIG_FIELD_KINDS: Array<{ value: StepConfigFieldKind; label: string }> = [
+  { value: "string", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "integer", label: "Whole number" },
+  { value: "boolean", label: "On/off" },
+  { value: "string_list", label: "List of text" },
+  { value: "json", label: "JSON" },
+];
+
+const CONFIG_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export function normalizePipelineSettings(settings: ProjectSettings | null | undefined): PipelineSettingsDraft {
+  const stepConfigs: StepConfigs = {};
+  for (const [step, config] of Object.entries(settings?.step_configs ?? {})) {
+    if (isPlainObject(config)) stepConfigs[step] = { ...config };
+  }
+  return {
+    autoContinueOnError: settings?.auto_continue_on_error === true,
+    stepConfigs,
+  };
+}
+
+export function inferPropertySchema(value: unknown): StepConfigPropertySchema {
+  if (typeof value === "string") return { type: "string" };
+  if (typeof value === "boolean") return { type: "boolean" };
+  if (typeof value === "number") return { type: "number" };
+  if (Array.isArray(value) && value.every((entry) => typeof entry === "string")) {
+    return { type: "array", items: { type: "string" } };
+  }
+  return {};
+}
+
+export function inferStepConfigSchema(config: Record<string, unknown>): StepConfigSchema {
+  const properties: Record<string, StepConfigPropertySchema> = {};
+  for (const [key, value] of Object.entries(config)) properties[key] = inferPropertySchema(value);
+  return { type: "object", properties };
+}
+
+export function getFieldKind(schema: StepConfigPropertySchema): StepConfigFieldKind {
+  if (schema.type === "array") return "string_list";
+  return schema.type ?? "json";
+}
+
+export function defaultValueForKind(kind: StepConfigFieldKind): unknown {
+  switch (kind) {
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    case "string_list":
+      return [];
+    case "json":
+      return null;
+  }
+}
+
+export function validateConfigKey(key: string, existing: Record<string, unknown>) {
+  if (!key) return "Enter a key.";
+  if (!CONFIG_KEY_PATTERN.test(key)) return "Use letters, numbers, dots, dashes and underscores.";
+  if (key in existing) return "This key already exists.";
+  return null;
+}
+
+/** Validates the raw JSON fallback: an object keyed by step, each holding an object of settings. */
+export function parseStepConfigsJson(text: string): { value: StepConfigs | null; error: string | null } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.trim() || "{}");
+  } catch (error) {
+    return { value: null, error: error instanceof Error ? error.message : "Invalid JSON." };
+  }
+  if (!isPlainObject(parsed)) {
+    return { value: null, error: "Step configs must be a JSON object keyed by step." };
+  }
+  for (const [step, config] of Object.entries(parsed)) {
+    if (!isPlainObject(config)) {
+      return { value: null, error: `The config for step "${step}" must be an object.` };
+    }
+  }
+  return { value: parsed as StepConfigs, error: null };
+}
+
+/** Reads the draft posted by the settings form; returns null when the payload is malformed. */
+export function parsePipelineSettingsDraft(raw: unknown): PipelineSettingsDraft | null {
+  if (!isPlainObject(raw) || typeof raw.autoContinueOnError !== "boolean") return null;
+  const { value } = parseStepConfigsJson(JSON.stringify(raw.stepConfigs ?? {}));
+  return value ? { autoContinueOnError: raw.autoContinueOnError, stepConfigs: value } : null;
+}
+
+/** Keeps every setting this tab does not edit, such as the webhook and skip steps. */
+export function mergePipelineSettings(current: ProjectSettings | null | undefined, draft: PipelineSettingsDraft): ProjectSettings {
+  return {
+    ...(current ?? {}),
+    step_configs: draft.stepConfigs,
+    auto_continue_on_error: draft.autoContinueOnError,
+  };
+}
+
+function formatValue(value: unknown) {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+export function diffPipelineSettings(before: PipelineSettingsDraft, after: PipelineSettingsDraft): PipelineSettingsChange[] {
+  const changes: PipelineSettingsChange[] = [];
+  const push = (path: string, previous: unknown, next: unknown) => {
+    const beforeText = formatValue(previous);
+    const afterText = formatValue(next);
+    if (beforeText === afterText) return;
+    changes.push({
+      path,
+      kind: beforeText === null ? "added" : afterText === null ? "removed" : "changed",
+      before: beforeText,
+      after: afterText,
+    });
+  };
+
+  push("auto_continue_on_error", before.autoContinueOnError, after.autoContinueOnError);
+
+  const steps = Array.from(new Set([...Object.keys(before.stepConfigs), ...Object.keys(after.stepConfigs)])).sort(
+    (a, b) => a.localeCompare(b, undefined, { numeric: true })
+  );
+  for (const step of steps) {
+    const previous = before.stepConfigs[step];
+    const next = after.stepConfigs[step];
+    if (!previous || !next) {
+      push(`step_configs.${step}`, previous, next);
+      continue;
+    }
+    const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)])).sort();
+    for (const key of keys) push(`step_configs.${step}.${key}`, previous[key], next[key]);
+  }
+
+  return changes;
+}
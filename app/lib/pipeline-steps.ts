@@ -0,0 +1,165 @@
+import { formatStepName, isRunFailed } from "~/lib/dashboard";
+import type { components } from "~/types/api.generated";
+
+type PipelineRunResponse = components["schemas"]["PipelineRunResponse"];
+type PipelineStartRequest = components["schemas"]["PipelineStartRequest"];
+
+export type PipelineStepOption = {
+  number: number;
+  name: string;
+  label: string;
+};
+
+/** A partial run: null bounds mean "from the first step" / "through the last step". */
+export type StepRangeValues = {
+  startStep: number | null;
+  endStep: number | null;
+  skipSteps: number[];
+};
+
+export type StepRangeSummary = {
+  errors: string[];
+  included: PipelineStepOption[];
+  skipped: PipelineStepOption[];
+  isPartial: boolean;
+};
+
+export const FULL_STEP_RANGE: StepRangeValues = { startStep: null, endStep: null, skipSteps: [] };
+
+/**
+ * The API has no step catalogue, so the launcher lists the steps recorded on earlier runs of the same module.
+ * Newer runs win when a step was renamed between backend releases.
+ */
+export function collectPipelineSteps(runs: PipelineRunResponse[]): PipelineStepOption[] {
+  const byNumber = new Map<number, PipelineStepOption>();
+  for (const run of runs) {
+    for (const step of run.step_executions ?? []) {
+      if (byNumber.has(step.step_number)) continue;
+      byNumber.set(step.step_number, {
+        number: step.step_number,
+        name: step.step_name,
+        label: formatStepName(step.step_name),
+      });
+    }
+  }
+  return Array.from(byNumber.values()).sort((a, b) => a.number - b.number);
+}
+
+/** The only check the server can make without the step list; the launcher validates the rest against it. */
+export function validateStepRangeOrder(values: StepRangeValues) {
+  if (values.startStep !== null && values.endStep !== null && values.startStep > values.endStep) {
+    return "The start step must come before the end step.";
+  }
+  return null;
+}
+
+export function summarizeStepRange(values: StepRangeValues, steps: PipelineStepOption[]): StepRangeSummary {
+  const errors: string[] = [];
+  const known = new Set(steps.map((step) => step.number));
+
+  if (values.startStep !== null && !known.has(values.startStep)) {
+    errors.push(`Step ${values.startStep} is not part of this pipeline.`);
+  }
+  if (values.endStep !== null && !known.has(values.endStep)) {
+    errors.push(`Step ${values.endStep} is not part of this pipeline.`);
+  }
+  const orderError = validateStepRangeOrder(values);
+  if (orderError) errors.push(orderError);
+
+  const inRange = steps.filter(
+    (step) =>
+      (values.startStep === null || step.number >= values.startStep) &&
+      (values.endStep === null || step.number <= values.endStep)
+  );
+  const skipSet = new Set(values.skipSteps);
+  const included = inRange.filter((step) => !skipSet.has(step.number));
+  const skipped = inRange.filter((step) => skipSet.has(step.number));
+
+  if (errors.length === 0 && steps.length > 0 && included.length === 0) {
+    errors.push("Every step in the range is skipped, so the run would do nothing.");
+  }
+
+  return {
+    errors,
+    included,
+    skipped,
+    isPartial: values.startStep !== null || values.endStep !== null || values.skipSteps.length > 0,
+  };
+}
+
+/** Only skips inside the chosen range are sent; the API ignores the rest and they would clutter the run record. */
+export function toStepRangeRequest(
+  values: StepRangeValues
+): Pick<PipelineStartRequest, "start_step" | "end_step" | "skip_steps"> {
+  const skipSteps = values.skipSteps.filter(
+    (step) => (values.startStep === null || step >= values.startStep) && (values.endStep === null || step <= values.endStep)
+  );
+  return {
+    start_step: values.startStep,
+    end_step: values.endStep,
+    skip_steps: skipSteps.length > 0 ? Array.from(new Set(skipSteps)).sort((a, b) => a - b) : null,
+  };
+}
+
+function readStepNumber(value: unknown) {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+/** Reads a step range posted as JSON; anything malformed falls back to a full run. */
+export function parseStepRangeValues(raw: unknown): StepRangeValues {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return FULL_STEP_RANGE;
+  const input = raw as Record<string, unknown>;
+  return {
+    startStep: readStepNumber(input.startStep),
+    endStep: readStepNumber(input.endStep),
+    skipSteps: Array.isArray(input.skipSteps)
+      ? input.skipSteps.map(readStepNumber).filter((step): step is number => step !== null)
+      : [],
+  };
+}
+
+export function formatStepRangeLabel(steps: PipelineStepOption[]) {
+  if (steps.length === 0) return "No steps";
+  return steps.map((step) => `${step.number}. ${step.label}`).join(", ");
+}
+
+export function findRetryableStep(run: PipelineRunResponse, stepNumber: number) {
+  return (run.step_executions ?? []).find((step) => step.step_number === stepNumber && isRunFailed(step.status)) ?? null;
+}
+
+/**
+ * Restarts at the failed step and keeps the parent's end step and the skips that still fall inside the range. Runs
+ * don't report the strategy or module settings they started with, so the retry runs with the API defaults.
+ */
+export function toRetryStartRequest(
+  run: PipelineRunResponse,
+  mode: "discovery" | "content",
+  stepNumber: number
+): PipelineStartRequest {
+  const endStep = run.end_step !== null && run.end_step >= stepNumber ? run.end_step : null;
+  return {
+    mode,
+    ...toStepRangeRequest({ startStep: stepNumber, endStep, skipSteps: run.skip_steps ?? [] }),
+  };
+}
+
+export type RetryOrigin = {
+  runId: string;
+  stepNumber: number;
+};
+
+/**
+ * The start request can't set a retry's parent run yet, so the retry's page carries its origin in the query string to
+ * link back to it while the API reports no `parent_run_id`.
+ */
+export function buildRetryOriginSearch(origin: RetryOrigin) {
+  const params = new URLSearchParams({ retried_from: origin.runId, retried_step: String(origin.stepNumber) });
+  return `?${params.toString()}`;
+}
+
+export function parseRetryOrigin(searchParams: URLSearchParams): RetryOrigin | null {
+  const runId = String(searchParams.get("retried_from") ?? "").trim();
+  const stepNumber = Number.parseInt(String(searchParams.get("retried_step") ?? ""), 10);
+  if (!runId || !Number.isInteger(stepNumber) || stepNumber < 1) return null;
+  return { runId, stepNumber };
+}
@@ -0,0 +1,140 @@
+import { isRunTerminal } from "~/lib/dashboard";
+import type { components } from "~/types/api.generated";
+
+type PipelineProgressResponse = components["schemas"]["PipelineProgressResponse"];
+
+export type RunProgressEventName = "progress" | "end" | "fallback";
+
+export type RunProgressSubscriber = {
+  /** Upstream calls reuse the subscriber's access token but never refresh it: a rotated refresh token could not be
+   * written back to the browser mid-stream. Once it expires the subscriber is told to fall back to polling. */
+  accessToken: string | null;
+  send: (event: RunProgressEventName, payload: string) => void;
+  heartbeat: () => void;
+  close: () => void;
+};
+
+type Channel = {
+  url: string;
+  subscribers: Set<RunProgressSubscriber>;
+  timer: ReturnType<typeof setInterval>;
+  lastPayload: string | null;
+  inFlight: boolean;
+  failures: number;
+  idleTicks: number;
+};
+
+const POLL_INTERVAL_MS = 3000;
+// Proxies drop quiet connections, so send a comment line roughly every 15 seconds without changes.
+const HEARTBEAT_EVERY_TICKS = 5;
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+// One channel per upstream progress URL, shared by every open tab in this server process.
+const channels = new Map<string, Channel>();
+
+export function formatServerSentEvent(event: RunProgressEventName, payload: string) {
+  return `event: ${event}\ndata: ${payload}\n\n`;
+}
+
+function closeChannel(channel: Channel) {
+  clearInterval(channel.timer);
+  if (channels.get(channel.url) === channel) channels.delete(channel.url);
+}
+
+function removeSubscriber(channel: Channel, subscriber: RunProgressSubscriber) {
+  if (!channel.subscribers.delete(subscriber)) return;
+  subscriber.close();
+  if (channel.subscribers.size === 0) closeChannel(channel);
+}
+
+function endChannel(channel: Channel, event: RunProgressEventName, payload: string) {
+  for (const subscriber of channel.subscribers) {
+    subscriber.send(event, payload);
+    subscriber.close();
+  }
+  channel.subscribers.clear();
+  closeChannel(channel);
+}
+
+function recordFailure(channel: Channel) {
+  channel.failures += 1;
+  if (channel.failures >= MAX_CONSECUTIVE_FAILURES) {
+    endChannel(channel, "fallback", JSON.stringify({ reason: "upstream_unavailable" }));
+  }
+}
+
+function publish(channel: Channel, progress: PipelineProgressResponse) {
+  const payload = JSON.stringify(progress);
+  if (payload !== channel.lastPayload) {
+    channel.lastPayload = payload;
+    channel.idleTicks = 0;
+    for (const subscriber of channel.subscribers) subscriber.send("progress", payload);
+  } else {
+    channel.idleTicks += 1;
+    if (channel.idleTicks % HEARTBEAT_EVERY_TICKS === 0) {
+      for (const subscriber of channel.subscribers) subscriber.heartbeat();
+    }
+  }
+
+  if (isRunTerminal(progress.status)) {
+    endChannel(channel, "end", JSON.stringify({ status: progress.status }));
+  }
+}
+
+async function poll(channel: Channel) {
+  if (channel.inFlight) return;
+  channel.inFlight = true;
+
+  try {
+    // Try subscribers' tokens in turn so one expired session does not stall everyone else on the channel.
+    for (const subscriber of Array.from(channel.subscribers)) {
+      const headers = new Headers();
+      if (subscriber.accessToken) headers.set("Authorization", `Bearer ${subscriber.accessToken}`);
+
+      const response = await fetch(channel.url, { headers });
+      if (response.status === 401 || response.status === 403) {
+        subscriber.send("fallback", JSON.stringify({ reason: "reauthenticate" }));
+        removeSubscriber(channel, subscriber);
+        continue;
+      }
+      if (!response.ok) {
+        recordFailure(channel);
+        return;
+      }
+
+      channel.failures = 0;
+      publish(channel, (await response.json()) as PipelineProgressResponse);
+      return;
+    }
+  } catch {
+    recordFailure(channel);
+  } finally {
+    channel.inFlight = false;
+  }
+}
+
+/**
+ * Adds a subscriber to the shared poller for `url`, starting it when this is the first one. The caller has already
+ * fetched `initial` with the subscriber's own session, which both authorizes the subscription and seeds the stream.
+ * Returns an unsubscribe function for when the client disconnects.
+ */
+export function subscribeToRunProgress(url: string, subscriber: RunProgressSubscriber, initial: PipelineProgressResponse) {
+  let channel = channels.get(url);
+  if (!channel) {
+    const created: Channel = {
+      url,
+      subscribers: new Set(),
+      timer: setInterval(() => void poll(created), POLL_INTERVAL_MS),
+      lastPayload: JSON.stringify(initial),
+      inFlight: false,
+      failures: 0,
+      idleTicks: 0,
+    };
+    channels.set(url, created);
+    channel = created;
+  }
+
+  const joined = channel;
+  joined.subscribers.add(subscriber);
+  return () => removeSubscriber(joined, subscriber);
+}
@@ -0,0 +1,251 @@
+import { deflateRawSync } from "zlib";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportCellValue = string | number | null | undefined;
+
+export type ExportColumn<T> = {
+  header: string;
+  value: (row: T) => ExportCellValue;
+};
+
+export function parseExportFormat(value: string | null): ExportFormat {
+  return value === "xlsx" ? "xlsx" : "csv";
+}
+
+// Spreadsheet apps evaluate text cells starting with these characters as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toSafeText(value: string) {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function escapeCsvField(value: ExportCellValue) {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "number" ? String(value) : toSafeText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildCsv<T>(columns: ExportColumn<T>[], rows: T[]) {
+  const lines = [columns.map((column) => escapeCsvField(column.header)).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvField(column.value(row))).join(","));
+  }
+  // Leading BOM so Excel opens UTF-8 keywords without mangling accents.
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(index: number) {
+  let name = "";
+  for (let current = index + 1; current > 0; current = Math.floor((current - 1) / 26)) {
+    name = String.fromCharCode(65 + ((current - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function buildXlsxCell(reference: string, value: ExportCellValue, styleId = 0) {
+  const style = styleId ? ` s="${styleId}"` : "";
+  if (value === null || value === undefined || value === "") return `<c r="${reference}"${style}/>`;
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${reference}"${style}><v>${value}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function buildWorksheetXml<T>(columns: ExportColumn<T>[], rows: T[]) {
+  const headerCells = columns.map((column, index) => buildXlsxCell(`${columnName(index)}1`, column.header, 1));
+  const bodyRows = rows.map((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = columns.map((column, index) => buildXlsxCell(`${columnName(index)}${rowNumber}`, column.value(row)));
+    return `<row r="${rowNumber}">${cells.join("")}</row>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<sheetData><row r="1">${headerCells.join("")}</row>${bodyRows.join("")}</sheetData>`,
+    "</worksheet>",
+  ].join("");
+}
+
+const CONTENT_TYPES_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+  '<Default Extension="xml" ContentType="application/xml"/>',
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>',
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+  "</Types>",
+].join("");
+
+const ROOT_RELS_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+  "</Relationships>",
+].join("");
+
+const WORKBOOK_RELS_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>',
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+  "</Relationships>",
+].join("");
+
+// Style 1 is the bold header row; everything else uses the default style 0.
+const STYLES_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>',
+  "</styleSheet>",
+].join("");
+
+function buildWorkbookXml(sheetName: string) {
+  // Excel rejects sheet names over 31 characters or containing []:*?/\
+  const safeName = sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet1";
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    `<sheets><sheet name="${escapeXml(safeName)}" sheetId="1" r:id="rId1"/></sheets>`,
+    "</workbook>",
+  ].join("");
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Minimal ZIP writer (deflate, no ZIP64) — enough for an XLSX package well under 4 GB. */
+function buildZip(entries: Array<{ name: string; content: string }>) {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const raw = Buffer.from(entry.content, "utf8");
+    const compressed = deflateRawSync(raw);
+    const checksum = crc32(raw);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(20, 4);
+    localHeader.writeUInt16LE(0x0800, 6);
+    localHeader.writeUInt16LE(8, 8);
+    localHeader.writeUInt32LE(checksum, 14);
+    localHeader.writeUInt32LE(compressed.length, 18);
+    localHeader.writeUInt32LE(raw.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(20, 4);
+    centralHeader.writeUInt16LE(20, 6);
+    centralHeader.writeUInt16LE(0x0800, 8);
+    centralHeader.writeUInt16LE(8, 10);
+    centralHeader.writeUInt32LE(checksum, 16);
+    centralHeader.writeUInt32LE(compressed.length, 20);
+    centralHeader.writeUInt32LE(raw.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42);
+
+    localParts.push(localHeader, name, compressed);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+export function buildXlsx<T>(sheetName: string, columns: ExportColumn<T>[], rows: T[]) {
+  return buildZip([
+    { name: "[Content_Types].xml", content: CONTENT_TYPES_XML },
+    { name: "_rels/.rels", content: ROOT_RELS_XML },
+    { name: "xl/workbook.xml", content: buildWorkbookXml(sheetName) },
+    { name: "xl/_rels/workbook.xml.rels", content: WORKBOOK_RELS_XML },
+    { name: "xl/styles.xml", content: STYLES_XML },
+    { name: "xl/worksheets/sheet1.xml", content: buildWorksheetXml(columns, rows) },
+  ]);
+}
+
+export function spreadsheetResponse<T>({
+  format,
+  filename,
+  sheetName,
+  columns,
+  rows,
+  headers: extraHeaders,
+}: {
+  format: ExportFormat;
+  /** File name without extension. */
+  filename: string;
+  sheetName: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+  /** Usually the session cookie from `api.commit()`, so tokens refreshed during a long export are kept. */
+  headers?: Record<string, string>;
+}) {
+  const headers = {
+    ...extraHeaders,
+    "Content-Disposition": `attachment; filename="${filename.replace(/[^\w.-]+/g, "-")}.${format}"`,
+    "Cache-Control": "private, no-store",
+  };
+
+  if (format === "xlsx") {
+    return new Response(new Uint8Array(buildXlsx(sheetName, columns, rows)), {
+      headers: {
+        ...headers,
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      },
+    });
+  }
+
+  return new Response(buildCsv(columns, rows), {
+    headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+  });
+}
+
+/** YYYY-MM-DD stamp for export file names. */
+export function exportDateStamp(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,167 @@
+import type { components } from "~/types/api.generated";
+
+type KeywordResponse = components["schemas"]["KeywordResponse"];
+type TopicDetailResponse = components["schemas"]["TopicDetailResponse"];
+
+export type CannibalizationRiskLevel = "high" | "medium" | "low" | "unknown";
+
+export type SharedKeywordMatch = {
+  keyword: KeywordResponse;
+  counterpart: KeywordResponse;
+  /** Share of words the two keywords have in common; 1 means the same words, possibly reordered. */
+  similarity: number;
+};
+
+export type TopicOverlapPair = {
+  key: string;
+  topic: TopicDetailResponse;
+  counterpart: TopicDetailResponse;
+  /** The higher of the two topics' reported risks, normalized to 0-1. */
+  risk: number | null;
+  sharedKeywords: SharedKeywordMatch[];
+};
+
+export type TopicOverlapGroup = {
+  key: string;
+  topics: TopicDetailResponse[];
+  pairs: TopicOverlapPair[];
+  risk: number | null;
+};
+
+/** Keywords need at least this share of words in common to count as competing for the same query. */
+export const SHARED_KEYWORD_SIMILARITY = 0.6;
+
+/** Reported risks may be 0-1 or 0-100 depending on the scoring step that wrote them. */
+export function normalizeCannibalizationRisk(risk: number | null | undefined) {
+  if (risk === null || risk === undefined || !Number.isFinite(risk)) return null;
+  return Math.min(1, Math.max(0, risk > 1 ? risk / 100 : risk));
+}
+
+export function readCannibalizationRiskLevel(risk: number | null): CannibalizationRiskLevel {
+  if (risk === null) return "unknown";
+  if (risk >= 0.7) return "high";
+  if (risk >= 0.4) return "medium";
+  return "low";
+}
+
+function tokenize(keyword: KeywordResponse) {
+  const text = keyword.keyword_normalized || keyword.keyword;
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+function measureSimilarity(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared += 1;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * A keyword belongs to one topic, so "shared" keywords are near-duplicates across the two topics: each keyword in
+ * `keywords` is paired with its most similar counterpart, if that clears `SHARED_KEYWORD_SIMILARITY`.
+ */
+export function matchSharedKeywords(
+  keywords: KeywordResponse[],
+  counterparts: KeywordResponse[]
+): SharedKeywordMatch[] {
+  const counterpartTokens = counterparts.map((keyword) => ({ keyword, tokens: tokenize(keyword) }));
+  const matches: SharedKeywordMatch[] = [];
+
+  for (const keyword of keywords) {
+    const tokens = tokenize(keyword);
+    let best: SharedKeywordMatch | null = null;
+    for (const candidate of counterpartTokens) {
+      const similarity = measureSimilarity(tokens, candidate.tokens);
+      if (similarity >= SHARED_KEYWORD_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { keyword, counterpart: candidate.keyword, similarity };
+      }
+    }
+    if (best) matches.push(best);
+  }
+
+  return matches.sort(
+    (a, b) =>
+      b.similarity - a.similarity ||
+      (b.keyword.search_volume ?? 0) - (a.keyword.search_volume ?? 0) ||
+      a.keyword.keyword.localeCompare(b.keyword.keyword)
+  );
+}
+
+function pairKey(a: string, b: string) {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Builds one pair per overlap the API reports. Overlaps are listed on either or both sides, so pairs are keyed by
+ * both ids. Overlaps pointing at topics outside `topics` are dropped.
+ */
+export function buildTopicOverlapPairs(
+  topics: TopicDetailResponse[],
+  keywordsByTopic: ReadonlyMap<string, KeywordResponse[]>
+): TopicOverlapPair[] {
+  const topicById = new Map(topics.map((topic) => [topic.id, topic]));
+  const pairs = new Map<string, TopicOverlapPair>();
+
+  for (const topic of topics) {
+    for (const overlappingId of topic.overlapping_topic_ids ?? []) {
+      const counterpart = topicById.get(overlappingId);
+      const key = pairKey(topic.id, overlappingId);
+      if (!counterpart || counterpart.id === topic.id || pairs.has(key)) continue;
+
+      // Keep the stronger topic first so "exclude from" and merge naming default to the weaker side.
+      const [first, second] =
+        (topic.total_volume ?? 0) >= (counterpart.total_volume ?? 0) ? [topic, counterpart] : [counterpart, topic];
+      const risks = [first.cannibalization_risk, second.cannibalization_risk]
+        .map(normalizeCannibalizationRisk)
+        .filter((risk): risk is number => risk !== null);
+
+      pairs.set(key, {
+        key,
+        topic: first,
+        counterpart: second,
+        risk: risks.length > 0 ? Math.max(...risks) : null,
+        sharedKeywords: matchSharedKeywords(keywordsByTopic.get(first.id) ?? [], keywordsByTopic.get(second.id) ?? []),
+      });
+    }
+  }
+
+  return Array.from(pairs.values()).sort(
+    (a, b) => (b.risk ?? -1) - (a.risk ?? -1) || b.sharedKeywords.length - a.sharedKeywords.length
+  );
+}
+
+/** Groups pairs into connected sets of topics, so a cluster of three mutually overlapping topics reads as one problem. */
+export function groupTopicOverlaps(pairs: TopicOverlapPair[]): TopicOverlapGroup[] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const current = parent.get(id) ?? id;
+    if (current === id) return id;
+    const root = find(current);
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const pair of pairs) {
+    const a = find(pair.topic.id);
+    const b = find(pair.counterpart.id);
+    if (a !== b) parent.set(b, a);
+  }
+
+  const groups = new Map<string, TopicOverlapGroup>();
+  for (const pair of pairs) {
+    const root = find(pair.topic.id);
+    const group = groups.get(root) ?? { key: root, topics: [], pairs: [], risk: null };
+    for (const topic of [pair.topic, pair.counterpart]) {
+      if (!group.topics.some((existing) => existing.id === topic.id)) group.topics.push(topic);
+    }
+    group.pairs.push(pair);
+    if (pair.risk !== null) group.risk = Math.max(group.risk ?? 0, pair.risk);
+    groups.set(root, group);
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) => (b.risk ?? -1) - (a.risk ?? -1) || b.topics.length - a.topics.length
+  );
+}
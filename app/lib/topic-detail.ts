@@ -0,0 +1,112 @@
+import type { components } from "~/types/api.generated";
+
+type KeywordResponse = components["schemas"]["KeywordResponse"];
+type TopicDetailResponse = components["schemas"]["TopicDetailResponse"];
+
+type NumericTopicField = {
+  [Key in keyof TopicDetailResponse]: TopicDetailResponse[Key] extends number | null ? Key : never;
+}[keyof TopicDetailResponse];
+
+export type TopicScoreRow = {
+  key: NumericTopicField;
+  label: string;
+  description: string;
+  value: number;
+  /** Position on a 0-100 bar; scores are stored either as 0-1 fractions or 0-100 values. */
+  percent: number;
+};
+
+export type TopicAdjustmentRow = {
+  key: NumericTopicField;
+  label: string;
+  value: number;
+};
+
+const SUPPORTING_KEYWORD_SUGGESTIONS = 8;
+
+const TOPIC_SCORES: { key: NumericTopicField; label: string; description: string }[] = [
+  { key: "final_priority_score", label: "Final priority", description: "Used for ranking, after every adjustment." },
+  {
+    key: "deterministic_priority_score",
+    label: "Deterministic priority",
+    description: "Rule-based score before the LLM re-rank.",
+  },
+  { key: "priority_score", label: "Priority", description: "Demand and difficulty weighted against fit." },
+  { key: "fit_score", label: "Fit", description: "Match with the project's offering and audience." },
+  { key: "brand_fit_score", label: "Brand fit", description: "Match with the brand's voice and positioning." },
+  { key: "opportunity_score", label: "Opportunity", description: "Traffic potential against ranking difficulty." },
+  { key: "dynamic_fit_score", label: "Dynamic fit", description: "Fit relative to the other topics in this run." },
+  {
+    key: "dynamic_opportunity_score",
+    label: "Dynamic opportunity",
+    description: "Opportunity relative to the other topics in this run.",
+  },
+  { key: "cluster_coherence", label: "Cluster coherence", description: "How closely the member keywords belong together." },
+  {
+    key: "serp_servedness_score",
+    label: "SERP servedness",
+    description: "How well current results already answer the query. Lower leaves more room.",
+  },
+  {
+    key: "serp_competitor_density",
+    label: "Competitor density",
+    description: "Share of results held by direct competitors.",
+  },
+  {
+    key: "demand_fragmentation_index",
+    label: "Demand fragmentation",
+    description: "How thinly search demand is spread across the member keywords.",
+  },
+  {
+    key: "serp_intent_confidence",
+    label: "SERP intent confidence",
+    description: "Confidence that live results match the predicted intent.",
+  },
+];
+
+const TOPIC_ADJUSTMENTS: { key: NumericTopicField; label: string }[] = [
+  { key: "llm_rerank_delta", label: "LLM re-rank change" },
+  { key: "llm_fit_adjustment", label: "LLM fit adjustment" },
+];
+
+function toPercent(value: number) {
+  return Math.min(100, Math.max(0, Math.abs(value) <= 1 ? value * 100 : value));
+}
+
+/** Scores the topic actually has, in the order the prioritization step applies them. */
+export function listTopicScores(topic: TopicDetailResponse): TopicScoreRow[] {
+  return TOPIC_SCORES.flatMap(({ key, label, description }) => {
+    const value = topic[key];
+    return typeof value === "number" ? [{ key, label, description, value, percent: toPercent(value) }] : [];
+  });
+}
+
+export function listTopicAdjustments(topic: TopicDetailResponse): TopicAdjustmentRow[] {
+  return TOPIC_ADJUSTMENTS.flatMap(({ key, label }) => {
+    const value = topic[key];
+    return typeof value === "number" && value !== 0 ? [{ key, label, value }] : [];
+  });
+}
+
+/** The topic's highest-volume member keywords besides the primary one, offered as a brief's supporting keywords. */
+export function suggestSupportingKeywords(
+  keywords: KeywordResponse[],
+  primaryKeyword: string,
+  limit = SUPPORTING_KEYWORD_SUGGESTIONS
+) {
+  const primary = primaryKeyword.trim().toLowerCase();
+  const seen = new Set([primary]);
+  return keywords
+    .filter((keyword) => keyword.status !== "excluded")
+    .sort(
+      (a, b) =>
+        (b.search_volume ?? -1) - (a.search_volume ?? -1) || (b.priority_score ?? -1) - (a.priority_score ?? -1)
+    )
+    .flatMap((keyword) => {
+      const key = keyword.keyword.trim().toLowerCase();
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [keyword.keyword];
+    })
+    .slice(0, limit);
+}
@@ -0,0 +1,12 @@
+export type TopicEligibility = "all" | "primary" | "secondary" | "excluded";
+
+export const TOPIC_ELIGIBILITY_OPTIONS: { value: TopicEligibility; label: string }[] = [
+  { value: "all", label: "All topics" },
+  { value: "primary", label: "Primary topics" },
+  { value: "secondary", label: "Secondary topics" },
+  { value: "excluded", label: "Excluded topics" },
+];
+
+export function parseTopicEligibility(value: string | null): TopicEligibility {
+  return TOPIC_ELIGIBILITY_OPTIONS.find((option) => option.value === value)?.value ?? "all";
+}
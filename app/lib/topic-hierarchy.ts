@@ -0,0 +1,80 @@
+import type { components } from "~/types/api.generated";
+
+type TopicHierarchyResponse = components["schemas"]["TopicHierarchyResponse"];
+
+export function rollupKeywordCount(node: TopicHierarchyResponse): number {
+  return node.children.reduce((acc, child) => acc + rollupKeywordCount(child), node.keyword_count);
+}
+
+export function findTopicNode(nodes: TopicHierarchyResponse[], topicId: string): TopicHierarchyResponse | null {
+  for (const node of nodes) {
+    if (node.id === topicId) return node;
+    const match = findTopicNode(node.children, topicId);
+    if (match) return match;
+  }
+  return null;
+}
+
+export function findTopicParentId(
+  nodes: TopicHierarchyResponse[],
+  topicId: string,
+  parentId: string | null = null
+): string | null | undefined {
+  for (const node of nodes) {
+    if (node.id === topicId) return parentId;
+    const match = findTopicParentId(node.children, topicId, node.id);
+    if (match !== undefined) return match;
+  }
+  return undefined;
+}
+
+export function collectDescendantIds(node: TopicHierarchyResponse): Set<string> {
+  const ids = new Set<string>();
+  const visit = (current: TopicHierarchyResponse) => {
+    for (const child of current.children) {
+      ids.add(child.id);
+      visit(child);
+    }
+  };
+  visit(node);
+  return ids;
+}
+
+export function canMoveTopic(nodes: TopicHierarchyResponse[], topicId: string, newParentId: string | null) {
+  if (topicId === newParentId) return false;
+  const node = findTopicNode(nodes, topicId);
+  if (!node) return false;
+  if (findTopicParentId(nodes, topicId) === newParentId) return false;
+  return newParentId === null || !collectDescendantIds(node).has(newParentId);
+}
+
+function removeTopicNode(nodes: TopicHierarchyResponse[], topicId: string): TopicHierarchyResponse[] {
+  return nodes
+    .filter((node) => node.id !== topicId)
+    .map((node) => ({ ...node, children: removeTopicNode(node.children, topicId) }));
+}
+
+function insertTopicNode(
+  nodes: TopicHierarchyResponse[],
+  parentId: string,
+  moved: TopicHierarchyResponse
+): TopicHierarchyResponse[] {
+  return nodes.map((node) =>
+    node.id === parentId
+      ? { ...node, children: [...node.children, moved] }
+      : { ...node, children: insertTopicNode(node.children, parentId, moved) }
+  );
+}
+
+export function moveTopicInHierarchy(
+  nodes: TopicHierarchyResponse[],
+  topicId: string,
+  newParentId: string | null
+): TopicHierarchyResponse[] {
+  const moved = findTopicNode(nodes, topicId);
+  if (!moved || !canMoveTopic(nodes, topicId, newParentId)) return nodes;
+
+  const withoutMoved = removeTopicNode(nodes, topicId);
+  if (newParentId === null) return [...withoutMoved, moved];
+  return insertTopicNode(withoutMoved, newParentId, moved);
+}
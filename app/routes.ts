@@ -27,16 +27,36 @@ export default [
       "projects/:projectId/keyword-detail/:keywordId",
       "routes/_dashboard.projects.$projectId.keyword-detail.$keywordId.tsx"
     ),
+    route(
+      "projects/:projectId/keyword-graph",
+      "routes/_dashboard.projects.$projectId.keyword-graph.tsx"
+    ),
     route("projects/:projectId/discovery", "routes/_dashboard.projects.$projectId.discovery.tsx"),
     route("projects/:projectId/calendar", "routes/_dashboard.projects.$projectId.calendar.tsx"),
     route(
       "projects/:projectId/discovery/keywords",
       "routes/_dashboard.projects.$projectId.discovery.keywords.tsx"
     ),
+    route(
+      "projects/:projectId/discovery/keywords/import",
+      "routes/_dashboard.projects.$projectId.discovery.keywords.import.tsx"
+    ),
     route(
       "projects/:projectId/discovery/topics",
       "routes/_dashboard.projects.$projectId.discovery.topics.tsx"
     ),
+    route(
+      "projects/:projectId/discovery/topics/:topicId",
+      "routes/_dashboard.projects.$projectId.discovery.topics.$topicId.tsx"
+    ),
+    route(
+      "projects/:projectId/discovery/cannibalization",
+      "routes/_dashboard.projects.$projectId.discovery.cannibalization.tsx"
+    ),
+    route(
+      "projects/:projectId/discovery/compare",
+      "routes/_dashboard.projects.$projectId.discovery.compare.tsx"
+    ),
     route(
       "projects/:projectId/discovery/runs/:runId",
       "routes/_dashboard.projects.$projectId.discovery.runs.$runId.tsx"
@@ -46,6 +66,10 @@ export default [
       "routes/_dashboard.projects.$projectId.discovery.runs.$runId.steps.$stepNumber.tsx"
     ),
     route("projects/:projectId/creation", "routes/_dashboard.projects.$projectId.creation.tsx"),
+    route(
+      "projects/:projectId/creation/briefs/new",
+      "routes/_dashboard.projects.$projectId.creation.briefs.new.tsx"
+    ),
     route(
       "projects/:projectId/creation/runs/:runId",
       "routes/_dashboard.projects.$projectId.creation.runs.$runId.tsx"
@@ -58,4 +82,9 @@ export default [
     route("projects", "routes/_dashboard.projects._index.tsx"),
   ]),
   route("logout", "routes/_auth.logout.tsx"),
+  route("projects/:projectId/calendar.ics", "routes/projects.$projectId.calendar.ics.ts"),
+  route("projects/:projectId/progress/:runId/stream", "routes/projects.$projectId.progress.$runId.stream.ts"),
+  route("projects/:projectId/exports/keywords", "routes/projects.$projectId.exports.keywords.ts"),
+  route("projects/:projectId/exports/topics", "routes/projects.$projectId.exports.topics.ts"),
+  route("projects/:projectId/exports/briefs", "routes/projects.$projectId.exports.briefs.ts"),
 ] satisfies RouteConfig;
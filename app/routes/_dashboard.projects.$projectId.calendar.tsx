@@ -1,6 +1,6 @@
-import { useEffect, useMemo, useState } from "react";
-import { Link, data, redirect, useLoaderData } from "react-router";
-import { CalendarDays, ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+import { useEffect, useMemo, useState, type DragEvent } from "react";
+import { Link, data, redirect, useFetcher, useLoaderData, useNavigate } from "react-router";
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
 import type { Route } from "./+types/_dashboard.projects.$projectId.calendar";
 import { Badge } from "~/components/ui/badge";
 import { Button, buttonVariants } from "~/components/ui/button";
@@ -9,6 +9,23 @@ import { Drawer } from "~/components/ui/drawer";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
 import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
+import { isCalendarFeedEnabled, signCalendarFeedToken } from "~/lib/calendar-feed-token.server";
+import {
+  AGENDA_DAY_OPTIONS,
+  CALENDAR_VIEWS,
+  anchorForView,
+  buildCalendarSearch,
+  buildMonthCells,
+  buildWeekCells,
+  formatPeriodLabel,
+  monthKeyToStartDate,
+  parseDateKey,
+  resolveCalendarPeriod,
+  todayDateKey,
+  type CalendarPeriod,
+  type CalendarView,
+} from "~/lib/calendar-period";
+import { findPublicationDateWarnings } from "~/lib/content-schedule";
 import { formatDateTime } from "~/lib/dashboard";
 import { pickLatestRunForModule, sortPipelineRunsNewest } from "~/lib/pipeline-module";
 import { fetchJson } from "~/lib/pipeline-run.server";
@@ -17,6 +34,7 @@ import type { components } from "~/types/api.generated";
 
 type ProjectResponse = components["schemas"]["ProjectResponse"];
 type PipelineRunResponse = components["schemas"]["PipelineRunResponse"];
+type ContentBriefUpdate = components["schemas"]["ContentBriefUpdate"];
 
 type CalendarState =
   | "brief_ready"
@@ -50,27 +68,32 @@ type ContentCalendarResponse = {
 
 type LoaderData = {
   project: ProjectResponse;
-  monthKey: string;
-  monthLabel: string;
-  monthStart: string;
-  monthEnd: string;
+  period: CalendarPeriod;
+  periodLabel: string;
+  stateFilter: CalendarState[];
   items: ContentCalendarItem[];
   latestContentRunId: string | null;
+  feedEnabled: boolean;
 };
 
-type StateCounts = Record<CalendarState, number>;
+type ActionData = {
+  error?: string;
+  rescheduled?: { briefId: string; date: string };
+  feedLink?: { url: string; tokenId: string; expiresAt: number; replacedTokenId: string | null };
+};
 
-type CalendarCell = {
-  date: Date;
-  dateKey: string;
-  dayOfMonth: number;
-  isCurrentMonth: boolean;
-  isToday: boolean;
+type PendingReschedule = {
+  briefId: string;
+  primaryKeyword: string;
+  fromDate: string;
+  toDate: string;
+  warnings: string[];
 };
 
-const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
-const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+type StateCounts = Record<CalendarState, number>;
+
 const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MAX_CELL_CHIPS = 3;
 const CALENDAR_STATE_ORDER: CalendarState[] = [
   "published",
   "publish_pending",
@@ -115,57 +138,9 @@ const CALENDAR_STATE_META: Record<
   },
 };
 
-function createUtcDate(year: number, monthIndex: number, day: number) {
-  return new Date(Date.UTC(year, monthIndex, day));
-}
-
-function pad(value: number) {
-  return String(value).padStart(2, "0");
-}
-
-function toDateKey(date: Date) {
-  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
-}
-
-function parseMonthKey(input: string | null) {
-  if (!input) return null;
-  const match = input.match(MONTH_PATTERN);
-  if (!match) return null;
-
-  return {
-    year: Number.parseInt(match[1], 10),
-    month: Number.parseInt(match[2], 10),
-  };
-}
-
-function currentMonthKey() {
-  const now = new Date();
-  return `${now.getUTCFullYear()}-${pad(now.getUTCMonth() + 1)}`;
-}
-
-function monthKeyToStartDate(monthKey: string) {
-  const parsed = parseMonthKey(monthKey);
-  if (!parsed) {
-    const fallback = parseMonthKey(currentMonthKey())!;
-    return createUtcDate(fallback.year, fallback.month - 1, 1);
-  }
-  return createUtcDate(parsed.year, parsed.month - 1, 1);
-}
-
-function shiftMonthKey(monthKey: string, delta: number) {
-  const start = monthKeyToStartDate(monthKey);
-  const shifted = createUtcDate(start.getUTCFullYear(), start.getUTCMonth() + delta, 1);
-  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}`;
-}
-
-function parseDateKey(dateKey: string) {
-  const match = dateKey.match(DATE_PATTERN);
-  if (!match) return null;
-  return createUtcDate(
-    Number.parseInt(match[1], 10),
-    Number.parseInt(match[2], 10) - 1,
-    Number.parseInt(match[3], 10),
-  );
+function parseStateFilter(value: string | null): CalendarState[] {
+  const requested = new Set((value ?? "").split(",").map((entry) => entry.trim()));
+  return CALENDAR_STATE_ORDER.filter((state) => requested.has(state));
 }
 
 function createEmptyStateCounts(): StateCounts {
@@ -182,33 +157,80 @@ function totalFromCounts(counts: StateCounts) {
   return CALENDAR_STATE_ORDER.reduce((acc, state) => acc + counts[state], 0);
 }
 
-function addDays(date: Date, days: number) {
-  return createUtcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+function formatAgendaDate(dateKey: string) {
+  const date = parseDateKey(dateKey);
+  if (!date) return dateKey;
+  return new Intl.DateTimeFormat(undefined, {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(date);
 }
 
-function buildMonthCells(monthStart: Date): CalendarCell[] {
-  const monthEnd = createUtcDate(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 0);
-  const startWeekday = monthStart.getUTCDay();
-  const endWeekday = monthEnd.getUTCDay();
-  const gridStart = addDays(monthStart, -startWeekday);
-  const gridEnd = addDays(monthEnd, 6 - endWeekday);
-  const todayKey = toDateKey(new Date());
-
-  const cells: CalendarCell[] = [];
-  for (
-    let cursor = gridStart;
-    cursor.getTime() <= gridEnd.getTime();
-    cursor = addDays(cursor, 1)
-  ) {
-    cells.push({
-      date: cursor,
-      dateKey: toDateKey(cursor),
-      dayOfMonth: cursor.getUTCDate(),
-      isCurrentMonth: cursor.getUTCMonth() === monthStart.getUTCMonth(),
-      isToday: toDateKey(cursor) === todayKey,
-    });
-  }
-  return cells;
+function CalendarItemCard({
+  item,
+  briefHref,
+  draggable = false,
+  isDragging = false,
+  onDragStart,
+  onDragEnd,
+}: {
+  item: ContentCalendarItem;
+  briefHref: string | null;
+  draggable?: boolean;
+  isDragging?: boolean;
+  onDragStart?: (event: DragEvent<HTMLDivElement>) => void;
+  onDragEnd?: () => void;
+}) {
+  const stateMeta = CALENDAR_STATE_META[item.calendar_state];
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      className={cn(
+        "space-y-2 rounded-xl border border-slate-200 bg-white p-2.5 text-xs",
+        draggable && "cursor-grab",
+        isDragging && "opacity-50",
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-semibold text-slate-900">{item.primary_keyword}</p>
+          <p className="truncate text-slate-500">{item.article_title ?? item.working_title ?? "Working title pending"}</p>
+        </div>
+        <span className={cn("inline-flex shrink-0 rounded-full border px-2 py-0.5 text-[10px] font-semibold", stateMeta.badgeClass)}>
+          {stateMeta.label}
+        </span>
+      </div>
+      <p className="text-slate-600">
+        {item.article_status ? `Article ${item.article_status}` : "No article yet"}
+        {item.article_current_version !== null ? ` · v${item.article_current_version}` : ""}
+        {item.publish_status ? ` · ${item.publish_status}` : ""}
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        {briefHref ? (
+          <Link to={briefHref} className="font-semibold text-[#4f5f9d] underline">
+            Open brief
+          </Link>
+        ) : null}
+        {item.published_url ? (
+          <a
+            href={item.published_url}
+            target="_blank"
+            rel="noreferrer"
+            className="inline-flex items-center gap-1 font-semibold text-[#4f5f9d] underline"
+          >
+            Published page
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        ) : null}
+      </div>
+    </div>
+  );
 }
 
 async function handleUnauthorized(api: ApiClient) {
@@ -227,14 +249,8 @@ export async function loader({ request, params }: Route.LoaderArgs) {
 
   const api = new ApiClient(request);
   const url = new URL(request.url);
-  const parsedMonth = parseMonthKey(url.searchParams.get("month"));
-  const effectiveMonthKey = parsedMonth
-    ? `${parsedMonth.year}-${pad(parsedMonth.month)}`
-    : currentMonthKey();
-  const monthStartDate = monthKeyToStartDate(effectiveMonthKey);
-  const monthEndDate = createUtcDate(monthStartDate.getUTCFullYear(), monthStartDate.getUTCMonth() + 1, 0);
-  const monthStart = toDateKey(monthStartDate);
-  const monthEnd = toDateKey(monthEndDate);
+  const period = resolveCalendarPeriod(url.searchParams);
+  const stateFilter = parseStateFilter(url.searchParams.get("states"));
 
   const [projectResult, runsResult] = await Promise.all([
     fetchJson<ProjectResponse>(api, `/projects/${projectId}`),
@@ -250,7 +266,7 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   }
 
   const calendarResponse = await api.fetch(
-    `/content/${projectId}/calendar?date_from=${encodeURIComponent(monthStart)}&date_to=${encodeURIComponent(monthEnd)}`,
+    `/content/${projectId}/calendar?date_from=${encodeURIComponent(period.rangeStart)}&date_to=${encodeURIComponent(period.rangeEnd)}`,
   );
 
   if (calendarResponse.status === 401) {
@@ -271,16 +287,12 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   return data(
     {
       project: projectResult.data,
-      monthKey: effectiveMonthKey,
-      monthLabel: new Intl.DateTimeFormat(undefined, {
-        month: "long",
-        year: "numeric",
-        timeZone: "UTC",
-      }).format(monthStartDate),
-      monthStart,
-      monthEnd,
+      period,
+      periodLabel: formatPeriodLabel(period),
+      stateFilter,
       items: calendarPayload.items ?? [],
       latestContentRunId: latestContentRun?.id ?? null,
+      feedEnabled: isCalendarFeedEnabled(),
     } satisfies LoaderData,
     {
       headers: await api.commit(),
@@ -288,19 +300,132 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   );
 }
 
+export async function action({ request, params }: Route.ActionArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    return data({ error: "Missing project id." } satisfies ActionData, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") ?? "");
+
+  if (intent === "createFeedLink") {
+    if (!isCalendarFeedEnabled()) {
+      return data(
+        { error: "Calendar feeds are not configured on this server. Set CALENDAR_FEED_SIGNING_SECRET to enable them." } satisfies ActionData,
+        { status: 503 },
+      );
+    }
+
+    const api = new ApiClient(request);
+    const refreshToken = await api.getSessionValue("refreshToken");
+    if (typeof refreshToken !== "string" || !refreshToken) return handleUnauthorized(api);
+
+    const signed = signCalendarFeedToken({ projectId, refreshToken });
+    if (!signed) {
+      return data({ error: "Unable to create a calendar feed link." } satisfies ActionData, { status: 500 });
+    }
+
+    // Rotating issues a fresh link; the replaced id is echoed back so it can be handed to an administrator to revoke.
+    const replacedTokenId = String(formData.get("replaced_token_id") ?? "").trim() || null;
+    const origin = new URL(request.url).origin;
+    return data(
+      {
+        feedLink: {
+          url: `${origin}/projects/${projectId}/calendar.ics?token=${encodeURIComponent(signed.token)}`,
+          tokenId: signed.tokenId,
+          expiresAt: signed.expiresAt,
+          replacedTokenId,
+        },
+      } satisfies ActionData,
+      { headers: await api.commit() },
+    );
+  }
+
+  if (intent !== "rescheduleBrief") {
+    return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
+  }
+
+  const briefId = String(formData.get("brief_id") ?? "").trim();
+  const date = String(formData.get("date") ?? "").trim();
+  if (!briefId || !parseDateKey(date)) {
+    return data({ error: "Choose a brief and a valid date." } satisfies ActionData, { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const payload: ContentBriefUpdate = { proposed_publication_date: date };
+  const response = await api.fetch(`/content/${projectId}/briefs/${briefId}`, {
+    method: "PUT",
+    json: payload,
+  });
+
+  if (response.status === 401) return handleUnauthorized(api);
+
+  if (!response.ok) {
+    const apiMessage = await readApiErrorMessage(response);
+    return data(
+      { error: apiMessage ?? "Unable to reschedule this brief." } satisfies ActionData,
+      { status: response.status, headers: await api.commit() },
+    );
+  }
+
+  return data({ rescheduled: { briefId, date } } satisfies ActionData, { headers: await api.commit() });
+}
+
 export default function ProjectCalendarRoute() {
-  const { project, monthKey, monthLabel, monthStart, monthEnd, items, latestContentRunId } =
+  const { project, period, periodLabel, stateFilter, items: loadedItems, latestContentRunId, feedEnabled } =
     useLoaderData<typeof loader>() as LoaderData;
+  const navigate = useNavigate();
   const [selectedDateKey, setSelectedDateKey] = useState<string | null>(null);
+  const rescheduleFetcher = useFetcher<ActionData>();
+  const feedFetcher = useFetcher<ActionData>();
+  const [feedCopyState, setFeedCopyState] = useState<"idle" | "copied" | "error">("idle");
+  const feedLink = feedFetcher.data?.feedLink ?? null;
+  const feedError = feedFetcher.state === "idle" ? feedFetcher.data?.error : undefined;
+  const [draggedBriefId, setDraggedBriefId] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+  const [pendingReschedule, setPendingReschedule] = useState<PendingReschedule | null>(null);
+  const isRescheduling = rescheduleFetcher.state !== "idle";
+  const rescheduleError = rescheduleFetcher.state === "idle" ? rescheduleFetcher.data?.error : undefined;
 
-  const monthStartDate = useMemo(() => monthKeyToStartDate(monthKey), [monthKey]);
-  const prevMonthKey = useMemo(() => shiftMonthKey(monthKey, -1), [monthKey]);
-  const nextMonthKey = useMemo(() => shiftMonthKey(monthKey, 1), [monthKey]);
-  const todayMonthKey = useMemo(() => currentMonthKey(), []);
+  useEffect(() => {
+    setFeedCopyState("idle");
+  }, [feedLink?.url]);
+
+  const handleCopyFeedLink = async () => {
+    if (!feedLink) return;
+    try {
+      await navigator.clipboard.writeText(feedLink.url);
+      setFeedCopyState("copied");
+    } catch {
+      setFeedCopyState("error");
+    }
+  };
+
+  // Render the in-flight move immediately. A failed save leaves loader data untouched, which rolls it back.
+  const items = useMemo(() => {
+    const formData = rescheduleFetcher.formData;
+    if (!formData) return loadedItems;
+    const briefId = String(formData.get("brief_id") ?? "");
+    const date = String(formData.get("date") ?? "");
+    return loadedItems.map((item) => (item.brief_id === briefId ? { ...item, date } : item));
+  }, [loadedItems, rescheduleFetcher.formData]);
+
+  const visibleItems = useMemo(
+    () => (stateFilter.length === 0 ? items : items.filter((item) => stateFilter.includes(item.calendar_state))),
+    [items, stateFilter],
+  );
+  const searchFor = (view: CalendarView, anchor: string, states: CalendarState[] = stateFilter) =>
+    buildCalendarSearch(view, anchor, { agendaDays: period.agendaDays, states });
+  const prevSearch = searchFor(period.view, period.prevAnchor);
+  const nextSearch = searchFor(period.view, period.nextAnchor);
+  const todaySearch = searchFor(period.view, period.todayAnchor);
+  const periodUnit =
+    period.view === "month" ? "month" : period.view === "week" ? "week" : `${period.agendaDays} days`;
 
   const itemsByDate = useMemo(() => {
     const grouped = new Map<string, ContentCalendarItem[]>();
-    for (const item of items) {
+    for (const item of visibleItems) {
       const dateKey = item.date;
       if (!grouped.has(dateKey)) {
         grouped.set(dateKey, []);
@@ -321,11 +446,11 @@ export default function ProjectCalendarRoute() {
     }
 
     return grouped;
-  }, [items]);
+  }, [visibleItems]);
 
   const countsByDate = useMemo(() => {
     const countsMap = new Map<string, StateCounts>();
-    for (const item of items) {
+    for (const item of visibleItems) {
       if (!countsMap.has(item.date)) {
         countsMap.set(item.date, createEmptyStateCounts());
       }
@@ -333,17 +458,33 @@ export default function ProjectCalendarRoute() {
       counts[item.calendar_state] += 1;
     }
     return countsMap;
-  }, [items]);
+  }, [visibleItems]);
+
+  const monthItems = useMemo(
+    () => visibleItems.filter((item) => item.date >= period.periodStart && item.date <= period.periodEnd),
+    [visibleItems, period.periodStart, period.periodEnd],
+  );
 
   const monthCounts = useMemo(() => {
     const counts = createEmptyStateCounts();
-    for (const item of items) {
+    for (const item of monthItems) {
       counts[item.calendar_state] += 1;
     }
     return counts;
-  }, [items]);
+  }, [monthItems]);
 
-  const monthCells = useMemo(() => buildMonthCells(monthStartDate), [monthStartDate]);
+  const calendarCells = useMemo(() => {
+    if (period.view === "month") return buildMonthCells(monthKeyToStartDate(period.anchor));
+    if (period.view === "week") return buildWeekCells(parseDateKey(period.anchor)!);
+    return [];
+  }, [period.view, period.anchor]);
+  const agendaDays = useMemo(
+    () =>
+      Array.from(itemsByDate.entries())
+        .filter(([dateKey]) => dateKey >= period.periodStart && dateKey <= period.periodEnd)
+        .sort(([a], [b]) => a.localeCompare(b)),
+    [itemsByDate, period.periodStart, period.periodEnd],
+  );
   const selectedDateItems = selectedDateKey ? itemsByDate.get(selectedDateKey) ?? [] : [];
   const selectedDateCounts = selectedDateKey ? countsByDate.get(selectedDateKey) ?? createEmptyStateCounts() : createEmptyStateCounts();
   const selectedDateParsed = selectedDateKey ? parseDateKey(selectedDateKey) : null;
@@ -359,12 +500,88 @@ export default function ProjectCalendarRoute() {
 
   useEffect(() => {
     if (!selectedDateKey) return;
-    if (monthCells.some((cell) => cell.dateKey === selectedDateKey && cell.isCurrentMonth)) return;
+    if (selectedDateKey >= period.periodStart && selectedDateKey <= period.periodEnd) return;
     setSelectedDateKey(null);
-  }, [monthCells, selectedDateKey]);
+  }, [period.periodStart, period.periodEnd, selectedDateKey]);
+
+  // Arrow keys page between periods and T jumps back to today, unless focus is in a form control.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey || selectedDateKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+      const search =
+        event.key === "ArrowLeft"
+          ? prevSearch
+          : event.key === "ArrowRight"
+            ? nextSearch
+            : event.key === "t" || event.key === "T"
+              ? todaySearch
+              : null;
+      if (!search) return;
+      event.preventDefault();
+      navigate(search);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [navigate, prevSearch, nextSearch, todaySearch, selectedDateKey]);
+
+  const submitReschedule = (briefId: string, date: string) => {
+    setPendingReschedule(null);
+    rescheduleFetcher.submit({ intent: "rescheduleBrief", brief_id: briefId, date }, { method: "post" });
+  };
+
+  const briefHrefFor = (item: ContentCalendarItem) =>
+    item.article_id && latestContentRunId
+      ? `/projects/${project.id}/creation/runs/${latestContentRunId}/briefs/${item.brief_id}`
+      : null;
+
+  const startItemDrag = (event: DragEvent<HTMLDivElement>, briefId: string) => {
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData("text/plain", briefId);
+    setDraggedBriefId(briefId);
+  };
+
+  const resetDrag = () => {
+    setDraggedBriefId(null);
+    setDropTargetKey(null);
+  };
+
+  const handleCellDragOver = (event: DragEvent<HTMLDivElement>, dateKey: string) => {
+    if (!draggedBriefId) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDropTargetKey(dateKey);
+  };
+
+  const handleCellDrop = (event: DragEvent<HTMLDivElement>, dateKey: string) => {
+    event.preventDefault();
+    const item = items.find((candidate) => candidate.brief_id === draggedBriefId);
+    resetDrag();
+    if (!item || item.date === dateKey) return;
+
+    const warnings = findPublicationDateWarnings(
+      items.filter((entry) => entry.brief_id !== item.brief_id).map((entry) => entry.date),
+      dateKey,
+      project.posts_per_week,
+    );
+    if (warnings.length > 0) {
+      setPendingReschedule({
+        briefId: item.brief_id,
+        primaryKeyword: item.primary_keyword,
+        fromDate: item.date,
+        toDate: dateKey,
+        warnings,
+      });
+      return;
+    }
+    submitReschedule(item.brief_id, dateKey);
+  };
 
   const monthTotal = totalFromCounts(monthCounts);
-  const monthDaysWithContent = countsByDate.size;
+  const monthDaysWithContent = new Set(monthItems.map((item) => item.date)).size;
   const monthPublishPending = monthCounts.publish_pending;
   const monthPreArticle = monthCounts.writer_instructions_ready + monthCounts.brief_ready;
 
@@ -376,7 +593,7 @@ export default function ProjectCalendarRoute() {
             <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[#4f5f9d]">Publishing calendar</p>
             <h1 className="mt-2 font-display text-3xl font-bold text-slate-900">{project.name}</h1>
             <p className="mt-2 text-sm text-slate-600">
-              Schedule window: {monthStart} to {monthEnd}
+              Schedule window: {period.periodStart} to {period.periodEnd}
             </p>
           </div>
           <div className="flex flex-wrap items-center gap-2">
@@ -390,26 +607,59 @@ export default function ProjectCalendarRoute() {
         </div>
 
         <div className="mt-5 flex flex-wrap items-center justify-between gap-3 border-t border-slate-200/80 pt-4">
-          <div className="flex items-center gap-2">
-            <Link to={`?month=${prevMonthKey}`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <Link to={prevSearch} aria-keyshortcuts="ArrowLeft">
               <Button variant="outline" size="sm">
                 <ChevronLeft className="mr-1 h-4 w-4" />
-                Prev month
+                Prev {periodUnit}
               </Button>
             </Link>
-            <Link to={`?month=${todayMonthKey}`}>
+            <Link to={todaySearch} aria-keyshortcuts="T">
               <Button variant="secondary" size="sm">Today</Button>
             </Link>
-            <Link to={`?month=${nextMonthKey}`}>
+            <Link to={nextSearch} aria-keyshortcuts="ArrowRight">
               <Button variant="outline" size="sm">
-                Next month
+                Next {periodUnit}
                 <ChevronRight className="ml-1 h-4 w-4" />
               </Button>
             </Link>
+            <span className="hidden text-xs text-slate-500 md:inline">Use ← / → to change {periodUnit}, T for today</span>
           </div>
-          <div className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700">
-            <CalendarDays className="h-4 w-4 text-[#4f5f9d]" />
-            {monthLabel}
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="inline-flex rounded-xl border border-slate-200 bg-white p-1">
+              {CALENDAR_VIEWS.map((view) => (
+                <Link
+                  key={view.value}
+                  to={searchFor(view.value, anchorForView(period, view.value))}
+                  className={cn(
+                    "rounded-lg px-3 py-1 text-sm font-semibold",
+                    period.view === view.value ? "bg-[#4f5f9d] text-white" : "text-slate-600 hover:bg-slate-100",
+                  )}
+                >
+                  {view.label}
+                </Link>
+              ))}
+            </div>
+            {period.view === "agenda" ? (
+              <div className="inline-flex rounded-xl border border-slate-200 bg-white p-1">
+                {AGENDA_DAY_OPTIONS.map((days) => (
+                  <Link
+                    key={days}
+                    to={buildCalendarSearch("agenda", period.anchor, { agendaDays: days, states: stateFilter })}
+                    className={cn(
+                      "rounded-lg px-2.5 py-1 text-xs font-semibold",
+                      period.agendaDays === days ? "bg-slate-900 text-white" : "text-slate-600 hover:bg-slate-100",
+                    )}
+                  >
+                    {days}d
+                  </Link>
+                ))}
+              </div>
+            ) : null}
+            <div className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700">
+              <CalendarDays className="h-4 w-4 text-[#4f5f9d]" />
+              {periodLabel}
+            </div>
           </div>
         </div>
       </section>
@@ -443,113 +693,353 @@ export default function ProjectCalendarRoute() {
 
       <Card className="border-slate-200 bg-white">
         <CardHeader>
-          <CardTitle>Monthly schedule overview</CardTitle>
+          <CardTitle>
+            {period.view === "month"
+              ? "Monthly schedule overview"
+              : period.view === "week"
+                ? "Weekly schedule"
+                : "Agenda"}
+          </CardTitle>
           <CardDescription>
-            Click a day to open details and summary statistics for every scheduled content item.
+            {period.view === "agenda"
+              ? "Every scheduled item in this range, in publication order."
+              : "Click a day to open details for every scheduled content item. Drag an item onto another day to reschedule it."}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {items.length === 0 ? (
+          {monthItems.length === 0 ? (
             <div className="mb-4 rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-3 text-sm text-slate-600">
-              No scheduled content was returned for this month.
+              {stateFilter.length > 0
+                ? "No scheduled content matches the selected states in this period."
+                : `No scheduled content was returned for this ${period.view === "month" ? "month" : "period"}.`}
+            </div>
+          ) : null}
+
+          {rescheduleError ? (
+            <div className="mb-4 rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+              {rescheduleError} The item was moved back to its original date.
+            </div>
+          ) : null}
+
+          {pendingReschedule ? (
+            <div className="mb-4 space-y-2 rounded-xl border border-amber-300 bg-amber-50 px-3 py-3 text-sm text-amber-900">
+              <p className="flex items-center gap-2 font-semibold">
+                <AlertTriangle className="h-4 w-4" />
+                Move "{pendingReschedule.primaryKeyword}" from {pendingReschedule.fromDate} to {pendingReschedule.toDate}?
+              </p>
+              <ul className="list-disc space-y-0.5 pl-6">
+                {pendingReschedule.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => submitReschedule(pendingReschedule.briefId, pendingReschedule.toDate)}
+                >
+                  Move anyway
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => setPendingReschedule(null)}>
+                  Cancel
+                </Button>
+              </div>
             </div>
           ) : null}
 
           <div className="mb-3 flex flex-wrap items-center gap-2">
-            {CALENDAR_STATE_ORDER.map((state) => (
-              <span
-                key={state}
-                className={cn(
-                  "inline-flex items-center gap-1 rounded-full px-2 py-1 text-[11px] font-semibold",
-                  CALENDAR_STATE_META[state].chipClass,
-                )}
+            {CALENDAR_STATE_ORDER.map((state) => {
+              const isActive = stateFilter.includes(state);
+              const nextStates = isActive
+                ? stateFilter.filter((current) => current !== state)
+                : CALENDAR_STATE_ORDER.filter((current) => current === state || stateFilter.includes(current));
+              return (
+                <Link
+                  key={state}
+                  to={searchFor(period.view, period.anchor, nextStates)}
+                  aria-pressed={isActive}
+                  className={cn(
+                    "inline-flex items-center gap-1 rounded-full px-2 py-1 text-[11px] font-semibold transition-opacity",
+                    CALENDAR_STATE_META[state].chipClass,
+                    isActive && "ring-2 ring-[#4f5f9d]/50",
+                    stateFilter.length > 0 && !isActive && "opacity-50",
+                  )}
+                >
+                  <span className={cn("h-2 w-2 rounded-full", CALENDAR_STATE_META[state].dotClass)} />
+                  {CALENDAR_STATE_META[state].label}
+                </Link>
+              );
+            })}
+            {stateFilter.length > 0 ? (
+              <Link
+                to={searchFor(period.view, period.anchor, [])}
+                className="text-[11px] font-semibold text-slate-500 underline"
               >
-                <span className={cn("h-2 w-2 rounded-full", CALENDAR_STATE_META[state].dotClass)} />
-                {CALENDAR_STATE_META[state].label}
-              </span>
-            ))}
+                Show all states
+              </Link>
+            ) : null}
           </div>
 
-          <div className="overflow-x-auto pb-1">
-            <div className="min-w-[760px]">
-              <div className="grid grid-cols-7 gap-2">
-                {WEEKDAY_LABELS.map((weekday) => (
-                  <div
-                    key={weekday}
-                    className="rounded-lg bg-slate-100 px-2 py-1 text-center text-[11px] font-semibold uppercase tracking-wide text-slate-500"
-                  >
-                    {weekday}
-                  </div>
-                ))}
-              </div>
+          {period.view === "month" ? (
+            <div className="overflow-x-auto pb-1">
+              <div className="min-w-[760px]">
+                <div className="grid grid-cols-7 gap-2">
+                  {WEEKDAY_LABELS.map((weekday) => (
+                    <div
+                      key={weekday}
+                      className="rounded-lg bg-slate-100 px-2 py-1 text-center text-[11px] font-semibold uppercase tracking-wide text-slate-500"
+                    >
+                      {weekday}
+                    </div>
+                  ))}
+                </div>
 
-              <div className="mt-2 grid grid-cols-7 gap-2">
-                {monthCells.map((cell) => {
-                  const counts = countsByDate.get(cell.dateKey);
-                  const total = counts ? totalFromCounts(counts) : 0;
-                  const activeStates =
-                    counts === undefined
-                      ? []
-                      : CALENDAR_STATE_ORDER.filter((state) => counts[state] > 0);
-                  const visibleStates = activeStates.slice(0, 2);
-                  const hiddenStateCount = Math.max(0, activeStates.length - visibleStates.length);
-                  const isSelected = selectedDateKey === cell.dateKey;
+                <div className="mt-2 grid grid-cols-7 gap-2">
+                  {calendarCells.map((cell) => {
+                    const cellItems = itemsByDate.get(cell.dateKey) ?? [];
+                    const chipItems = cellItems.slice(0, MAX_CELL_CHIPS);
+                    const hiddenItemCount = cellItems.length - chipItems.length;
+                    const isSelected = selectedDateKey === cell.dateKey;
 
+                    return (
+                      <div
+                        key={cell.dateKey}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => setSelectedDateKey(cell.dateKey)}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter" || event.key === " ") {
+                            event.preventDefault();
+                            setSelectedDateKey(cell.dateKey);
+                          }
+                        }}
+                        onDragOver={(event) => handleCellDragOver(event, cell.dateKey)}
+                        onDragLeave={() => setDropTargetKey((current) => (current === cell.dateKey ? null : current))}
+                        onDrop={(event) => handleCellDrop(event, cell.dateKey)}
+                        className={cn(
+                          "min-h-[112px] cursor-pointer rounded-xl border p-2 text-left transition-all",
+                          cell.isCurrentMonth ? "border-slate-200 bg-white hover:border-slate-300" : "border-slate-100 bg-slate-50",
+                          isSelected ? "ring-2 ring-[#4f5f9d]/40" : "",
+                          dropTargetKey === cell.dateKey ? "border-[#4f5f9d] bg-[#edf2ff] ring-2 ring-[#4f5f9d]/40" : "",
+                        )}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span
+                            className={cn(
+                              "inline-flex h-7 w-7 items-center justify-center rounded-full text-xs font-semibold",
+                              cell.isCurrentMonth ? "text-slate-700" : "text-slate-400",
+                              cell.isToday ? "bg-[#4f5f9d] text-white" : "",
+                            )}
+                          >
+                            {cell.dayOfMonth}
+                          </span>
+                          {cellItems.length > 0 ? (
+                            <Badge variant="info" className="text-[10px]">
+                              {cellItems.length}
+                            </Badge>
+                          ) : null}
+                        </div>
+
+                        {cellItems.length > 0 ? (
+                          <div className="mt-2 space-y-1">
+                            {chipItems.map((item) => {
+                              // Published items already went out on their date, so only unpublished ones can move.
+                              const canDrag = item.calendar_state !== "published" && !isRescheduling;
+                              return (
+                                <div
+                                  key={item.brief_id}
+                                  draggable={canDrag}
+                                  onDragStart={(event) => {
+                                    event.dataTransfer.effectAllowed = "move";
+                                    event.dataTransfer.setData("text/plain", item.brief_id);
+                                    setDraggedBriefId(item.brief_id);
+                                  }}
+                                  onDragEnd={resetDrag}
+                                  title={item.working_title ?? item.primary_keyword}
+                                  className={cn(
+                                    "flex items-center gap-1 truncate rounded-full px-1.5 py-0.5 text-[10px] font-semibold",
+                                    CALENDAR_STATE_META[item.calendar_state].chipClass,
+                                    canDrag && "cursor-grab",
+                                    draggedBriefId === item.brief_id && "opacity-50",
+                                    isRescheduling &&
+                                      rescheduleFetcher.formData?.get("brief_id") === item.brief_id &&
+                                      "animate-pulse",
+                                  )}
+                                >
+                                  <span
+                                    className={cn(
+                                      "h-1.5 w-1.5 shrink-0 rounded-full",
+                                      CALENDAR_STATE_META[item.calendar_state].dotClass,
+                                    )}
+                                  />
+                                  <span className="truncate">{item.primary_keyword}</span>
+                                </div>
+                              );
+                            })}
+                            {hiddenItemCount > 0 ? (
+                              <p className="text-[10px] font-semibold text-slate-500">+{hiddenItemCount} more</p>
+                            ) : null}
+                          </div>
+                        ) : (
+                          <p className="mt-3 text-[10px] text-slate-400">No content</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          ) : period.view === "week" ? (
+            <div className="overflow-x-auto pb-1">
+              <div className="grid min-w-[980px] grid-cols-7 gap-2">
+                {calendarCells.map((cell) => {
+                  const cellItems = itemsByDate.get(cell.dateKey) ?? [];
                   return (
-                    <button
+                    <div
                       key={cell.dateKey}
-                      type="button"
-                      onClick={() => setSelectedDateKey(cell.dateKey)}
+                      onDragOver={(event) => handleCellDragOver(event, cell.dateKey)}
+                      onDragLeave={() => setDropTargetKey((current) => (current === cell.dateKey ? null : current))}
+                      onDrop={(event) => handleCellDrop(event, cell.dateKey)}
                       className={cn(
-                        "min-h-[112px] rounded-xl border p-2 text-left transition-all",
-                        cell.isCurrentMonth ? "border-slate-200 bg-white hover:border-slate-300" : "border-slate-100 bg-slate-50",
-                        isSelected ? "ring-2 ring-[#4f5f9d]/40" : "",
+                        "flex min-h-[320px] flex-col gap-2 rounded-xl border border-slate-200 bg-slate-50/60 p-2 transition-all",
+                        dropTargetKey === cell.dateKey ? "border-[#4f5f9d] bg-[#edf2ff] ring-2 ring-[#4f5f9d]/40" : "",
                       )}
                     >
-                      <div className="flex items-center justify-between">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedDateKey(cell.dateKey)}
+                        className="flex items-center justify-between rounded-lg bg-white px-2 py-1 text-left"
+                      >
+                        <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+                          {WEEKDAY_LABELS[cell.date.getUTCDay()]}
+                        </span>
                         <span
                           className={cn(
-                            "inline-flex h-7 w-7 items-center justify-center rounded-full text-xs font-semibold",
-                            cell.isCurrentMonth ? "text-slate-700" : "text-slate-400",
+                            "inline-flex h-7 w-7 items-center justify-center rounded-full text-xs font-semibold text-slate-700",
                             cell.isToday ? "bg-[#4f5f9d] text-white" : "",
                           )}
                         >
                           {cell.dayOfMonth}
                         </span>
-                        {total > 0 ? (
-                          <Badge variant="info" className="text-[10px]">
-                            {total}
-                          </Badge>
-                        ) : null}
-                      </div>
-
-                      {total > 0 ? (
-                        <div className="mt-2 space-y-1">
-                          {visibleStates.map((state) => (
-                            <div
-                              key={`${cell.dateKey}-${state}`}
-                              className={cn(
-                                "inline-flex items-center gap-1 rounded-full px-1.5 py-0.5 text-[10px] font-semibold",
-                                CALENDAR_STATE_META[state].chipClass,
-                              )}
-                            >
-                              <span className={cn("h-1.5 w-1.5 rounded-full", CALENDAR_STATE_META[state].dotClass)} />
-                              {counts![state]} {CALENDAR_STATE_META[state].label}
-                            </div>
-                          ))}
-                          {hiddenStateCount > 0 ? (
-                            <p className="text-[10px] font-semibold text-slate-500">+{hiddenStateCount} more states</p>
-                          ) : null}
-                        </div>
+                      </button>
+                      {cellItems.length === 0 ? (
+                        <p className="px-1 text-[11px] text-slate-400">No content</p>
                       ) : (
-                        <p className="mt-3 text-[10px] text-slate-400">No content</p>
+                        cellItems.map((item) => (
+                          <CalendarItemCard
+                            key={item.brief_id}
+                            item={item}
+                            briefHref={briefHrefFor(item)}
+                            draggable={item.calendar_state !== "published" && !isRescheduling}
+                            isDragging={draggedBriefId === item.brief_id}
+                            onDragStart={(event) => startItemDrag(event, item.brief_id)}
+                            onDragEnd={resetDrag}
+                          />
+                        ))
                       )}
-                    </button>
+                    </div>
                   );
                 })}
               </div>
             </div>
+          ) : (
+            <ol className="space-y-5">
+              {agendaDays.map(([dateKey, dayItems]) => (
+                <li key={dateKey} className="space-y-2">
+                  <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-900">
+                    {formatAgendaDate(dateKey)}
+                    {dateKey === todayDateKey() ? <Badge variant="info" className="text-[10px]">Today</Badge> : null}
+                    <span className="text-xs font-normal text-slate-500">{dayItems.length} scheduled</span>
+                  </h3>
+                  <div className="grid gap-2 md:grid-cols-2 xl:grid-cols-3">
+                    {dayItems.map((item) => (
+                      <CalendarItemCard key={item.brief_id} item={item} briefHref={briefHrefFor(item)} />
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-slate-200 bg-white">
+        <CardHeader>
+          <CardTitle>Subscribe in your calendar app</CardTitle>
+          <CardDescription>
+            Create a private iCalendar link for Google Calendar, Outlook or Apple Calendar. It shows every scheduled
+            item from the last 30 days through the next year and refreshes as the schedule changes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {feedEnabled ? (
+              <feedFetcher.Form method="post">
+                <input type="hidden" name="intent" value="createFeedLink" />
+                {feedLink ? <input type="hidden" name="replaced_token_id" value={feedLink.tokenId} /> : null}
+                <Button type="submit" variant="outline" size="sm" disabled={feedFetcher.state !== "idle"}>
+                  <CalendarDays className="mr-1.5 h-4 w-4" />
+                  {feedFetcher.state !== "idle" ? "Creating link..." : feedLink ? "Rotate feed link" : "Create feed link"}
+                </Button>
+              </feedFetcher.Form>
+            ) : null}
+            <a
+              href={`/projects/${project.id}/calendar.ics`}
+              download
+              className={cn(buttonVariants({ variant: "ghost", size: "sm" }), "gap-1.5")}
+            >
+              Download .ics
+            </a>
           </div>
+
+          {!feedEnabled ? (
+            <p className="text-xs text-slate-500">
+              Feed links are not configured on this server, so calendar apps cannot subscribe yet. Download the file and
+              import it again to pick up schedule changes.
+            </p>
+          ) : null}
+
+          {feedError ? (
+            <div className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+              {feedError}
+            </div>
+          ) : null}
+
+          {feedLink ? (
+            <div className="rounded-2xl border border-amber-300 bg-amber-50 p-4">
+              <p className="text-sm font-semibold text-amber-950">Treat this link like a password.</p>
+              <p className="mt-1 text-xs text-amber-800">
+                Anyone with the link can read this project&apos;s schedule until it expires. Rotating creates a new link;
+                to cut off an old one, ask an administrator to add its token ID to the feed denylist.
+              </p>
+              {feedLink.replacedTokenId ? (
+                <p className="mt-1 text-xs text-amber-800">
+                  Replaced link token ID: <span className="font-mono font-semibold">{feedLink.replacedTokenId}</span>.
+                  It keeps working until it is revoked or expires.
+                </p>
+              ) : null}
+
+              <div className="mt-3 rounded-xl border border-slate-800 bg-slate-950 px-3 py-2.5">
+                <p className="break-all font-mono text-xs text-slate-100">{feedLink.url}</p>
+              </div>
+
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-[11px]">
+                <span className="rounded-full border border-amber-300 bg-white px-2 py-1 font-semibold text-amber-900">
+                  Token ID: {feedLink.tokenId}
+                </span>
+                <span className="rounded-full border border-amber-300 bg-white px-2 py-1 font-semibold text-amber-900">
+                  Expires: {formatDateTime(new Date(feedLink.expiresAt * 1000).toISOString())}
+                </span>
+              </div>
+
+              <div className="mt-3 flex items-center gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={handleCopyFeedLink}>
+                  {feedCopyState === "copied" ? "Copied" : "Copy feed link"}
+                </Button>
+                {feedCopyState === "error" ? <p className="text-xs text-rose-700">Clipboard copy failed. Copy manually.</p> : null}
+              </div>
+            </div>
+          ) : null}
         </CardContent>
       </Card>
 
@@ -593,10 +1083,7 @@ export default function ProjectCalendarRoute() {
             <div className="space-y-3">
               {selectedDateItems.map((item) => {
                 const stateMeta = CALENDAR_STATE_META[item.calendar_state];
-                const deepLinkToBrief =
-                  item.article_id && latestContentRunId
-                    ? `/projects/${project.id}/creation/runs/${latestContentRunId}/briefs/${item.brief_id}`
-                    : null;
+                const deepLinkToBrief = briefHrefFor(item);
 
                 return (
                   <div key={`${item.brief_id}-${item.date}`} className="rounded-xl border border-slate-200 bg-white p-3">
@@ -0,0 +1,414 @@
+import { Link, data, redirect, useFetcher, useLoaderData, useNavigate, useSearchParams } from "react-router";
+import type { Route } from "./+types/_dashboard.projects.$projectId.creation.briefs.new";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Select } from "~/components/ui/select";
+import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { BriefCreateForm } from "~/components/features/brief-editor";
+import { readApiErrorMessage } from "~/lib/api-error";
+import { ApiClient } from "~/lib/api.server";
+import {
+  hasBriefFormErrors,
+  parseBriefCreateValues,
+  toContentBriefCreate,
+  toSupportingKeywordsUpdate,
+  validateBriefCreateForm,
+  type BriefCreateValues,
+  type BriefFormErrors,
+} from "~/lib/brief-form";
+import {
+  addDays,
+  buildCalendarSearch,
+  createUtcDate,
+  parseDateKey,
+  startOfWeek,
+  toDateKey,
+} from "~/lib/calendar-period";
+import { findPublicationDateWarnings, suggestPublicationDate } from "~/lib/content-schedule";
+import { fetchAllPages, fetchJson } from "~/lib/pipeline-run.server";
+import { suggestSupportingKeywords } from "~/lib/topic-detail";
+import type { components } from "~/types/api.generated";
+
+type ProjectResponse = components["schemas"]["ProjectResponse"];
+type KeywordResponse = components["schemas"]["KeywordResponse"];
+type TopicResponse = components["schemas"]["TopicResponse"];
+type TopicDetailResponse = components["schemas"]["TopicDetailResponse"];
+type ContentBriefResponse = components["schemas"]["ContentBriefResponse"];
+type ContentCalendarResponse = components["schemas"]["ContentCalendarResponse"];
+
+type TopicOption = Pick<TopicResponse, "id" | "name">;
+
+type LoaderData = {
+  project: ProjectResponse;
+  topics: TopicOption[];
+  topic: TopicDetailResponse | null;
+  /** The keyword the flow was opened from, when it came from the keyword drawer. */
+  sourceKeyword: KeywordResponse | null;
+  initialValues: BriefCreateValues;
+  keywordSuggestions: string[];
+  supportingKeywordSuggestions: string[];
+  /** Dates already taken on the calendar, one entry per brief. */
+  scheduledDates: string[];
+  calendarUnavailable: boolean;
+};
+
+type ActionData = {
+  error?: string;
+  briefFieldErrors?: BriefFormErrors;
+  /** Set when the brief was created but a follow-up save failed, so the form is not submitted twice. */
+  createdBrief?: ContentBriefResponse;
+};
+
+const PAGE_SIZE = 200;
+// Far enough ahead to find a free week for any realistic cadence without loading the whole calendar.
+const SCHEDULE_HORIZON_DAYS = 182;
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    throw new Response("Missing project id.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const url = new URL(request.url);
+  const keywordId = url.searchParams.get("keyword");
+  const now = new Date();
+  const todayDate = createUtcDate(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const today = toDateKey(todayDate);
+  // Load from the start of this week so posts earlier in the week still count toward its cadence.
+  const scheduleStart = toDateKey(startOfWeek(todayDate));
+  const horizon = toDateKey(addDays(todayDate, SCHEDULE_HORIZON_DAYS));
+
+  const [projectResult, topicsResult, keywordResult, calendarResult] = await Promise.all([
+    fetchJson<ProjectResponse>(api, `/projects/${projectId}`),
+    fetchAllPages<TopicResponse>(
+      api,
+      (page) => `/topics/${projectId}?page=${page}&page_size=${PAGE_SIZE}&eligibility=all`
+    ),
+    keywordId ? fetchJson<KeywordResponse>(api, `/keywords/${projectId}/${keywordId}`) : Promise.resolve(null),
+    fetchJson<ContentCalendarResponse>(
+      api,
+      `/content/${projectId}/calendar?date_from=${encodeURIComponent(scheduleStart)}` +
+        `&date_to=${encodeURIComponent(horizon)}`
+    ),
+  ]);
+
+  if (
+    projectResult.unauthorized ||
+    topicsResult.unauthorized ||
+    keywordResult?.unauthorized ||
+    calendarResult.unauthorized
+  ) {
+    return handleUnauthorized(api);
+  }
+  if (!projectResult.ok || !projectResult.data) {
+    throw new Response("Failed to load project.", { status: projectResult.status });
+  }
+  if (keywordResult && (!keywordResult.ok || !keywordResult.data)) {
+    throw new Response("Unable to fetch keyword.", { status: keywordResult.status });
+  }
+
+  const sourceKeyword = keywordResult?.data ?? null;
+  const topicId = url.searchParams.get("topic") || sourceKeyword?.topic_id || null;
+
+  let topic: TopicDetailResponse | null = null;
+  let members: KeywordResponse[] = [];
+  if (topicId) {
+    const [topicResult, membersResult] = await Promise.all([
+      fetchJson<TopicDetailResponse>(api, `/topics/${projectId}/${topicId}`),
+      fetchAllPages<KeywordResponse>(
+        api,
+        (page) => `/keywords/${projectId}?page=${page}&page_size=${PAGE_SIZE}&topic_id=${topicId}`
+      ),
+    ]);
+    if (topicResult.unauthorized || membersResult.unauthorized) return handleUnauthorized(api);
+    if (!topicResult.ok || !topicResult.data) {
+      throw new Response("Unable to fetch topic detail.", { status: topicResult.status });
+    }
+    if (!membersResult.ok || !membersResult.data) {
+      throw new Response("Unable to fetch topic keywords.", { status: membersResult.status });
+    }
+    topic = topicResult.data;
+    members = membersResult.data.filter((keyword) => keyword.status !== "excluded");
+  }
+
+  const project = projectResult.data;
+  const scheduledDates = (calendarResult.ok ? calendarResult.data?.items ?? [] : []).map((item) => item.date);
+  const topicPrimaryKeyword = topic ? members.find((keyword) => keyword.id === topic.primary_keyword_id) : undefined;
+  const primaryKeyword = sourceKeyword?.keyword ?? topicPrimaryKeyword?.keyword ?? topic?.name ?? "";
+
+  return data(
+    {
+      project,
+      topics: (topicsResult.data ?? [])
+        .map((entry) => ({ id: entry.id, name: entry.name }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      topic,
+      sourceKeyword,
+      initialValues: {
+        topicId: topic?.id ?? "",
+        primaryKeyword,
+        workingTitles: topic ? [topic.name] : [],
+        supportingKeywords: [],
+        wordCountMin: "",
+        wordCountMax: "",
+        // Without the calendar every week would look empty, so no date is suggested.
+        proposedPublicationDate: calendarResult.ok
+          ? (suggestPublicationDate(scheduledDates, project.posts_per_week, horizon, today) ?? "")
+          : "",
+      },
+      keywordSuggestions: members.map((keyword) => keyword.keyword),
+      supportingKeywordSuggestions: suggestSupportingKeywords(members, primaryKeyword),
+      scheduledDates,
+      calendarUnavailable: !calendarResult.ok,
+    } satisfies LoaderData,
+    {
+      headers: await api.commit(),
+    }
+  );
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    return data({ error: "Missing project id." } satisfies ActionData, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") ?? "");
+  if (intent !== "createBrief") {
+    return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
+  }
+
+  let briefValues: BriefCreateValues | null = null;
+  try {
+    briefValues = parseBriefCreateValues(JSON.parse(String(formData.get("brief_json") ?? "")));
+  } catch {
+    briefValues = null;
+  }
+  if (!briefValues) {
+    return data({ error: "Invalid brief payload." } satisfies ActionData, { status: 400 });
+  }
+  if (!briefValues.topicId) {
+    return data({ error: "Choose a topic for the brief." } satisfies ActionData, { status: 400 });
+  }
+
+  const briefFieldErrors = validateBriefCreateForm(briefValues);
+  if (hasBriefFormErrors(briefFieldErrors)) {
+    return data(
+      { error: "Fix the highlighted fields before creating the brief.", briefFieldErrors } satisfies ActionData,
+      { status: 400 }
+    );
+  }
+
+  const api = new ApiClient(request);
+  const response = await api.fetch(`/content/${projectId}/briefs`, {
+    method: "POST",
+    json: toContentBriefCreate(briefValues),
+  });
+
+  if (response.status === 401) return handleUnauthorized(api);
+
+  if (!response.ok) {
+    const apiMessage = await readApiErrorMessage(response);
+    return data(
+      { error: apiMessage ?? "Unable to create brief." } satisfies ActionData,
+      { status: response.status, headers: await api.commit() }
+    );
+  }
+
+  const createdBrief = (await response.json()) as ContentBriefResponse;
+
+  // ContentBriefCreate has no supporting keywords, so they are saved on the new brief afterwards.
+  const supportingKeywordsUpdate = toSupportingKeywordsUpdate(briefValues);
+  if (supportingKeywordsUpdate) {
+    const updateResponse = await api.fetch(`/content/${projectId}/briefs/${createdBrief.id}`, {
+      method: "PUT",
+      json: supportingKeywordsUpdate,
+    });
+
+    if (updateResponse.status === 401) return handleUnauthorized(api);
+
+    if (!updateResponse.ok) {
+      const apiMessage = await readApiErrorMessage(updateResponse);
+      return data(
+        {
+          error: `The brief was created, but its supporting keywords were not saved: ${apiMessage ?? "unknown error"}.`,
+          createdBrief,
+        } satisfies ActionData,
+        { status: updateResponse.status, headers: await api.commit() }
+      );
+    }
+  }
+
+  const publicationDate = parseDateKey(createdBrief.proposed_publication_date ?? "");
+  const destination = publicationDate
+    ? `/projects/${projectId}/calendar${buildCalendarSearch("week", toDateKey(startOfWeek(publicationDate)))}`
+    : `/projects/${projectId}/creation`;
+
+  return redirect(destination, {
+    headers: await api.commit(),
+  });
+}
+
+export default function NewBriefRoute() {
+  const {
+    project,
+    topics,
+    topic,
+    sourceKeyword,
+    initialValues,
+    keywordSuggestions,
+    supportingKeywordSuggestions,
+    scheduledDates,
+    calendarUnavailable,
+  } = useLoaderData<typeof loader>() as LoaderData;
+  const fetcher = useFetcher<ActionData>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const isSaving = fetcher.state !== "idle";
+  const result = fetcher.state === "idle" ? fetcher.data : undefined;
+
+  // Keeps `keyword` so a brief started from a keyword still uses it as the primary keyword.
+  const selectTopic = (topicId: string) => {
+    const nextParams = new URLSearchParams(searchParams);
+    if (topicId) {
+      nextParams.set("topic", topicId);
+    } else {
+      nextParams.delete("topic");
+    }
+    navigate(`?${nextParams.toString()}`, { replace: true });
+  };
+
+  const createBrief = (values: BriefCreateValues) => {
+    fetcher.submit({ intent: "createBrief", brief_json: JSON.stringify(values) }, { method: "post" });
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-gradient-to-r from-white via-[#f4f5fb] to-[#eef4ff] p-6 shadow-[0_20px_45px_-30px_rgba(15,23,42,0.55)]">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[#2f6f71]">New brief · {project.name}</p>
+            <h1 className="mt-1 font-display text-3xl font-bold text-slate-900">
+              {topic ? `Brief for ${topic.name}` : "Create a brief"}
+            </h1>
+            <p className="mt-2 max-w-3xl text-sm text-slate-600">
+              Start a brief by hand instead of waiting for a content run. Outline, FAQs and writer instructions are
+              filled in when it is written.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {topic ? (
+              <Link to={`/projects/${project.id}/discovery/topics/${topic.id}`}>
+                <Button variant="outline">View topic</Button>
+              </Link>
+            ) : null}
+            <Link to={`/projects/${project.id}/creation`}>
+              <Button variant="outline">Back to content</Button>
+            </Link>
+          </div>
+        </div>
+      </section>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Topic</CardTitle>
+          <CardDescription>
+            {sourceKeyword
+              ? `Started from the keyword “${sourceKeyword.keyword}”.`
+              : "Every brief belongs to a topic. Its member keywords are suggested below."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            aria-label="Topic"
+            value={topic?.id ?? ""}
+            onChange={(event) => selectTopic(event.target.value)}
+            className="md:max-w-md"
+          >
+            <option value="">Choose a topic</option>
+            {topics.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.name}
+              </option>
+            ))}
+          </Select>
+          {sourceKeyword && !sourceKeyword.topic_id && !topic ? (
+            <p className="mt-2 text-sm text-amber-700">
+              This keyword is not assigned to a topic yet. Choose the topic the brief should belong to.
+            </p>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {result?.createdBrief ? (
+        <div className="space-y-2 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          <p className="font-semibold">{result.error}</p>
+          <p>
+            Add the supporting keywords when editing the brief. It is listed in the{" "}
+            <Link to={`/projects/${project.id}/creation`} className="font-semibold underline">
+              content hub
+            </Link>
+            .
+          </p>
+        </div>
+      ) : topic ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Brief</CardTitle>
+            <CardDescription>
+              {calendarUnavailable
+                ? "The content calendar could not be loaded, so no publication date was suggested or checked against it."
+                : initialValues.proposedPublicationDate
+                  ? `The publication date is the first open slot at ${project.posts_per_week} posts per week.`
+                  : `No week in the next six months has an open slot at ${project.posts_per_week} posts per week.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BriefCreateForm
+              key={`${topic.id}:${sourceKeyword?.id ?? ""}`}
+              initialValues={initialValues}
+              keywordSuggestions={keywordSuggestions}
+              supportingKeywordSuggestions={supportingKeywordSuggestions}
+              findDateWarnings={(dateKey) =>
+                findPublicationDateWarnings(scheduledDates, dateKey, project.posts_per_week)
+              }
+              onSubmit={createBrief}
+              onCancel={() => navigate(-1)}
+              isSaving={isSaving}
+              serverError={result?.error}
+              serverFieldErrors={result?.briefFieldErrors}
+            />
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error, params }: Route.ErrorBoundaryProps) {
+  const projectId = params.projectId;
+  const safeHref = projectId ? `/projects/${encodeURIComponent(projectId)}/creation` : "/project";
+
+  return (
+    <RouteErrorBoundaryCard
+      error={error}
+      variant="panel"
+      title="New brief unavailable"
+      description="The brief form could not be loaded."
+      safeHref={safeHref}
+      safeLabel={projectId ? "Back to content" : "Back to dashboard"}
+      retryLabel="Retry new brief"
+      showStatus
+    />
+  );
+}
@@ -1,15 +1,35 @@
-import { Form, Link, data, redirect, useActionData, useLoaderData, useNavigation } from "react-router";
-import { RefreshCw, Info } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Form, Link, data, redirect, useActionData, useFetcher, useLoaderData, useNavigation } from "react-router";
+import { RefreshCw, Info, History, Sparkles, Pencil } from "lucide-react";
 import type { Route } from "./+types/_dashboard.projects.$projectId.creation.runs.$runId.briefs.$briefId";
 import { Button } from "~/components/ui/button";
 import { Badge } from "~/components/ui/badge";
 import { Card, CardContent } from "~/components/ui/card";
+import { Dialog } from "~/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
 import { Tooltip } from "~/components/ui/tooltip";
 import { ArticleViewer, ArticleEmptyState } from "~/components/article-viewer";
+import { BriefEditForm } from "~/components/features/brief-editor";
+import { WriterInstructionsPanel, type WriterInstructionsResponse } from "~/components/features/writer-instructions";
+import {
+  ArticleVersionDiff,
+  ArticleVersionHistory,
+  type ArticleVersionSelection,
+  type ArticleVersionSummary,
+} from "~/components/features/article-versions";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
 import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
-import { formatDateTime, isRunActive } from "~/lib/dashboard";
+import {
+  briefToFormValues,
+  hasBriefFormErrors,
+  parseBriefFormValues,
+  toContentBriefUpdate,
+  validateBriefForm,
+  type BriefFormErrors,
+  type BriefFormValues,
+} from "~/lib/brief-form";
+import { formatDateTime, formatStatusLabel, isRunActive } from "~/lib/dashboard";
 import { fetchJson } from "~/lib/pipeline-run.server";
 import type { components } from "~/types/api.generated";
 
@@ -17,18 +37,37 @@ type ProjectResponse = components["schemas"]["ProjectResponse"];
 type PipelineRunResponse = components["schemas"]["PipelineRunResponse"];
 type ContentBriefDetailResponse = components["schemas"]["ContentBriefDetailResponse"];
 type ContentArticleDetailResponse = components["schemas"]["ContentArticleDetailResponse"];
+type ContentArticleVersionResponse = components["schemas"]["ContentArticleVersionResponse"];
+type RegenerateArticleRequest = components["schemas"]["RegenerateArticleRequest"];
 
 type LoaderData = {
   project: ProjectResponse;
   selectedRun: PipelineRunResponse;
   brief: ContentBriefDetailResponse;
   article: ContentArticleDetailResponse | null;
+  instructions: WriterInstructionsResponse | null;
   runIsActive: boolean;
   publishedTriggered: boolean;
+  regeneratedVersion: number | null;
+  historyOpen: boolean;
+  historyPage: number;
+  historyPageCount: number;
+  /** The versions on the current history page. */
+  versions: ArticleVersionSummary[];
+  /** Viewed or compared versions from other history pages. */
+  pinnedVersions: ArticleVersionSummary[];
+  /** Versions on this page that the API failed to return. */
+  missingVersionCount: number;
+  selection: ArticleVersionSelection;
 };
 
+// The API has no version listing endpoint, so history fetches each version individually, one page at a time.
+const VERSION_HISTORY_PAGE_SIZE = 20;
+
 type ActionData = {
   error?: string;
+  briefSaved?: boolean;
+  briefFieldErrors?: BriefFormErrors;
 };
 
 type KeywordCoverageSummary = {
@@ -117,6 +156,43 @@ function parseKeywordCoverage(qaReport: Record<string, unknown> | null | undefin
   };
 }
 
+function parseVersionParam(value: string | null): number | null {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function buildVersionSearch(selection: ArticleVersionSelection, historyPage = 1) {
+  const params = new URLSearchParams({ view: "versions" });
+  if (selection.version !== null) params.set("version", String(selection.version));
+  if (selection.compare !== null) params.set("compare", String(selection.compare));
+  if (historyPage > 1) params.set("history_page", String(historyPage));
+  return `?${params.toString()}`;
+}
+
+function listArticleBlockLabels(document: Record<string, unknown>): string[] {
+  const blocks = Array.isArray(document.blocks) ? document.blocks : [];
+  return blocks
+    .map((rawBlock, index) => {
+      const block = asRecord(rawBlock);
+      if (!block) return null;
+      const heading = typeof block.heading === "string" ? block.heading.trim() : "";
+      if (heading) return heading;
+      const blockType = typeof block.block_type === "string" ? formatStatusLabel(block.block_type) : "Block";
+      return `${blockType} (block ${index + 1})`;
+    })
+    .filter((label): label is string => Boolean(label));
+}
+
+// RegenerateArticleRequest only carries a reason, so block targeting is folded into its text.
+function buildRegenerationReason(reason: string, targetBlocks: string[]): string | null {
+  const parts = [reason];
+  if (targetBlocks.length > 0) {
+    parts.push(`Focus the rewrite on these sections: ${targetBlocks.join("; ")}. Keep the other sections as they are.`);
+  }
+  const combined = parts.filter(Boolean).join("\n\n");
+  return combined || null;
+}
+
 function PillarBadge({ label }: { label: string }) {
   return (
     <span className="inline-flex rounded-full border border-slate-200 bg-slate-50 px-2.5 py-1 text-xs font-semibold text-slate-700">
@@ -139,6 +215,15 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   const briefId = params.briefId;
   const requestUrl = new URL(request.url);
   const publishedTriggered = requestUrl.searchParams.get("published") === "1";
+  const regeneratedVersion = parseVersionParam(requestUrl.searchParams.get("regenerated"));
+  const requestedSelection: ArticleVersionSelection = {
+    version: parseVersionParam(requestUrl.searchParams.get("version")),
+    compare: parseVersionParam(requestUrl.searchParams.get("compare")),
+  };
+  const historyOpen =
+    requestUrl.searchParams.get("view") === "versions" ||
+    requestedSelection.version !== null ||
+    requestedSelection.compare !== null;
 
   if (!projectId || !runId || !briefId) {
     throw new Response("Missing route parameters.", { status: 400 });
@@ -170,16 +255,67 @@ export async function loader({ request, params }: Route.LoaderArgs) {
     });
   }
 
-  // Fetch article for this brief — may 404 if not yet generated
+  // Fetch article and writer instructions for this brief — either may 404 if not yet generated
   let article: ContentArticleDetailResponse | null = null;
-  const articleResult = await fetchJson<ContentArticleDetailResponse>(
-    api,
-    `/content/${projectId}/briefs/${briefId}/article`,
-  );
-  if (articleResult.unauthorized) return handleUnauthorized(api);
+  const [articleResult, instructionsResult] = await Promise.all([
+    fetchJson<ContentArticleDetailResponse>(api, `/content/${projectId}/briefs/${briefId}/article`),
+    fetchJson<WriterInstructionsResponse>(api, `/content/${projectId}/briefs/${briefId}/instructions`),
+  ]);
+  if (articleResult.unauthorized || instructionsResult.unauthorized) return handleUnauthorized(api);
   if (articleResult.ok && articleResult.data) {
     article = articleResult.data;
   }
+  const instructions = instructionsResult.ok ? (instructionsResult.data ?? null) : null;
+
+  let versions: ArticleVersionSummary[] = [];
+  let pinnedVersions: ArticleVersionSummary[] = [];
+  let missingVersionCount = 0;
+  const historyPageCount = article ? Math.max(1, Math.ceil(article.current_version / VERSION_HISTORY_PAGE_SIZE)) : 1;
+  const historyPage = Math.min(parseVersionParam(requestUrl.searchParams.get("history_page")) ?? 1, historyPageCount);
+  if (article && historyOpen) {
+    const articleId = article.id;
+    const newestOnPage = article.current_version - (historyPage - 1) * VERSION_HISTORY_PAGE_SIZE;
+    const oldestOnPage = Math.max(1, newestOnPage - VERSION_HISTORY_PAGE_SIZE + 1);
+    const pageNumbers = Array.from({ length: newestOnPage - oldestOnPage + 1 }, (_, index) => oldestOnPage + index);
+    const pinnedNumbers = [requestedSelection.version, requestedSelection.compare].filter(
+      (versionNumber, index, all): versionNumber is number =>
+        versionNumber !== null &&
+        versionNumber <= article.current_version &&
+        !pageNumbers.includes(versionNumber) &&
+        all.indexOf(versionNumber) === index,
+    );
+    const fetchVersion = (versionNumber: number) =>
+      fetchJson<ContentArticleVersionResponse>(
+        api,
+        `/content/${projectId}/articles/${articleId}/versions/${versionNumber}`,
+      );
+    const [pageResults, pinnedResults] = await Promise.all([
+      Promise.all(pageNumbers.map(fetchVersion)),
+      Promise.all(pinnedNumbers.map(fetchVersion)),
+    ]);
+    if ([...pageResults, ...pinnedResults].some((result) => result.unauthorized)) return handleUnauthorized(api);
+
+    const toSummaries = (results: typeof pageResults) =>
+      results.flatMap((result): ArticleVersionSummary[] => {
+        if (!result.ok || !result.data) return [];
+        const { rendered_html: _renderedHtml, ...version } = result.data;
+        return [version];
+      });
+    versions = toSummaries(pageResults);
+    pinnedVersions = toSummaries(pinnedResults);
+    missingVersionCount = pageNumbers.length - versions.length;
+  }
+
+  const hasVersion = (versionNumber: number | null) =>
+    versionNumber !== null &&
+    [...versions, ...pinnedVersions].some((version) => version.version_number === versionNumber);
+  const selection: ArticleVersionSelection = {
+    version:
+      hasVersion(requestedSelection.version) && requestedSelection.version !== article?.current_version
+        ? requestedSelection.version
+        : null,
+    compare: hasVersion(requestedSelection.compare) ? requestedSelection.compare : null,
+  };
 
   return data(
     {
@@ -187,8 +323,17 @@ export async function loader({ request, params }: Route.LoaderArgs) {
       selectedRun: runResult.data,
       brief: briefResult.data,
       article,
+      instructions,
       runIsActive: isRunActive(runResult.data.status),
       publishedTriggered,
+      regeneratedVersion,
+      historyOpen,
+      historyPage,
+      historyPageCount,
+      versions,
+      pinnedVersions,
+      missingVersionCount,
+      selection,
     } satisfies LoaderData,
     {
       headers: await api.commit(),
@@ -198,58 +343,204 @@ export async function loader({ request, params }: Route.LoaderArgs) {
 
 export async function action({ request, params }: Route.ActionArgs) {
   const projectId = params.projectId;
-  if (!projectId) {
-    return data({ error: "Missing project id." } satisfies ActionData, { status: 400 });
+  const briefId = params.briefId;
+  if (!projectId || !briefId) {
+    return data({ error: "Missing route parameters." } satisfies ActionData, { status: 400 });
   }
 
   const formData = await request.formData();
   const intent = String(formData.get("intent") ?? "");
-  if (intent !== "publishNow") {
-    return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
-  }
+  const api = new ApiClient(request);
 
-  const articleId = String(formData.get("article_id") ?? "").trim();
-  if (!articleId) {
-    return data({ error: "Missing article id." } satisfies ActionData, { status: 400 });
-  }
+  if (intent === "publishNow") {
+    const articleId = String(formData.get("article_id") ?? "").trim();
+    if (!articleId) {
+      return data({ error: "Missing article id." } satisfies ActionData, { status: 400 });
+    }
 
-  const api = new ApiClient(request);
-  const publishResponse = await api.fetch(`/content/${projectId}/articles/${articleId}/publish-now`, {
-    method: "POST",
-  });
+    const publishResponse = await api.fetch(`/content/${projectId}/articles/${articleId}/publish-now`, {
+      method: "POST",
+    });
+
+    if (publishResponse.status === 401) return handleUnauthorized(api);
+
+    if (!publishResponse.ok) {
+      const apiMessage = await readApiErrorMessage(publishResponse);
+      return data(
+        {
+          error:
+            apiMessage ??
+            (publishResponse.status === 409
+              ? "Article is not ready to publish right now."
+              : "Unable to publish article now."),
+        } satisfies ActionData,
+        { status: publishResponse.status, headers: await api.commit() },
+      );
+    }
+
+    const redirectUrl = new URL(request.url);
+    redirectUrl.searchParams.set("published", "1");
+
+    return redirect(`${redirectUrl.pathname}?${redirectUrl.searchParams.toString()}`, {
+      headers: await api.commit(),
+    });
+  }
 
-  if (publishResponse.status === 401) return handleUnauthorized(api);
-
-  if (!publishResponse.ok) {
-    const apiMessage = await readApiErrorMessage(publishResponse);
-    return data(
-      {
-        error:
-          apiMessage ??
-          (publishResponse.status === 409
-            ? "Article is not ready to publish right now."
-            : "Unable to publish article now."),
-      } satisfies ActionData,
-      { status: publishResponse.status, headers: await api.commit() },
+  if (intent === "updateBrief") {
+    let briefValues: BriefFormValues | null = null;
+    try {
+      briefValues = parseBriefFormValues(JSON.parse(String(formData.get("brief_json") ?? "")));
+    } catch {
+      briefValues = null;
+    }
+    if (!briefValues) {
+      return data({ error: "Invalid brief payload." } satisfies ActionData, { status: 400 });
+    }
+
+    // Re-read the stored status so an unchanged status is accepted as is and left out of the update.
+    const currentBriefResult = await fetchJson<ContentBriefDetailResponse>(
+      api,
+      `/content/${projectId}/briefs/${briefId}`,
     );
+    if (currentBriefResult.unauthorized) return handleUnauthorized(api);
+    if (!currentBriefResult.ok || !currentBriefResult.data) {
+      return data(
+        { error: "Unable to load the brief to save." } satisfies ActionData,
+        { status: currentBriefResult.status, headers: await api.commit() },
+      );
+    }
+    const currentStatus = currentBriefResult.data.status;
+
+    const briefFieldErrors = validateBriefForm(briefValues, currentStatus);
+    if (hasBriefFormErrors(briefFieldErrors)) {
+      return data(
+        { error: "Fix the highlighted fields before saving.", briefFieldErrors } satisfies ActionData,
+        { status: 400, headers: await api.commit() },
+      );
+    }
+
+    const updateResponse = await api.fetch(`/content/${projectId}/briefs/${briefId}`, {
+      method: "PUT",
+      json: toContentBriefUpdate(briefValues, currentStatus),
+    });
+
+    if (updateResponse.status === 401) return handleUnauthorized(api);
+
+    if (!updateResponse.ok) {
+      const apiMessage = await readApiErrorMessage(updateResponse);
+      return data(
+        { error: apiMessage ?? "Unable to save brief." } satisfies ActionData,
+        { status: updateResponse.status, headers: await api.commit() },
+      );
+    }
+
+    return data({ briefSaved: true } satisfies ActionData, { headers: await api.commit() });
   }
 
-  const redirectUrl = new URL(request.url);
-  redirectUrl.searchParams.set("published", "1");
+  if (intent === "regenerateArticle") {
+    const reason = String(formData.get("reason") ?? "").trim();
+    const targetBlocks = formData
+      .getAll("target_block")
+      .map((value) => String(value).trim())
+      .filter(Boolean);
+    const previousVersion = parseVersionParam(String(formData.get("previous_version") ?? ""));
+
+    const payload: RegenerateArticleRequest = {
+      reason: buildRegenerationReason(reason, targetBlocks),
+    };
+    const regenerateResponse = await api.fetch(`/content/${projectId}/briefs/${briefId}/article/regenerate`, {
+      method: "POST",
+      json: payload,
+    });
 
-  return redirect(`${redirectUrl.pathname}?${redirectUrl.searchParams.toString()}`, {
-    headers: await api.commit(),
-  });
+    if (regenerateResponse.status === 401) return handleUnauthorized(api);
+
+    if (!regenerateResponse.ok) {
+      const apiMessage = await readApiErrorMessage(regenerateResponse);
+      return data(
+        { error: apiMessage ?? "Unable to regenerate article." } satisfies ActionData,
+        { status: regenerateResponse.status, headers: await api.commit() },
+      );
+    }
+
+    const regenerated = (await regenerateResponse.json()) as ContentArticleDetailResponse;
+    const redirectUrl = new URL(request.url);
+    redirectUrl.search = "";
+    redirectUrl.searchParams.set("view", "versions");
+    redirectUrl.searchParams.set("regenerated", String(regenerated.current_version));
+    if (previousVersion !== null && previousVersion !== regenerated.current_version) {
+      redirectUrl.searchParams.set("compare", String(previousVersion));
+    }
+
+    return redirect(`${redirectUrl.pathname}?${redirectUrl.searchParams.toString()}`, {
+      headers: await api.commit(),
+    });
+  }
+
+  return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
 }
 
 export default function ProjectCreationBriefDetailRoute() {
-  const { project, selectedRun, brief, article, runIsActive, publishedTriggered } = useLoaderData<typeof loader>() as LoaderData;
+  const {
+    project,
+    selectedRun,
+    brief,
+    article,
+    instructions,
+    runIsActive,
+    publishedTriggered,
+    regeneratedVersion,
+    historyOpen,
+    historyPage,
+    historyPageCount,
+    versions,
+    pinnedVersions,
+    missingVersionCount,
+    selection,
+  } = useLoaderData<typeof loader>() as LoaderData;
   const actionData = useActionData<typeof action>() as ActionData | undefined;
   const navigation = useNavigation();
   const pillarConfidenceLabel = formatConfidencePercent(article?.pillar_assignment_confidence);
   const isPublishingNow =
     navigation.state !== "idle" && navigation.formData?.get("intent")?.toString() === "publishNow";
   const publishButtonLabel = article?.publish_status === "published" ? "Republish now" : "Publish now";
+  const isRegenerating =
+    navigation.state !== "idle" && navigation.formData?.get("intent")?.toString() === "regenerateArticle";
+  const [isRegenerateDialogOpen, setIsRegenerateDialogOpen] = useState(false);
+  const [regenerationSeconds, setRegenerationSeconds] = useState(0);
+  const articleBlockLabels = article ? listArticleBlockLabels(article.modular_document) : [];
+  const briefFetcher = useFetcher<ActionData>();
+  const [isEditingBrief, setIsEditingBrief] = useState(false);
+  const [activeBriefTab, setActiveBriefTab] = useState<"brief" | "instructions">("brief");
+  const isSavingBrief = briefFetcher.state !== "idle";
+  const briefResult = briefFetcher.state === "idle" ? briefFetcher.data : undefined;
+
+  useEffect(() => {
+    if (briefResult?.briefSaved) setIsEditingBrief(false);
+  }, [briefResult]);
+
+  const saveBrief = (values: BriefFormValues) => {
+    briefFetcher.submit({ intent: "updateBrief", brief_json: JSON.stringify(values) }, { method: "post" });
+  };
+
+  useEffect(() => {
+    if (!isRegenerating) return;
+    setIsRegenerateDialogOpen(false);
+    setRegenerationSeconds(0);
+    const startedAt = Date.now();
+    const timer = window.setInterval(() => {
+      setRegenerationSeconds(Math.floor((Date.now() - startedAt) / 1000));
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [isRegenerating]);
+
+  const findVersion = (versionNumber: number | null) =>
+    versionNumber === null
+      ? null
+      : ([...versions, ...pinnedVersions].find((version) => version.version_number === versionNumber) ?? null);
+  const viewedVersion = findVersion(selection.version);
+  const diffTarget = findVersion(selection.version ?? article?.current_version ?? null);
+  const diffBase = findVersion(selection.compare);
 
   return (
     <div className="mx-auto max-w-[1240px] space-y-6">
@@ -322,6 +613,22 @@ export default function ProjectCreationBriefDetailRoute() {
                       <span className="text-xs text-slate-400">({article.generation_model})</span>
                     ) : null}
                   </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={runIsActive || isRegenerating}
+                    onClick={() => setIsRegenerateDialogOpen(true)}
+                  >
+                    <Sparkles className="mr-2 h-3.5 w-3.5" />
+                    Regenerate
+                  </Button>
+                  <Link to={historyOpen ? "." : buildVersionSearch({ version: null, compare: null })}>
+                    <Button type="button" size="sm" variant="outline">
+                      <History className="mr-2 h-3.5 w-3.5" />
+                      {historyOpen ? "Hide history" : "Version history"}
+                    </Button>
+                  </Link>
                   <Form method="post">
                     <input type="hidden" name="intent" value="publishNow" />
                     <input type="hidden" name="article_id" value={article.id} />
@@ -349,6 +656,35 @@ export default function ProjectCreationBriefDetailRoute() {
                 {actionData.error}
               </div>
             ) : null}
+            {isRegenerating ? (
+              <div className="mt-3 flex items-center gap-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                <RefreshCw className="h-4 w-4 animate-spin text-amber-600" />
+                <span>
+                  Regenerating article… {regenerationSeconds}s elapsed. This usually takes a minute or two; keep this tab
+                  open.
+                </span>
+              </div>
+            ) : null}
+            {regeneratedVersion !== null && !isRegenerating ? (
+              <div className="mt-3 rounded-xl border border-emerald-300/70 bg-emerald-50 px-3 py-2 text-sm text-emerald-900">
+                Article regenerated as v{regeneratedVersion}.
+                {selection.compare !== null ? " The diff below shows what changed." : ""}
+              </div>
+            ) : null}
+            {viewedVersion && article ? (
+              <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-xl border border-sky-300/70 bg-sky-50 px-3 py-2 text-sm text-sky-900">
+                <span>
+                  Viewing v{viewedVersion.version_number} from {formatDateTime(viewedVersion.created_at)} — the current
+                  version is v{article.current_version}.
+                </span>
+                <Link
+                  to={buildVersionSearch({ version: null, compare: selection.compare })}
+                  className="text-xs font-semibold underline"
+                >
+                  Back to current
+                </Link>
+              </div>
+            ) : null}
             {article && (article.primary_pillar || (article.secondary_pillars?.length ?? 0) > 0) ? (
               <div className="mt-3 flex flex-wrap items-center gap-2">
                 {article.primary_pillar ? <PillarBadge label={`Primary pillar: ${article.primary_pillar.name}`} /> : null}
@@ -363,7 +699,7 @@ export default function ProjectCreationBriefDetailRoute() {
           {article && !runIsActive ? (
             /* Article exists, run done */
             <CardContent className="px-4 pb-5 pt-4 sm:px-6 sm:pb-7 sm:pt-5 lg:px-10">
-              <ArticleViewer document={article.modular_document} />
+              <ArticleViewer document={viewedVersion?.modular_document ?? article.modular_document} />
             </CardContent>
           ) : article && runIsActive ? (
             /* Article exists, run still active */
@@ -372,7 +708,7 @@ export default function ProjectCreationBriefDetailRoute() {
                 <RefreshCw className="h-4 w-4 animate-spin text-amber-600" />
                 <p className="font-medium text-amber-800">Article may still be updating. Pipeline is running.</p>
               </div>
-              <ArticleViewer document={article.modular_document} />
+              <ArticleViewer document={viewedVersion?.modular_document ?? article.modular_document} />
             </CardContent>
           ) : !article && runIsActive ? (
             /* No article yet, run still active */
@@ -393,6 +729,195 @@ export default function ProjectCreationBriefDetailRoute() {
           )}
         </Card>
       </section>
+
+      <section className="mx-auto w-full max-w-[1120px]">
+        <Card className="border border-slate-200">
+          <CardContent className="p-4 sm:p-6">
+            <Tabs>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <TabsList className="w-auto">
+                  <TabsTrigger active={activeBriefTab === "brief"} onClick={() => setActiveBriefTab("brief")}>
+                    Brief
+                  </TabsTrigger>
+                  <TabsTrigger
+                    active={activeBriefTab === "instructions"}
+                    onClick={() => setActiveBriefTab("instructions")}
+                  >
+                    Writer instructions
+                  </TabsTrigger>
+                </TabsList>
+                {activeBriefTab === "brief" && !isEditingBrief ? (
+                  <Button type="button" size="sm" variant="outline" onClick={() => setIsEditingBrief(true)}>
+                    <Pencil className="mr-2 h-3.5 w-3.5" />
+                    Edit brief
+                  </Button>
+                ) : null}
+              </div>
+              {activeBriefTab === "brief" ? (
+                <TabsContent>
+                  {briefResult?.briefSaved && !isEditingBrief ? (
+                    <div className="rounded-xl border border-emerald-300 bg-emerald-50 px-3 py-2 text-sm font-semibold text-emerald-700">
+                      Brief saved.
+                    </div>
+                  ) : null}
+                  {isEditingBrief ? (
+                    <BriefEditForm
+                      initialValues={briefToFormValues(brief)}
+                      onSubmit={saveBrief}
+                      onCancel={() => setIsEditingBrief(false)}
+                      isSaving={isSavingBrief}
+                      serverError={briefResult?.error}
+                      serverFieldErrors={briefResult?.briefFieldErrors}
+                    />
+                  ) : (
+                    <div className="grid gap-4 text-sm md:grid-cols-2">
+                      <div className="space-y-1">
+                        <p className="text-xs font-semibold uppercase text-slate-500">Working titles</p>
+                        {(brief.working_titles ?? []).length > 0 ? (
+                          <ul className="list-disc space-y-0.5 pl-5 text-slate-800">
+                            {(brief.working_titles ?? []).map((title) => (
+                              <li key={title}>{title}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-slate-500">None</p>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                          <p className="text-xs font-semibold uppercase text-slate-500">Word count</p>
+                          <p className="font-semibold text-slate-900">
+                            {brief.target_word_count_min ?? "—"} – {brief.target_word_count_max ?? "—"}
+                          </p>
+                        </div>
+                        <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                          <p className="text-xs font-semibold uppercase text-slate-500">Publication date</p>
+                          <p className="font-semibold text-slate-900">{brief.proposed_publication_date ?? "Unscheduled"}</p>
+                        </div>
+                        <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                          <p className="text-xs font-semibold uppercase text-slate-500">Status</p>
+                          <p className="font-semibold text-slate-900">{formatStatusLabel(brief.status)}</p>
+                        </div>
+                        <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                          <p className="text-xs font-semibold uppercase text-slate-500">Outline / FAQs</p>
+                          <p className="font-semibold text-slate-900">
+                            {(brief.outline ?? []).length} sections · {(brief.faq_questions ?? []).length} FAQs
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </TabsContent>
+              ) : (
+                <TabsContent>
+                  {instructions ? (
+                    <WriterInstructionsPanel instructions={instructions} />
+                  ) : (
+                    <p className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+                      Writer instructions have not been generated for this brief yet.
+                    </p>
+                  )}
+                </TabsContent>
+              )}
+            </Tabs>
+          </CardContent>
+        </Card>
+      </section>
+
+      {article ? (
+        <Dialog
+          open={isRegenerateDialogOpen}
+          onClose={() => setIsRegenerateDialogOpen(false)}
+          title="Regenerate article"
+          description="Generate a new version of this article from the brief. The current version stays in the history."
+        >
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="intent" value="regenerateArticle" />
+            <input type="hidden" name="previous_version" value={article.current_version} />
+            <label className="grid gap-1 text-sm font-semibold text-slate-700">
+              What should change?
+              <textarea
+                name="reason"
+                rows={4}
+                placeholder="e.g. The intro is too generic and the comparison table misses pricing."
+                className="rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal"
+              />
+            </label>
+            {articleBlockLabels.length > 0 ? (
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-semibold text-slate-700">Focus on sections (optional)</legend>
+                <p className="text-xs text-slate-500">
+                  The whole article is regenerated; selected sections are passed to the writer as the ones to rework.
+                </p>
+                <div className="max-h-64 space-y-1.5 overflow-y-auto rounded-xl border border-slate-200 bg-slate-50 p-3">
+                  {articleBlockLabels.map((label, index) => (
+                    <label key={`${label}-${index}`} className="flex items-center gap-2 text-sm text-slate-700">
+                      <input type="checkbox" name="target_block" value={label} className="h-4 w-4 accent-[#2f6f71]" />
+                      <span className="truncate">{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            ) : null}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsRegenerateDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isRegenerating}>
+                <Sparkles className="mr-2 h-3.5 w-3.5" />
+                Regenerate
+              </Button>
+            </div>
+          </Form>
+        </Dialog>
+      ) : null}
+
+      {article && historyOpen ? (
+        <section className="mx-auto w-full max-w-[1120px]">
+          <Card className="border border-slate-200">
+            <CardContent className="space-y-5 p-4 sm:p-6">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="font-display text-xl font-bold text-slate-900">Version history</h2>
+                <span className="text-xs text-slate-500">
+                  {article.current_version} {article.current_version === 1 ? "version" : "versions"}
+                </span>
+              </div>
+              {versions.length > 0 && missingVersionCount > 0 ? (
+                <p className="rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                  {missingVersionCount} {missingVersionCount === 1 ? "version" : "versions"} on this page could not be
+                  loaded.
+                </p>
+              ) : null}
+              {versions.length === 0 ? (
+                <p className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+                  Version history could not be loaded for this article.
+                </p>
+              ) : (
+                <ArticleVersionHistory
+                  versions={versions}
+                  currentVersion={article.current_version}
+                  selection={selection}
+                  hrefFor={(next) => buildVersionSearch(next, historyPage)}
+                  page={historyPage}
+                  pageCount={historyPageCount}
+                  pageHref={(page) => buildVersionSearch(selection, page)}
+                />
+              )}
+              {diffBase && diffTarget ? (
+                diffBase.version_number === diffTarget.version_number ? (
+                  <p className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+                    Pick two different versions to see a diff.
+                  </p>
+                ) : (
+                  <div className="border-t border-slate-200 pt-4">
+                    <ArticleVersionDiff base={diffBase} target={diffTarget} />
+                  </div>
+                )
+              ) : null}
+            </CardContent>
+          </Card>
+        </section>
+      ) : null}
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useRef } from "react";
+import { useMemo } from "react";
 import { motion } from "framer-motion";
 import {
   Form,
@@ -6,7 +6,6 @@ import {
   data,
   redirect,
   useActionData,
-  useFetcher,
   useLoaderData,
   useRevalidator,
 } from "react-router";
@@ -17,6 +16,8 @@ import { Badge } from "~/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Progress } from "~/components/ui/progress";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { RetryOriginNotice, RetryStepForm, RunLineageCard } from "~/components/features/step-retry";
+import { useRunProgress } from "~/hooks/use-run-progress";
 import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
 import {
@@ -31,8 +32,16 @@ import {
   isRunFailed,
   isRunPaused,
 } from "~/lib/dashboard";
-import { filterRunsByModule, isRunInModule, pickLatestRunForModule, sortPipelineRunsNewest } from "~/lib/pipeline-module";
-import { fetchJson } from "~/lib/pipeline-run.server";
+import {
+  buildRunLineage,
+  filterRunsByModule,
+  isRunInModule,
+  pickLatestRunForModule,
+  sortPipelineRunsNewest,
+  type RunLineage,
+} from "~/lib/pipeline-module";
+import { fetchJson, startRetryFromStep } from "~/lib/pipeline-run.server";
+import { buildRetryOriginSearch, parseRetryOrigin, type RetryOrigin } from "~/lib/pipeline-steps";
 import { cn } from "~/lib/utils";
 import type { components } from "~/types/api.generated";
 
@@ -54,6 +63,9 @@ type LoaderData = {
   articles: ContentArticleResponse[];
   rankedTopics: TopicResponse[];
   activePillarSlug: string | null;
+  lineage: RunLineage;
+  /** Fallback link back to the failed run while the API reports no parent for the retry. */
+  retryOrigin: RetryOrigin | null;
 };
 
 type ActionData = {
@@ -233,6 +245,8 @@ export async function loader({ request, params }: Route.LoaderArgs) {
       articles,
       rankedTopics: rankedTopicsResult.ok && rankedTopicsResult.data ? rankedTopicsResult.data : [],
       activePillarSlug,
+      lineage: buildRunLineage(rawRuns, selectedRun),
+      retryOrigin: selectedRun.parent_run_id ? null : parseRetryOrigin(requestUrl.searchParams),
     } satisfies LoaderData,
     {
       headers: await api.commit(),
@@ -250,10 +264,32 @@ export async function action({ request, params }: Route.ActionArgs) {
   const intent = String(formData.get("intent") ?? "");
   const api = new ApiClient(request);
 
-  if (intent !== "pausePipeline" && intent !== "resumePipeline") {
+  if (intent !== "pausePipeline" && intent !== "resumePipeline" && intent !== "retryFromStep") {
     return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
   }
 
+  if (intent === "retryFromStep") {
+    const runId = String(formData.get("run_id") ?? params.runId ?? "").trim();
+    const stepNumber = Number.parseInt(String(formData.get("step_number") ?? ""), 10);
+    if (!runId || !Number.isInteger(stepNumber) || stepNumber < 1) {
+      return data({ error: "Missing run or step to retry." } satisfies ActionData, { status: 400 });
+    }
+
+    const retry = await startRetryFromStep(api, projectId, runId, stepNumber, "content");
+    if (retry.unauthorized) return handleUnauthorized(api);
+    if (!retry.ok || !retry.data) {
+      return data(
+        { error: retry.error ?? "Unable to retry this step." } satisfies ActionData,
+        { status: retry.status, headers: await api.commit() },
+      );
+    }
+
+    const retrySearch = buildRetryOriginSearch({ runId, stepNumber });
+    return redirect(`/projects/${projectId}/creation/runs/${retry.data.id}${retrySearch}`, {
+      headers: await api.commit(),
+    });
+  }
+
   if (intent === "pausePipeline") {
     const runId = String(formData.get("run_id") ?? params.runId ?? "").trim();
     if (!runId) {
@@ -319,11 +355,15 @@ function StepTimelineItem({
   isFirstItem,
   isLastItem,
   animationIndex,
+  runId,
+  canRetry,
 }: {
   execution: StepExecutionResponse;
   isFirstItem: boolean;
   isLastItem: boolean;
   animationIndex: number;
+  runId: string;
+  canRetry: boolean;
 }) {
   return (
     <motion.div
@@ -377,6 +417,11 @@ function StepTimelineItem({
             {execution.error_message}
           </p>
         ) : null}
+        {canRetry && isRunFailed(execution.status) ? (
+          <div className="mt-2">
+            <RetryStepForm runId={runId} stepNumber={execution.step_number} />
+          </div>
+        ) : null}
       </div>
     </motion.div>
   );
@@ -520,41 +565,22 @@ export default function ProjectCreationRunRoute() {
     articles,
     rankedTopics,
     activePillarSlug,
+    lineage,
+    retryOrigin,
   } = useLoaderData<typeof loader>() as LoaderData;
   const actionData = useActionData<typeof action>() as ActionData | undefined;
   const revalidator = useRevalidator();
 
-  const progressFetcher = useFetcher<PipelineProgressResponse>();
-  const isProgressRequestInFlightRef = useRef(false);
-
-  const liveProgress = progressFetcher.data ?? progress;
+  const { progress: liveProgress } = useRunProgress({
+    projectId: project.id,
+    runId: selectedRun.id,
+    initialProgress: progress,
+    enabled: isRunActive(progress?.status ?? selectedRun.status),
+  });
   const effectiveStatus = liveProgress?.status ?? selectedRun.status;
   const stepExecutions = (liveProgress?.steps ?? selectedRun.step_executions ?? []) as StepExecutionResponse[];
   const articleGenerationCompleted = hasCompletedArticleGenerationStep(stepExecutions);
 
-  useEffect(() => {
-    isProgressRequestInFlightRef.current = progressFetcher.state !== "idle";
-  }, [progressFetcher.state]);
-
-  useEffect(() => {
-    if (!selectedRun.id) return;
-    if (!isRunActive(effectiveStatus)) return;
-
-    const poll = () => {
-      if (isProgressRequestInFlightRef.current) return;
-      isProgressRequestInFlightRef.current = true;
-      progressFetcher.load(`/projects/${project.id}/progress/${selectedRun.id}?ts=${Date.now()}`);
-    };
-
-    poll();
-    const interval = window.setInterval(poll, 5000);
-
-    return () => {
-      window.clearInterval(interval);
-      isProgressRequestInFlightRef.current = false;
-    };
-  }, [project.id, selectedRun.id, effectiveStatus]);
-
   const overallProgress = articleGenerationCompleted
     ? 100
     : Math.round(liveProgress?.overall_progress ?? calculateOverallProgress(stepExecutions));
@@ -718,6 +744,11 @@ export default function ProjectCreationRunRoute() {
         </Card>
       ) : null}
 
+      <RunLineageCard projectId={project.id} run={selectedRun} lineage={lineage} />
+      {retryOrigin ? (
+        <RetryOriginNotice origin={retryOrigin} runsPath={`/projects/${project.id}/creation/runs`} />
+      ) : null}
+
       {/* Step timeline */}
       <Card>
         <CardHeader>
@@ -736,6 +767,8 @@ export default function ProjectCreationRunRoute() {
                   isFirstItem={index === 0}
                   isLastItem={index === sortedStepExecutions.length - 1}
                   animationIndex={index}
+                  runId={selectedRun.id}
+                  canRetry={!isRunActive(effectiveStatus)}
                 />
               ))}
             </div>
@@ -1,12 +1,25 @@
-import { useEffect, useRef } from "react";
-import { Link, data, redirect, useFetcher, useLoaderData, useRevalidator } from "react-router";
-import { FileText, BookOpen, PenSquare, Sparkles } from "lucide-react";
+import { useState } from "react";
+import { Link, data, redirect, useLoaderData, useRevalidator, useSearchParams } from "react-router";
+import { FileText, FilePlus2, BookOpen, PenSquare, Plus, Sparkles } from "lucide-react";
 import type { Route } from "./+types/_dashboard.projects.$projectId.creation";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Progress } from "~/components/ui/progress";
+import { Select } from "~/components/ui/select";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { NewContentRunDialog } from "~/components/features/content-run-launcher";
+import { ExportLinks } from "~/components/features/data-export";
+import { useRunProgress } from "~/hooks/use-run-progress";
+import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
+import { BRIEF_STATUSES } from "~/lib/brief-form";
+import {
+  hasContentRunFormErrors,
+  parseContentRunFormValues,
+  toContentStartRequest,
+  validateContentRunForm,
+  type ContentRunFormValues,
+} from "~/lib/content-schedule";
 import {
   calculateOverallProgress,
   formatStatusLabel,
@@ -16,6 +29,14 @@ import {
 } from "~/lib/dashboard";
 import { filterRunsByModule, pickLatestRunForModule, sortPipelineRunsNewest } from "~/lib/pipeline-module";
 import { fetchJson } from "~/lib/pipeline-run.server";
+import {
+  collectPipelineSteps,
+  parseStepRangeValues,
+  toStepRangeRequest,
+  validateStepRangeOrder,
+  type PipelineStepOption,
+  type StepRangeValues,
+} from "~/lib/pipeline-steps";
 import type { components } from "~/types/api.generated";
 
 type ProjectResponse = components["schemas"]["ProjectResponse"];
@@ -26,6 +47,7 @@ type ContentBriefResponse = components["schemas"]["ContentBriefResponse"];
 type ContentArticleListResponse = components["schemas"]["ContentArticleListResponse"];
 type ContentArticleResponse = components["schemas"]["ContentArticleResponse"];
 type StepExecutionResponse = components["schemas"]["StepExecutionResponse"];
+type TopicResponse = components["schemas"]["TopicResponse"];
 
 type LoaderData = {
   project: ProjectResponse;
@@ -36,9 +58,20 @@ type LoaderData = {
   runPrimaryBriefIdByRunId: Record<string, string | null>;
   briefsById: Record<string, ContentBriefResponse>;
   briefTotal: number;
+  /** Status the Briefs card and its export are filtered to, or "all". */
+  briefStatus: string;
+  /** The offered statuses plus any others found on loaded briefs, since the API does not fix the set. */
+  briefStatusOptions: string[];
+  filteredBriefTotal: number;
   articleTotal: number;
   articlesCompleted: number;
   publishedBriefIds: Set<string>;
+  rankedTopics: TopicResponse[];
+  pipelineSteps: PipelineStepOption[];
+};
+
+type ActionData = {
+  error?: string;
 };
 
 const STEP_SUCCESS_STATUSES = new Set(["completed", "success", "succeeded", "done"]);
@@ -126,16 +159,32 @@ export async function loader({ request, params }: Route.LoaderArgs) {
     });
   }
 
-  const [briefsResult, articlesResult] = await Promise.all([
+  const briefStatus = (new URL(request.url).searchParams.get("brief_status") ?? "").trim() || "all";
+
+  const [briefsResult, articlesResult, rankedTopicsResult, briefStatusResult] = await Promise.all([
     fetchJson<ContentBriefListResponse>(api, `/content/${projectId}/briefs?page=1&page_size=100`),
     fetchJson<ContentArticleListResponse>(api, `/content/${projectId}/articles?page=1&page_size=100`),
+    fetchJson<TopicResponse[]>(api, `/topics/${projectId}/ranked?limit=50`),
+    // Only the total is needed; run and article mapping below always uses the unfiltered briefs.
+    briefStatus === "all"
+      ? Promise.resolve(null)
+      : fetchJson<ContentBriefListResponse>(
+          api,
+          `/content/${projectId}/briefs?page=1&page_size=1&status=${encodeURIComponent(briefStatus)}`,
+        ),
   ]);
 
-  if (briefsResult.unauthorized || articlesResult.unauthorized) {
+  if (
+    briefsResult.unauthorized ||
+    articlesResult.unauthorized ||
+    rankedTopicsResult.unauthorized ||
+    briefStatusResult?.unauthorized
+  ) {
     return handleUnauthorized(api);
   }
 
   const briefs = briefsResult.ok && briefsResult.data ? briefsResult.data.items ?? [] : [];
+  const briefTotal = briefsResult.ok && briefsResult.data ? briefsResult.data.total : 0;
   const articles = articlesResult.ok && articlesResult.data ? articlesResult.data.items ?? [] : [];
   const briefIdsWithArticles = new Set(articles.map((article) => article.brief_id));
   const briefsSortedNewestFirst = briefs.slice().sort((a, b) => {
@@ -220,10 +269,25 @@ export async function loader({ request, params }: Route.LoaderArgs) {
       runProgressById,
       runPrimaryBriefIdByRunId,
       briefsById,
-      briefTotal: briefsResult.ok && briefsResult.data ? briefsResult.data.total : 0,
+      briefTotal,
+      briefStatus,
+      briefStatusOptions: Array.from(
+        new Set([
+          ...BRIEF_STATUSES,
+          ...briefs.map((brief) => brief.status),
+          ...(briefStatus !== "all" ? [briefStatus] : []),
+        ])
+      ),
+      filteredBriefTotal: briefStatusResult
+        ? briefStatusResult.ok && briefStatusResult.data
+          ? briefStatusResult.data.total
+          : 0
+        : briefTotal,
       articleTotal: articles.length,
       articlesCompleted: countCompletedArticles(articles),
       publishedBriefIds,
+      rankedTopics: rankedTopicsResult.ok && rankedTopicsResult.data ? rankedTopicsResult.data : [],
+      pipelineSteps: collectPipelineSteps(contentRuns),
     } satisfies LoaderData,
     {
       headers: await api.commit(),
@@ -231,6 +295,62 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   );
 }
 
+export async function action({ request, params }: Route.ActionArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    return data({ error: "Missing project id." } satisfies ActionData, { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") ?? "");
+
+  if (intent !== "startContentRun") {
+    return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
+  }
+
+  let values: ContentRunFormValues | null = null;
+  try {
+    values = parseContentRunFormValues(JSON.parse(String(formData.get("config_json") ?? "")));
+  } catch {
+    values = null;
+  }
+  let stepRange: StepRangeValues | null = null;
+  try {
+    stepRange = parseStepRangeValues(JSON.parse(String(formData.get("step_range_json") ?? "null")));
+  } catch {
+    stepRange = null;
+  }
+  if (!values || hasContentRunFormErrors(validateContentRunForm(values)) || !stepRange || validateStepRangeOrder(stepRange)) {
+    return data({ error: "Check the run settings and try again." } satisfies ActionData, { status: 400 });
+  }
+
+  const startResponse = await api.fetch(`/pipeline/${projectId}/start`, {
+    method: "POST",
+    json: { ...toContentStartRequest(values), ...toStepRangeRequest(stepRange) },
+  });
+
+  if (startResponse.status === 401) return handleUnauthorized(api);
+
+  if (!startResponse.ok) {
+    const apiMessage = await readApiErrorMessage(startResponse);
+    return data(
+      {
+        error:
+          apiMessage ??
+          (startResponse.status === 409
+            ? "A content run is already in progress for this project."
+            : "Unable to start content pipeline."),
+      } satisfies ActionData,
+      { status: startResponse.status, headers: await api.commit() }
+    );
+  }
+
+  return redirect(`/projects/${projectId}/creation`, {
+    headers: await api.commit(),
+  });
+}
+
 export default function ProjectCreationHubRoute() {
   const {
     project,
@@ -241,41 +361,28 @@ export default function ProjectCreationHubRoute() {
     runPrimaryBriefIdByRunId,
     briefsById,
     briefTotal,
+    briefStatus,
+    briefStatusOptions,
+    filteredBriefTotal,
     articleTotal,
     articlesCompleted,
     publishedBriefIds,
+    rankedTopics,
+    pipelineSteps,
   } = useLoaderData<typeof loader>() as LoaderData;
   const revalidator = useRevalidator();
-
-  const progressFetcher = useFetcher<PipelineProgressResponse>();
-  const isProgressRequestInFlightRef = useRef(false);
-
-  const liveProgress = progressFetcher.data ?? latestRunProgress;
+  const [, setSearchParams] = useSearchParams();
+  const briefExportSearchParams = new URLSearchParams(briefStatus === "all" ? {} : { status: briefStatus });
+  const [isRunDialogOpen, setIsRunDialogOpen] = useState(false);
+
+  const { progress: liveProgress } = useRunProgress({
+    projectId: project.id,
+    runId: latestRun?.id,
+    initialProgress: latestRunProgress,
+    enabled: isRunActive(latestRunProgress?.status ?? latestRun?.status),
+  });
   const effectiveStatus = liveProgress?.status ?? latestRun?.status ?? null;
 
-  useEffect(() => {
-    isProgressRequestInFlightRef.current = progressFetcher.state !== "idle";
-  }, [progressFetcher.state]);
-
-  useEffect(() => {
-    if (!latestRun?.id) return;
-    if (!isRunActive(effectiveStatus)) return;
-
-    const poll = () => {
-      if (isProgressRequestInFlightRef.current) return;
-      isProgressRequestInFlightRef.current = true;
-      progressFetcher.load(`/projects/${project.id}/progress/${latestRun.id}?ts=${Date.now()}`);
-    };
-
-    poll();
-    const interval = window.setInterval(poll, 5000);
-
-    return () => {
-      window.clearInterval(interval);
-      isProgressRequestInFlightRef.current = false;
-    };
-  }, [project.id, latestRun?.id, effectiveStatus]);
-
   const articlesInProgress = articleTotal - articlesCompleted;
   const contentDetailsHref = latestRun ? `/projects/${project.id}/creation/runs/${latestRun.id}` : `/projects/${project.id}/creation`;
 
@@ -398,6 +505,16 @@ export default function ProjectCreationHubRoute() {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <Button onClick={() => setIsRunDialogOpen(true)} disabled={isRunActive(effectiveStatus)}>
+              <Plus className="mr-1.5 h-4 w-4" />
+              New content run
+            </Button>
+            <Link to={`/projects/${project.id}/creation/briefs/new`}>
+              <Button variant="outline">
+                <FilePlus2 className="mr-1.5 h-4 w-4" />
+                New brief
+              </Button>
+            </Link>
             <Link to={`/projects/${project.id}/discovery`}>
               <Button variant="outline">Discovery phase</Button>
             </Link>
@@ -450,9 +567,35 @@ export default function ProjectCreationHubRoute() {
                     <p className="font-display text-lg font-bold text-slate-900">Briefs</p>
                   </div>
                 </div>
-                <p className="mt-3 font-display text-3xl font-bold text-slate-900">{briefTotal}</p>
-                <p className="text-sm text-slate-500">total briefs generated</p>
+                <p className="mt-3 font-display text-3xl font-bold text-slate-900">{filteredBriefTotal}</p>
+                <p className="text-sm text-slate-500">
+                  {briefStatus === "all" ? "total briefs generated" : `${formatStatusLabel(briefStatus)} briefs`}
+                </p>
                 <p className="mt-1 text-xs text-slate-400">Open briefs from the Articles card</p>
+                <Select
+                  aria-label="Brief status"
+                  value={briefStatus}
+                  onChange={(event) =>
+                    setSearchParams(event.target.value === "all" ? {} : { brief_status: event.target.value }, {
+                      preventScrollReset: true,
+                    })
+                  }
+                  className="mt-3 h-9"
+                >
+                  <option value="all">All statuses</option>
+                  {briefStatusOptions.map((status) => (
+                    <option key={status} value={status}>
+                      {formatStatusLabel(status)}
+                    </option>
+                  ))}
+                </Select>
+                {filteredBriefTotal > 0 ? (
+                  <ExportLinks
+                    className="mt-3"
+                    path={`/projects/${project.id}/exports/briefs`}
+                    searchParams={briefExportSearchParams}
+                  />
+                ) : null}
               </div>
             </div>
 
@@ -582,6 +725,15 @@ export default function ProjectCreationHubRoute() {
           </Card>
         ) : null
       ) : null}
+
+      <NewContentRunDialog
+        projectId={project.id}
+        rankedTopics={rankedTopics}
+        defaultPostsPerWeek={project.posts_per_week}
+        steps={pipelineSteps}
+        open={isRunDialogOpen}
+        onClose={() => setIsRunDialogOpen(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,531 @@
+import { Link, data, redirect, useFetcher, useLoaderData } from "react-router";
+import type { Route } from "./+types/_dashboard.projects.$projectId.discovery.cannibalization";
+import { Badge } from "~/components/ui/badge";
+import { Button, buttonVariants } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
+import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { readApiErrorMessage } from "~/lib/api-error";
+import { ApiClient } from "~/lib/api.server";
+import { formatStepName } from "~/lib/dashboard";
+import { fetchAllPages, fetchJson, mapInBatches } from "~/lib/pipeline-run.server";
+import {
+  buildTopicOverlapPairs,
+  groupTopicOverlaps,
+  normalizeCannibalizationRisk,
+  readCannibalizationRiskLevel,
+  type CannibalizationRiskLevel,
+  type TopicOverlapGroup,
+  type TopicOverlapPair,
+} from "~/lib/topic-cannibalization";
+import type { components } from "~/types/api.generated";
+
+type ProjectResponse = components["schemas"]["ProjectResponse"];
+type KeywordResponse = components["schemas"]["KeywordResponse"];
+type KeywordUpdate = components["schemas"]["KeywordUpdate"];
+type TopicResponse = components["schemas"]["TopicResponse"];
+type TopicListResponse = components["schemas"]["TopicListResponse"];
+type TopicDetailResponse = components["schemas"]["TopicDetailResponse"];
+type TopicMergeRequest = components["schemas"]["TopicMergeRequest"];
+
+type LoaderData = {
+  project: ProjectResponse;
+  groups: TopicOverlapGroup[];
+  page: number;
+  pageCount: number;
+  reviewedTopicCount: number;
+  totalTopicCount: number;
+  /** Topics whose detail or keywords failed to load, so their overlaps may be missing. */
+  unloadedTopicCount: number;
+};
+
+type ActionData = {
+  error?: string;
+  mergedTopic?: TopicResponse;
+  excludedCount?: number;
+};
+
+const PAGE_SIZE = 200;
+/** Overlap data is only on topic detail, so each checked topic costs a request; topics are checked a page at a time. */
+const REVIEW_PAGE_SIZE = 25;
+const VISIBLE_SHARED_KEYWORDS = 25;
+
+const RISK_BADGE_VARIANTS: Record<CannibalizationRiskLevel, "danger" | "warning" | "success" | "muted"> = {
+  high: "danger",
+  medium: "warning",
+  low: "success",
+  unknown: "muted",
+};
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+function readReviewPage(url: URL) {
+  const page = Number.parseInt(url.searchParams.get("page") ?? "", 10);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+function formatRisk(risk: number | null) {
+  return risk === null ? "Unscored" : `${Math.round(risk * 100)}% risk`;
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    throw new Response("Missing project id.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+
+  const projectResult = await fetchJson<ProjectResponse>(api, `/projects/${projectId}`);
+  if (projectResult.unauthorized) return handleUnauthorized(api);
+  if (!projectResult.ok || !projectResult.data) {
+    throw new Response("Failed to load project.", { status: projectResult.status });
+  }
+
+  const page = readReviewPage(new URL(request.url));
+  const topicsResult = await fetchJson<TopicListResponse>(
+    api,
+    `/topics/${projectId}?page=${page}&page_size=${REVIEW_PAGE_SIZE}&eligibility=all`
+  );
+  if (topicsResult.unauthorized) return handleUnauthorized(api);
+  if (!topicsResult.ok || !topicsResult.data) {
+    throw new Response("Failed to load topics.", { status: topicsResult.status });
+  }
+
+  const reviewedTopics = topicsResult.data.items;
+  const detailResults = await mapInBatches(reviewedTopics, (topic) =>
+    fetchJson<TopicDetailResponse>(api, `/topics/${projectId}/${topic.id}`)
+  );
+  if (detailResults.some((result) => result.unauthorized)) return handleUnauthorized(api);
+
+  const details = detailResults.flatMap((result) => (result.ok && result.data ? [result.data] : []));
+  const flaggedTopics = details.filter((topic) => (topic.overlapping_topic_ids ?? []).length > 0);
+
+  // Overlaps can point at topics on other pages; only those counterparts are loaded on top of the page.
+  const pageTopicIds = new Set(details.map((topic) => topic.id));
+  const counterpartIds = Array.from(
+    new Set(flaggedTopics.flatMap((topic) => topic.overlapping_topic_ids ?? []).filter((id) => !pageTopicIds.has(id)))
+  );
+  const counterpartResults = await mapInBatches(counterpartIds, (topicId) =>
+    fetchJson<TopicDetailResponse>(api, `/topics/${projectId}/${topicId}`)
+  );
+  if (counterpartResults.some((result) => result.unauthorized)) return handleUnauthorized(api);
+
+  const counterparts = counterpartResults.flatMap((result) => (result.ok && result.data ? [result.data] : []));
+  const overlappingIds = new Set(flaggedTopics.flatMap((topic) => [topic.id, ...(topic.overlapping_topic_ids ?? [])]));
+  const involvedTopics = [...details, ...counterparts].filter((topic) => overlappingIds.has(topic.id));
+
+  const keywordResults = await mapInBatches(involvedTopics, (topic) =>
+    fetchAllPages<KeywordResponse>(
+      api,
+      (page) => `/keywords/${projectId}?page=${page}&page_size=${PAGE_SIZE}&topic_id=${topic.id}`
+    )
+  );
+  if (keywordResults.some((result) => result.unauthorized)) return handleUnauthorized(api);
+
+  // Keywords that were already excluded no longer compete, so they are left out of the shared lists.
+  const keywordsByTopic = new Map(
+    involvedTopics.map((topic, index) => [
+      topic.id,
+      (keywordResults[index].data ?? []).filter((keyword) => keyword.status !== "excluded"),
+    ])
+  );
+  const unloadedTopicCount =
+    detailResults.filter((result) => !result.ok || !result.data).length +
+    counterpartResults.filter((result) => !result.ok || !result.data).length +
+    keywordResults.filter((result) => !result.ok || !result.data).length;
+
+  return data(
+    {
+      project: projectResult.data,
+      groups: groupTopicOverlaps(buildTopicOverlapPairs(involvedTopics, keywordsByTopic)),
+      page,
+      pageCount: Math.max(1, Math.ceil(topicsResult.data.total / REVIEW_PAGE_SIZE)),
+      reviewedTopicCount: reviewedTopics.length,
+      totalTopicCount: topicsResult.data.total,
+      unloadedTopicCount,
+    } satisfies LoaderData,
+    {
+      headers: await api.commit(),
+    }
+  );
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    return data({ error: "Missing project id." } satisfies ActionData, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") ?? "");
+  if (intent !== "mergeTopics" && intent !== "excludeKeywords") {
+    return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+
+  if (intent === "mergeTopics") {
+    const sourceTopicIds = Array.from(
+      new Set(
+        formData
+          .getAll("source_topic_id")
+          .map((value) => String(value).trim())
+          .filter(Boolean)
+      )
+    );
+    const targetName = String(formData.get("target_name") ?? "").trim();
+    if (sourceTopicIds.length < 2 || !targetName) {
+      return data({ error: "Two topics and a target name are required to merge." } satisfies ActionData, {
+        status: 400,
+      });
+    }
+
+    const response = await api.fetch(`/topics/${projectId}/merge`, {
+      method: "POST",
+      json: { source_topic_ids: sourceTopicIds, target_name: targetName } satisfies TopicMergeRequest,
+    });
+
+    if (response.status === 401) return handleUnauthorized(api);
+
+    if (!response.ok) {
+      const apiMessage = await readApiErrorMessage(response);
+      return data(
+        { error: apiMessage ?? "Unable to merge topics." } satisfies ActionData,
+        { status: response.status, headers: await api.commit() }
+      );
+    }
+
+    const mergedTopic = (await response.json()) as TopicResponse;
+    return data({ mergedTopic } satisfies ActionData, {
+      headers: await api.commit(),
+    });
+  }
+
+  const keywordIds = Array.from(
+    new Set(
+      formData
+        .getAll("keyword_id")
+        .map((value) => String(value).trim())
+        .filter(Boolean)
+    )
+  );
+  if (keywordIds.length === 0) {
+    return data({ error: "No shared keywords to exclude." } satisfies ActionData, { status: 400 });
+  }
+
+  const competingTopicName = String(formData.get("competing_topic_name") ?? "").trim();
+  // The bulk endpoint does not accept an exclusion reason, so keywords are excluded one by one.
+  const payload: KeywordUpdate = {
+    status: "excluded",
+    exclusion_reason: competingTopicName ? `Cannibalizes "${competingTopicName}"` : "Cannibalization",
+  };
+  const responses = await mapInBatches(keywordIds, (keywordId) =>
+    api.fetch(`/keywords/${projectId}/${keywordId}`, {
+      method: "PUT",
+      json: payload,
+    })
+  );
+
+  if (responses.some((response) => response.status === 401)) return handleUnauthorized(api);
+
+  const failedCount = responses.filter((response) => !response.ok).length;
+  return data(
+    {
+      excludedCount: keywordIds.length - failedCount,
+      error: failedCount > 0 ? `${failedCount} of ${keywordIds.length} keywords could not be excluded.` : undefined,
+    } satisfies ActionData,
+    { status: failedCount === keywordIds.length ? 422 : 200, headers: await api.commit() }
+  );
+}
+
+function RiskBadge({ risk }: { risk: number | null }) {
+  return <Badge variant={RISK_BADGE_VARIANTS[readCannibalizationRiskLevel(risk)]}>{formatRisk(risk)}</Badge>;
+}
+
+function TopicSummary({ projectId, topic }: { projectId: string; topic: TopicDetailResponse }) {
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-3 text-sm">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <Link
+          to={`/projects/${projectId}/discovery/topics/${topic.id}`}
+          className="font-semibold text-slate-900 hover:text-[#2f6f71] hover:underline"
+        >
+          {topic.name}
+        </Link>
+        <RiskBadge risk={normalizeCannibalizationRisk(topic.cannibalization_risk)} />
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        {topic.keyword_count} keywords • Volume {topic.total_volume?.toLocaleString() ?? "-"}
+        {topic.recommended_url_type ? ` • ${formatStepName(topic.recommended_url_type)} URL` : ""}
+      </p>
+      {topic.target_money_pages && topic.target_money_pages.length > 0 ? (
+        <div className="mt-2 space-y-1">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Target money pages</p>
+          <ul className="space-y-0.5 text-xs text-slate-700">
+            {topic.target_money_pages.map((page) => (
+              <li key={page} className="truncate">
+                {page}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function OverlapPairCard({ pair }: { pair: TopicOverlapPair }) {
+  const fetcher = useFetcher<ActionData>();
+  const isSubmitting = fetcher.state !== "idle";
+  const result = fetcher.state === "idle" ? fetcher.data : undefined;
+
+  const topicKeywordIds = Array.from(new Set(pair.sharedKeywords.map((match) => match.keyword.id)));
+  const counterpartKeywordIds = Array.from(new Set(pair.sharedKeywords.map((match) => match.counterpart.id)));
+  const hiddenCount = pair.sharedKeywords.length - VISIBLE_SHARED_KEYWORDS;
+
+  const excludeFrom = (
+    topic: TopicDetailResponse,
+    keywordIds: string[],
+    competingTopic: TopicDetailResponse
+  ) => (
+    <fetcher.Form method="post">
+      <input type="hidden" name="intent" value="excludeKeywords" />
+      <input type="hidden" name="competing_topic_name" value={competingTopic.name} />
+      {keywordIds.map((keywordId) => (
+        <input key={keywordId} type="hidden" name="keyword_id" value={keywordId} />
+      ))}
+      <Button type="submit" variant="outline" size="sm" disabled={isSubmitting || keywordIds.length === 0}>
+        Exclude {keywordIds.length} from “{topic.name}”
+      </Button>
+    </fetcher.Form>
+  );
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-200 bg-slate-50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="font-semibold text-slate-900">
+            {pair.topic.name} <span className="text-slate-400">↔</span> {pair.counterpart.name}
+          </p>
+          <p className="text-xs text-slate-500">{pair.sharedKeywords.length} shared keywords</p>
+        </div>
+        <RiskBadge risk={pair.risk} />
+      </div>
+
+      {pair.sharedKeywords.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Flagged as overlapping, but no near-duplicate active keywords were found between the two topics.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{pair.topic.name}</TableHead>
+                <TableHead>{pair.counterpart.name}</TableHead>
+                <TableHead className="text-right">Word overlap</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pair.sharedKeywords.slice(0, VISIBLE_SHARED_KEYWORDS).map((match) => (
+                <TableRow key={`${match.keyword.id}:${match.counterpart.id}`}>
+                  <TableCell>
+                    {match.keyword.keyword}
+                    <span className="ml-2 text-xs text-slate-500">{match.keyword.search_volume ?? "-"}</span>
+                  </TableCell>
+                  <TableCell>
+                    {match.counterpart.keyword}
+                    <span className="ml-2 text-xs text-slate-500">{match.counterpart.search_volume ?? "-"}</span>
+                  </TableCell>
+                  <TableCell className="text-right">{Math.round(match.similarity * 100)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {hiddenCount > 0 ? (
+            <p className="border-t border-slate-200 px-3 py-2 text-xs text-slate-500">
+              And {hiddenCount} more. The exclude actions cover all of them.
+            </p>
+          ) : null}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="mergeTopics" />
+          <input type="hidden" name="source_topic_id" value={pair.topic.id} />
+          <input type="hidden" name="source_topic_id" value={pair.counterpart.id} />
+          <input type="hidden" name="target_name" value={pair.topic.name} />
+          <Button type="submit" size="sm" disabled={isSubmitting}>
+            Merge into “{pair.topic.name}”
+          </Button>
+        </fetcher.Form>
+        {excludeFrom(pair.counterpart, counterpartKeywordIds, pair.topic)}
+        {excludeFrom(pair.topic, topicKeywordIds, pair.counterpart)}
+      </div>
+
+      {result?.error ? <p className="text-sm font-semibold text-rose-700">{result.error}</p> : null}
+      {result?.mergedTopic ? (
+        <p className="text-sm font-semibold text-emerald-700">Merged into “{result.mergedTopic.name}”.</p>
+      ) : null}
+      {result?.excludedCount && !result.error ? (
+        <p className="text-sm font-semibold text-emerald-700">Excluded {result.excludedCount} keywords.</p>
+      ) : null}
+    </div>
+  );
+}
+
+export default function DiscoveryCannibalizationRoute() {
+  const { project, groups, page, pageCount, reviewedTopicCount, totalTopicCount, unloadedTopicCount } =
+    useLoaderData<typeof loader>() as LoaderData;
+  const firstReviewedTopic = (page - 1) * REVIEW_PAGE_SIZE + 1;
+  const lastReviewedTopic = firstReviewedTopic + reviewedTopicCount - 1;
+
+  const pairCount = groups.reduce((sum, group) => sum + group.pairs.length, 0);
+  const highRiskPairCount = groups.reduce(
+    (sum, group) => sum + group.pairs.filter((pair) => readCannibalizationRiskLevel(pair.risk) === "high").length,
+    0
+  );
+  const sharedKeywordCount = groups.reduce(
+    (sum, group) => sum + group.pairs.reduce((pairSum, pair) => pairSum + pair.sharedKeywords.length, 0),
+    0
+  );
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-gradient-to-r from-white via-[#f0f6f5] to-[#ecf2fb] p-6 shadow-[0_20px_45px_-30px_rgba(15,23,42,0.55)]">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[#2f6f71]">Cannibalization</p>
+            <h1 className="mt-1 font-display text-3xl font-bold text-slate-900">{project.name}</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              Topics competing for the same searches. Merge them or exclude the duplicate keywords before briefs are
+              written.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Link to={`/projects/${project.id}/discovery/topics`}>
+              <Button variant="outline">Back to topics</Button>
+            </Link>
+          </div>
+        </div>
+      </section>
+
+      <div className="grid gap-2 text-xs text-slate-600 sm:grid-cols-4">
+        <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+          <p className="font-semibold text-slate-900">Overlap groups</p>
+          <p>{groups.length}</p>
+        </div>
+        <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+          <p className="font-semibold text-slate-900">Overlapping pairs</p>
+          <p>{pairCount}</p>
+        </div>
+        <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+          <p className="font-semibold text-slate-900">High-risk pairs</p>
+          <p>{highRiskPairCount}</p>
+        </div>
+        <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+          <p className="font-semibold text-slate-900">Shared keywords</p>
+          <p>{sharedKeywordCount}</p>
+        </div>
+      </div>
+
+      {totalTopicCount > REVIEW_PAGE_SIZE ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+          <p>
+            {reviewedTopicCount > 0
+              ? `Checking topics ${firstReviewedTopic}–${lastReviewedTopic} of ${totalTopicCount} for overlaps.`
+              : `No topics on this page. There are ${totalTopicCount} topics in total.`}
+          </p>
+          <div className="flex items-center gap-2">
+            {page > 1 ? (
+              <Link to={`?page=${page - 1}`} className={buttonVariants({ variant: "outline", size: "sm" })}>
+                Previous topics
+              </Link>
+            ) : null}
+            {page < pageCount ? (
+              <Link to={`?page=${page + 1}`} className={buttonVariants({ variant: "outline", size: "sm" })}>
+                Next topics
+              </Link>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {unloadedTopicCount > 0 ? (
+        <p className="rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          {unloadedTopicCount} {unloadedTopicCount === 1 ? "topic" : "topics"} could not be loaded, so overlaps involving
+          them may be missing. Reload the page to check them again.
+        </p>
+      ) : null}
+
+      {groups.length === 0 ? (
+        <Card>
+          <CardContent className="pt-5">
+            <p className="text-sm text-slate-600">
+              {unloadedTopicCount > 0
+                ? "No overlapping topics found among the topics that loaded."
+                : pageCount > 1
+                  ? "No overlapping topics found among the topics on this page."
+                  : "No overlapping topics found. Nothing is competing right now."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group, index) => (
+          <Card key={group.key}>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="space-y-1.5">
+                  <CardTitle>
+                    Group {index + 1}: {group.topics.length} topics
+                  </CardTitle>
+                  <CardDescription>
+                    Merging keeps the higher-volume topic's name. Excluding marks the duplicates in one topic as
+                    excluded.
+                  </CardDescription>
+                </div>
+                <RiskBadge risk={group.risk} />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+                {group.topics.map((topic) => (
+                  <TopicSummary key={topic.id} projectId={project.id} topic={topic} />
+                ))}
+              </div>
+              {group.pairs.map((pair) => (
+                <OverlapPairCard key={pair.key} pair={pair} />
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error, params }: Route.ErrorBoundaryProps) {
+  const projectId = params.projectId;
+  const safeHref = projectId ? `/projects/${encodeURIComponent(projectId)}/discovery/topics` : "/project";
+
+  return (
+    <RouteErrorBoundaryCard
+      error={error}
+      variant="panel"
+      title="Cannibalization report unavailable"
+      description="Topic overlaps could not be loaded for this project."
+      safeHref={safeHref}
+      safeLabel={projectId ? "Back to topics" : "Back to dashboard"}
+      retryLabel="Retry cannibalization report"
+      showStatus
+    />
+  );
+}
@@ -0,0 +1,541 @@
+import { Link, data, redirect, useLoaderData, useSearchParams } from "react-router";
+import { ArrowLeftRight } from "lucide-react";
+import type { Route } from "./+types/_dashboard.projects.$projectId.discovery.compare";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Select } from "~/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
+import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { ApiClient } from "~/lib/api.server";
+import { formatDateTime, formatStatusLabel, getStatusBadgeClass, groupExecutionsIntoIterations } from "~/lib/dashboard";
+import {
+  compareRejectionReasons,
+  diffEligibleTopics,
+  formatComparisonTarget,
+  formatComparisonTargets,
+  isSameComparisonTarget,
+  listSnapshotIterations,
+  parseComparisonTargets,
+  selectTargetSnapshots,
+  summarizeSnapshots,
+  type ComparisonTarget,
+  type RejectionReasonComparison,
+  type SnapshotSummary,
+  type TopicChange,
+  type TopicChanges,
+} from "~/lib/discovery-comparison";
+import { filterRunsByModule, isRunInModule } from "~/lib/pipeline-module";
+import { fetchJson } from "~/lib/pipeline-run.server";
+import { cn } from "~/lib/utils";
+import type { components } from "~/types/api.generated";
+
+type ProjectResponse = components["schemas"]["ProjectResponse"];
+type PipelineRunResponse = components["schemas"]["PipelineRunResponse"];
+type DiscoveryTopicSnapshotResponse = components["schemas"]["DiscoveryTopicSnapshotResponse"];
+
+type ComparisonSide = {
+  target: ComparisonTarget;
+  label: string;
+  run: PipelineRunResponse;
+  summary: SnapshotSummary;
+};
+
+type RunOptionGroup = {
+  runId: string;
+  label: string;
+  iterationCount: number;
+};
+
+type LoaderData = {
+  project: ProjectResponse;
+  runOptions: RunOptionGroup[];
+  baseline: ComparisonSide | null;
+  comparison: ComparisonSide | null;
+  rejectionReasons: RejectionReasonComparison[];
+  topicChanges: TopicChanges;
+};
+
+// Wider than the hub's recent-runs window so older strategies stay comparable.
+const COMPARABLE_RUN_LIMIT = 25;
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+function countRunIterations(run: PipelineRunResponse) {
+  return groupExecutionsIntoIterations(run.step_executions ?? []).length;
+}
+
+function formatRunLabel(run: PipelineRunResponse) {
+  return `Run ${run.id.slice(0, 8)} · ${formatDateTime(run.started_at ?? run.created_at)}`;
+}
+
+function formatTargetLabel(run: PipelineRunResponse, target: ComparisonTarget) {
+  const runLabel = formatRunLabel(run);
+  return target.iterationIndex === null ? runLabel : `${runLabel} · Iteration ${target.iterationIndex + 1}`;
+}
+
+/** Newest two discovery runs, or the last two iterations when the project has only one looping run. */
+function pickDefaultTargets(discoveryRuns: PipelineRunResponse[]): ComparisonTarget[] {
+  if (discoveryRuns.length >= 2) {
+    return [
+      { runId: discoveryRuns[1]!.id, iterationIndex: null },
+      { runId: discoveryRuns[0]!.id, iterationIndex: null },
+    ];
+  }
+
+  const onlyRun = discoveryRuns[0];
+  const iterationCount = onlyRun ? countRunIterations(onlyRun) : 0;
+  if (!onlyRun || iterationCount < 2) return [];
+  return [
+    { runId: onlyRun.id, iterationIndex: iterationCount - 2 },
+    { runId: onlyRun.id, iterationIndex: iterationCount - 1 },
+  ];
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    throw new Response("Missing project id.", { status: 400 });
+  }
+
+  const url = new URL(request.url);
+  const api = new ApiClient(request);
+
+  const projectResult = await fetchJson<ProjectResponse>(api, `/projects/${projectId}`);
+  if (projectResult.unauthorized) return handleUnauthorized(api);
+  if (!projectResult.ok || !projectResult.data) {
+    throw new Response("Failed to load project.", { status: projectResult.status });
+  }
+
+  const runsResult = await fetchJson<PipelineRunResponse[]>(
+    api,
+    `/pipeline/${projectId}/runs?limit=${COMPARABLE_RUN_LIMIT}`
+  );
+  if (runsResult.unauthorized) return handleUnauthorized(api);
+
+  const discoveryRuns = filterRunsByModule(runsResult.ok && runsResult.data ? runsResult.data : [], "discovery");
+  const runOptions = discoveryRuns.map((run) => ({
+    runId: run.id,
+    label: formatRunLabel(run),
+    iterationCount: countRunIterations(run),
+  }));
+
+  const requestedTargets = parseComparisonTargets(url.searchParams.get("runs")).slice(0, 2);
+  if (requestedTargets.length < 2) {
+    const defaults = pickDefaultTargets(discoveryRuns);
+    if (defaults.length === 2) {
+      url.searchParams.set("runs", formatComparisonTargets(defaults));
+      return redirect(`${url.pathname}${url.search}`, { headers: await api.commit() });
+    }
+
+    return data(
+      {
+        project: projectResult.data,
+        runOptions,
+        baseline: null,
+        comparison: null,
+        rejectionReasons: [],
+        topicChanges: { added: [], dropped: [] },
+      } satisfies LoaderData,
+      { headers: await api.commit() }
+    );
+  }
+
+  const runIds = Array.from(new Set(requestedTargets.map((target) => target.runId)));
+  const loaded = await Promise.all(
+    runIds.map(async (runId) => {
+      const [runResult, snapshotsResult] = await Promise.all([
+        fetchJson<PipelineRunResponse>(api, `/pipeline/${projectId}/runs/${runId}`),
+        fetchJson<DiscoveryTopicSnapshotResponse[]>(api, `/pipeline/${projectId}/runs/${runId}/discovery-snapshots`),
+      ]);
+      return { runId, runResult, snapshotsResult };
+    })
+  );
+
+  const runsById = new Map<string, { run: PipelineRunResponse; snapshots: DiscoveryTopicSnapshotResponse[] }>();
+  for (const { runId, runResult, snapshotsResult } of loaded) {
+    if (runResult.unauthorized || snapshotsResult.unauthorized) return handleUnauthorized(api);
+    if (!runResult.ok || !runResult.data) {
+      throw new Response(`Run ${runId.slice(0, 8)} was not found.`, { status: runResult.status });
+    }
+    if (!isRunInModule(runResult.data, "discovery")) {
+      throw new Response("Only discovery runs can be compared.", { status: 409 });
+    }
+    // An empty topic list would read as every topic being added or dropped, so a failed load stops the comparison.
+    if (!snapshotsResult.ok || !snapshotsResult.data) {
+      throw new Response(`Failed to load discovery topics for run ${runId.slice(0, 8)}.`, {
+        status: snapshotsResult.status,
+      });
+    }
+    runsById.set(runId, { run: runResult.data, snapshots: snapshotsResult.data });
+  }
+
+  const sides = requestedTargets.map((target) => {
+    const { run, snapshots } = runsById.get(target.runId)!;
+    if (target.iterationIndex !== null) {
+      const iterationCount = Math.max(countRunIterations(run), listSnapshotIterations(snapshots).length);
+      if (target.iterationIndex >= iterationCount) {
+        throw new Response(`Iteration ${target.iterationIndex + 1} was not found in run ${run.id.slice(0, 8)}.`, {
+          status: 404,
+        });
+      }
+    }
+    const selected = selectTargetSnapshots(snapshots, target.iterationIndex);
+    return {
+      side: { target, label: formatTargetLabel(run, target), run, summary: summarizeSnapshots(selected) },
+      selected,
+    };
+  });
+
+  const [baseline, comparison] = sides as [(typeof sides)[number], (typeof sides)[number]];
+
+  return data(
+    {
+      project: projectResult.data,
+      runOptions,
+      baseline: baseline.side,
+      comparison: comparison.side,
+      rejectionReasons: compareRejectionReasons(baseline.side.summary, comparison.side.summary),
+      topicChanges: diffEligibleTopics(baseline.selected, comparison.selected),
+    } satisfies LoaderData,
+    {
+      headers: await api.commit(),
+    }
+  );
+}
+
+function formatDelta(value: number, suffix = "") {
+  if (value === 0) return `±0${suffix}`;
+  return `${value > 0 ? "+" : "−"}${Math.abs(value)}${suffix}`;
+}
+
+/** Green when the change moves in the desired direction, red when it moves against it. */
+function deltaClass(value: number, higherIsBetter: boolean) {
+  if (value === 0) return "text-slate-500";
+  return value > 0 === higherIsBetter ? "text-emerald-700" : "text-rose-700";
+}
+
+function TargetSelect({
+  id,
+  label,
+  value,
+  runOptions,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  runOptions: RunOptionGroup[];
+  onChange: (value: string) => void;
+}) {
+  // A run older than the listed window can still be compared through the URL, so keep it selectable.
+  const isListedRun = runOptions.some((option) => value === option.runId || value.startsWith(`${option.runId}:`));
+
+  return (
+    <div className="space-y-1.5">
+      <label htmlFor={id} className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+      </label>
+      <Select id={id} value={value} onChange={(event) => onChange(event.target.value)}>
+        {!isListedRun && value ? <option value={value}>Run {value.slice(0, 8)}</option> : null}
+        {runOptions.map((option) => (
+          <optgroup key={option.runId} label={option.label}>
+            <option value={option.runId}>Whole run</option>
+            {option.iterationCount > 1
+              ? Array.from({ length: option.iterationCount }, (_, index) => (
+                  <option key={index} value={formatComparisonTarget({ runId: option.runId, iterationIndex: index })}>
+                    Iteration {index + 1}
+                  </option>
+                ))
+              : null}
+          </optgroup>
+        ))}
+      </Select>
+    </div>
+  );
+}
+
+function SummaryCard({
+  title,
+  side,
+  projectId,
+  baselineSummary,
+}: {
+  title: string;
+  side: ComparisonSide;
+  projectId: string;
+  baselineSummary?: SnapshotSummary;
+}) {
+  const { summary } = side;
+  const metrics = [
+    { label: "Eligible", value: summary.eligible, higherIsBetter: true },
+    { label: "Rejected", value: summary.rejected, higherIsBetter: false },
+    { label: "Evaluated", value: summary.total, higherIsBetter: true },
+  ];
+  const baselineValues = baselineSummary
+    ? { Eligible: baselineSummary.eligible, Rejected: baselineSummary.rejected, Evaluated: baselineSummary.total }
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[#2f6f71]">{title}</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle className="text-lg">{side.label}</CardTitle>
+          <span className={`inline-flex rounded-full border px-2.5 py-1 text-[11px] font-semibold ${getStatusBadgeClass(side.run.status)}`}>
+            {formatStatusLabel(side.run.status)}
+          </span>
+        </div>
+        <CardDescription>
+          <Link to={`/projects/${projectId}/discovery/runs/${side.run.id}`} className="text-[#2f6f71] hover:underline">
+            Open run
+          </Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+          {metrics.map((metric) => {
+            const delta = baselineValues ? metric.value - baselineValues[metric.label as keyof typeof baselineValues] : null;
+            return (
+              <div key={metric.label} className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                <p className="text-xs text-slate-500">{metric.label}</p>
+                <p className="font-display text-2xl font-bold text-slate-900">{metric.value}</p>
+                {delta !== null ? (
+                  <p className={cn("text-xs font-semibold", deltaClass(delta, metric.higherIsBetter))}>{formatDelta(delta)}</p>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-sm text-slate-600">
+          {summary.acceptanceRate}% acceptance rate
+          {baselineSummary ? (
+            <span className={cn("ml-2 font-semibold", deltaClass(summary.acceptanceRate - baselineSummary.acceptanceRate, true))}>
+              ({formatDelta(summary.acceptanceRate - baselineSummary.acceptanceRate, " pts")})
+            </span>
+          ) : null}
+          {summary.undecided > 0 ? <span className="ml-2 text-slate-400">· {summary.undecided} undecided</span> : null}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TopicChangeList({ title, description, topics, tone }: {
+  title: string;
+  description: string;
+  topics: TopicChange[];
+  tone: "added" | "dropped";
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          {title} <span className="text-slate-400">({topics.length})</span>
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {topics.length === 0 ? (
+          <p className="text-sm text-slate-500">No topics.</p>
+        ) : (
+          <ul className="max-h-96 space-y-2 overflow-y-auto pr-1">
+            {topics.map((topic) => (
+              <li
+                key={topic.topicName}
+                className={cn(
+                  "rounded-xl border p-3 text-sm",
+                  tone === "added" ? "border-emerald-200 bg-emerald-50/60" : "border-rose-200 bg-rose-50/60"
+                )}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <p className="font-semibold text-slate-900">{topic.topicName}</p>
+                  {topic.fitScore !== null ? (
+                    <span className="shrink-0 text-xs font-semibold text-slate-500">Fit {topic.fitScore}</span>
+                  ) : null}
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  {topic.reasons.length > 0
+                    ? `${tone === "added" ? "Previously rejected" : "Now rejected"}: ${topic.reasons.join(", ")}`
+                    : tone === "added"
+                      ? "Not evaluated in the baseline."
+                      : "Not evaluated in the comparison."}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DiscoveryCompareRoute() {
+  const { project, runOptions, baseline, comparison, rejectionReasons, topicChanges } =
+    useLoaderData<typeof loader>() as LoaderData;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const baselineValue = baseline ? formatComparisonTarget(baseline.target) : runOptions[0]?.runId ?? "";
+  const comparisonValue = comparison ? formatComparisonTarget(comparison.target) : runOptions[0]?.runId ?? "";
+
+  const updateTargets = (nextBaseline: string, nextComparison: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("runs", `${nextBaseline},${nextComparison}`);
+    setSearchParams(next);
+  };
+
+  const isSameTarget = Boolean(baseline && comparison && isSameComparisonTarget(baseline.target, comparison.target));
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-gradient-to-r from-white via-[#f0f6f5] to-[#ecf2fb] p-6 shadow-[0_20px_45px_-30px_rgba(15,23,42,0.55)]">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[#2f6f71]">Discovery comparison</p>
+            <h1 className="mt-2 font-display text-3xl font-bold text-slate-900">{project.name}</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              Compare two runs or loop iterations to see whether a strategy change improved the topic backlog.
+            </p>
+          </div>
+          <Link to={`/projects/${project.id}/discovery`}>
+            <Button variant="outline">Back to discovery</Button>
+          </Link>
+        </div>
+      </section>
+
+      {runOptions.length === 0 && !baseline ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Nothing to compare yet</CardTitle>
+            <CardDescription>Comparisons need at least two discovery runs, or one run with several iterations.</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="grid gap-4 pt-5 md:grid-cols-[1fr_auto_1fr] md:items-end">
+            <TargetSelect
+              id="compare-baseline"
+              label="Baseline"
+              value={baselineValue}
+              runOptions={runOptions}
+              onChange={(value) => updateTargets(value, comparisonValue)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              aria-label="Swap baseline and comparison"
+              onClick={() => updateTargets(comparisonValue, baselineValue)}
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+            </Button>
+            <TargetSelect
+              id="compare-comparison"
+              label="Comparison"
+              value={comparisonValue}
+              runOptions={runOptions}
+              onChange={(value) => updateTargets(baselineValue, value)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {baseline && comparison ? (
+        <>
+          {isSameTarget ? (
+            <p className="rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-sm font-semibold text-amber-800">
+              Both sides show the same selection. Pick a different run or iteration to see changes.
+            </p>
+          ) : null}
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <SummaryCard title="Baseline" side={baseline} projectId={project.id} />
+            <SummaryCard
+              title="Comparison"
+              side={comparison}
+              projectId={project.id}
+              baselineSummary={baseline.summary}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Rejection reasons</CardTitle>
+              <CardDescription>Rejected topics grouped by reason. A topic can count towards several reasons.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {rejectionReasons.length === 0 ? (
+                <p className="text-sm text-slate-500">No topics were rejected on either side.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Baseline</TableHead>
+                      <TableHead className="text-right">Comparison</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rejectionReasons.map((row) => {
+                      const delta = row.comparison - row.baseline;
+                      return (
+                        <TableRow key={row.reason}>
+                          <TableCell className="font-medium text-slate-900">{row.reason}</TableCell>
+                          <TableCell className="text-right">{row.baseline}</TableCell>
+                          <TableCell className="text-right">{row.comparison}</TableCell>
+                          <TableCell className={cn("text-right font-semibold", deltaClass(delta, false))}>
+                            {formatDelta(delta)}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <TopicChangeList
+              title="Topics added"
+              description="Eligible in the comparison but not in the baseline."
+              topics={topicChanges.added}
+              tone="added"
+            />
+            <TopicChangeList
+              title="Topics dropped"
+              description="Eligible in the baseline but not in the comparison."
+              topics={topicChanges.dropped}
+              tone="dropped"
+            />
+          </div>
+        </>
+      ) : runOptions.length > 0 ? (
+        <p className="text-sm text-slate-500">Pick a baseline and a comparison to see their differences.</p>
+      ) : null}
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error, params }: Route.ErrorBoundaryProps) {
+  const projectId = params.projectId;
+  const safeHref = projectId ? `/projects/${encodeURIComponent(projectId)}/discovery` : "/project";
+
+  return (
+    <RouteErrorBoundaryCard
+      error={error}
+      variant="panel"
+      title="Comparison unavailable"
+      description="The selected discovery runs could not be compared."
+      safeHref={safeHref}
+      safeLabel={projectId ? "Back to discovery overview" : "Back to dashboard"}
+      retryLabel="Retry comparison"
+      showStatus
+    />
+  );
+}
@@ -0,0 +1,562 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { Form, Link, data, redirect, useActionData, useLoaderData, useNavigation } from "react-router";
+import { FileUp } from "lucide-react";
+import type { Route } from "./+types/_dashboard.projects.$projectId.discovery.keywords.import";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Select } from "~/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
+import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { readApiErrorMessage } from "~/lib/api-error";
+import { ApiClient } from "~/lib/api.server";
+import { buildDiscoveryRunDefaults, toDiscoveryStartRequest } from "~/lib/discovery-run-config";
+import {
+  KEYWORD_IMPORT_SOURCE_LABELS,
+  buildKeywordImportPreview,
+  decodeImportFile,
+  detectImportSource,
+  guessImportMapping,
+  normalizeKeyword,
+  parseDelimitedText,
+  selectImportableKeywords,
+  summarizeKeywordImport,
+  type KeywordImportMapping,
+  type KeywordImportRowStatus,
+  type ParsedDelimitedFile,
+} from "~/lib/keyword-import";
+import { fetchAllPages, fetchJson } from "~/lib/pipeline-run.server";
+import { cn } from "~/lib/utils";
+import type { components } from "~/types/api.generated";
+
+type ProjectResponse = components["schemas"]["ProjectResponse"];
+type KeywordResponse = components["schemas"]["KeywordResponse"];
+type KeywordCreate = components["schemas"]["KeywordCreate"];
+
+type ImportDestination = "keywords" | "include_topics";
+
+type LoaderData = {
+  project: ProjectResponse;
+  existingKeywords: string[];
+};
+
+type ActionData = {
+  error?: string;
+  createdCount?: number;
+  skippedCount?: number;
+  failedKeywords?: Array<{ keyword: string; error: string }>;
+};
+
+const MAX_IMPORT_KEYWORDS = 1000;
+// The strategy prompt stays focused with a short list; the highest-volume keywords are kept.
+const MAX_INCLUDE_TOPICS = 50;
+const PREVIEW_ROW_LIMIT = 200;
+
+const ROW_STATUS_META: Record<KeywordImportRowStatus, { label: string; variant: "success" | "muted" | "info" | "danger" }> = {
+  new: { label: "New", variant: "success" },
+  duplicate: { label: "Duplicate in file", variant: "muted" },
+  existing: { label: "Already in project", variant: "info" },
+  invalid: { label: "Invalid", variant: "danger" },
+};
+
+const DESTINATION_OPTIONS: Array<{ value: ImportDestination; label: string; description: string }> = [
+  {
+    value: "keywords",
+    label: "Add as manual keywords",
+    description: "Creates each new keyword in the project so discovery clusters and scores them on the next run.",
+  },
+  {
+    value: "include_topics",
+    label: "Start a discovery run focused on these",
+    description: `Starts discovery now with the top ${MAX_INCLUDE_TOPICS} keywords as included topics in the run strategy.`,
+  },
+];
+
+function parseImportKeywords(value: FormDataEntryValue | null) {
+  try {
+    const parsed: unknown = JSON.parse(String(value ?? "[]"));
+    if (!Array.isArray(parsed)) return [];
+    return Array.from(
+      new Map(
+        parsed
+          .filter((entry): entry is string => typeof entry === "string")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => [normalizeKeyword(entry), entry] as const)
+      ).values()
+    );
+  } catch {
+    return [];
+  }
+}
+
+function isImportDestination(value: string): value is ImportDestination {
+  return value === "keywords" || value === "include_topics";
+}
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    throw new Response("Missing project id.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+
+  const projectResult = await fetchJson<ProjectResponse>(api, `/projects/${projectId}`);
+  if (projectResult.unauthorized) return handleUnauthorized(api);
+  if (!projectResult.ok || !projectResult.data) {
+    throw new Response("Failed to load project.", { status: projectResult.status });
+  }
+
+  const keywordsResult = await fetchAllPages<KeywordResponse>(
+    api,
+    (page) => `/keywords/${projectId}?page=${page}&page_size=200`
+  );
+  if (keywordsResult.unauthorized) return handleUnauthorized(api);
+  // The preview flags duplicates against this list, so an import without it would re-create existing keywords.
+  if (!keywordsResult.ok || !keywordsResult.data) {
+    throw new Response("Failed to load existing keywords.", { status: keywordsResult.status });
+  }
+
+  return data(
+    {
+      project: projectResult.data,
+      existingKeywords: keywordsResult.data.map((keyword) => keyword.keyword_normalized),
+    } satisfies LoaderData,
+    {
+      headers: await api.commit(),
+    }
+  );
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    return data({ error: "Missing project id." } satisfies ActionData, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") ?? "");
+  if (intent !== "importKeywords") {
+    return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
+  }
+
+  const keywords = parseImportKeywords(formData.get("keywords_json"));
+  if (keywords.length === 0) {
+    return data({ error: "There are no new keywords to import." } satisfies ActionData, { status: 400 });
+  }
+  if (keywords.length > MAX_IMPORT_KEYWORDS) {
+    return data(
+      { error: `Import at most ${MAX_IMPORT_KEYWORDS} keywords at a time.` } satisfies ActionData,
+      { status: 400 }
+    );
+  }
+
+  const destination = String(formData.get("destination") ?? "keywords");
+  if (!isImportDestination(destination)) {
+    return data({ error: "Choose where to import the keywords." } satisfies ActionData, { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+
+  if (destination === "include_topics") {
+    // Start from the same defaults as the discovery run form so the run gets a complete strategy.
+    const startRequest = toDiscoveryStartRequest({
+      ...buildDiscoveryRunDefaults(),
+      includeTopics: keywords.slice(0, MAX_INCLUDE_TOPICS),
+    });
+    const startResponse = await api.fetch(`/pipeline/${projectId}/start`, {
+      method: "POST",
+      json: startRequest,
+    });
+
+    if (startResponse.status === 401) return handleUnauthorized(api);
+
+    if (!startResponse.ok) {
+      const apiMessage = await readApiErrorMessage(startResponse);
+      return data(
+        {
+          error:
+            apiMessage ??
+            (startResponse.status === 409
+              ? "Discovery is already running for this project. Import again once it finishes."
+              : "Unable to start discovery with the imported keywords."),
+        } satisfies ActionData,
+        { status: startResponse.status, headers: await api.commit() }
+      );
+    }
+
+    return redirect(`/projects/${projectId}/discovery?created=1`, {
+      headers: await api.commit(),
+    });
+  }
+
+  // Fall back to the API defaults when the project has no primary language or locale.
+  const language = String(formData.get("language") ?? "").trim() || "en";
+  const locale = String(formData.get("locale") ?? "").trim() || "en-US";
+  const failedKeywords: Array<{ keyword: string; error: string }> = [];
+  let createdCount = 0;
+  let skippedCount = 0;
+
+  // Create one at a time: parallel requests would each refresh an expired access token with the same refresh token.
+  for (const keyword of keywords) {
+    const response = await api.fetch(`/keywords/${projectId}`, {
+      method: "POST",
+      json: { keyword, language, locale, source: "manual" } satisfies KeywordCreate,
+    });
+
+    if (response.status === 401) return handleUnauthorized(api);
+
+    if (response.ok) {
+      createdCount += 1;
+    } else if (response.status === 409) {
+      skippedCount += 1;
+    } else {
+      const apiMessage = await readApiErrorMessage(response);
+      failedKeywords.push({ keyword, error: apiMessage ?? "Unable to create keyword." });
+    }
+  }
+
+  return data(
+    {
+      createdCount,
+      skippedCount,
+      failedKeywords,
+      error:
+        failedKeywords.length > 0
+          ? `${failedKeywords.length} of ${keywords.length} keywords could not be imported.`
+          : undefined,
+    } satisfies ActionData,
+    { status: createdCount === 0 && failedKeywords.length > 0 ? 422 : 200, headers: await api.commit() }
+  );
+}
+
+export default function ProjectKeywordImportRoute() {
+  const { project, existingKeywords } = useLoaderData<typeof loader>() as LoaderData;
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [parsedFile, setParsedFile] = useState<ParsedDelimitedFile | null>(null);
+  const [mapping, setMapping] = useState<KeywordImportMapping>({ keyword: null, volume: null, difficulty: null });
+  const [destination, setDestination] = useState<ImportDestination>("keywords");
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+
+  const existingKeywordSet = useMemo(() => new Set(existingKeywords), [existingKeywords]);
+  const source = parsedFile ? detectImportSource(parsedFile.headers) : null;
+
+  const previewRows = useMemo(
+    () => (parsedFile ? buildKeywordImportPreview(parsedFile.rows, mapping, existingKeywordSet) : []),
+    [existingKeywordSet, mapping, parsedFile]
+  );
+  const counts = useMemo(() => summarizeKeywordImport(previewRows), [previewRows]);
+  const importableKeywords = useMemo(
+    () => selectImportableKeywords(previewRows).map((row) => row.keyword),
+    [previewRows]
+  );
+  const visibleRows = (showProblemsOnly ? previewRows.filter((row) => row.status !== "new") : previewRows).slice(
+    0,
+    PREVIEW_ROW_LIMIT
+  );
+  const submitCount =
+    destination === "include_topics" ? Math.min(importableKeywords.length, MAX_INCLUDE_TOPICS) : importableKeywords.length;
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setFileError(null);
+    try {
+      const parsed = parseDelimitedText(decodeImportFile(await file.arrayBuffer()));
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setParsedFile(null);
+        setFileError("The file needs a header row and at least one keyword row.");
+        return;
+      }
+      setParsedFile(parsed);
+      setMapping(guessImportMapping(parsed.headers));
+    } catch {
+      setParsedFile(null);
+      setFileError("Unable to read this file. Export it as CSV and try again.");
+    }
+  };
+
+  const renderColumnSelect = (field: keyof KeywordImportMapping, label: string, required = false) => (
+    <label className="grid gap-1 text-xs font-semibold text-slate-600">
+      {label}
+      <Select
+        value={mapping[field] === null ? "" : String(mapping[field])}
+        onChange={(event) =>
+          setMapping((current) => ({
+            ...current,
+            [field]: event.target.value === "" ? null : Number.parseInt(event.target.value, 10),
+          }))
+        }
+        className="h-9 min-w-48"
+      >
+        <option value="">{required ? "Choose a column" : "Not mapped"}</option>
+        {parsedFile?.headers.map((header, index) => (
+          <option key={`${header}-${index}`} value={index}>
+            {header || `Column ${index + 1}`}
+          </option>
+        ))}
+      </Select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-gradient-to-r from-white via-[#f0f6f5] to-[#ecf2fb] p-6 shadow-[0_20px_45px_-30px_rgba(15,23,42,0.55)]">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[#2f6f71]">Keyword import</p>
+            <h1 className="mt-1 font-display text-3xl font-bold text-slate-900">{project.name}</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              Seed discovery with a keyword list from Ahrefs, Semrush, Search Console or any CSV.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link to={`/projects/${project.id}/discovery/keywords`}>
+              <Button variant="outline">Back to keywords</Button>
+            </Link>
+          </div>
+        </div>
+      </section>
+
+      {actionData?.error ? (
+        <div className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+          {actionData.error}
+        </div>
+      ) : null}
+
+      {actionData?.createdCount !== undefined && actionData.createdCount > 0 ? (
+        <div className="rounded-xl border border-emerald-300 bg-emerald-50 px-3 py-2 text-sm font-semibold text-emerald-800">
+          Imported {actionData.createdCount} keyword{actionData.createdCount === 1 ? "" : "s"}
+          {actionData.skippedCount ? `, skipped ${actionData.skippedCount} that already existed` : ""}.{" "}
+          <Link to={`/projects/${project.id}/discovery/keywords`} className="underline">
+            Review keywords
+          </Link>
+        </div>
+      ) : null}
+
+      {actionData?.failedKeywords && actionData.failedKeywords.length > 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Keywords that failed to import</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm text-slate-700">
+              {actionData.failedKeywords.map((failure) => (
+                <li key={failure.keyword}>
+                  <span className="font-semibold">{failure.keyword}</span>: {failure.error}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Upload a keyword file</CardTitle>
+          <CardDescription>
+            CSV, semicolon or tab separated files work, including the UTF-16 exports Ahrefs produces.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <label className="flex cursor-pointer items-center gap-3 rounded-xl border-2 border-dashed border-slate-300 bg-slate-50 px-4 py-5 text-sm text-slate-600 hover:border-[#2f6f71]">
+            <FileUp className="h-5 w-5 text-[#2f6f71]" />
+            <span>{fileName ?? "Choose a .csv or .tsv file"}</span>
+            <input type="file" accept=".csv,.tsv,.txt,text/csv" className="sr-only" onChange={handleFileChange} />
+          </label>
+          {fileError ? <p className="text-sm font-semibold text-rose-700">{fileError}</p> : null}
+          {parsedFile && source ? (
+            <p className="text-sm text-slate-600">
+              Detected a <strong>{KEYWORD_IMPORT_SOURCE_LABELS[source]}</strong> export with {parsedFile.rows.length} rows
+              and {parsedFile.headers.length} columns.
+            </p>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {parsedFile ? (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Map columns</CardTitle>
+              <CardDescription>
+                Only the keyword is stored. Volume and difficulty are used to validate rows and to keep the highest-demand
+                keywords first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-3">
+              {renderColumnSelect("keyword", "Keyword", true)}
+              {renderColumnSelect("volume", "Search volume")}
+              {renderColumnSelect("difficulty", "Difficulty")}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>3. Preview</CardTitle>
+              <CardDescription>
+                Keywords are deduplicated within the file and against the {existingKeywords.length} keywords already in
+                this project.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                {(Object.keys(ROW_STATUS_META) as KeywordImportRowStatus[]).map((status) => (
+                  <Badge key={status} variant={ROW_STATUS_META[status].variant}>
+                    {ROW_STATUS_META[status].label}: {counts[status]}
+                  </Badge>
+                ))}
+                <label className="ml-auto inline-flex items-center gap-2 text-sm text-slate-600">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-[#2f6f71]"
+                    checked={showProblemsOnly}
+                    onChange={(event) => setShowProblemsOnly(event.target.checked)}
+                  />
+                  Only rows that won't be imported
+                </label>
+              </div>
+
+              <div className="overflow-x-auto rounded-xl border border-slate-200">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Line</TableHead>
+                      <TableHead>Keyword</TableHead>
+                      <TableHead>Volume</TableHead>
+                      <TableHead>Difficulty</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-slate-500">{row.line}</TableCell>
+                        <TableCell className="font-semibold text-slate-900">{row.keyword || "—"}</TableCell>
+                        <TableCell>{row.volume ?? "—"}</TableCell>
+                        <TableCell>{row.difficulty ?? "—"}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-col gap-1">
+                            <Badge variant={ROW_STATUS_META[row.status].variant} className="w-fit">
+                              {ROW_STATUS_META[row.status].label}
+                            </Badge>
+                            {row.error ? <span className="text-xs text-rose-700">{row.error}</span> : null}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {visibleRows.length === PREVIEW_ROW_LIMIT ? (
+                <p className="text-xs text-slate-500">Showing the first {PREVIEW_ROW_LIMIT} rows.</p>
+              ) : null}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>4. Import</CardTitle>
+              <CardDescription>Choose how the {counts.new} new keywords feed into discovery.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form method="post" className="space-y-4">
+                <input type="hidden" name="intent" value="importKeywords" />
+                <input type="hidden" name="language" value={project.primary_language} />
+                <input type="hidden" name="locale" value={project.primary_locale} />
+                <input
+                  type="hidden"
+                  name="keywords_json"
+                  value={JSON.stringify(
+                    destination === "include_topics" ? importableKeywords.slice(0, MAX_INCLUDE_TOPICS) : importableKeywords
+                  )}
+                />
+
+                <div className="grid gap-3 md:grid-cols-2">
+                  {DESTINATION_OPTIONS.map((option) => (
+                    <label
+                      key={option.value}
+                      className={cn(
+                        "flex cursor-pointer gap-3 rounded-xl border-2 p-3 text-sm",
+                        destination === option.value ? "border-[#2f6f71] bg-[#eef8f5]" : "border-slate-200 bg-white"
+                      )}
+                    >
+                      <input
+                        type="radio"
+                        name="destination"
+                        value={option.value}
+                        checked={destination === option.value}
+                        onChange={() => setDestination(option.value)}
+                        className="mt-1 h-4 w-4 accent-[#2f6f71]"
+                      />
+                      <span>
+                        <span className="block font-semibold text-slate-900">{option.label}</span>
+                        <span className="text-slate-600">{option.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+
+                {importableKeywords.length > MAX_IMPORT_KEYWORDS && destination === "keywords" ? (
+                  <p className="text-sm font-semibold text-amber-700">
+                    Only {MAX_IMPORT_KEYWORDS} keywords can be imported at a time. Split the file and import the rest
+                    separately.
+                  </p>
+                ) : null}
+
+                <Button
+                  type="submit"
+                  disabled={
+                    isSubmitting ||
+                    submitCount === 0 ||
+                    (destination === "keywords" && importableKeywords.length > MAX_IMPORT_KEYWORDS)
+                  }
+                >
+                  {isSubmitting
+                    ? "Importing..."
+                    : destination === "include_topics"
+                      ? `Start discovery with ${submitCount} keyword${submitCount === 1 ? "" : "s"}`
+                      : `Import ${submitCount} keyword${submitCount === 1 ? "" : "s"}`}
+                </Button>
+              </Form>
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error, params }: Route.ErrorBoundaryProps) {
+  const projectId = params.projectId;
+  const safeHref = projectId ? `/projects/${encodeURIComponent(projectId)}/discovery/keywords` : "/project";
+
+  return (
+    <RouteErrorBoundaryCard
+      error={error}
+      variant="panel"
+      title="Keyword import unavailable"
+      description="The keyword import failed to load for this project."
+      safeHref={safeHref}
+      safeLabel={projectId ? "Back to keywords" : "Back to dashboard"}
+      retryLabel="Retry keyword import"
+      showStatus
+    />
+  );
+}
@@ -1,25 +1,31 @@
-import { useMemo, useState } from "react";
-import { motion } from "framer-motion";
-import {
-  Background,
-  Controls,
-  MiniMap,
-  ReactFlow,
-  type NodeMouseHandler,
-} from "@xyflow/react";
-import "@xyflow/react/dist/style.css";
-import { Link, data, redirect, useFetcher, useLoaderData } from "react-router";
+import { useEffect, useMemo, useState } from "react";
+import { Form, Link, data, redirect, useFetcher, useLoaderData, useSearchParams } from "react-router";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from "lucide-react";
 import type { Route } from "./+types/_dashboard.projects.$projectId.discovery.keywords";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Drawer } from "~/components/ui/drawer";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { ExportLinks } from "~/components/features/data-export";
+import { KeywordGraphPanel } from "~/components/features/keyword-graph";
 import { Select } from "~/components/ui/select";
 import { Skeleton } from "~/components/ui/skeleton";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
+import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
-import { fetchJson } from "~/lib/pipeline-run.server";
-import { buildKeywordGraph } from "~/lib/keyword-graph";
+import { formatStatusLabel } from "~/lib/dashboard";
+import { fetchAllPages, fetchJson, mapInBatches } from "~/lib/pipeline-run.server";
+import {
+  KEYWORD_PAGE_SIZES,
+  KEYWORD_SORT_COLUMNS,
+  buildKeywordListApiPath,
+  countKeywordPages,
+  parseKeywordListQuery,
+  sortKeywords,
+  toKeywordListSearchParams,
+  type KeywordListQuery,
+  type KeywordSortColumn,
+} from "~/lib/keyword-query";
 import type { components } from "~/types/api.generated";
 
 type ProjectResponse = components["schemas"]["ProjectResponse"];
@@ -28,13 +34,41 @@ type KeywordResponse = components["schemas"]["KeywordResponse"];
 type KeywordDetailResponse = components["schemas"]["KeywordDetailResponse"];
 type TopicListResponse = components["schemas"]["TopicListResponse"];
 type TopicResponse = components["schemas"]["TopicResponse"];
+type KeywordUpdate = components["schemas"]["KeywordUpdate"];
+type KeywordBulkUpdateRequest = components["schemas"]["KeywordBulkUpdateRequest"];
 
 type LoaderData = {
   project: ProjectResponse;
   keywords: KeywordResponse[];
+  keywordTotal: number;
+  query: KeywordListQuery;
   topics: TopicResponse[];
 };
 
+type ActionData = {
+  error?: string;
+  updatedCount?: number;
+  rowErrors?: Record<string, string>;
+};
+
+type PendingKeywordChange = {
+  status: string | null;
+  intent: string | null;
+};
+
+const KEYWORD_STATUS_OPTIONS = ["active", "excluded"];
+const KEYWORD_INTENT_OPTIONS = ["informational", "commercial", "transactional", "navigational"];
+const GRAPH_MIN_KEYWORDS = 20;
+const GRAPH_MIN_TOPICS = 3;
+// "Select all matching" resolves the ids on the server; past this the filters should be narrowed first.
+const MAX_MATCHING_BULK_KEYWORDS = 2000;
+const MATCHING_PAGE_SIZE = 200;
+
+function readOptionalField(formData: FormData, key: string) {
+  const value = String(formData.get(key) ?? "").trim();
+  return value.length > 0 ? value : null;
+}
+
 async function handleUnauthorized(api: ApiClient) {
   return redirect("/login", {
     headers: {
@@ -50,6 +84,7 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   }
 
   const api = new ApiClient(request);
+  const query = parseKeywordListQuery(new URL(request.url).searchParams);
 
   const projectResult = await fetchJson<ProjectResponse>(api, `/projects/${projectId}`);
   if (projectResult.unauthorized) return handleUnauthorized(api);
@@ -58,7 +93,7 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   }
 
   const [keywordsResult, topicsResult] = await Promise.all([
-    fetchJson<KeywordListResponse>(api, `/keywords/${projectId}?page=1&page_size=200`),
+    fetchJson<KeywordListResponse>(api, buildKeywordListApiPath(projectId, query)),
     fetchJson<TopicListResponse>(api, `/topics/${projectId}?page=1&page_size=200&eligibility=all`),
   ]);
 
@@ -68,6 +103,8 @@ export async function loader({ request, params }: Route.LoaderArgs) {
     {
       project: projectResult.data,
       keywords: keywordsResult.ok && keywordsResult.data ? keywordsResult.data.items ?? [] : [],
+      keywordTotal: keywordsResult.ok && keywordsResult.data ? keywordsResult.data.total : 0,
+      query,
       topics: topicsResult.ok && topicsResult.data ? topicsResult.data.items ?? [] : [],
     } satisfies LoaderData,
     {
@@ -76,47 +113,323 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   );
 }
 
+export async function action({ request, params }: Route.ActionArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    return data({ error: "Missing project id." } satisfies ActionData, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") ?? "");
+  if (intent !== "bulkUpdateKeywords") {
+    return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  let keywordIds = Array.from(
+    new Set(
+      formData
+        .getAll("keyword_id")
+        .map((value) => String(value).trim())
+        .filter(Boolean)
+    )
+  );
+
+  // Selecting every matching keyword sends the list filters instead of ids, so the full filtered set is updated.
+  if (formData.get("select_all_matching") === "1") {
+    const matchingQuery = parseKeywordListQuery(
+      new URLSearchParams({ q: String(formData.get("q") ?? ""), status: String(formData.get("status_filter") ?? "") })
+    );
+    const matchingResult = await fetchAllPages<KeywordResponse>(api, (page) =>
+      buildKeywordListApiPath(projectId, { ...matchingQuery, page, pageSize: MATCHING_PAGE_SIZE })
+    );
+    if (matchingResult.unauthorized) return handleUnauthorized(api);
+    if (!matchingResult.ok || !matchingResult.data) {
+      return data(
+        { error: "Unable to load the matching keywords." } satisfies ActionData,
+        { status: matchingResult.status, headers: await api.commit() }
+      );
+    }
+    if (matchingResult.data.length > MAX_MATCHING_BULK_KEYWORDS) {
+      return data(
+        {
+          error: `${matchingResult.data.length} keywords match. Narrow the filters to ${MAX_MATCHING_BULK_KEYWORDS} or fewer.`,
+        } satisfies ActionData,
+        { status: 400, headers: await api.commit() }
+      );
+    }
+    keywordIds = matchingResult.data.map((keyword) => keyword.id);
+  }
+
+  if (keywordIds.length === 0) {
+    return data({ error: "Select at least one keyword." } satisfies ActionData, { status: 400 });
+  }
+
+  const status = readOptionalField(formData, "status");
+  const keywordIntent = readOptionalField(formData, "keyword_intent");
+  const exclusionReason = readOptionalField(formData, "exclusion_reason");
+
+  if (!status && !keywordIntent && !exclusionReason) {
+    return data({ error: "Choose a status, intent, or exclusion reason to apply." } satisfies ActionData, {
+      status: 400,
+    });
+  }
+
+  // The bulk endpoint does not accept an exclusion reason, so those changes are applied per keyword.
+  if (exclusionReason) {
+    // Updates are partial, so fields left at "keep current" are omitted rather than sent as null.
+    const payload: KeywordUpdate = {
+      status: status ?? "excluded",
+      exclusion_reason: exclusionReason,
+      ...(keywordIntent ? { intent: keywordIntent } : {}),
+    };
+    const responses = await mapInBatches(keywordIds, (keywordId) =>
+      api.fetch(`/keywords/${projectId}/${keywordId}`, {
+        method: "PUT",
+        json: payload,
+      })
+    );
+
+    if (responses.some((response) => response.status === 401)) return handleUnauthorized(api);
+
+    const rowErrors: Record<string, string> = {};
+    await Promise.all(
+      responses.map(async (response, index) => {
+        if (response.ok) return;
+        const apiMessage = await readApiErrorMessage(response);
+        rowErrors[keywordIds[index]] = apiMessage ?? "Unable to update keyword.";
+      })
+    );
+
+    const failedCount = Object.keys(rowErrors).length;
+    return data(
+      {
+        updatedCount: keywordIds.length - failedCount,
+        rowErrors,
+        error: failedCount > 0 ? `${failedCount} of ${keywordIds.length} keywords could not be updated.` : undefined,
+      } satisfies ActionData,
+      { status: failedCount === keywordIds.length ? 422 : 200, headers: await api.commit() }
+    );
+  }
+
+  const response = await api.fetch(`/keywords/${projectId}/bulk-update`, {
+    method: "POST",
+    json: {
+      keyword_ids: keywordIds,
+      ...(status ? { status } : {}),
+      ...(keywordIntent ? { intent: keywordIntent } : {}),
+    } satisfies KeywordBulkUpdateRequest,
+  });
+
+  if (response.status === 401) return handleUnauthorized(api);
+
+  if (!response.ok) {
+    const apiMessage = await readApiErrorMessage(response);
+    const message = apiMessage ?? "Unable to update selected keywords.";
+    return data(
+      {
+        error: message,
+        rowErrors: Object.fromEntries(keywordIds.map((keywordId) => [keywordId, message])),
+      } satisfies ActionData,
+      { status: response.status, headers: await api.commit() }
+    );
+  }
+
+  const result = (await response.json()) as Record<string, number>;
+  return data(
+    { updatedCount: result.updated ?? keywordIds.length, rowErrors: {} } satisfies ActionData,
+    { headers: await api.commit() }
+  );
+}
+
 export default function DiscoveryKeywordsRoute() {
-  const { project, keywords, topics } = useLoaderData<typeof loader>() as LoaderData;
-  const keywordDetailFetcher = useFetcher<KeywordDetailResponse>();
+  const {
+    project,
+    keywords: loadedKeywords,
+    keywordTotal,
+    query,
+    topics,
+  } = useLoaderData<typeof loader>() as LoaderData;
+  const [, setSearchParams] = useSearchParams();
+  const keywordDetailFetcher = useFetcher<{ keyword: KeywordDetailResponse }>();
+  const bulkUpdateFetcher = useFetcher<ActionData>();
 
-  const [keywordSearch, setKeywordSearch] = useState("");
-  const [keywordStatusFilter, setKeywordStatusFilter] = useState("all");
+  const [keywordSearch, setKeywordSearch] = useState(query.search);
   const [selectedKeywordId, setSelectedKeywordId] = useState<string | null>(null);
+  const [checkedKeywordIds, setCheckedKeywordIds] = useState<Set<string>>(() => new Set());
+  // Set when the selection covers every keyword matching the filters, not just the checked ids.
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [bulkStatus, setBulkStatus] = useState("");
+  const [bulkIntent, setBulkIntent] = useState("");
+  const [bulkExclusionReason, setBulkExclusionReason] = useState("");
+
+  const isBulkUpdating = bulkUpdateFetcher.state !== "idle";
+  const bulkResult = bulkUpdateFetcher.state === "idle" ? bulkUpdateFetcher.data : undefined;
+  const rowErrors = bulkResult?.rowErrors ?? {};
 
-  const filteredKeywords = useMemo(() => {
-    return keywords.filter((keyword) => {
-      const matchesSearch = keyword.keyword.toLowerCase().includes(keywordSearch.trim().toLowerCase());
-      const matchesStatus = keywordStatusFilter === "all" || keyword.status === keywordStatusFilter;
-      return matchesSearch && matchesStatus;
+  // Optimistically reflect in-flight bulk changes until the loader revalidates.
+  const pendingChange = useMemo(() => {
+    const formData = bulkUpdateFetcher.formData;
+    if (!formData) return null;
+    const ids = new Set(
+      formData.get("select_all_matching") === "1"
+        ? loadedKeywords.map((keyword) => keyword.id)
+        : formData.getAll("keyword_id").map((value) => String(value))
+    );
+    const change: PendingKeywordChange = {
+      status: readOptionalField(formData, "status") ?? (readOptionalField(formData, "exclusion_reason") ? "excluded" : null),
+      intent: readOptionalField(formData, "keyword_intent"),
+    };
+    return { ids, change };
+  }, [bulkUpdateFetcher.formData, loadedKeywords]);
+
+  const keywords = useMemo(() => {
+    if (!pendingChange) return loadedKeywords;
+    return loadedKeywords.map((keyword) => {
+      if (!pendingChange.ids.has(keyword.id)) return keyword;
+      return {
+        ...keyword,
+        status: pendingChange.change.status ?? keyword.status,
+        intent: pendingChange.change.intent ?? keyword.intent,
+      };
     });
-  }, [keywordSearch, keywordStatusFilter, keywords]);
+  }, [loadedKeywords, pendingChange]);
+
+  const statusOptions = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...KEYWORD_STATUS_OPTIONS,
+          ...loadedKeywords.map((keyword) => keyword.status),
+          ...(query.status !== "all" ? [query.status] : []),
+        ])
+      ),
+    [loadedKeywords, query.status]
+  );
+  const pageCount = countKeywordPages(keywordTotal, query.pageSize);
 
-  const tableKeywords = useMemo(() => {
-    return filteredKeywords
-      .slice()
-      .sort((a, b) => (b.search_volume ?? -1) - (a.search_volume ?? -1));
-  }, [filteredKeywords]);
+  useEffect(() => {
+    setKeywordSearch(query.search);
+  }, [query.search]);
 
-  const graphEligible = keywords.length >= 20 && topics.length >= 3;
+  // A different filter matches a different set, so "all matching" no longer means what was selected.
+  useEffect(() => {
+    setSelectAllMatching(false);
+  }, [query.search, query.status]);
 
-  const { nodes: keywordGraphNodes, edges: keywordGraphEdges } = useMemo(() => {
-    return buildKeywordGraph(filteredKeywords, topics);
-  }, [filteredKeywords, topics]);
+  const updateQuery = (patch: Partial<KeywordListQuery>) => {
+    // Any filter change starts over from the first page.
+    const next: KeywordListQuery = { ...query, page: 1, ...patch };
+    setSearchParams(toKeywordListSearchParams(next));
+  };
+
+  // Sorting only reorders the loaded page, so it keeps the current page.
+  const updateSort = (sort: KeywordSortColumn, order: KeywordListQuery["order"]) => {
+    setSearchParams(toKeywordListSearchParams({ ...query, sort, order }));
+  };
+
+  const toggleSort = (column: KeywordSortColumn) => {
+    if (query.sort === column) {
+      updateSort(column, query.order === "desc" ? "asc" : "desc");
+      return;
+    }
+    updateSort(column, "desc");
+  };
+
+  useEffect(() => {
+    if (!bulkResult || bulkResult.updatedCount === undefined) return;
+    const failedIds = Object.keys(bulkResult.rowErrors ?? {});
+    setCheckedKeywordIds(new Set(failedIds));
+    setSelectAllMatching(false);
+    if (failedIds.length === 0) {
+      setBulkStatus("");
+      setBulkIntent("");
+      setBulkExclusionReason("");
+    }
+  }, [bulkResult]);
+
+  // Filtering and paging happen server-side. The API has no sort parameters, so sorting applies to the loaded page only.
+  // Exports cover every page and sort the full set, so only the search, status and sort filters carry over.
+  const exportSearchParams = useMemo(
+    () => toKeywordListSearchParams({ ...query, page: 1 }),
+    [query]
+  );
+
+  // The graph ignores sort and paging, so only filter changes reload it.
+  const graphSearchParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (query.search) params.set("q", query.search);
+    if (query.status !== "all") params.set("status", query.status);
+    return params;
+  }, [query.search, query.status]);
+
+  const tableKeywords = useMemo(
+    () => sortKeywords(keywords, { sort: query.sort, order: query.order }),
+    [keywords, query.order, query.sort]
+  );
+
+  const allPageChecked =
+    tableKeywords.length > 0 && tableKeywords.every((keyword) => checkedKeywordIds.has(keyword.id));
+  const checkedKeywordsOffPage = Array.from(checkedKeywordIds).filter(
+    (keywordId) => !tableKeywords.some((keyword) => keyword.id === keywordId)
+  ).length;
+
+  const selectedCount = selectAllMatching ? keywordTotal : checkedKeywordIds.size;
+
+  const clearSelection = () => {
+    setSelectAllMatching(false);
+    setCheckedKeywordIds(new Set());
+  };
+
+  const toggleKeywordChecked = (keywordId: string) => {
+    // Unchecking one row narrows "all matching" back to the rows that are actually checked.
+    setSelectAllMatching(false);
+    setCheckedKeywordIds((current) => {
+      const next = new Set(current);
+      if (next.has(keywordId)) {
+        next.delete(keywordId);
+      } else {
+        next.add(keywordId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllPageChecked = () => {
+    setSelectAllMatching(false);
+    setCheckedKeywordIds((current) => {
+      const next = new Set(current);
+      tableKeywords.forEach((keyword) => (allPageChecked ? next.delete(keyword.id) : next.add(keyword.id)));
+      return next;
+    });
+  };
+
+  const submitBulkUpdate = () => {
+    if (selectedCount === 0) return;
+    const formData = new FormData();
+    formData.set("intent", "bulkUpdateKeywords");
+    if (selectAllMatching) {
+      formData.set("select_all_matching", "1");
+      formData.set("q", query.search);
+      formData.set("status_filter", query.status);
+    } else {
+      checkedKeywordIds.forEach((keywordId) => formData.append("keyword_id", keywordId));
+    }
+    formData.set("status", bulkStatus);
+    formData.set("keyword_intent", bulkIntent);
+    formData.set("exclusion_reason", bulkStatus === "excluded" ? bulkExclusionReason : "");
+    bulkUpdateFetcher.submit(formData, { method: "post" });
+  };
+
+  const canSubmitBulkUpdate =
+    selectedCount > 0 && !isBulkUpdating && (bulkStatus.length > 0 || bulkIntent.length > 0);
 
   const selectedKeywordSummary = useMemo(
     () => keywords.find((keyword) => keyword.id === selectedKeywordId) ?? null,
     [keywords, selectedKeywordId]
   );
 
-  const onGraphNodeClick: NodeMouseHandler = (_event, node) => {
-    const keywordId =
-      typeof node.data === "object" && node.data && "keywordId" in node.data
-        ? String((node.data as Record<string, unknown>).keywordId ?? "")
-        : "";
-
-    if (!keywordId) return;
-
+  const selectGraphKeyword = (keywordId: string) => {
     setSelectedKeywordId(keywordId);
     keywordDetailFetcher.load(`/projects/${project.id}/keyword-detail/${keywordId}`);
   };
@@ -132,7 +445,11 @@ export default function DiscoveryKeywordsRoute() {
               Search, filter, and explore the keywords discovered for this project.
             </p>
           </div>
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link to={`/projects/${project.id}/discovery/keywords/import`}>
+              <Button variant="outline" size="sm">Import CSV</Button>
+            </Link>
+            <ExportLinks path={`/projects/${project.id}/exports/keywords`} searchParams={exportSearchParams} />
             <Link to={`/projects/${project.id}/discovery`}>
               <Button variant="outline">Back to overview</Button>
             </Link>
@@ -143,122 +460,300 @@ export default function DiscoveryKeywordsRoute() {
       <Card>
         <CardHeader>
           <CardTitle>Keyword snapshot</CardTitle>
-          <CardDescription>Inspect current keyword state. Graph unlocks at 20+ keywords and 3+ topics.</CardDescription>
+          <CardDescription>
+            Inspect current keyword state. Graph unlocks at {GRAPH_MIN_KEYWORDS}+ keywords and {GRAPH_MIN_TOPICS}+
+            topics.
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-3">
-          <div className="grid gap-3 md:grid-cols-[2fr_1fr]">
-            <input
-              type="text"
-              value={keywordSearch}
-              onChange={(event) => setKeywordSearch(event.target.value)}
-              placeholder="Search keywords"
-              className="h-10 rounded-xl border border-slate-300 px-3 text-sm"
-            />
-            <Select value={keywordStatusFilter} onChange={(event) => setKeywordStatusFilter(event.target.value)}>
+          <div className="grid gap-3 md:grid-cols-[2fr_1fr_1fr]">
+            <Form
+              method="get"
+              onSubmit={(event) => {
+                event.preventDefault();
+                updateQuery({ search: keywordSearch.trim() });
+              }}
+            >
+              <input
+                type="search"
+                name="q"
+                value={keywordSearch}
+                onChange={(event) => setKeywordSearch(event.target.value)}
+                placeholder="Search keywords and press Enter"
+                className="h-10 w-full rounded-xl border border-slate-300 px-3 text-sm"
+              />
+            </Form>
+            <Select value={query.status} onChange={(event) => updateQuery({ status: event.target.value })}>
               <option value="all">All statuses</option>
-              {Array.from(new Set(keywords.map((keyword) => keyword.status))).map((status) => (
+              {statusOptions.map((status) => (
                 <option key={status} value={status}>
-                  {status}
+                  {formatStatusLabel(status)}
                 </option>
               ))}
             </Select>
+            <Select
+              value={`${query.sort}:${query.order}`}
+              onChange={(event) => {
+                const [sort, order] = event.target.value.split(":");
+                updateSort(sort as KeywordSortColumn, order === "asc" ? "asc" : "desc");
+              }}
+              title="Sorts the keywords on this page"
+            >
+              {KEYWORD_SORT_COLUMNS.flatMap((column) => [
+                <option key={`${column.value}:desc`} value={`${column.value}:desc`}>
+                  {column.label} (high to low, this page)
+                </option>,
+                <option key={`${column.value}:asc`} value={`${column.value}:asc`}>
+                  {column.label} (low to high, this page)
+                </option>,
+              ])}
+            </Select>
           </div>
 
           <div className="grid gap-2 text-xs text-slate-600 sm:grid-cols-3">
             <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
-              <p className="font-semibold text-slate-900">Total keywords</p>
-              <p>{keywords.length}</p>
+              <p className="font-semibold text-slate-900">Matching keywords</p>
+              <p>{keywordTotal}</p>
             </div>
             <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
               <p className="font-semibold text-slate-900">Topics connected</p>
               <p>{topics.length}</p>
             </div>
             <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
-              <p className="font-semibold text-slate-900">Filtered</p>
-              <p>{filteredKeywords.length}</p>
+              <p className="font-semibold text-slate-900">On this page</p>
+              <p>{keywords.length}</p>
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {graphEligible ? (
-        <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}>
-          <Card>
-            <CardHeader>
-              <CardTitle>Keyword cluster graph</CardTitle>
-              <CardDescription>
-                Dark nodes are topics. Seed keywords are highlighted. Click a keyword node for detail.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="h-[540px] overflow-hidden rounded-2xl border border-slate-200 bg-slate-100">
-                <ReactFlow
-                  nodes={keywordGraphNodes}
-                  edges={keywordGraphEdges}
-                  fitView
-                  minZoom={0.3}
-                  maxZoom={1.4}
-                  onNodeClick={onGraphNodeClick}
-                  nodesDraggable={false}
-                  nodesConnectable={false}
-                  elementsSelectable
-                  proOptions={{ hideAttribution: true }}
-                >
-                  <MiniMap pannable zoomable />
-                  <Controls />
-                  <Background gap={24} color="#dbe4ef" />
-                </ReactFlow>
-              </div>
-            </CardContent>
-          </Card>
-        </motion.div>
-      ) : (
-        <Card>
-          <CardContent className="pt-5">
-            <p className="text-sm text-slate-600">
-              Graph locked for now. Add more pipeline output to unlock the relationship map (20+ keywords and 3+
-              topics required).
-            </p>
-          </CardContent>
-        </Card>
-      )}
+      <KeywordGraphPanel
+        projectId={project.id}
+        searchParams={graphSearchParams}
+        keywordCount={keywordTotal}
+        topicCount={topics.length}
+        minKeywords={GRAPH_MIN_KEYWORDS}
+        minTopics={GRAPH_MIN_TOPICS}
+        onKeywordSelect={selectGraphKeyword}
+      />
 
       <Card>
         <CardHeader>
           <CardTitle>Keyword table</CardTitle>
+          <CardDescription>Select keywords to change their status or intent in bulk.</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-3">
+          {selectedCount > 0 ? (
+            <div className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-slate-50 p-3">
+              <p className="self-center text-sm font-semibold text-slate-900">{selectedCount} selected</p>
+              <label className="grid gap-1 text-xs font-semibold text-slate-600">
+                Status
+                <Select
+                  value={bulkStatus}
+                  onChange={(event) => setBulkStatus(event.target.value)}
+                  className="h-9 min-w-40"
+                >
+                  <option value="">Keep current</option>
+                  {statusOptions.map((status) => (
+                    <option key={status} value={status}>
+                      {formatStatusLabel(status)}
+                    </option>
+                  ))}
+                </Select>
+              </label>
+              <label className="grid gap-1 text-xs font-semibold text-slate-600">
+                Intent
+                <Select
+                  value={bulkIntent}
+                  onChange={(event) => setBulkIntent(event.target.value)}
+                  className="h-9 min-w-40"
+                >
+                  <option value="">Keep current</option>
+                  {KEYWORD_INTENT_OPTIONS.map((intent) => (
+                    <option key={intent} value={intent}>
+                      {formatStatusLabel(intent)}
+                    </option>
+                  ))}
+                </Select>
+              </label>
+              {bulkStatus === "excluded" ? (
+                <label className="grid min-w-56 flex-1 gap-1 text-xs font-semibold text-slate-600">
+                  Exclusion reason
+                  <input
+                    type="text"
+                    value={bulkExclusionReason}
+                    onChange={(event) => setBulkExclusionReason(event.target.value)}
+                    placeholder="e.g. Off-brand"
+                    className="h-9 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+                  />
+                </label>
+              ) : null}
+              <div className="flex items-center gap-2">
+                <Button type="button" size="sm" disabled={!canSubmitBulkUpdate} onClick={submitBulkUpdate}>
+                  {isBulkUpdating ? "Applying..." : "Apply"}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  disabled={isBulkUpdating}
+                  onClick={clearSelection}
+                >
+                  Clear selection
+                </Button>
+              </div>
+            </div>
+          ) : null}
+
+          {bulkResult?.error ? (
+            <p className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+              {bulkResult.error}
+            </p>
+          ) : bulkResult?.updatedCount !== undefined ? (
+            <p className="rounded-xl border border-emerald-300 bg-emerald-50 px-3 py-2 text-sm font-semibold text-emerald-800">
+              Updated {bulkResult.updatedCount} {bulkResult.updatedCount === 1 ? "keyword" : "keywords"}.
+            </p>
+          ) : null}
+
+          {selectAllMatching ? (
+            <p className="rounded-xl border border-sky-200 bg-sky-50 px-3 py-2 text-sm text-sky-900">
+              All {keywordTotal} keywords matching the current filters are selected, including other pages.{" "}
+              <button type="button" className="font-semibold underline" onClick={() => setSelectAllMatching(false)}>
+                Select only the checked rows
+              </button>
+            </p>
+          ) : allPageChecked && keywordTotal > tableKeywords.length ? (
+            <p className="rounded-xl border border-sky-200 bg-sky-50 px-3 py-2 text-sm text-sky-900">
+              All {tableKeywords.length} keywords on this page are selected.{" "}
+              <button type="button" className="font-semibold underline" onClick={() => setSelectAllMatching(true)}>
+                Select all {keywordTotal} matching keywords
+              </button>
+            </p>
+          ) : null}
+
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-10">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all keywords on this page"
+                    title="Select all keywords on this page"
+                    checked={allPageChecked}
+                    onChange={toggleAllPageChecked}
+                    disabled={tableKeywords.length === 0}
+                    className="h-4 w-4 accent-[#2f6f71]"
+                  />
+                </TableHead>
                 <TableHead>Keyword</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Intent</TableHead>
-                <TableHead>Volume</TableHead>
-                <TableHead>Difficulty</TableHead>
+                {KEYWORD_SORT_COLUMNS.map((column) => (
+                  <TableHead key={column.value}>
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.value)}
+                      className="inline-flex items-center gap-1 uppercase tracking-wide hover:text-slate-900"
+                    >
+                      {column.label}
+                      {query.sort === column.value ? (
+                        query.order === "asc" ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : (
+                          <ArrowDown className="h-3 w-3" />
+                        )
+                      ) : null}
+                    </button>
+                  </TableHead>
+                ))}
                 <TableHead>Topic</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {tableKeywords.slice(0, 80).map((keyword) => (
-                <TableRow key={keyword.id}>
-                  <TableCell className="font-medium text-slate-900">{keyword.keyword}</TableCell>
-                  <TableCell>{keyword.status}</TableCell>
-                  <TableCell>{keyword.intent ?? "-"}</TableCell>
-                  <TableCell>{keyword.search_volume ?? "-"}</TableCell>
-                  <TableCell>{keyword.difficulty ?? "-"}</TableCell>
-                  <TableCell>{topics.find((topic) => topic.id === keyword.topic_id)?.name ?? "Unassigned"}</TableCell>
-                </TableRow>
-              ))}
+              {tableKeywords.map((keyword) => {
+                const rowError = rowErrors[keyword.id];
+                const isPending = pendingChange?.ids.has(keyword.id) ?? false;
+                return (
+                  <TableRow key={keyword.id} className={rowError ? "bg-rose-50/60" : isPending ? "opacity-60" : undefined}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${keyword.keyword}`}
+                        checked={selectAllMatching || checkedKeywordIds.has(keyword.id)}
+                        onChange={() => toggleKeywordChecked(keyword.id)}
+                        className="h-4 w-4 accent-[#2f6f71]"
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium text-slate-900">
+                      <Link to={`/projects/${project.id}/keyword-detail/${keyword.id}`} className="hover:text-[#2f6f71] hover:underline">
+                        {keyword.keyword}
+                      </Link>
+                      {rowError ? <p className="mt-0.5 text-xs font-normal text-rose-700">{rowError}</p> : null}
+                    </TableCell>
+                    <TableCell>{keyword.status}</TableCell>
+                    <TableCell>{keyword.intent ?? "-"}</TableCell>
+                    <TableCell>{keyword.search_volume ?? "-"}</TableCell>
+                    <TableCell>{keyword.difficulty ?? "-"}</TableCell>
+                    <TableCell>{keyword.priority_score ?? "-"}</TableCell>
+                    <TableCell>{keyword.cpc ?? "-"}</TableCell>
+                    <TableCell>{topics.find((topic) => topic.id === keyword.topic_id)?.name ?? "Unassigned"}</TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
+          {!selectAllMatching && checkedKeywordsOffPage > 0 ? (
+            <p className="text-xs text-slate-500">
+              Selection includes {checkedKeywordsOffPage} keywords from other pages.
+            </p>
+          ) : null}
+
+          <div className="flex flex-wrap items-center justify-between gap-3 border-t border-slate-200 pt-3 text-sm text-slate-600">
+            <p>
+              Page {Math.min(query.page, pageCount)} of {pageCount} · {keywordTotal} keywords · sorted within the page
+            </p>
+            <div className="flex items-center gap-2">
+              <Select
+                value={String(query.pageSize)}
+                onChange={(event) => updateQuery({ pageSize: Number(event.target.value) })}
+                className="h-9 w-auto"
+                aria-label="Keywords per page"
+              >
+                {KEYWORD_PAGE_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {size} per page
+                  </option>
+                ))}
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={query.page <= 1}
+                onClick={() => setSearchParams(toKeywordListSearchParams({ ...query, page: query.page - 1 }))}
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Prev
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={query.page >= pageCount}
+                onClick={() => setSearchParams(toKeywordListSearchParams({ ...query, page: query.page + 1 }))}
+              >
+                Next
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
       <Drawer
         open={selectedKeywordId !== null}
         onClose={() => setSelectedKeywordId(null)}
-        title={selectedKeywordSummary?.keyword ?? "Keyword detail"}
+        title={selectedKeywordSummary?.keyword ?? keywordDetailFetcher.data?.keyword.keyword ?? "Keyword detail"}
         description="Deep detail for trend, risk, and SERP context"
       >
         {keywordDetailFetcher.state === "loading" ? (
@@ -272,42 +767,57 @@ export default function DiscoveryKeywordsRoute() {
             <div className="grid grid-cols-2 gap-2">
               <div className="rounded-lg bg-slate-100 p-2">
                 <p className="text-xs text-slate-500">Search volume</p>
-                <p className="font-semibold text-slate-900">{keywordDetailFetcher.data.search_volume ?? "-"}</p>
+                <p className="font-semibold text-slate-900">{keywordDetailFetcher.data.keyword.search_volume ?? "-"}</p>
               </div>
               <div className="rounded-lg bg-slate-100 p-2">
                 <p className="text-xs text-slate-500">Difficulty</p>
-                <p className="font-semibold text-slate-900">{keywordDetailFetcher.data.difficulty ?? "-"}</p>
+                <p className="font-semibold text-slate-900">{keywordDetailFetcher.data.keyword.difficulty ?? "-"}</p>
               </div>
               <div className="rounded-lg bg-slate-100 p-2">
                 <p className="text-xs text-slate-500">Intent</p>
-                <p className="font-semibold text-slate-900">{keywordDetailFetcher.data.intent ?? "-"}</p>
+                <p className="font-semibold text-slate-900">{keywordDetailFetcher.data.keyword.intent ?? "-"}</p>
               </div>
               <div className="rounded-lg bg-slate-100 p-2">
                 <p className="text-xs text-slate-500">Priority score</p>
-                <p className="font-semibold text-slate-900">{keywordDetailFetcher.data.priority_score ?? "-"}</p>
+                <p className="font-semibold text-slate-900">{keywordDetailFetcher.data.keyword.priority_score ?? "-"}</p>
               </div>
             </div>
 
             <div className="rounded-lg border border-slate-200 bg-white p-3">
               <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Risk flags</p>
               <p className="mt-1 text-sm text-slate-700">
-                {keywordDetailFetcher.data.risk_flags?.join(", ") || "No risk flags"}
+                {keywordDetailFetcher.data.keyword.risk_flags?.join(", ") || "No risk flags"}
               </p>
             </div>
 
             <div className="rounded-lg border border-slate-200 bg-white p-3">
               <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">SERP features</p>
               <p className="mt-1 text-sm text-slate-700">
-                {keywordDetailFetcher.data.serp_features?.join(", ") || "No SERP feature data"}
+                {keywordDetailFetcher.data.keyword.serp_features?.join(", ") || "No SERP feature data"}
               </p>
             </div>
 
             <div className="rounded-lg border border-slate-200 bg-white p-3">
               <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Trend data</p>
               <p className="mt-1 text-sm text-slate-700">
-                {keywordDetailFetcher.data.trend_data?.join(" • ") || "No trend data"}
+                {keywordDetailFetcher.data.keyword.trend_data?.join(" • ") || "No trend data"}
               </p>
             </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <Link
+                to={`/projects/${project.id}/keyword-detail/${keywordDetailFetcher.data.keyword.id}`}
+                className="inline-block text-sm font-semibold text-[#2f6f71] hover:underline"
+              >
+                Open full keyword detail &rarr;
+              </Link>
+              <Link
+                to={`/projects/${project.id}/creation/briefs/new?keyword=${keywordDetailFetcher.data.keyword.id}`}
+                className="inline-block text-sm font-semibold text-[#2f6f71] hover:underline"
+              >
+                New brief from this keyword
+              </Link>
+            </div>
           </div>
         ) : (
           <p className="text-sm text-slate-500">Select a keyword node from the graph.</p>
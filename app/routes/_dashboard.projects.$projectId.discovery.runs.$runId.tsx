@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import {
   Form,
@@ -6,7 +6,6 @@ import {
   data,
   redirect,
   useActionData,
-  useFetcher,
   useLoaderData,
   useRevalidator,
   useSearchParams,
@@ -20,6 +19,8 @@ import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Progress } from "~/components/ui/progress";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { RetryOriginNotice, RetryStepForm, RunLineageCard } from "~/components/features/step-retry";
+import { useRunProgress } from "~/hooks/use-run-progress";
 import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
 import {
@@ -44,8 +45,15 @@ import {
   isRunPaused,
   type IterationGroup,
 } from "~/lib/dashboard";
-import { isRunInModule, pickLatestRunForModule, sortPipelineRunsNewest } from "~/lib/pipeline-module";
-import { fetchJson } from "~/lib/pipeline-run.server";
+import {
+  buildRunLineage,
+  isRunInModule,
+  pickLatestRunForModule,
+  sortPipelineRunsNewest,
+  type RunLineage,
+} from "~/lib/pipeline-module";
+import { fetchJson, startRetryFromStep } from "~/lib/pipeline-run.server";
+import { buildRetryOriginSearch, parseRetryOrigin, type RetryOrigin } from "~/lib/pipeline-steps";
 import { cn } from "~/lib/utils";
 import type { components } from "~/types/api.generated";
 
@@ -65,6 +73,9 @@ type LoaderData = {
   stepFocus: number | null;
   snapshotsByIteration: Record<number, IterationSnapshotStats>;
   usage: BillingUsageResponse | null;
+  lineage: RunLineage;
+  /** Fallback link back to the failed run while the API reports no parent for the retry. */
+  retryOrigin: RetryOrigin | null;
 };
 
 type ActionData = {
@@ -146,17 +157,19 @@ export async function loader({ request, params }: Route.LoaderArgs) {
     throw new Response("Pipeline run not found.", { status: 404 });
   }
 
-  if (runId !== preferredDiscoveryRun.id) {
+  // Recent discovery runs stay viewable so a retry can link back to the run it was started from.
+  const viewedRun = requestedRun && isRunInModule(requestedRun, "discovery") ? requestedRun : preferredDiscoveryRun;
+  if (runId !== viewedRun.id) {
     const canonicalPathname = url.pathname.replace(
       /\/discovery\/runs\/[^/]+/,
-      `/discovery/runs/${encodeURIComponent(preferredDiscoveryRun.id)}`
+      `/discovery/runs/${encodeURIComponent(viewedRun.id)}`
     );
     return redirect(`${canonicalPathname}${url.search}`, {
       headers: await api.commit(),
     });
   }
 
-  const selectedRunId = preferredDiscoveryRun.id;
+  const selectedRunId = viewedRun.id;
   const [selectedRunResult, snapshotsResult, usageResult] = await Promise.all([
     fetchJson<PipelineRunResponse>(api, `/pipeline/${projectId}/runs/${selectedRunId}`),
     fetchJson<DiscoveryTopicSnapshotResponse[]>(api, `/pipeline/${projectId}/runs/${selectedRunId}/discovery-snapshots`),
@@ -209,6 +222,8 @@ export async function loader({ request, params }: Route.LoaderArgs) {
       stepFocus: stepFocusParsed.stepFocus,
       snapshotsByIteration,
       usage: usageResult.ok && usageResult.data ? usageResult.data : null,
+      lineage: buildRunLineage(rawRuns, selectedRun),
+      retryOrigin: selectedRun.parent_run_id ? null : parseRetryOrigin(url.searchParams),
     } satisfies LoaderData,
     {
       headers: await api.commit(),
@@ -226,7 +241,7 @@ export async function action({ request, params }: Route.ActionArgs) {
   const intent = String(formData.get("intent") ?? "");
   const api = new ApiClient(request);
 
-  if (intent !== "pausePipeline" && intent !== "resumePipeline") {
+  if (intent !== "pausePipeline" && intent !== "resumePipeline" && intent !== "retryFromStep") {
     return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
   }
 
@@ -247,13 +262,15 @@ export async function action({ request, params }: Route.ActionArgs) {
     });
   }
 
+  const requestedRun = runsResult.data.find((entry) => entry.id === params.runId) ?? null;
+  const viewedRun = requestedRun && isRunInModule(requestedRun, "discovery") ? requestedRun : preferredDiscoveryRun;
   const requestUrl = new URL(request.url);
   const canonicalPathname = requestUrl.pathname.replace(
     /\/discovery\/runs\/[^/]+/,
-    `/discovery/runs/${encodeURIComponent(preferredDiscoveryRun.id)}`
+    `/discovery/runs/${encodeURIComponent(viewedRun.id)}`
   );
   const canonicalUrl = `${canonicalPathname}${requestUrl.search}`;
-  const runId = preferredDiscoveryRun.id;
+  const runId = viewedRun.id;
 
   if (intent === "pausePipeline") {
     const response = await api.fetch(`/pipeline/${projectId}/runs/${runId}/pause`, {
@@ -284,6 +301,27 @@ export async function action({ request, params }: Route.ActionArgs) {
     );
   }
 
+  if (intent === "retryFromStep") {
+    const stepNumber = Number.parseInt(String(formData.get("step_number") ?? ""), 10);
+    if (!Number.isInteger(stepNumber) || stepNumber < 1) {
+      return data({ error: "Missing step to retry." } satisfies ActionData, { status: 400, headers: await api.commit() });
+    }
+
+    const retry = await startRetryFromStep(api, projectId, runId, stepNumber, "discovery");
+    if (retry.unauthorized) return handleUnauthorized(api);
+    if (!retry.ok || !retry.data) {
+      return data(
+        { error: retry.error ?? "Unable to retry this step." } satisfies ActionData,
+        { status: retry.status, headers: await api.commit() }
+      );
+    }
+
+    const retrySearch = buildRetryOriginSearch({ runId, stepNumber });
+    return redirect(`/projects/${projectId}/discovery/runs/${retry.data.id}${retrySearch}`, {
+      headers: await api.commit(),
+    });
+  }
+
   const resumeResponse = await api.fetch(`/pipeline/${projectId}/resume/${runId}`, {
     method: "POST",
   });
@@ -312,9 +350,13 @@ export async function action({ request, params }: Route.ActionArgs) {
 function ActiveStepCard({
   execution,
   stepFocus,
+  runId,
+  canRetry,
 }: {
   execution: StepExecutionResponse;
   stepFocus: number | null;
+  runId: string;
+  canRetry: boolean;
 }) {
   return (
     <Card
@@ -350,6 +392,14 @@ function ActiveStepCard({
             {execution.completed_at ? ` -> ${formatDateTime(execution.completed_at)}` : ""}
           </p>
         </div>
+        {execution.error_message ? (
+          <p className="rounded-lg border border-rose-200 bg-rose-50 px-2 py-1 text-xs text-rose-700">
+            {execution.error_message}
+          </p>
+        ) : null}
+        {canRetry && isRunFailed(execution.status) ? (
+          <RetryStepForm runId={runId} stepNumber={execution.step_number} />
+        ) : null}
       </CardContent>
     </Card>
   );
@@ -363,6 +413,7 @@ function StepTimelineItem({
   animationIndex,
   runId,
   projectId,
+  canRetry,
 }: {
   execution: StepExecutionResponse;
   stepFocus: number | null;
@@ -371,6 +422,7 @@ function StepTimelineItem({
   animationIndex: number;
   runId: string;
   projectId: string;
+  canRetry: boolean;
 }) {
   const isFocused = stepFocus === execution.step_number;
 
@@ -398,28 +450,38 @@ function StepTimelineItem({
         />
       </div>
 
-      <Link
-        to={`/projects/${projectId}/discovery/runs/${runId}/steps/${execution.step_number}`}
-        className={cn(
-          "col-start-2 rounded-2xl border border-slate-200 bg-white/95 px-4 py-3 shadow-[0_12px_30px_-16px_rgba(15,23,42,0.45)] md:col-start-3",
-          isFocused && "ring-2 ring-[#2f6f71]/35"
-        )}
-      >
-        <div className="flex items-center justify-between gap-3">
-          <div className="min-w-0">
-            <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">Step {execution.step_number}</p>
-            <p className="truncate font-semibold text-slate-900">{formatStepName(execution.step_name)}</p>
-            <p className="mt-0.5 truncate text-[11px] text-slate-500 md:hidden">
-              Started {formatDateTime(execution.started_at)}
-            </p>
+      <div className="col-start-2 space-y-2 md:col-start-3">
+        <Link
+          to={`/projects/${projectId}/discovery/runs/${runId}/steps/${execution.step_number}`}
+          className={cn(
+            "block rounded-2xl border border-slate-200 bg-white/95 px-4 py-3 shadow-[0_12px_30px_-16px_rgba(15,23,42,0.45)]",
+            isFocused && "ring-2 ring-[#2f6f71]/35"
+          )}
+        >
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">Step {execution.step_number}</p>
+              <p className="truncate font-semibold text-slate-900">{formatStepName(execution.step_name)}</p>
+              <p className="mt-0.5 truncate text-[11px] text-slate-500 md:hidden">
+                Started {formatDateTime(execution.started_at)}
+              </p>
+            </div>
+            <span
+              className={`inline-flex rounded-full border px-2.5 py-1 text-[11px] font-semibold ${getStatusBadgeClass(execution.status)}`}
+            >
+              {formatStatusLabel(execution.status)}
+            </span>
           </div>
-          <span
-            className={`inline-flex rounded-full border px-2.5 py-1 text-[11px] font-semibold ${getStatusBadgeClass(execution.status)}`}
-          >
-            {formatStatusLabel(execution.status)}
-          </span>
-        </div>
-      </Link>
+          {execution.error_message ? (
+            <p className="mt-2 rounded-lg border border-rose-200 bg-rose-50 px-2 py-1 text-xs text-rose-700">
+              {execution.error_message}
+            </p>
+          ) : null}
+        </Link>
+        {canRetry && isRunFailed(execution.status) ? (
+          <RetryStepForm runId={runId} stepNumber={execution.step_number} />
+        ) : null}
+      </div>
     </motion.div>
   );
 }
@@ -445,6 +507,7 @@ function IterationSection({
   runId,
   projectId,
   snapshotStats,
+  canRetry,
 }: {
   iteration: IterationGroup;
   isCurrentIteration: boolean;
@@ -453,6 +516,7 @@ function IterationSection({
   runId: string;
   projectId: string;
   snapshotStats: IterationSnapshotStats | undefined;
+  canRetry: boolean;
 }) {
   const activeExecution = iteration.executions.find((e) => isRunActive(e.status));
   const failedExecution = !activeExecution
@@ -505,7 +569,7 @@ function IterationSection({
 
       <div className="mt-3 space-y-3 pl-2">
         {isCurrentIteration && highlightedExecution ? (
-          <ActiveStepCard execution={highlightedExecution} stepFocus={stepFocus} />
+          <ActiveStepCard execution={highlightedExecution} stepFocus={stepFocus} runId={runId} canRetry={canRetry} />
         ) : null}
 
         {otherExecutions.map((execution, index) => (
@@ -518,6 +582,7 @@ function IterationSection({
             animationIndex={index}
             runId={runId}
             projectId={projectId}
+            canRetry={canRetry}
           />
         ))}
       </div>
@@ -533,6 +598,8 @@ export default function ProjectDiscoveryRunRoute() {
     stepFocus,
     snapshotsByIteration,
     usage,
+    lineage,
+    retryOrigin,
   } = useLoaderData<typeof loader>() as LoaderData;
   const actionData = useActionData<typeof action>() as ActionData | undefined;
   const revalidator = useRevalidator();
@@ -548,39 +615,19 @@ export default function ProjectDiscoveryRunRoute() {
     }
   }, [isNewlyCreated]);
 
-  const progressFetcher = useFetcher<PipelineProgressResponse>();
-  const isProgressRequestInFlightRef = useRef(false);
-
-  const liveProgress = progressFetcher.data ?? progress;
+  const { progress: liveProgress } = useRunProgress({
+    projectId: project.id,
+    runId: selectedRun.id,
+    initialProgress: progress,
+    enabled: isRunActive(progress?.status ?? selectedRun.status),
+  });
   const effectiveStatus = liveProgress?.status ?? selectedRun.status;
   const stepExecutions = (liveProgress?.steps ?? selectedRun.step_executions ?? []) as StepExecutionResponse[];
   const isAtArticleLimit = isArticleLimitReached(usage);
   const isFreeTier = isFreeTierUsage(usage);
   const showUpgradeOnly = isAtArticleLimit && isFreeTier;
   const articleLimitMessage = isAtArticleLimit ? formatArticleLimitReachedMessage(usage) : null;
-
-  useEffect(() => {
-    isProgressRequestInFlightRef.current = progressFetcher.state !== "idle";
-  }, [progressFetcher.state]);
-
-  useEffect(() => {
-    if (!selectedRun.id) return;
-    if (!isRunActive(effectiveStatus)) return;
-
-    const poll = () => {
-      if (isProgressRequestInFlightRef.current) return;
-      isProgressRequestInFlightRef.current = true;
-      progressFetcher.load(`/projects/${project.id}/progress/${selectedRun.id}?ts=${Date.now()}`);
-    };
-
-    poll();
-    const interval = window.setInterval(poll, 5000);
-
-    return () => {
-      window.clearInterval(interval);
-      isProgressRequestInFlightRef.current = false;
-    };
-  }, [project.id, selectedRun.id, effectiveStatus]);
+  const canRetrySteps = !isRunActive(effectiveStatus) && !isAtArticleLimit;
 
   const iterations = useMemo(
     () => groupExecutionsIntoIterations(stepExecutions),
@@ -671,6 +718,13 @@ export default function ProjectDiscoveryRunRoute() {
                 </Form>
               </>
             )}
+            {isMultiIteration ? (
+              <Link
+                to={`/projects/${project.id}/discovery/compare?runs=${selectedRun.id}:${iterations.length - 1},${selectedRun.id}:${iterations.length}`}
+              >
+                <Button variant="outline">Compare iterations</Button>
+              </Link>
+            ) : null}
             <Link to={`/projects/${project.id}/discovery`}>
               <Button variant="outline">Back to overview</Button>
             </Link>
@@ -725,6 +779,11 @@ export default function ProjectDiscoveryRunRoute() {
         </div>
       ) : null}
 
+      <RunLineageCard projectId={project.id} run={selectedRun} lineage={lineage} />
+      {retryOrigin ? (
+        <RetryOriginNotice origin={retryOrigin} runsPath={`/projects/${project.id}/discovery/runs`} />
+      ) : null}
+
       <Card>
         <CardHeader>
           <CardTitle>Step timeline</CardTitle>
@@ -758,6 +817,7 @@ export default function ProjectDiscoveryRunRoute() {
                       runId={selectedRun.id}
                       projectId={project.id}
                       snapshotStats={snapshotsByIteration[iteration.iterationIndex]}
+                      canRetry={canRetrySteps}
                     />
                   </div>
                 );
@@ -766,7 +826,12 @@ export default function ProjectDiscoveryRunRoute() {
           ) : (
             <div className="space-y-3">
               {activeStepExecution ? (
-                <ActiveStepCard execution={activeStepExecution} stepFocus={stepFocus} />
+                <ActiveStepCard
+                  execution={activeStepExecution}
+                  stepFocus={stepFocus}
+                  runId={selectedRun.id}
+                  canRetry={canRetrySteps}
+                />
               ) : null}
 
               {singleIterationOtherSteps.map((execution, index) => (
@@ -779,6 +844,7 @@ export default function ProjectDiscoveryRunRoute() {
                   animationIndex={index}
                   runId={selectedRun.id}
                   projectId={project.id}
+                  canRetry={canRetrySteps}
                 />
               ))}
             </div>
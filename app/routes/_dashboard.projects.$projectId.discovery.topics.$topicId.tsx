@@ -0,0 +1,411 @@
+import { Link, data, redirect, useLoaderData } from "react-router";
+import { FilePlus2 } from "lucide-react";
+import type { Route } from "./+types/_dashboard.projects.$projectId.discovery.topics.$topicId";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
+import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { PriorityFactorChart } from "~/components/features/priority-factors";
+import { ApiClient } from "~/lib/api.server";
+import { formatStatusLabel, getStatusBadgeClass } from "~/lib/dashboard";
+import { formatKeywordLabel, listKeywordSignals, normalizePriorityFactors } from "~/lib/keyword-detail";
+import { fetchAllPages, fetchJson } from "~/lib/pipeline-run.server";
+import { normalizeCannibalizationRisk } from "~/lib/topic-cannibalization";
+import { listTopicAdjustments, listTopicScores } from "~/lib/topic-detail";
+import type { components } from "~/types/api.generated";
+
+type ProjectResponse = components["schemas"]["ProjectResponse"];
+type KeywordResponse = components["schemas"]["KeywordResponse"];
+type TopicResponse = components["schemas"]["TopicResponse"];
+type TopicDetailResponse = components["schemas"]["TopicDetailResponse"];
+
+type TopicLink = Pick<TopicResponse, "id" | "name" | "keyword_count">;
+
+type LoaderData = {
+  project: ProjectResponse;
+  topic: TopicDetailResponse;
+  keywords: KeywordResponse[];
+  parent: TopicLink | null;
+  children: TopicLink[];
+  overlapping: TopicLink[];
+};
+
+const PAGE_SIZE = 200;
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+function toTopicLink(topic: TopicResponse): TopicLink {
+  return { id: topic.id, name: topic.name, keyword_count: topic.keyword_count };
+}
+
+function formatMetric(value: number | null, options?: Intl.NumberFormatOptions) {
+  return value === null ? "-" : value.toLocaleString(undefined, options);
+}
+
+function formatScore(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  const topicId = params.topicId;
+  if (!projectId || !topicId) {
+    throw new Response("Missing route parameters.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const [projectResult, topicResult] = await Promise.all([
+    fetchJson<ProjectResponse>(api, `/projects/${projectId}`),
+    fetchJson<TopicDetailResponse>(api, `/topics/${projectId}/${topicId}`),
+  ]);
+
+  if (projectResult.unauthorized || topicResult.unauthorized) return handleUnauthorized(api);
+  if (!projectResult.ok || !projectResult.data) {
+    throw new Response("Failed to load project.", { status: projectResult.status });
+  }
+  if (!topicResult.ok || !topicResult.data) {
+    throw new Response("Unable to fetch topic detail.", { status: topicResult.status });
+  }
+
+  const [keywordsResult, topicsResult] = await Promise.all([
+    fetchAllPages<KeywordResponse>(
+      api,
+      (page) => `/keywords/${projectId}?page=${page}&page_size=${PAGE_SIZE}&topic_id=${topicId}`
+    ),
+    fetchAllPages<TopicResponse>(
+      api,
+      (page) => `/topics/${projectId}?page=${page}&page_size=${PAGE_SIZE}&eligibility=all`
+    ),
+  ]);
+  if (keywordsResult.unauthorized || topicsResult.unauthorized) return handleUnauthorized(api);
+  if (!keywordsResult.ok || !keywordsResult.data) {
+    throw new Response("Unable to fetch the topic's keywords.", { status: keywordsResult.status });
+  }
+  if (!topicsResult.ok || !topicsResult.data) {
+    throw new Response("Unable to fetch related topics.", { status: topicsResult.status });
+  }
+
+  const topic = topicResult.data;
+  const topics = topicsResult.data;
+  const overlappingIds = new Set(topic.overlapping_topic_ids ?? []);
+  const parent = topic.parent_topic_id ? topics.find((entry) => entry.id === topic.parent_topic_id) : undefined;
+
+  return data(
+    {
+      project: projectResult.data,
+      topic,
+      keywords: keywordsResult.data.sort((a, b) => (b.search_volume ?? -1) - (a.search_volume ?? -1)),
+      parent: parent ? toTopicLink(parent) : null,
+      children: topics.filter((entry) => entry.parent_topic_id === topic.id).map(toTopicLink),
+      overlapping: topics.filter((entry) => overlappingIds.has(entry.id)).map(toTopicLink),
+    } satisfies LoaderData,
+    {
+      headers: await api.commit(),
+    }
+  );
+}
+
+function TopicLinkList({ projectId, topics, empty }: { projectId: string; topics: TopicLink[]; empty: string }) {
+  if (topics.length === 0) return <p className="text-sm text-slate-500">{empty}</p>;
+  return (
+    <ul className="space-y-1 text-sm">
+      {topics.map((entry) => (
+        <li key={entry.id} className="flex items-center justify-between gap-3">
+          <Link
+            to={`/projects/${projectId}/discovery/topics/${entry.id}`}
+            className="font-semibold text-[#2f6f71] hover:underline"
+          >
+            {entry.name}
+          </Link>
+          <span className="text-xs text-slate-500">{entry.keyword_count} keywords</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function DiscoveryTopicDetailRoute() {
+  const { project, topic, keywords, parent, children, overlapping } = useLoaderData<typeof loader>() as LoaderData;
+  const scores = listTopicScores(topic);
+  const adjustments = listTopicAdjustments(topic);
+  const diagnosticFactors = normalizePriorityFactors(topic.prioritization_diagnostics);
+  const diagnosticSignals = listKeywordSignals(topic.prioritization_diagnostics).filter(
+    (signal) => !diagnosticFactors.some((factor) => factor.key === signal.key)
+  );
+  const cannibalizationRisk = normalizeCannibalizationRisk(topic.cannibalization_risk);
+
+  const metrics = [
+    { label: "Keywords", value: formatMetric(topic.keyword_count) },
+    { label: "Total volume", value: formatMetric(topic.total_volume) },
+    { label: "Adjusted volume", value: formatMetric(topic.adjusted_volume_sum) },
+    { label: "Avg. difficulty", value: formatMetric(topic.avg_difficulty, { maximumFractionDigits: 1 }) },
+    { label: "Priority rank", value: topic.priority_rank === null ? "-" : `#${topic.priority_rank}` },
+    {
+      label: "Publish order",
+      value: topic.recommended_publish_order === null ? "-" : `#${topic.recommended_publish_order}`,
+    },
+    { label: "Market mode", value: topic.market_mode ? formatKeywordLabel(topic.market_mode) : "-" },
+    { label: "URL type", value: topic.recommended_url_type ? formatKeywordLabel(topic.recommended_url_type) : "-" },
+  ];
+
+  const clusterFacts = [
+    { label: "Cluster method", value: topic.cluster_method },
+    { label: "Dominant intent", value: topic.dominant_intent },
+    { label: "Dominant page type", value: topic.dominant_page_type },
+    { label: "Funnel stage", value: topic.funnel_stage },
+    { label: "Expected role", value: topic.expected_role },
+    { label: "LLM tier recommendation", value: topic.llm_tier_recommendation },
+    { label: "Hard exclusion", value: topic.hard_exclusion_reason },
+    { label: "Final cut reason", value: topic.final_cut_reason_code },
+  ].filter((fact): fact is { label: string; value: string } => Boolean(fact.value));
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-gradient-to-r from-white via-[#f0f6f5] to-[#ecf2fb] p-6 shadow-[0_20px_45px_-30px_rgba(15,23,42,0.55)]">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[#2f6f71]">Topic · {project.name}</p>
+            <h1 className="mt-1 font-display text-3xl font-bold text-slate-900">{topic.name}</h1>
+            {topic.description ? <p className="mt-2 max-w-3xl text-sm text-slate-600">{topic.description}</p> : null}
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {topic.fit_tier ? <Badge variant="info">{formatKeywordLabel(topic.fit_tier)}</Badge> : null}
+              {cannibalizationRisk !== null && cannibalizationRisk >= 0.4 ? (
+                <Link to={`/projects/${project.id}/discovery/cannibalization`}>
+                  <Badge variant={cannibalizationRisk >= 0.7 ? "danger" : "warning"}>
+                    {Math.round(cannibalizationRisk * 100)}% cannibalization risk
+                  </Badge>
+                </Link>
+              ) : null}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Link to={`/projects/${project.id}/creation/briefs/new?topic=${topic.id}`}>
+              <Button>
+                <FilePlus2 className="mr-2 h-4 w-4" />
+                Create brief
+              </Button>
+            </Link>
+            <Link to={`/projects/${project.id}/discovery/topics`}>
+              <Button variant="outline">Back to topics</Button>
+            </Link>
+          </div>
+        </div>
+      </section>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="rounded-xl border border-slate-200 bg-white px-4 py-3">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">{metric.label}</p>
+            <p className="mt-1 text-lg font-semibold text-slate-900">{metric.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Score breakdown</CardTitle>
+            <CardDescription>Scores from topic prioritization, shown on a 0-100 scale.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {scores.length === 0 ? (
+              <p className="text-sm text-slate-500">This topic has not been scored yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {scores.map((score) => (
+                  <li key={score.key} className="space-y-1">
+                    <div className="flex items-center justify-between gap-3 text-sm">
+                      <span className="font-medium text-slate-800" title={score.description}>
+                        {score.label}
+                      </span>
+                      <span className="text-xs text-slate-500">{formatScore(score.value)}</span>
+                    </div>
+                    <div className="h-2.5 overflow-hidden rounded-full bg-slate-100">
+                      <div className="h-full rounded-full bg-[#2f6f71]" style={{ width: `${score.percent}%` }} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {adjustments.length > 0 ? (
+              <div className="flex flex-wrap gap-2 border-t border-slate-200 pt-3 text-xs">
+                {adjustments.map((adjustment) => (
+                  <span key={adjustment.key} className="rounded-full bg-slate-100 px-2 py-1 font-semibold text-slate-700">
+                    {adjustment.label}: {adjustment.value > 0 ? "+" : ""}
+                    {formatScore(adjustment.value)}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Prioritization diagnostics</CardTitle>
+            <CardDescription>What the prioritization step recorded while ranking this topic.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {diagnosticFactors.length === 0 && diagnosticSignals.length === 0 ? (
+              <p className="text-sm text-slate-500">No diagnostics recorded.</p>
+            ) : null}
+            {diagnosticFactors.length > 0 ? <PriorityFactorChart factors={diagnosticFactors} /> : null}
+            {diagnosticSignals.length > 0 ? (
+              <dl className="grid gap-2 text-sm">
+                {diagnosticSignals.map((signal) => (
+                  <div key={signal.key} className="flex items-start justify-between gap-3 border-b border-slate-100 pb-2">
+                    <dt className="font-medium text-slate-700">{signal.label}</dt>
+                    <dd className="text-right text-slate-600">{signal.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : null}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Cluster notes</CardTitle>
+            <CardDescription>How the cluster was formed and where it is headed.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {topic.cluster_notes ? (
+              <p className="whitespace-pre-line text-slate-700">{topic.cluster_notes}</p>
+            ) : (
+              <p className="text-slate-500">No cluster notes.</p>
+            )}
+            {clusterFacts.length > 0 ? (
+              <dl className="grid gap-2 sm:grid-cols-2">
+                {clusterFacts.map((fact) => (
+                  <div key={fact.label} className="rounded-lg bg-slate-50 px-3 py-2">
+                    <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">{fact.label}</dt>
+                    <dd className="mt-0.5 text-slate-800">{formatKeywordLabel(fact.value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : null}
+            {topic.target_money_pages && topic.target_money_pages.length > 0 ? (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Target money pages</p>
+                <ul className="space-y-0.5 text-slate-700">
+                  {topic.target_money_pages.map((page) => (
+                    <li key={page} className="truncate">
+                      {page}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Related topics</CardTitle>
+            <CardDescription>Where this topic sits in the hierarchy, and topics it competes with.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Parent</p>
+              <TopicLinkList projectId={project.id} topics={parent ? [parent] : []} empty="Top-level topic." />
+            </div>
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Children</p>
+              <TopicLinkList projectId={project.id} topics={children} empty="No child topics." />
+            </div>
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Overlapping</p>
+              <TopicLinkList projectId={project.id} topics={overlapping} empty="No overlapping topics." />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Member keywords</CardTitle>
+          <CardDescription>{keywords.length} keywords assigned to this topic, by search volume.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {keywords.length === 0 ? (
+            <p className="text-sm text-slate-500">No keywords are assigned to this topic.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Keyword</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Volume</TableHead>
+                    <TableHead className="text-right">Difficulty</TableHead>
+                    <TableHead>Intent</TableHead>
+                    <TableHead className="text-right">Priority</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {keywords.map((keyword) => (
+                    <TableRow key={keyword.id}>
+                      <TableCell>
+                        <Link
+                          to={`/projects/${project.id}/keyword-detail/${keyword.id}`}
+                          className="font-semibold text-slate-900 hover:text-[#2f6f71] hover:underline"
+                        >
+                          {keyword.keyword}
+                        </Link>
+                        {keyword.id === topic.primary_keyword_id ? (
+                          <span className="ml-2 rounded-full bg-[#e2f2f2] px-2 py-0.5 text-[11px] font-semibold text-[#2f6f71]">
+                            Primary
+                          </span>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-flex rounded-full border px-2.5 py-1 text-[11px] font-semibold ${getStatusBadgeClass(keyword.status)}`}
+                        >
+                          {formatStatusLabel(keyword.status)}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{formatMetric(keyword.search_volume)}</TableCell>
+                      <TableCell className="text-right">{formatMetric(keyword.difficulty)}</TableCell>
+                      <TableCell>{keyword.intent ? formatKeywordLabel(keyword.intent) : "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMetric(keyword.priority_score, { maximumFractionDigits: 2 })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error, params }: Route.ErrorBoundaryProps) {
+  const projectId = params.projectId;
+  const safeHref = projectId ? `/projects/${encodeURIComponent(projectId)}/discovery/topics` : "/project";
+
+  return (
+    <RouteErrorBoundaryCard
+      error={error}
+      variant="panel"
+      title="Topic detail unavailable"
+      description="This topic could not be loaded."
+      safeHref={safeHref}
+      safeLabel={projectId ? "Back to topics" : "Back to dashboard"}
+      retryLabel="Retry topic detail"
+      showStatus
+    />
+  );
+}
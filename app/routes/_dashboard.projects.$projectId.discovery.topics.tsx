@@ -1,53 +1,51 @@
-import type { ReactNode } from "react";
-import { Link, data, redirect, useLoaderData } from "react-router";
+import { useEffect, useMemo, useState } from "react";
+import { Undo2 } from "lucide-react";
+import { Link, data, redirect, useFetcher, useLoaderData, useSearchParams } from "react-router";
 import type { Route } from "./+types/_dashboard.projects.$projectId.discovery.topics";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Dialog } from "~/components/ui/dialog";
+import { Select } from "~/components/ui/select";
+import { ExportLinks } from "~/components/features/data-export";
+import { TopicHierarchyTree } from "~/components/features/topic-hierarchy";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
-import { fetchJson } from "~/lib/pipeline-run.server";
+import { findTopicNode, findTopicParentId, moveTopicInHierarchy } from "~/lib/topic-hierarchy";
+import { cn } from "~/lib/utils";
+import { fetchAllPages, fetchJson } from "~/lib/pipeline-run.server";
+import { TOPIC_ELIGIBILITY_OPTIONS, parseTopicEligibility, type TopicEligibility } from "~/lib/topic-eligibility";
 import type { components } from "~/types/api.generated";
 
 type ProjectResponse = components["schemas"]["ProjectResponse"];
-type TopicListResponse = components["schemas"]["TopicListResponse"];
 type TopicResponse = components["schemas"]["TopicResponse"];
 type TopicHierarchyResponse = components["schemas"]["TopicHierarchyResponse"];
+type TopicMergeRequest = components["schemas"]["TopicMergeRequest"];
+type TopicUpdate = components["schemas"]["TopicUpdate"];
 
 type LoaderData = {
   project: ProjectResponse;
+  eligibility: TopicEligibility;
   topics: TopicResponse[];
   rankedTopics: TopicResponse[];
   topicHierarchy: TopicHierarchyResponse[];
 };
 
-function hasNestedHierarchy(topics: TopicHierarchyResponse[]) {
-  return topics.some((topic) => topic.children.length > 0);
-}
+type ActionData = {
+  error?: string;
+  mergedTopic?: TopicResponse;
+  movedTopic?: TopicResponse;
+};
 
-function renderHierarchyNodes(nodes: TopicHierarchyResponse[], depth = 0): ReactNode {
-  if (nodes.length === 0) return null;
+type TopicMove = {
+  topicId: string;
+  topicName: string;
+  fromParentId: string | null;
+  toParentId: string | null;
+};
 
-  return (
-    <ul className="space-y-2">
-      {nodes.map((node) => (
-        <li key={node.id}>
-          <div
-            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
-            style={{ marginLeft: depth * 12 }}
-          >
-            <div className="flex items-center justify-between gap-3">
-              <span className="font-semibold text-slate-900">{node.name}</span>
-              <span className="text-xs text-slate-500">{node.keyword_count} keywords</span>
-            </div>
-            {node.priority_rank !== null ? (
-              <p className="text-xs text-slate-500">Priority rank: #{node.priority_rank}</p>
-            ) : null}
-          </div>
-          {node.children.length > 0 ? renderHierarchyNodes(node.children, depth + 1) : null}
-        </li>
-      ))}
-    </ul>
-  );
+function hasNestedHierarchy(topics: TopicHierarchyResponse[]) {
+  return topics.some((topic) => topic.children.length > 0);
 }
 
 async function handleUnauthorized(api: ApiClient) {
@@ -65,6 +63,7 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   }
 
   const api = new ApiClient(request);
+  const eligibility = parseTopicEligibility(new URL(request.url).searchParams.get("eligibility"));
 
   const projectResult = await fetchJson<ProjectResponse>(api, `/projects/${projectId}`);
   if (projectResult.unauthorized) return handleUnauthorized(api);
@@ -73,7 +72,10 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   }
 
   const [topicsResult, rankedTopicsResult, hierarchyResult] = await Promise.all([
-    fetchJson<TopicListResponse>(api, `/topics/${projectId}?page=1&page_size=200&eligibility=all`),
+    fetchAllPages<TopicResponse>(
+      api,
+      (page) => `/topics/${projectId}?page=${page}&page_size=200&eligibility=${eligibility}`
+    ),
     fetchJson<TopicResponse[]>(api, `/topics/${projectId}/ranked?limit=30`),
     fetchJson<TopicHierarchyResponse[]>(api, `/topics/${projectId}/hierarchy`),
   ]);
@@ -85,7 +87,8 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   return data(
     {
       project: projectResult.data,
-      topics: topicsResult.ok && topicsResult.data ? topicsResult.data.items ?? [] : [],
+      eligibility,
+      topics: topicsResult.ok && topicsResult.data ? topicsResult.data : [],
       rankedTopics: rankedTopicsResult.ok && rankedTopicsResult.data ? rankedTopicsResult.data : [],
       topicHierarchy: hierarchyResult.ok && hierarchyResult.data ? hierarchyResult.data : [],
     } satisfies LoaderData,
@@ -95,8 +98,179 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   );
 }
 
+export async function action({ request, params }: Route.ActionArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    return data({ error: "Missing project id." } satisfies ActionData, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") ?? "");
+  if (intent !== "mergeTopics" && intent !== "moveTopic") {
+    return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
+  }
+
+  if (intent === "moveTopic") {
+    const topicId = String(formData.get("topic_id") ?? "").trim();
+    const parentTopicId = String(formData.get("parent_topic_id") ?? "").trim();
+    if (!topicId) {
+      return data({ error: "Missing topic id." } satisfies ActionData, { status: 400 });
+    }
+
+    const api = new ApiClient(request);
+    const response = await api.fetch(`/topics/${projectId}/${topicId}`, {
+      method: "PUT",
+      json: { parent_topic_id: parentTopicId || null } satisfies TopicUpdate,
+    });
+
+    if (response.status === 401) return handleUnauthorized(api);
+
+    if (!response.ok) {
+      const apiMessage = await readApiErrorMessage(response);
+      return data(
+        { error: apiMessage ?? "Unable to move topic." } satisfies ActionData,
+        { status: response.status, headers: await api.commit() }
+      );
+    }
+
+    const movedTopic = (await response.json()) as TopicResponse;
+    return data({ movedTopic } satisfies ActionData, {
+      headers: await api.commit(),
+    });
+  }
+
+  const sourceTopicIds = Array.from(
+    new Set(
+      formData
+        .getAll("source_topic_id")
+        .map((value) => String(value).trim())
+        .filter(Boolean)
+    )
+  );
+  const targetName = String(formData.get("target_name") ?? "").trim();
+  const targetDescription = String(formData.get("target_description") ?? "").trim();
+
+  if (sourceTopicIds.length < 2) {
+    return data({ error: "Select at least two topics to merge." } satisfies ActionData, { status: 400 });
+  }
+  if (!targetName) {
+    return data({ error: "Name the merged topic." } satisfies ActionData, { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const response = await api.fetch(`/topics/${projectId}/merge`, {
+    method: "POST",
+    json: {
+      source_topic_ids: sourceTopicIds,
+      target_name: targetName,
+      target_description: targetDescription || null,
+    } satisfies TopicMergeRequest,
+  });
+
+  if (response.status === 401) return handleUnauthorized(api);
+
+  if (!response.ok) {
+    const apiMessage = await readApiErrorMessage(response);
+    return data(
+      { error: apiMessage ?? "Unable to merge selected topics." } satisfies ActionData,
+      { status: response.status, headers: await api.commit() }
+    );
+  }
+
+  const mergedTopic = (await response.json()) as TopicResponse;
+  return data({ mergedTopic } satisfies ActionData, {
+    headers: await api.commit(),
+  });
+}
+
 export default function DiscoveryTopicsRoute() {
-  const { project, topics, rankedTopics, topicHierarchy } = useLoaderData<typeof loader>() as LoaderData;
+  const { project, eligibility, topics, rankedTopics, topicHierarchy } = useLoaderData<typeof loader>() as LoaderData;
+  const [, setSearchParams] = useSearchParams();
+  // The export follows the eligibility filter so it holds the same topics as the total below.
+  const exportSearchParams = useMemo(() => new URLSearchParams({ eligibility }), [eligibility]);
+  const mergeFetcher = useFetcher<ActionData>();
+  const moveFetcher = useFetcher<ActionData>();
+  const [lastMove, setLastMove] = useState<TopicMove | null>(null);
+  const [selectedTopicIds, setSelectedTopicIds] = useState<string[]>([]);
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  const [mergeTargetName, setMergeTargetName] = useState("");
+  const [mergeTargetDescription, setMergeTargetDescription] = useState("");
+
+  const isMerging = mergeFetcher.state !== "idle";
+  const mergeResult = mergeFetcher.state === "idle" ? mergeFetcher.data : undefined;
+
+  const selectedTopics = useMemo(
+    () => rankedTopics.filter((topic) => selectedTopicIds.includes(topic.id)),
+    [rankedTopics, selectedTopicIds]
+  );
+  const mergePreview = useMemo(
+    () => ({
+      keywordCount: selectedTopics.reduce((acc, topic) => acc + topic.keyword_count, 0),
+      totalVolume: selectedTopics.reduce((acc, topic) => acc + (topic.total_volume ?? 0), 0),
+    }),
+    [selectedTopics]
+  );
+
+  useEffect(() => {
+    if (!mergeResult?.mergedTopic) return;
+    setSelectedTopicIds([]);
+    setIsMergeDialogOpen(false);
+  }, [mergeResult]);
+
+  const isMovingTopic = moveFetcher.state !== "idle";
+  const moveError = moveFetcher.state === "idle" ? moveFetcher.data?.error : undefined;
+  const pendingMoveTopicId = moveFetcher.formData ? String(moveFetcher.formData.get("topic_id") ?? "") : null;
+
+  // Show the in-flight move immediately; the loader revalidation replaces it with the saved tree.
+  const displayedHierarchy = useMemo(() => {
+    const formData = moveFetcher.formData;
+    if (!formData) return topicHierarchy;
+    const topicId = String(formData.get("topic_id") ?? "");
+    const parentTopicId = String(formData.get("parent_topic_id") ?? "");
+    return moveTopicInHierarchy(topicHierarchy, topicId, parentTopicId || null);
+  }, [moveFetcher.formData, topicHierarchy]);
+
+  useEffect(() => {
+    if (moveError) setLastMove(null);
+  }, [moveError]);
+
+  const submitTopicMove = (topicId: string, newParentId: string | null) => {
+    moveFetcher.submit({ intent: "moveTopic", topic_id: topicId, parent_topic_id: newParentId ?? "" }, { method: "post" });
+  };
+
+  const handleTopicMove = (topicId: string, newParentId: string | null) => {
+    const fromParentId = findTopicParentId(topicHierarchy, topicId);
+    if (fromParentId === undefined) return;
+    setLastMove({
+      topicId,
+      topicName: findTopicNode(topicHierarchy, topicId)?.name ?? "Topic",
+      fromParentId,
+      toParentId: newParentId,
+    });
+    submitTopicMove(topicId, newParentId);
+  };
+
+  const undoLastMove = () => {
+    if (!lastMove) return;
+    submitTopicMove(lastMove.topicId, lastMove.fromParentId);
+    setLastMove(null);
+  };
+
+  const describeParent = (parentId: string | null) =>
+    parentId ? findTopicNode(topicHierarchy, parentId)?.name ?? "another topic" : "the top level";
+
+  const toggleTopicSelected = (topicId: string) => {
+    setSelectedTopicIds((current) =>
+      current.includes(topicId) ? current.filter((id) => id !== topicId) : [...current, topicId]
+    );
+  };
+
+  const openMergeDialog = () => {
+    // Default to the best-ranked topic's name, which is usually the one worth keeping.
+    setMergeTargetName(selectedTopics[0]?.name ?? "");
+    setMergeTargetDescription(selectedTopics[0]?.description ?? "");
+    setIsMergeDialogOpen(true);
+  };
 
   return (
     <div className="space-y-6">
@@ -109,7 +283,28 @@ export default function DiscoveryTopicsRoute() {
               Ranked topic backlog and cluster hierarchy for this project.
             </p>
           </div>
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              aria-label="Topic eligibility"
+              value={eligibility}
+              onChange={(event) =>
+                setSearchParams(event.target.value === "all" ? {} : { eligibility: event.target.value })
+              }
+              className="w-44"
+            >
+              {TOPIC_ELIGIBILITY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+            <ExportLinks path={`/projects/${project.id}/exports/topics`} searchParams={exportSearchParams} />
+            <Link to={`/projects/${project.id}/creation/briefs/new`}>
+              <Button variant="outline">New brief</Button>
+            </Link>
+            <Link to={`/projects/${project.id}/discovery/cannibalization`}>
+              <Button variant="outline">Cannibalization report</Button>
+            </Link>
             <Link to={`/projects/${project.id}/discovery`}>
               <Button variant="outline">Back to overview</Button>
             </Link>
@@ -119,7 +314,11 @@ export default function DiscoveryTopicsRoute() {
 
       <div className="grid gap-2 text-xs text-slate-600 sm:grid-cols-3">
         <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
-          <p className="font-semibold text-slate-900">Total topics</p>
+          <p className="font-semibold text-slate-900">
+            {eligibility === "all"
+              ? "Total topics"
+              : TOPIC_ELIGIBILITY_OPTIONS.find((option) => option.value === eligibility)?.label}
+          </p>
           <p>{topics.length}</p>
         </div>
         <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
@@ -132,10 +331,33 @@ export default function DiscoveryTopicsRoute() {
         </div>
       </div>
 
+      {mergeResult?.mergedTopic ? (
+        <p className="rounded-xl border border-emerald-300 bg-emerald-50 px-3 py-2 text-sm font-semibold text-emerald-800">
+          Merged into “{mergeResult.mergedTopic.name}”.
+        </p>
+      ) : null}
+
       <Card>
         <CardHeader>
-          <CardTitle>Prioritized topic backlog</CardTitle>
-          <CardDescription>Focus your publish queue on highest value topics first.</CardDescription>
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="space-y-1.5">
+              <CardTitle>Prioritized topic backlog</CardTitle>
+              <CardDescription>
+                Focus your publish queue on highest value topics first. Select duplicate clusters to merge them.
+              </CardDescription>
+            </div>
+            {selectedTopicIds.length > 0 ? (
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-slate-700">{selectedTopicIds.length} selected</span>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedTopicIds([])}>
+                  Clear
+                </Button>
+                <Button type="button" size="sm" disabled={selectedTopicIds.length < 2} onClick={openMergeDialog}>
+                  Merge topics
+                </Button>
+              </div>
+            ) : null}
+          </div>
         </CardHeader>
         <CardContent>
           {rankedTopics.length === 0 ? (
@@ -143,9 +365,39 @@ export default function DiscoveryTopicsRoute() {
           ) : (
             <div className="grid gap-3 md:grid-cols-2">
               {rankedTopics.map((topic) => (
-                <div key={topic.id} className="rounded-xl border border-slate-200 bg-white p-3 text-sm">
-                  <p className="font-semibold text-slate-900">{topic.name}</p>
-                  <p className="text-xs text-slate-500">Keywords: {topic.keyword_count}</p>
+                <label
+                  key={topic.id}
+                  className={cn(
+                    "block cursor-pointer rounded-xl border bg-white p-3 text-sm transition-colors",
+                    selectedTopicIds.includes(topic.id) ? "border-[#2f6f71] ring-2 ring-[#2f6f71]/20" : "border-slate-200"
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <Link
+                        to={`/projects/${project.id}/discovery/topics/${topic.id}`}
+                        className="font-semibold text-slate-900 hover:text-[#2f6f71] hover:underline"
+                      >
+                        {topic.name}
+                      </Link>
+                      <p className="text-xs text-slate-500">
+                        Keywords: {topic.keyword_count} ·{" "}
+                        <Link
+                          to={`/projects/${project.id}/creation/briefs/new?topic=${topic.id}`}
+                          className="font-semibold text-[#2f6f71] hover:underline"
+                        >
+                          New brief
+                        </Link>
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${topic.name}`}
+                      checked={selectedTopicIds.includes(topic.id)}
+                      onChange={() => toggleTopicSelected(topic.id)}
+                      className="mt-0.5 h-4 w-4 accent-[#2f6f71]"
+                    />
+                  </div>
                   <div className="mt-2 flex flex-wrap gap-1.5 text-[11px]">
                     {topic.priority_rank !== null ? (
                       <span className="rounded-full bg-indigo-100 px-2 py-1 font-semibold text-indigo-900">
@@ -158,22 +410,130 @@ export default function DiscoveryTopicsRoute() {
                       </span>
                     ) : null}
                   </div>
-                </div>
+                </label>
               ))}
             </div>
           )}
         </CardContent>
       </Card>
 
-      {hasNestedHierarchy(topicHierarchy) ? (
+      {topicHierarchy.length > 0 ? (
         <Card>
           <CardHeader>
-            <CardTitle>Topic hierarchy</CardTitle>
-            <CardDescription>Nested view of topic clusters and parent-child relationships.</CardDescription>
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="space-y-1.5">
+                <CardTitle>Topic hierarchy</CardTitle>
+                <CardDescription>
+                  Drag a topic onto another to nest it. Keyword counts roll up from child clusters.
+                </CardDescription>
+              </div>
+              {lastMove ? (
+                <Button type="button" variant="outline" size="sm" disabled={isMovingTopic} onClick={undoLastMove}>
+                  <Undo2 className="mr-1.5 h-4 w-4" />
+                  Undo move
+                </Button>
+              ) : null}
+            </div>
           </CardHeader>
-          <CardContent>{renderHierarchyNodes(topicHierarchy)}</CardContent>
+          <CardContent className="space-y-3">
+            {lastMove && !isMovingTopic ? (
+              <p className="text-xs text-slate-500">
+                Moved “{lastMove.topicName}” from {describeParent(lastMove.fromParentId)} to{" "}
+                {describeParent(lastMove.toParentId)}.
+              </p>
+            ) : null}
+            {moveError ? (
+              <p className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+                {moveError}
+              </p>
+            ) : null}
+            <TopicHierarchyTree
+              nodes={displayedHierarchy}
+              onMove={handleTopicMove}
+              disabled={isMovingTopic}
+              pendingTopicId={pendingMoveTopicId}
+            />
+          </CardContent>
         </Card>
       ) : null}
+
+      <Dialog
+        open={isMergeDialogOpen}
+        onClose={() => setIsMergeDialogOpen(false)}
+        title="Merge topics"
+        description="Combine the selected topics into one target topic. Their keywords move to the new topic."
+      >
+        <mergeFetcher.Form method="post" className="space-y-4">
+          <input type="hidden" name="intent" value="mergeTopics" />
+          {selectedTopics.map((topic) => (
+            <input key={topic.id} type="hidden" name="source_topic_id" value={topic.id} />
+          ))}
+
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+              <p className="text-xs font-semibold uppercase text-slate-500">Combined keywords</p>
+              <p className="font-display text-2xl font-bold text-slate-900">{mergePreview.keywordCount}</p>
+            </div>
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+              <p className="text-xs font-semibold uppercase text-slate-500">Total volume</p>
+              <p className="font-display text-2xl font-bold text-slate-900">
+                {mergePreview.totalVolume.toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          <ul className="space-y-1.5">
+            {selectedTopics.map((topic) => (
+              <li
+                key={topic.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-slate-200 px-3 py-2 text-sm"
+              >
+                <span className="font-medium text-slate-900">{topic.name}</span>
+                <span className="text-xs text-slate-500">
+                  {topic.keyword_count} keywords · {(topic.total_volume ?? 0).toLocaleString()} volume
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <label className="grid gap-1 text-sm font-semibold text-slate-700">
+            Target topic name
+            <input
+              type="text"
+              name="target_name"
+              required
+              value={mergeTargetName}
+              onChange={(event) => setMergeTargetName(event.target.value)}
+              className="h-10 rounded-xl border border-slate-300 px-3 text-sm font-normal"
+            />
+          </label>
+          <label className="grid gap-1 text-sm font-semibold text-slate-700">
+            Description
+            <textarea
+              name="target_description"
+              rows={3}
+              value={mergeTargetDescription}
+              onChange={(event) => setMergeTargetDescription(event.target.value)}
+              className="rounded-xl border border-slate-300 px-3 py-2 text-sm font-normal"
+            />
+          </label>
+
+          {mergeFetcher.data?.error && !isMerging ? (
+            <p className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm font-semibold text-rose-700">
+              {mergeFetcher.data.error}
+            </p>
+          ) : null}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setIsMergeDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isMerging || selectedTopics.length < 2 || !mergeTargetName.trim()}>
+              {isMerging ? "Merging..." : `Merge ${selectedTopics.length} topics`}
+            </Button>
+          </div>
+        </mergeFetcher.Form>
+      </Dialog>
     </div>
   );
 }
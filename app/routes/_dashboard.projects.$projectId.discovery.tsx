@@ -1,5 +1,5 @@
-import { useEffect, useRef } from "react";
-import { Link, Form, data, redirect, useActionData, useFetcher, useLoaderData, useRevalidator, useSearchParams } from "react-router";
+import { useEffect, useState } from "react";
+import { Link, Form, data, redirect, useActionData, useLoaderData, useRevalidator, useSearchParams } from "react-router";
 import { Search, Layers, RefreshCw } from "lucide-react";
 import type { Route } from "./+types/_dashboard.projects.$projectId.discovery";
 import { Button } from "~/components/ui/button";
@@ -7,6 +7,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/com
 import { Progress } from "~/components/ui/progress";
 import { useOnboarding } from "~/components/onboarding/onboarding-context";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { NewDiscoveryRunDialog } from "~/components/features/discovery-run-launcher";
+import { useRunProgress } from "~/hooks/use-run-progress";
 import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
 import {
@@ -27,9 +29,25 @@ import {
   isRunPaused,
 } from "~/lib/dashboard";
 import {
+  filterRunsByModule,
   pickLatestRunForModule,
   sortPipelineRunsNewest,
 } from "~/lib/pipeline-module";
+import {
+  collectPipelineSteps,
+  parseStepRangeValues,
+  toStepRangeRequest,
+  validateStepRangeOrder,
+  type PipelineStepOption,
+  type StepRangeValues,
+} from "~/lib/pipeline-steps";
+import {
+  hasDiscoveryRunFormErrors,
+  parseDiscoveryRunFormValues,
+  toDiscoveryStartRequest,
+  validateDiscoveryRunForm,
+  type DiscoveryRunFormValues,
+} from "~/lib/discovery-run-config";
 import { fetchJson } from "~/lib/pipeline-run.server";
 import type { components } from "~/types/api.generated";
 
@@ -58,6 +76,7 @@ type LoaderData = {
   rankedTopicCount: number;
   snapshotStats: SnapshotStats;
   usage: BillingUsageResponse | null;
+  pipelineSteps: PipelineStepOption[];
 };
 
 type ActionData = {
@@ -163,6 +182,7 @@ export async function loader({ request, params }: Route.LoaderArgs) {
       rankedTopicCount: rankedTopicsResult.ok && rankedTopicsResult.data ? rankedTopicsResult.data.length : 0,
       snapshotStats,
       usage: usageResult.ok && usageResult.data ? usageResult.data : null,
+      pipelineSteps: collectPipelineSteps(filterRunsByModule(rawRuns, "discovery")),
     } satisfies LoaderData,
     {
       headers: await api.commit(),
@@ -180,10 +200,58 @@ export async function action({ request, params }: Route.ActionArgs) {
   const formData = await request.formData();
   const intent = String(formData.get("intent") ?? "");
 
-  if (intent !== "pausePipeline" && intent !== "resumePipeline" && intent !== "startDiscoveryFromSetup") {
+  if (
+    intent !== "pausePipeline" &&
+    intent !== "resumePipeline" &&
+    intent !== "startDiscoveryFromSetup" &&
+    intent !== "startDiscoveryRun"
+  ) {
     return data({ error: "Unsupported action." } satisfies ActionData, { status: 400 });
   }
 
+  if (intent === "startDiscoveryRun") {
+    let values: DiscoveryRunFormValues | null = null;
+    try {
+      values = parseDiscoveryRunFormValues(JSON.parse(String(formData.get("config_json") ?? "")));
+    } catch {
+      values = null;
+    }
+    let stepRange: StepRangeValues | null = null;
+    try {
+      stepRange = parseStepRangeValues(JSON.parse(String(formData.get("step_range_json") ?? "null")));
+    } catch {
+      stepRange = null;
+    }
+    if (!values || hasDiscoveryRunFormErrors(validateDiscoveryRunForm(values)) || !stepRange || validateStepRangeOrder(stepRange)) {
+      return data({ error: "Check the run settings and try again." } satisfies ActionData, { status: 400 });
+    }
+
+    const startResponse = await api.fetch(`/pipeline/${projectId}/start`, {
+      method: "POST",
+      json: { ...toDiscoveryStartRequest(values), ...toStepRangeRequest(stepRange) },
+    });
+
+    if (startResponse.status === 401) return handleUnauthorized(api);
+
+    if (!startResponse.ok) {
+      const apiMessage = await readApiErrorMessage(startResponse);
+      return data(
+        {
+          error:
+            apiMessage ??
+            (startResponse.status === 409
+              ? "Discovery is already running for this project."
+              : "Unable to start discovery pipeline."),
+        } satisfies ActionData,
+        { status: startResponse.status, headers: await api.commit() }
+      );
+    }
+
+    return redirect(`/projects/${projectId}/discovery`, {
+      headers: await api.commit(),
+    });
+  }
+
   if (intent === "startDiscoveryFromSetup") {
     const startResponse = await api.fetch(`/pipeline/${projectId}/start`, {
       method: "POST",
@@ -389,17 +457,21 @@ export default function ProjectDiscoveryHubRoute() {
     rankedTopicCount,
     snapshotStats,
     usage,
+    pipelineSteps,
   } = useLoaderData<typeof loader>() as LoaderData;
   const actionData = useActionData<typeof action>() as ActionData | undefined;
   const revalidator = useRevalidator();
   const [searchParams] = useSearchParams();
   const onboarding = useOnboarding();
   const isNewlyCreated = searchParams.get("created") === "1";
+  const [isRunDialogOpen, setIsRunDialogOpen] = useState(false);
 
-  const progressFetcher = useFetcher<PipelineProgressResponse>();
-  const isProgressRequestInFlightRef = useRef(false);
-
-  const liveProgress = progressFetcher.data ?? latestRunProgress;
+  const { progress: liveProgress } = useRunProgress({
+    projectId: project.id,
+    runId: latestRun?.id,
+    initialProgress: latestRunProgress,
+    enabled: isRunActive(latestRunProgress?.status ?? latestRun?.status),
+  });
   const effectiveStatus = liveProgress?.status ?? latestRun?.status ?? null;
   const isAtArticleLimit = isArticleLimitReached(usage);
   const isFreeTier = isFreeTierUsage(usage);
@@ -413,29 +485,6 @@ export default function ProjectDiscoveryHubRoute() {
     onboarding.advance({ runId: latestRun?.id ?? undefined });
   }, [isNewlyCreated, onboarding, project.id, latestRun?.id]);
 
-  useEffect(() => {
-    isProgressRequestInFlightRef.current = progressFetcher.state !== "idle";
-  }, [progressFetcher.state]);
-
-  useEffect(() => {
-    if (!latestRun?.id) return;
-    if (!isRunActive(effectiveStatus)) return;
-
-    const poll = () => {
-      if (isProgressRequestInFlightRef.current) return;
-      isProgressRequestInFlightRef.current = true;
-      progressFetcher.load(`/projects/${project.id}/progress/${latestRun.id}?ts=${Date.now()}`);
-    };
-
-    poll();
-    const interval = window.setInterval(poll, 5000);
-
-    return () => {
-      window.clearInterval(interval);
-      isProgressRequestInFlightRef.current = false;
-    };
-  }, [project.id, latestRun?.id, effectiveStatus]);
-
   const overallProgress = Math.round(
     liveProgress?.overall_progress ?? calculateOverallProgress(liveProgress?.steps ?? latestRun?.step_executions ?? [])
   );
@@ -452,9 +501,17 @@ export default function ProjectDiscoveryHubRoute() {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            {!showUpgradeOnly ? (
+              <Button onClick={() => setIsRunDialogOpen(true)} disabled={isRunActive(effectiveStatus)}>
+                New discovery run
+              </Button>
+            ) : null}
             <Link to={`/projects/${project.id}/creation`}>
               <Button variant="outline">View content</Button>
             </Link>
+            <Link to={`/projects/${project.id}/discovery/compare`}>
+              <Button variant="outline">Compare runs</Button>
+            </Link>
             <Link to="/project">
               <Button variant="outline">Back to project</Button>
             </Link>
@@ -667,6 +724,13 @@ export default function ProjectDiscoveryHubRoute() {
           </CardContent>
         </Card>
       ) : null}
+
+      <NewDiscoveryRunDialog
+        projectId={project.id}
+        steps={pipelineSteps}
+        open={isRunDialogOpen}
+        onClose={() => setIsRunDialogOpen(false)}
+      />
     </div>
   );
 }
@@ -1,9 +1,42 @@
-import { data, redirect } from "react-router";
+import { Link, data, redirect, useLoaderData } from "react-router";
+import { ExternalLink } from "lucide-react";
 import type { Route } from "./+types/_dashboard.projects.$projectId.keyword-detail.$keywordId";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
+import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { PriorityFactorChart } from "~/components/features/priority-factors";
 import { ApiClient } from "~/lib/api.server";
+import { formatDateTime, formatStatusLabel, getStatusBadgeClass } from "~/lib/dashboard";
+import {
+  compareKeywordIntent,
+  formatKeywordLabel,
+  listKeywordSignals,
+  normalizePriorityFactors,
+  normalizeSerpResults,
+  type IntentComparisonStatus,
+} from "~/lib/keyword-detail";
+import { fetchJson } from "~/lib/pipeline-run.server";
 import type { components } from "~/types/api.generated";
 
+type ProjectResponse = components["schemas"]["ProjectResponse"];
 type KeywordDetailResponse = components["schemas"]["KeywordDetailResponse"];
+type TopicDetailResponse = components["schemas"]["TopicDetailResponse"];
+
+type KeywordDetailLoaderData = {
+  project: ProjectResponse;
+  keyword: KeywordDetailResponse;
+  topic: TopicDetailResponse | null;
+};
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
 
 export async function loader({ request, params }: Route.LoaderArgs) {
   const projectId = params.projectId;
@@ -14,27 +47,277 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   }
 
   const api = new ApiClient(request);
-  const response = await api.fetch(`/keywords/${projectId}/${keywordId}`);
-
-  if (response.status === 401) {
-    return redirect("/login", {
-      headers: {
-        "Set-Cookie": await api.logout(),
-      },
-    });
+  const [projectResult, keywordResult] = await Promise.all([
+    fetchJson<ProjectResponse>(api, `/projects/${projectId}`),
+    fetchJson<KeywordDetailResponse>(api, `/keywords/${projectId}/${keywordId}`),
+  ]);
+
+  if (projectResult.unauthorized || keywordResult.unauthorized) return handleUnauthorized(api);
+  if (!projectResult.ok || !projectResult.data) {
+    throw new Response("Failed to load project.", { status: projectResult.status });
+  }
+  if (!keywordResult.ok || !keywordResult.data) {
+    throw new Response("Unable to fetch keyword detail.", { status: keywordResult.status });
   }
 
-  if (!response.ok) {
-    throw new Response("Unable to fetch keyword detail.", { status: response.status });
+  const keyword = keywordResult.data;
+  let topic: TopicDetailResponse | null = null;
+  if (keyword.topic_id) {
+    const topicResult = await fetchJson<TopicDetailResponse>(api, `/topics/${projectId}/${keyword.topic_id}`);
+    if (topicResult.unauthorized) return handleUnauthorized(api);
+    topic = topicResult.ok ? topicResult.data : null;
   }
 
-  const payload = (await response.json()) as KeywordDetailResponse;
+  return data(
+    {
+      project: projectResult.data,
+      keyword,
+      topic,
+    } satisfies KeywordDetailLoaderData,
+    {
+      headers: await api.commit(),
+    }
+  );
+}
 
-  return data(payload, {
-    headers: await api.commit(),
-  });
+const COMPARISON_BADGES: Record<IntentComparisonStatus, { label: string; variant: "success" | "danger" | "warning" | "muted" }> = {
+  match: { label: "Confirmed", variant: "success" },
+  mismatch: { label: "Differs", variant: "danger" },
+  unvalidated: { label: "Not validated", variant: "warning" },
+  unknown: { label: "No data", variant: "muted" },
+};
+
+function formatMetric(value: number | null, options?: Intl.NumberFormatOptions) {
+  return value === null ? "-" : value.toLocaleString(undefined, options);
 }
 
-export default function ProjectKeywordDetailDataRoute() {
-  return null;
+export default function ProjectKeywordDetailRoute() {
+  const { project, keyword, topic } = useLoaderData<typeof loader>() as KeywordDetailLoaderData;
+
+  const serpResults = normalizeSerpResults(keyword.serp_top_results);
+  const priorityFactors = normalizePriorityFactors(keyword.priority_factors);
+  const discoverySignals = listKeywordSignals(keyword.discovery_signals);
+  const intentComparison = compareKeywordIntent(keyword);
+
+  const metrics = [
+    { label: "Search volume", value: formatMetric(keyword.search_volume) },
+    { label: "Adjusted volume", value: formatMetric(keyword.adjusted_volume) },
+    { label: "Difficulty", value: formatMetric(keyword.difficulty) },
+    { label: "CPC", value: formatMetric(keyword.cpc, { style: "currency", currency: "USD" }) },
+    { label: "Competition", value: formatMetric(keyword.competition, { maximumFractionDigits: 2 }) },
+    { label: "Priority score", value: formatMetric(keyword.priority_score, { maximumFractionDigits: 1 }) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-gradient-to-r from-white via-[#f0f6f5] to-[#ecf2fb] p-6 shadow-[0_20px_45px_-30px_rgba(15,23,42,0.55)]">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[#2f6f71]">Keyword · {project.name}</p>
+            <h1 className="mt-2 font-display text-3xl font-bold text-slate-900">{keyword.keyword}</h1>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+              <span className={`inline-flex rounded-full border px-2.5 py-1 text-[11px] font-semibold ${getStatusBadgeClass(keyword.status)}`}>
+                {formatStatusLabel(keyword.status)}
+              </span>
+              <span>
+                {keyword.locale} · {keyword.language}
+              </span>
+              {keyword.funnel_stage ? <span>· {formatKeywordLabel(keyword.funnel_stage)} funnel</span> : null}
+              {topic ? (
+                <span>
+                  · Topic{" "}
+                  <Link to={`/projects/${project.id}/discovery/topics/${topic.id}`} className="font-semibold text-[#2f6f71] hover:underline">
+                    {topic.name}
+                  </Link>
+                </span>
+              ) : null}
+            </div>
+          </div>
+          <Link to={`/projects/${project.id}/discovery/keywords`}>
+            <Button variant="outline">Back to keywords</Button>
+          </Link>
+        </div>
+      </section>
+
+      {keyword.exclusion_reason ? (
+        <p className="rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-sm font-semibold text-amber-800">
+          Excluded: {keyword.exclusion_reason}
+        </p>
+      ) : null}
+
+      <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="rounded-2xl border border-slate-200 bg-white p-4">
+            <p className="text-xs text-slate-500">{metric.label}</p>
+            <p className="mt-1 font-display text-2xl font-bold text-slate-900">{metric.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Intent: predicted vs validated</CardTitle>
+          <CardDescription>
+            Predictions come from keyword classification; validated values come from the live search results.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Signal</TableHead>
+                <TableHead>Predicted</TableHead>
+                <TableHead>Validated by SERP</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {intentComparison.map((row) => {
+                const badge = COMPARISON_BADGES[row.status];
+                return (
+                  <TableRow key={row.label}>
+                    <TableCell className="font-medium text-slate-900">{row.label}</TableCell>
+                    <TableCell>
+                      <p>{row.predicted ? formatKeywordLabel(row.predicted) : "-"}</p>
+                      {row.note ? <p className="text-xs text-slate-500">{row.note}</p> : null}
+                    </TableCell>
+                    <TableCell>{row.validated ? formatKeywordLabel(row.validated) : "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Search results</CardTitle>
+            <CardDescription>
+              Top ranking pages{keyword.metrics_updated_at ? ` as of ${formatDateTime(keyword.metrics_updated_at)}` : ""}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {keyword.serp_features && keyword.serp_features.length > 0 ? (
+              <div className="flex flex-wrap gap-1.5">
+                {keyword.serp_features.map((feature) => (
+                  <span key={feature} className="rounded-full bg-sky-100 px-2 py-1 text-[11px] font-semibold text-sky-900">
+                    {formatKeywordLabel(feature)}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">No SERP features recorded.</p>
+            )}
+
+            {serpResults.length === 0 ? (
+              <p className="text-sm text-slate-500">No SERP results recorded for this keyword yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Domain</TableHead>
+                    <TableHead>Title</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {serpResults.map((result) => (
+                    <TableRow key={`${result.position}-${result.url ?? result.domain ?? ""}`}>
+                      <TableCell className="font-semibold text-slate-700">{result.position}</TableCell>
+                      <TableCell className="font-medium text-slate-900">{result.domain ?? "-"}</TableCell>
+                      <TableCell>
+                        <p className="text-slate-800">{result.title ?? "Untitled result"}</p>
+                        {result.url ? (
+                          <a
+                            href={result.url}
+                            target="_blank"
+                            rel="noreferrer noopener"
+                            className="inline-flex max-w-full items-center gap-1 truncate text-xs text-[#2f6f71] hover:underline"
+                          >
+                            <span className="truncate">{result.url}</span>
+                            <ExternalLink className="h-3 w-3 shrink-0" />
+                          </a>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Priority breakdown</CardTitle>
+              <CardDescription>How each factor contributed to the priority score.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {priorityFactors.length === 0 ? (
+                <p className="text-sm text-slate-500">No priority factors recorded.</p>
+              ) : (
+                <PriorityFactorChart factors={priorityFactors} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Discovery signals</CardTitle>
+              <CardDescription>
+                Found via {keyword.source_method ? formatKeywordLabel(keyword.source_method) : formatKeywordLabel(keyword.source)}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {discoverySignals.length === 0 ? (
+                <p className="text-slate-500">No discovery signals recorded.</p>
+              ) : (
+                <dl className="space-y-1.5">
+                  {discoverySignals.map((signal) => (
+                    <div key={signal.key} className="flex items-start justify-between gap-3">
+                      <dt className="text-slate-500">{signal.label}</dt>
+                      <dd className="break-all text-right font-medium text-slate-900">{signal.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              {keyword.risk_flags && keyword.risk_flags.length > 0 ? (
+                <div className="flex flex-wrap gap-1.5 border-t border-slate-200 pt-3">
+                  {keyword.risk_flags.map((flag) => (
+                    <span key={flag} className="rounded-full bg-rose-100 px-2 py-1 text-[11px] font-semibold text-rose-900">
+                      {formatKeywordLabel(flag)}
+                    </span>
+                  ))}
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary({ error, params }: Route.ErrorBoundaryProps) {
+  const projectId = params.projectId;
+  const safeHref = projectId ? `/projects/${encodeURIComponent(projectId)}/discovery/keywords` : "/project";
+
+  return (
+    <RouteErrorBoundaryCard
+      error={error}
+      variant="panel"
+      title="Keyword unavailable"
+      description="The keyword detail failed to load for this project."
+      safeHref={safeHref}
+      safeLabel={projectId ? "Back to keywords" : "Back to dashboard"}
+      retryLabel="Retry keyword"
+      showStatus
+    />
+  );
 }
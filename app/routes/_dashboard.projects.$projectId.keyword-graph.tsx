@@ -0,0 +1,58 @@
+import { data, redirect } from "react-router";
+import type { Route } from "./+types/_dashboard.projects.$projectId.keyword-graph";
+import { ApiClient } from "~/lib/api.server";
+import { toGraphKeyword, toGraphTopic, type KeywordGraphData } from "~/lib/keyword-graph";
+import { buildKeywordListApiPath, parseKeywordListQuery } from "~/lib/keyword-query";
+import { fetchAllPages } from "~/lib/pipeline-run.server";
+import type { components } from "~/types/api.generated";
+
+type KeywordResponse = components["schemas"]["KeywordResponse"];
+type TopicResponse = components["schemas"]["TopicResponse"];
+
+const GRAPH_PAGE_SIZE = 200;
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    throw new Response("Missing project id.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const query = parseKeywordListQuery(new URL(request.url).searchParams);
+
+  const [keywordsResult, topicsResult] = await Promise.all([
+    fetchAllPages<KeywordResponse>(api, (page) =>
+      buildKeywordListApiPath(projectId, { ...query, page, pageSize: GRAPH_PAGE_SIZE })
+    ),
+    fetchAllPages<TopicResponse>(
+      api,
+      (page) => `/topics/${projectId}?page=${page}&page_size=${GRAPH_PAGE_SIZE}&eligibility=all`
+    ),
+  ]);
+
+  if (keywordsResult.unauthorized || topicsResult.unauthorized) {
+    return redirect("/login", {
+      headers: {
+        "Set-Cookie": await api.logout(),
+      },
+    });
+  }
+
+  if (!keywordsResult.ok || !keywordsResult.data) {
+    throw new Response("Unable to load keyword graph.", { status: keywordsResult.status });
+  }
+
+  return data(
+    {
+      keywords: keywordsResult.data.map(toGraphKeyword),
+      topics: (topicsResult.data ?? []).map(toGraphTopic),
+    } satisfies KeywordGraphData,
+    {
+      headers: await api.commit(),
+    }
+  );
+}
+
+export default function KeywordGraphDataRoute() {
+  return null;
+}
@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, data, redirect, useFetcher, useLoaderData, useRevalidator } from "react-router";
 import type { Route } from "./+types/_dashboard.projects.$projectId";
 import { Badge } from "~/components/ui/badge";
@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/com
 import { Progress } from "~/components/ui/progress";
 import { Skeleton } from "~/components/ui/skeleton";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { useRunProgress } from "~/hooks/use-run-progress";
 import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
 import { formatDateTime, formatStatusLabel, getStatusBadgeClass, summarizeSteps } from "~/lib/dashboard";
@@ -21,7 +22,6 @@ type TopicListResponse = components["schemas"]["TopicListResponse"];
 type TopicResponse = components["schemas"]["TopicResponse"];
 type BrandVisualContextResponse = components["schemas"]["BrandVisualContextResponse"];
 type BrandScrapeRefreshResponse = components["schemas"]["BrandScrapeRefreshResponse"];
-type PipelineProgressResponse = components["schemas"]["PipelineProgressResponse"];
 type BrandData = BrandVisualContextResponse | BrandScrapeRefreshResponse;
 
 type SetupRunSummary = {
@@ -87,17 +87,6 @@ function isActiveStatus(status: string | null | undefined) {
   return normalized === "queued" || normalized === "running" || normalized === "in_progress";
 }
 
-function isTerminalStatus(status: string | null | undefined) {
-  const normalized = String(status ?? "").toLowerCase();
-  return (
-    normalized === "completed" ||
-    normalized === "failed" ||
-    normalized === "error" ||
-    normalized === "paused" ||
-    normalized === "cancelled"
-  );
-}
-
 export async function loader({ request, params }: Route.LoaderArgs) {
   const projectId = params.projectId;
   if (!projectId) {
@@ -213,7 +202,6 @@ export default function ProjectDetailsRoute() {
   const { project, runs, latestRun, latestSetupRun, keywordTotal, topicTotal, rankedTopicCount, brand } =
     useLoaderData<typeof loader>() as LoaderData;
   const revalidator = useRevalidator();
-  const setupProgressFetcher = useFetcher<PipelineProgressResponse>();
   const refreshBrandFetcher = useFetcher<ActionData>();
   const [didRevalidateAfterSetup, setDidRevalidateAfterSetup] = useState(false);
   const [brandData, setBrandData] = useState<BrandData | null>(brand);
@@ -222,51 +210,20 @@ export default function ProjectDetailsRoute() {
   const discoveryRuns = runs.filter((run) => String(run.pipeline_module ?? "").toLowerCase() === "discovery").length;
   const contentRuns = runs.filter((run) => String(run.pipeline_module ?? "").toLowerCase() === "content").length;
   const setupRuns = runs.filter((run) => String(run.pipeline_module ?? "").toLowerCase() === "setup").length;
-  const setupStatus = String(setupProgressFetcher.data?.status ?? latestSetupRun?.status ?? "").toLowerCase();
+  const { progress: setupRunProgress } = useRunProgress({
+    projectId: project.id,
+    runId: latestSetupRun?.id,
+    enabled: Boolean(latestSetupRun) && !brandData,
+    pollIntervalMs: 2000,
+  });
+  const setupStatus = String(setupRunProgress?.status ?? latestSetupRun?.status ?? "").toLowerCase();
   const isSetupActive = !brandData && Boolean(latestSetupRun && isActiveStatus(setupStatus));
-  const setupProgress = Math.max(0, Math.min(100, Math.round(setupProgressFetcher.data?.overall_progress ?? 0)));
-  const setupStepName = setupProgressFetcher.data?.current_step_name ?? null;
-  const setupStatusRef = useRef(setupStatus);
-  const fetcherStateRef = useRef(setupProgressFetcher.state);
+  const setupProgress = Math.max(0, Math.min(100, Math.round(setupRunProgress?.overall_progress ?? 0)));
+  const setupStepName = setupRunProgress?.current_step_name ?? null;
   const brandAssetRoles = countBrandAssetRoles(brandData);
   const refreshMetadata = readRefreshMetadata(brandData);
   const isRefreshingBrand = refreshBrandFetcher.state !== "idle";
 
-  useEffect(() => {
-    setupStatusRef.current = setupStatus;
-  }, [setupStatus]);
-
-  useEffect(() => {
-    fetcherStateRef.current = setupProgressFetcher.state;
-  }, [setupProgressFetcher.state]);
-
-  useEffect(() => {
-    if (!latestSetupRun || brandData) return;
-    let intervalId: number | null = null;
-
-    const poll = () => {
-      if (fetcherStateRef.current !== "idle") return;
-
-      if (isTerminalStatus(setupStatusRef.current)) {
-        if (intervalId !== null) {
-          window.clearInterval(intervalId);
-          intervalId = null;
-        }
-        return;
-      }
-
-      setupProgressFetcher.load(`/projects/${project.id}/progress/${latestSetupRun.id}?ts=${Date.now()}`);
-    };
-
-    poll();
-    intervalId = window.setInterval(poll, 2000);
-    return () => {
-      if (intervalId !== null) {
-        window.clearInterval(intervalId);
-      }
-    };
-  }, [brandData, latestSetupRun?.id, project.id]);
-
   useEffect(() => {
     if (brandData || !latestSetupRun || didRevalidateAfterSetup) return;
     if (setupStatus !== "completed" || revalidator.state !== "idle") return;
@@ -444,7 +401,7 @@ export default function ProjectDetailsRoute() {
                   </span>
                 </div>
 
-                {setupProgressFetcher.data ? (
+                {setupRunProgress ? (
                   <>
                     <p className="text-slate-600">{setupStepName ? `Current step: ${setupStepName}` : "Running setup tasks..."}</p>
                     <Progress value={setupProgress} className="h-2.5" />
@@ -8,9 +8,18 @@ import { Button, buttonVariants } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "~/components/ui/tabs";
 import { RouteErrorBoundaryCard } from "~/components/errors/route-error-boundary";
+import { PipelineSettingsEditor } from "~/components/features/pipeline-settings";
 import { readApiErrorMessage } from "~/lib/api-error";
 import { ApiClient } from "~/lib/api.server";
 import { formatDateTime } from "~/lib/dashboard";
+import {
+  mergePipelineSettings,
+  normalizePipelineSettings,
+  parsePipelineSettingsDraft,
+  type PipelineSettingsDraft,
+} from "~/lib/pipeline-settings";
+import { fetchJson } from "~/lib/pipeline-run.server";
+import { collectPipelineSteps, type PipelineStepOption } from "~/lib/pipeline-steps";
 import { cn } from "~/lib/utils";
 import type { components } from "~/types/api.generated";
 
@@ -18,6 +27,8 @@ type ProjectResponse = components["schemas"]["ProjectResponse"];
 type ProjectApiKeyResponse = components["schemas"]["ProjectApiKeyResponse"];
 type ProjectWebhookSecretResponse = components["schemas"]["ProjectWebhookSecretResponse"];
 type ProjectUpdate = components["schemas"]["ProjectUpdate"];
+type ProjectSettings = components["schemas"]["ProjectSettings"];
+type PipelineRunResponse = components["schemas"]["PipelineRunResponse"];
 
 type ProjectSummary = Pick<ProjectResponse, "id" | "name" | "domain" | "status" | "posts_per_week">;
 
@@ -26,6 +37,7 @@ type LoaderData = {
   fullProject: ProjectResponse;
   guideContent: string | null;
   documentationUrl: string;
+  pipelineSteps: PipelineStepOption[];
 };
 
 type ActionData = {
@@ -36,7 +48,7 @@ type ActionData = {
   webhookSaved?: boolean;
 };
 
-type SettingsTab = "overview" | "api-keys" | "webhooks" | "ai-guide";
+type SettingsTab = "overview" | "api-keys" | "webhooks" | "pipeline" | "ai-guide";
 
 const INTEGRATION_GUIDE_PATH = "/integration/guide/donkey-client.md";
 
@@ -51,12 +63,21 @@ function buildDocumentationUrl(request: Request) {
 }
 
 function parseOnboardingTab(value: string | null): SettingsTab | null {
-  if (value === "overview" || value === "api-keys" || value === "webhooks" || value === "ai-guide") {
+  if (value === "overview" || value === "api-keys" || value === "webhooks" || value === "pipeline" || value === "ai-guide") {
     return value;
   }
   return null;
 }
 
+// ProjectResponse does not declare settings but the API returns them; PUT replaces the whole settings object,
+// so every write merges into what is stored now rather than what the page loaded.
+async function readProjectSettings(api: ApiClient, projectId: string) {
+  const response = await api.fetch(`/projects/${encodeURIComponent(projectId)}`);
+  if (!response.ok) return { response, settings: null };
+  const project = (await response.json()) as ProjectResponse & { settings?: ProjectSettings | null };
+  return { response, settings: project.settings ?? null };
+}
+
 export async function loader({ request, params }: Route.LoaderArgs) {
   const projectId = params.projectId;
   if (!projectId) {
@@ -92,7 +113,10 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   let guideContent: string | null = null;
 
   // Fetch guide content
-  const guideResponse = await api.fetch(INTEGRATION_GUIDE_PATH);
+  const [guideResponse, runsResult] = await Promise.all([
+    api.fetch(INTEGRATION_GUIDE_PATH),
+    fetchJson<PipelineRunResponse[]>(api, `/pipeline/${encodeURIComponent(projectId)}/runs?limit=12`),
+  ]);
   if (guideResponse.ok) {
     guideContent = await guideResponse.text();
   }
@@ -103,6 +127,7 @@ export async function loader({ request, params }: Route.LoaderArgs) {
       fullProject,
       guideContent,
       documentationUrl,
+      pipelineSteps: collectPipelineSteps(runsResult.ok && runsResult.data ? runsResult.data : []),
     } satisfies LoaderData,
     {
       headers: await api.commit(),
@@ -254,18 +279,22 @@ export async function action({ request, params }: Route.ActionArgs) {
     let response: Response;
 
     try {
-      response = await api.fetch(`/projects/${encodeURIComponent(projectId)}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          settings: {
-            notification_webhook: webhookUrl || null,
-            auto_continue_on_error: false,
-          },
-        } satisfies ProjectUpdate),
-      });
+      const current = await readProjectSettings(api, projectId);
+      response = current.response.ok
+        ? await api.fetch(`/projects/${encodeURIComponent(projectId)}`, {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              settings: {
+                ...current.settings,
+                notification_webhook: webhookUrl || null,
+                auto_continue_on_error: current.settings?.auto_continue_on_error ?? false,
+              },
+            } satisfies ProjectUpdate),
+          })
+        : current.response;
     } catch {
       return data(
         {
@@ -310,6 +339,78 @@ export async function action({ request, params }: Route.ActionArgs) {
     );
   }
 
+  if (intent === "save_pipeline_settings") {
+    let draft: PipelineSettingsDraft | null = null;
+    try {
+      draft = parsePipelineSettingsDraft(JSON.parse(String(formData.get("settings_json") ?? "")));
+    } catch {
+      draft = null;
+    }
+    if (!draft) {
+      return data(
+        {
+          error: "Pipeline settings must be valid JSON with an object per step.",
+        } satisfies ActionData,
+        {
+          status: 400,
+          headers: await api.commit(),
+        }
+      );
+    }
+
+    let response: Response;
+
+    try {
+      const current = await readProjectSettings(api, projectId);
+      response = current.response.ok
+        ? await api.fetch(`/projects/${encodeURIComponent(projectId)}`, {
+            method: "PUT",
+            json: { settings: mergePipelineSettings(current.settings, draft) } satisfies ProjectUpdate,
+          })
+        : current.response;
+    } catch {
+      return data(
+        {
+          error: "Unable to contact the API right now. Please try again.",
+        } satisfies ActionData,
+        {
+          status: 502,
+          headers: await api.commit(),
+        }
+      );
+    }
+
+    if (response.status === 401) {
+      return redirect("/login", {
+        headers: {
+          "Set-Cookie": await api.logout(),
+        },
+      });
+    }
+
+    if (!response.ok) {
+      const apiMessage = await readApiErrorMessage(response);
+      return data(
+        {
+          error: apiMessage ?? "Unable to save pipeline settings right now.",
+        } satisfies ActionData,
+        {
+          status: response.status,
+          headers: await api.commit(),
+        }
+      );
+    }
+
+    return data(
+      {
+        success: "Pipeline settings saved.",
+      } satisfies ActionData,
+      {
+        headers: await api.commit(),
+      }
+    );
+  }
+
   return data(
     {
       error: "Unsupported action.",
@@ -322,7 +423,8 @@ export async function action({ request, params }: Route.ActionArgs) {
 }
 
 export default function DashboardSettingsRoute() {
-  const { activeProject, fullProject, guideContent, documentationUrl } = useLoaderData<typeof loader>() as LoaderData;
+  const { activeProject, fullProject, guideContent, documentationUrl, pipelineSteps } =
+    useLoaderData<typeof loader>() as LoaderData;
   const actionData = useActionData<typeof action>() as ActionData | undefined;
   const navigation = useNavigation();
   const [searchParams] = useSearchParams();
@@ -350,6 +452,8 @@ export default function DashboardSettingsRoute() {
     navigation.state !== "idle" && navigation.formData?.get("intent")?.toString() === "generate_webhook_secret";
   const isSavingWebhook =
     navigation.state !== "idle" && navigation.formData?.get("intent")?.toString() === "save_webhook_url";
+  const isSavingPipelineSettings =
+    navigation.state !== "idle" && navigation.formData?.get("intent")?.toString() === "save_pipeline_settings";
   const hasProjects = Boolean(activeProject);
   const normalizedWebhookUrl = webhookUrl.trim();
   const hasUnsavedWebhookUrlChanges = normalizedWebhookUrl !== savedWebhookUrl;
@@ -461,6 +565,9 @@ export default function DashboardSettingsRoute() {
           <TabsTrigger active={activeTab === "webhooks"} onClick={() => setActiveTab("webhooks")}>
             🪝 Webhooks
           </TabsTrigger>
+          <TabsTrigger active={activeTab === "pipeline"} onClick={() => setActiveTab("pipeline")}>
+            ⚙️ Pipeline
+          </TabsTrigger>
           <TabsTrigger active={activeTab === "ai-guide"} onClick={() => setActiveTab("ai-guide")}>
             🤖 AI Guide
           </TabsTrigger>
@@ -999,6 +1106,24 @@ const isValid = hmac === signatureHeader;`}</code>
           </TabsContent>
         )}
 
+        {/* Pipeline Tab */}
+        {activeTab === "pipeline" && (
+          <TabsContent>
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2 }}
+              className="max-w-4xl"
+            >
+              <PipelineSettingsEditor
+                saved={normalizePipelineSettings(projectSettings)}
+                steps={pipelineSteps}
+                isSaving={isSavingPipelineSettings}
+              />
+            </motion.div>
+          </TabsContent>
+        )}
+
         {/* AI Guide Tab */}
         {activeTab === "ai-guide" && (
           <TabsContent>
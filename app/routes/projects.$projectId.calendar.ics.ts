@@ -0,0 +1,131 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/projects.$projectId.calendar.ics";
+import { ApiClient } from "~/lib/api.server";
+import { addDays, parseDateKey, toDateKey, todayDateKey } from "~/lib/calendar-period";
+import { verifyCalendarFeedToken } from "~/lib/calendar-feed-token.server";
+import { formatStatusLabel } from "~/lib/dashboard";
+import { buildICalendar, type ICalendarEvent } from "~/lib/icalendar";
+import { pickLatestRunForModule, sortPipelineRunsNewest } from "~/lib/pipeline-module";
+import { fetchJson } from "~/lib/pipeline-run.server";
+import type { components } from "~/types/api.generated";
+
+type ProjectResponse = components["schemas"]["ProjectResponse"];
+type PipelineRunResponse = components["schemas"]["PipelineRunResponse"];
+type ContentCalendarResponse = components["schemas"]["ContentCalendarResponse"];
+
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+
+function plainResponse(message: string, status: number, headers?: HeadersInit) {
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set("Content-Type", "text/plain; charset=utf-8");
+  return new Response(message, { status, headers: responseHeaders });
+}
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+/**
+ * Serves the publishing schedule as an iCalendar feed. Calendar clients subscribe with a signed `?token=` and send
+ * no session cookie; without a token the signed-in user downloads the same file with their session.
+ */
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    return plainResponse("Missing project id.", 400);
+  }
+
+  const url = new URL(request.url);
+  const tokenParam = url.searchParams.get("token");
+  const feedToken = tokenParam === null ? null : verifyCalendarFeedToken(tokenParam, projectId);
+  if (tokenParam !== null && !feedToken) {
+    return plainResponse("Invalid, expired or revoked calendar feed token.", 401);
+  }
+
+  let api: ApiClient;
+  if (feedToken) {
+    // Seed a throwaway session with the token's refresh token and let ApiClient exchange it for an access token on
+    // the first 401. Nothing is committed back, so the subscriber never receives a session cookie.
+    api = new ApiClient(new Request(request.url));
+    await api.setSessionValue("refreshToken", feedToken.refreshToken);
+  } else {
+    api = new ApiClient(request);
+  }
+
+  const handleFeedUnauthorized = () =>
+    feedToken
+      ? plainResponse("The calendar feed credentials are no longer valid. Create a new feed link.", 401)
+      : handleUnauthorized(api);
+  const responseHeaders = async () => (feedToken ? undefined : await api.commit());
+
+  const today = parseDateKey(todayDateKey());
+  if (!today) {
+    return plainResponse("Unable to resolve today's date.", 500);
+  }
+  const dateFrom = toDateKey(addDays(today, -FEED_PAST_DAYS));
+  const dateTo = toDateKey(addDays(today, FEED_FUTURE_DAYS));
+
+  // Load the project first so a token refresh happens once before the parallel requests.
+  const projectResult = await fetchJson<ProjectResponse>(api, `/projects/${projectId}`);
+  if (projectResult.unauthorized) return handleFeedUnauthorized();
+  if (!projectResult.ok || !projectResult.data) {
+    return plainResponse("Failed to load project.", projectResult.status, await responseHeaders());
+  }
+
+  const [runsResult, calendarResult] = await Promise.all([
+    fetchJson<PipelineRunResponse[]>(api, `/pipeline/${projectId}/runs?limit=20`),
+    fetchJson<ContentCalendarResponse>(
+      api,
+      `/content/${projectId}/calendar?date_from=${encodeURIComponent(dateFrom)}&date_to=${encodeURIComponent(dateTo)}`,
+    ),
+  ]);
+
+  if (runsResult.unauthorized || calendarResult.unauthorized) return handleFeedUnauthorized();
+  if (!calendarResult.ok || !calendarResult.data) {
+    return plainResponse("Failed to load scheduled content calendar.", calendarResult.status, await responseHeaders());
+  }
+
+  const latestContentRun = pickLatestRunForModule(
+    sortPipelineRunsNewest(runsResult.ok && runsResult.data ? runsResult.data : []),
+    "content",
+  );
+  const projectName = projectResult.data.name;
+
+  const events: ICalendarEvent[] = calendarResult.data.items.map((item) => {
+    const briefUrl = latestContentRun
+      ? `${url.origin}/projects/${projectId}/creation/runs/${latestContentRun.id}/briefs/${item.brief_id}`
+      : `${url.origin}/projects/${projectId}/calendar`;
+    const title = item.article_title ?? item.working_title ?? item.primary_keyword;
+    const stateLabel = formatStatusLabel(item.calendar_state);
+
+    return {
+      uid: `${item.brief_id}@${url.hostname}`,
+      date: item.date,
+      summary: `${title} [${stateLabel}]`,
+      description: [
+        `Primary keyword: ${item.primary_keyword}`,
+        `State: ${stateLabel}`,
+        item.published_url ? `Published: ${item.published_url}` : null,
+        `Brief: ${briefUrl}`,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      url: briefUrl,
+      categories: [stateLabel],
+    };
+  });
+
+  const headers = new Headers(await responseHeaders());
+  headers.set("Content-Type", "text/calendar; charset=utf-8");
+  headers.set(
+    "Content-Disposition",
+    `${feedToken ? "inline" : "attachment"}; filename="${projectId}-calendar.ics"`,
+  );
+  headers.set("Cache-Control", feedToken ? "private, max-age=900" : "private, no-store");
+  return new Response(buildICalendar({ calendarName: `${projectName} publishing calendar`, events }), { headers });
+}
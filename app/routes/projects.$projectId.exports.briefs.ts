@@ -0,0 +1,93 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/projects.$projectId.exports.briefs";
+import { ApiClient } from "~/lib/api.server";
+import { fetchAllPages } from "~/lib/pipeline-run.server";
+import {
+  exportDateStamp,
+  parseExportFormat,
+  spreadsheetResponse,
+  type ExportColumn,
+} from "~/lib/spreadsheet-export.server";
+import type { components } from "~/types/api.generated";
+
+type ContentBriefResponse = components["schemas"]["ContentBriefResponse"];
+type TopicResponse = components["schemas"]["TopicResponse"];
+
+type BriefExportRow = ContentBriefResponse & { topic_name: string | null };
+
+const BRIEF_PAGE_SIZE = 100;
+const TOPIC_PAGE_SIZE = 200;
+
+const BRIEF_EXPORT_COLUMNS: ExportColumn<BriefExportRow>[] = [
+  { header: "Primary keyword", value: (row) => row.primary_keyword },
+  { header: "Working titles", value: (row) => (row.working_titles ?? []).join(" | ") },
+  { header: "Status", value: (row) => row.status },
+  { header: "Proposed publication date", value: (row) => row.proposed_publication_date },
+  { header: "Topic", value: (row) => row.topic_name },
+  { header: "Search intent", value: (row) => row.search_intent },
+  { header: "Page type", value: (row) => row.page_type },
+  { header: "Funnel stage", value: (row) => row.funnel_stage },
+  { header: "Target audience", value: (row) => row.target_audience },
+  { header: "Target word count min", value: (row) => row.target_word_count_min },
+  { header: "Target word count max", value: (row) => row.target_word_count_max },
+  { header: "Brief ID", value: (row) => row.id },
+  { header: "Topic ID", value: (row) => row.topic_id },
+  { header: "Created at", value: (row) => row.created_at },
+  { header: "Updated at", value: (row) => row.updated_at },
+];
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    throw new Response("Missing project id.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const searchParams = new URL(request.url).searchParams;
+  const status = (searchParams.get("status") ?? "").trim();
+
+  const [briefsResult, topicsResult] = await Promise.all([
+    fetchAllPages<ContentBriefResponse>(api, (page) => {
+      const params = new URLSearchParams({ page: String(page), page_size: String(BRIEF_PAGE_SIZE) });
+      if (status && status !== "all") params.set("status", status);
+      return `/content/${projectId}/briefs?${params.toString()}`;
+    }),
+    fetchAllPages<TopicResponse>(
+      api,
+      (page) => `/topics/${projectId}?page=${page}&page_size=${TOPIC_PAGE_SIZE}&eligibility=all`
+    ),
+  ]);
+
+  if (briefsResult.unauthorized || topicsResult.unauthorized) return handleUnauthorized(api);
+  if (!briefsResult.ok || !briefsResult.data) {
+    throw new Response("Failed to export content briefs.", {
+      status: briefsResult.status,
+      headers: await api.commit(),
+    });
+  }
+
+  const topicNameById = new Map((topicsResult.data ?? []).map((topic) => [topic.id, topic.name]));
+  const rows = briefsResult.data
+    .slice()
+    .sort((a, b) =>
+      (a.proposed_publication_date ?? "9999-12-31").localeCompare(b.proposed_publication_date ?? "9999-12-31")
+    )
+    .map((brief) => ({ ...brief, topic_name: topicNameById.get(brief.topic_id) ?? null }));
+
+  return spreadsheetResponse({
+    format: parseExportFormat(searchParams.get("format")),
+    filename: `content-briefs-${projectId}-${exportDateStamp()}`,
+    sheetName: "Content briefs",
+    columns: BRIEF_EXPORT_COLUMNS,
+    rows,
+    headers: await api.commit(),
+  });
+}
@@ -0,0 +1,96 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/projects.$projectId.exports.keywords";
+import { ApiClient } from "~/lib/api.server";
+import { buildKeywordListApiPath, parseKeywordListQuery, sortKeywords } from "~/lib/keyword-query";
+import { fetchAllPages } from "~/lib/pipeline-run.server";
+import {
+  exportDateStamp,
+  parseExportFormat,
+  spreadsheetResponse,
+  type ExportColumn,
+} from "~/lib/spreadsheet-export.server";
+import type { components } from "~/types/api.generated";
+
+type KeywordResponse = components["schemas"]["KeywordResponse"];
+type TopicResponse = components["schemas"]["TopicResponse"];
+
+type KeywordExportRow = KeywordResponse & { topic_name: string | null };
+
+const EXPORT_PAGE_SIZE = 200;
+
+const KEYWORD_EXPORT_COLUMNS: ExportColumn<KeywordExportRow>[] = [
+  { header: "Keyword", value: (row) => row.keyword },
+  { header: "Normalized keyword", value: (row) => row.keyword_normalized },
+  { header: "Status", value: (row) => row.status },
+  { header: "Search volume", value: (row) => row.search_volume },
+  { header: "Adjusted volume", value: (row) => row.adjusted_volume },
+  { header: "CPC", value: (row) => row.cpc },
+  { header: "Difficulty", value: (row) => row.difficulty },
+  { header: "Intent", value: (row) => row.intent },
+  { header: "Intent layer", value: (row) => row.intent_layer },
+  { header: "Intent score", value: (row) => row.intent_score },
+  { header: "Recommended page type", value: (row) => row.recommended_page_type },
+  { header: "Funnel stage", value: (row) => row.funnel_stage },
+  { header: "Priority score", value: (row) => row.priority_score },
+  { header: "Topic", value: (row) => row.topic_name },
+  { header: "Topic ID", value: (row) => row.topic_id },
+  { header: "Language", value: (row) => row.language },
+  { header: "Locale", value: (row) => row.locale },
+  { header: "Source", value: (row) => row.source },
+  { header: "Keyword ID", value: (row) => row.id },
+  { header: "Created at", value: (row) => row.created_at },
+  { header: "Updated at", value: (row) => row.updated_at },
+];
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    throw new Response("Missing project id.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const searchParams = new URL(request.url).searchParams;
+  const query = parseKeywordListQuery(searchParams);
+
+  const [keywordsResult, topicsResult] = await Promise.all([
+    fetchAllPages<KeywordResponse>(api, (page) =>
+      buildKeywordListApiPath(projectId, { ...query, page, pageSize: EXPORT_PAGE_SIZE })
+    ),
+    fetchAllPages<TopicResponse>(
+      api,
+      (page) => `/topics/${projectId}?page=${page}&page_size=${EXPORT_PAGE_SIZE}&eligibility=all`
+    ),
+  ]);
+
+  if (keywordsResult.unauthorized || topicsResult.unauthorized) return handleUnauthorized(api);
+  if (!keywordsResult.ok || !keywordsResult.data) {
+    throw new Response("Failed to export keywords.", {
+      status: keywordsResult.status,
+      headers: await api.commit(),
+    });
+  }
+
+  const topicNameById = new Map((topicsResult.data ?? []).map((topic) => [topic.id, topic.name]));
+  // The list endpoint has no sort parameters, so the complete set is sorted here.
+  const rows = sortKeywords(keywordsResult.data, query).map((keyword) => ({
+    ...keyword,
+    topic_name: keyword.topic_id ? topicNameById.get(keyword.topic_id) ?? null : null,
+  }));
+
+  return spreadsheetResponse({
+    format: parseExportFormat(searchParams.get("format")),
+    filename: `keywords-${projectId}-${exportDateStamp()}`,
+    sheetName: "Keywords",
+    columns: KEYWORD_EXPORT_COLUMNS,
+    rows,
+    headers: await api.commit(),
+  });
+}
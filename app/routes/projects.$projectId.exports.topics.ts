@@ -0,0 +1,111 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/projects.$projectId.exports.topics";
+import { ApiClient } from "~/lib/api.server";
+import { fetchAllPages } from "~/lib/pipeline-run.server";
+import { parseTopicEligibility } from "~/lib/topic-eligibility";
+import {
+  exportDateStamp,
+  parseExportFormat,
+  spreadsheetResponse,
+  type ExportColumn,
+} from "~/lib/spreadsheet-export.server";
+import type { components } from "~/types/api.generated";
+
+type TopicResponse = components["schemas"]["TopicResponse"];
+
+type TopicExportRow = TopicResponse & { parent_topic_name: string | null };
+
+const EXPORT_PAGE_SIZE = 200;
+
+const TOPIC_EXPORT_COLUMNS: ExportColumn<TopicExportRow>[] = [
+  { header: "Priority rank", value: (row) => row.priority_rank },
+  { header: "Topic", value: (row) => row.name },
+  { header: "Description", value: (row) => row.description },
+  { header: "Parent topic", value: (row) => row.parent_topic_name },
+  { header: "Keyword count", value: (row) => row.keyword_count },
+  { header: "Total volume", value: (row) => row.total_volume },
+  { header: "Adjusted volume", value: (row) => row.adjusted_volume_sum },
+  { header: "Avg difficulty", value: (row) => row.avg_difficulty },
+  { header: "Dominant intent", value: (row) => row.dominant_intent },
+  { header: "Dominant page type", value: (row) => row.dominant_page_type },
+  { header: "Funnel stage", value: (row) => row.funnel_stage },
+  { header: "Priority score", value: (row) => row.priority_score },
+  { header: "Final priority score", value: (row) => row.final_priority_score },
+  { header: "Fit score", value: (row) => row.fit_score },
+  { header: "Fit tier", value: (row) => row.fit_tier },
+  { header: "Opportunity score", value: (row) => row.opportunity_score },
+  { header: "Expected role", value: (row) => row.expected_role },
+  { header: "Market mode", value: (row) => row.market_mode },
+  { header: "Cluster coherence", value: (row) => row.cluster_coherence },
+  { header: "Hard exclusion reason", value: (row) => row.hard_exclusion_reason },
+  { header: "Topic ID", value: (row) => row.id },
+  { header: "Created at", value: (row) => row.created_at },
+  { header: "Updated at", value: (row) => row.updated_at },
+];
+
+function compareByRank(a: TopicResponse, b: TopicResponse) {
+  if (a.priority_rank === null && b.priority_rank === null) {
+    return (b.final_priority_score ?? b.priority_score ?? 0) - (a.final_priority_score ?? a.priority_score ?? 0);
+  }
+  if (a.priority_rank === null) return 1;
+  if (b.priority_rank === null) return -1;
+  return a.priority_rank - b.priority_rank;
+}
+
+async function handleUnauthorized(api: ApiClient) {
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await api.logout(),
+    },
+  });
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  if (!projectId) {
+    throw new Response("Missing project id.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const searchParams = new URL(request.url).searchParams;
+  const eligibility = parseTopicEligibility(searchParams.get("eligibility"));
+
+  const listTopics = (filter: string) =>
+    fetchAllPages<TopicResponse>(
+      api,
+      (page) => `/topics/${projectId}?page=${page}&page_size=${EXPORT_PAGE_SIZE}&eligibility=${filter}`
+    );
+  // A filtered export still names parents that fall outside the filter.
+  const [topicsResult, allTopicsResult] = await Promise.all([
+    listTopics(eligibility),
+    eligibility === "all" ? Promise.resolve(null) : listTopics("all"),
+  ]);
+
+  if (topicsResult.unauthorized || allTopicsResult?.unauthorized) return handleUnauthorized(api);
+  if (!topicsResult.ok || !topicsResult.data) {
+    throw new Response("Failed to export topics.", {
+      status: topicsResult.status,
+      headers: await api.commit(),
+    });
+  }
+
+  const topicNameById = new Map(
+    (allTopicsResult?.data ?? topicsResult.data).map((topic) => [topic.id, topic.name])
+  );
+  const rows = topicsResult.data
+    .slice()
+    .sort(compareByRank)
+    .map((topic) => ({
+      ...topic,
+      parent_topic_name: topic.parent_topic_id ? topicNameById.get(topic.parent_topic_id) ?? null : null,
+    }));
+
+  return spreadsheetResponse({
+    format: parseExportFormat(searchParams.get("format")),
+    filename: `topics-${projectId}-${exportDateStamp()}`,
+    sheetName: "Topics",
+    columns: TOPIC_EXPORT_COLUMNS,
+    rows,
+    headers: await api.commit(),
+  });
+}
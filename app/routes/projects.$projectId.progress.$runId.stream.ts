@@ -0,0 +1,87 @@
+import type { Route } from "./+types/projects.$projectId.progress.$runId.stream";
+import { ApiClient } from "~/lib/api.server";
+import { isRunTerminal } from "~/lib/dashboard";
+import {
+  formatServerSentEvent,
+  subscribeToRunProgress,
+  type RunProgressEventName,
+} from "~/lib/run-progress-stream.server";
+import type { components } from "~/types/api.generated";
+
+type PipelineProgressResponse = components["schemas"]["PipelineProgressResponse"];
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const projectId = params.projectId;
+  const runId = params.runId;
+
+  if (!projectId || !runId) {
+    throw new Response("Missing route parameters.", { status: 400 });
+  }
+
+  const api = new ApiClient(request);
+  const progressPath = `/pipeline/${projectId}/runs/${runId}/progress`;
+  const response = await api.fetch(progressPath);
+
+  // EventSource cannot follow a login redirect; a plain 401 makes the client fall back to polling, which can.
+  if (response.status === 401) {
+    return new Response("Unauthorized.", { status: 401 });
+  }
+
+  if (!response.ok) {
+    throw new Response("Unable to fetch pipeline progress.", { status: response.status });
+  }
+
+  const initial = (await response.json()) as PipelineProgressResponse;
+  const accessToken = ((await api.getSessionValue("accessToken")) as string | undefined) ?? null;
+  const headers = new Headers(await api.commit());
+  headers.set("Content-Type", "text/event-stream; charset=utf-8");
+  headers.set("Cache-Control", "no-cache, no-transform");
+  headers.set("Connection", "keep-alive");
+  headers.set("X-Accel-Buffering", "no");
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      const send = (event: RunProgressEventName, payload: string) => write(formatServerSentEvent(event, payload));
+
+      // Clients keep reconnecting with EventSource's default delay unless told otherwise.
+      write("retry: 5000\n\n");
+      send("progress", JSON.stringify(initial));
+
+      if (isRunTerminal(initial.status)) {
+        send("end", JSON.stringify({ status: initial.status }));
+        close();
+        return;
+      }
+
+      unsubscribe = subscribeToRunProgress(
+        api.url(progressPath),
+        { accessToken, send, heartbeat: () => write(": keep-alive\n\n"), close },
+        initial
+      );
+
+      request.signal.addEventListener("abort", () => {
+        unsubscribe?.();
+        close();
+      });
+    },
+    cancel() {
+      // The consumer already tore the stream down, so the channel must not try to close it again.
+      closed = true;
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, { headers });
+}